@@ -1,5 +1,17 @@
-import { proxyFetch } from "../utils/fetch.js";
+import { httpFetch } from "../utils/http.js";
 import { OHLCV, FundamentalData } from "./types.js";
+import type { DataProvider } from "./provider.js";
+import { EXCHANGE_CALENDARS } from "./sessions.js";
+import { getEodhdQuote } from "./eodhd-realtime.js";
+import { getEodhdIntradayKlines } from "./eodhd-intraday.js";
+import { parseSplitRatio, type CorporateAction } from "./adjust.js";
+import {
+  DAY_MS,
+  fetchKlineWindows,
+  toIsoDate,
+  tradingDaysSpanMs,
+  type KlineRange,
+} from "./range.js";
 
 const EODHD_BASE_URL = "https://eodhd.com/api";
 
@@ -13,23 +25,15 @@ function getApiKey(): string {
   return key;
 }
 
-function getLimitDateRange(limit: number): { from: string; to: string } {
-  const now = new Date();
-  const to = now.toISOString().split("T")[0];
-  // Use 2.5x buffer to account for weekends, holidays (especially Chinese New Year),
-  // and EODHD data lag. 1.2x was too tight — failed when limit=5 during holiday periods.
-  const daysBack = Math.max(Math.ceil(limit * 2.5), 14);
-  const from = new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000);
-  const fromStr = from.toISOString().split("T")[0];
-  return { from: fromStr, to };
-}
+/** Widest from/to window per EOD request; longer ranges are paged */
+const EOD_MAX_SPAN_MS = 10 * 365 * DAY_MS;
 
 /**
  * Normalize A-stock symbol to EODHD format
  * @param symbol - Raw symbol (e.g., "600519" or "600519.SHG")
  * @returns EODHD format symbol (e.g., "600519.SHG")
  */
-function normalizeSymbol(symbol: string): string {
+export function normalizeAStockSymbol(symbol: string): string {
   // Already has exchange suffix
   if (symbol.includes(".")) {
     return symbol;
@@ -45,38 +49,96 @@ function normalizeSymbol(symbol: string): string {
 
 export async function getAStockKlines(
   symbol: string,
-  limit: number = 100
+  limit: number = 100,
+  range: KlineRange = {}
 ): Promise<OHLCV[]> {
   const apiKey = getApiKey();
-  const { from, to } = getLimitDateRange(limit);
-  const eodhSymbol = normalizeSymbol(symbol);
-  
-  const url = `${EODHD_BASE_URL}/eod/${eodhSymbol}?api_token=${apiKey}&fmt=json&from=${from}&to=${to}`;
-  const response = await proxyFetch(url);
-  
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`EODHD API error (${response.status}): ${text}`);
-  }
-  
-  const data = await response.json();
-  if (!Array.isArray(data)) {
-    throw new Error("EODHD API returned unexpected format (expected array)");
-  }
-  
-  const ohlcv: OHLCV[] = data
-    .map((item: any) => ({
-      timestamp: new Date(item.date + "T00:00:00Z").getTime(),
-      open: item.open,
-      high: item.high,
-      low: item.low,
-      close: item.close,
-      volume: item.volume,
-    }))
-    .sort((a: OHLCV, b: OHLCV) => a.timestamp - b.timestamp)
-    .slice(-limit);
-  
-  return ohlcv;
+  const eodhSymbol = normalizeAStockSymbol(symbol);
+
+  const fetchWindow = async (fromTs: number, toTs: number): Promise<OHLCV[]> => {
+    const url = `${EODHD_BASE_URL}/eod/${eodhSymbol}?api_token=${apiKey}&fmt=json&from=${toIsoDate(fromTs)}&to=${toIsoDate(toTs)}`;
+    const response = await httpFetch(url);
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`EODHD API error (${response.status}): ${text}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error("EODHD API returned unexpected format (expected array)");
+    }
+
+    return data
+      .map((item: any) => ({
+        timestamp: new Date(item.date + "T00:00:00Z").getTime(),
+        open: item.open,
+        high: item.high,
+        low: item.low,
+        close: item.close,
+        volume: item.volume,
+      }))
+      .sort((a: OHLCV, b: OHLCV) => a.timestamp - b.timestamp);
+  };
+
+  // Backward paging also absorbs long closures (Chinese New Year) and EODHD data lag
+  return fetchKlineWindows(fetchWindow, limit, range, {
+    initialSpanMs: tradingDaysSpanMs(limit),
+    maxSpanMs: EOD_MAX_SPAN_MS,
+  });
+}
+
+interface EODHDDividend {
+  date: string;              // ex-dividend date
+  value: number;             // adjusted for later splits
+  unadjustedValue?: number;  // as paid
+}
+
+interface EODHDSplit {
+  date: string;
+  split: string;  // "1.300000/1.000000" — 送转 10送3 is 1.3/1
+}
+
+/**
+ * Get A-stock dividend and split (送股/转增) history from EODHD
+ * @param symbol Stock symbol (e.g., "600519" or "600519.SHG")
+ * @returns Corporate actions with unadjusted cash amounts, ascending by ex-date
+ */
+export async function getAStockCorporateActions(symbol: string): Promise<CorporateAction[]> {
+  const apiKey = getApiKey();
+  const eodhSymbol = normalizeAStockSymbol(symbol);
+
+  const fetchList = async <T>(endpoint: string): Promise<T[]> => {
+    const response = await httpFetch(`${EODHD_BASE_URL}/${endpoint}/${eodhSymbol}?api_token=${apiKey}&fmt=json`);
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`EODHD API error (${response.status}): ${text}`);
+    }
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error("EODHD API returned unexpected format (expected array)");
+    }
+    return data;
+  };
+
+  const [dividends, splits] = await Promise.all([
+    fetchList<EODHDDividend>("div"),
+    fetchList<EODHDSplit>("splits"),
+  ]);
+
+  const actions: CorporateAction[] = [
+    ...dividends.map((d): CorporateAction => ({
+      type: "dividend",
+      date: new Date(d.date + "T00:00:00Z").getTime(),
+      amount: d.unadjustedValue ?? d.value,
+    })),
+    ...splits.map((s): CorporateAction => ({
+      type: "split",
+      date: new Date(s.date + "T00:00:00Z").getTime(),
+      ratio: parseSplitRatio(s.split),
+    })),
+  ];
+  return actions.filter((a) => !isNaN(a.date)).sort((a, b) => a.date - b.date);
 }
 
 export async function getAStockFundamentals(
@@ -85,10 +147,10 @@ export async function getAStockFundamentals(
   limit: number = 5
 ): Promise<FundamentalData[]> {
   const apiKey = getApiKey();
-  const eodhSymbol = normalizeSymbol(symbol);
+  const eodhSymbol = normalizeAStockSymbol(symbol);
   
   const url = `${EODHD_BASE_URL}/fundamentals/${eodhSymbol}?api_token=${apiKey}&fmt=json`;
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   
   if (!response.ok) {
     const text = await response.text();
@@ -139,10 +201,13 @@ export async function getAStockFundamentals(
       netIncome: metrics.netIncome ?? null,
       ebitda: metrics.ebitda ?? null,
       eps: metrics.eps ?? null,
+      interestExpense: metrics.interestExpense != null ? parseFloat(metrics.interestExpense) : null,
     };
     
     return {
       period: periodStr,
+      date,
+      currency: metrics.currency_symbol || undefined,
       metrics: metricsRecord,
     };
   });
@@ -163,10 +228,10 @@ export async function getAStockCashFlow(
   limit: number = 5
 ): Promise<FundamentalData[]> {
   const apiKey = getApiKey();
-  const eodhSymbol = normalizeSymbol(symbol);
+  const eodhSymbol = normalizeAStockSymbol(symbol);
   
   const url = `${EODHD_BASE_URL}/fundamentals/${eodhSymbol}?api_token=${apiKey}&fmt=json`;
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   
   if (!response.ok) {
     const text = await response.text();
@@ -226,6 +291,8 @@ export async function getAStockCashFlow(
     
     return {
       period: periodStr,
+      date,
+      currency: metrics.currency_symbol || undefined,
       metrics: metricsRecord,
     };
   });
@@ -233,6 +300,102 @@ export async function getAStockCashFlow(
   return cashFlowData;
 }
 
+/** EODHD reports statement values as numeric strings, empty ones as null */
+function parseStatementValue(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = parseFloat(String(value));
+  return isNaN(n) ? null : n;
+}
+
+/**
+ * Get A-stock balance sheet data from EODHD
+ * @param symbol Stock symbol (e.g., "600519" or "600519.SHG")
+ * @param period "annual" or "quarter"
+ * @param limit Number of periods to return (default: 5)
+ * @returns Array of FundamentalData
+ */
+export async function getAStockBalanceSheet(
+  symbol: string,
+  period: "annual" | "quarter" = "annual",
+  limit: number = 5
+): Promise<FundamentalData[]> {
+  const apiKey = getApiKey();
+  const eodhSymbol = normalizeAStockSymbol(symbol);
+  
+  const url = `${EODHD_BASE_URL}/fundamentals/${eodhSymbol}?api_token=${apiKey}&fmt=json`;
+  const response = await httpFetch(url);
+  
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`EODHD API error (${response.status}): ${text}`);
+  }
+  
+  const data = await response.json();
+  
+  const financials = data?.Financials;
+  if (!financials) {
+    throw new Error("No Financials section found in EODHD response");
+  }
+  
+  const balanceSheet = period === "annual" 
+    ? financials.Balance_Sheet?.yearly 
+    : financials.Balance_Sheet?.quarterly;
+  
+  if (!balanceSheet) {
+    throw new Error(`No ${period} Balance_Sheet data found`);
+  }
+  
+  const entries = Object.entries(balanceSheet)
+    .sort(([dateA], [dateB]) => dateB.localeCompare(dateA))
+    .slice(0, limit);
+  
+  const balanceSheetData: FundamentalData[] = entries.map(([date, metrics]: [string, any]) => {
+    const year = date.split("-")[0];
+    let periodStr: string;
+    
+    if (period === "quarter") {
+      const month = parseInt(date.split("-")[1]);
+      const quarter = Math.ceil(month / 3);
+      periodStr = `${year}-Q${quarter}`;
+    } else {
+      periodStr = year;
+    }
+    
+    const equity = parseStatementValue(metrics.totalStockholderEquity);
+    const cash = parseStatementValue(metrics.cashAndEquivalents) ?? parseStatementValue(metrics.cash);
+    const shortDebt = parseStatementValue(metrics.shortLongTermDebt);
+    const longDebt = parseStatementValue(metrics.longTermDebt);
+    const totalDebt = parseStatementValue(metrics.shortLongTermDebtTotal)
+      ?? (shortDebt !== null || longDebt !== null ? (shortDebt ?? 0) + (longDebt ?? 0) : null);
+    const currentAssets = parseStatementValue(metrics.totalCurrentAssets);
+    const currentLiabilities = parseStatementValue(metrics.totalCurrentLiabilities);
+    const shares = parseStatementValue(metrics.commonStockSharesOutstanding);
+    
+    const metricsRecord: Record<string, number | null> = {
+      totalAssets: parseStatementValue(metrics.totalAssets),
+      totalLiabilities: parseStatementValue(metrics.totalLiab),
+      totalEquity: equity,
+      cashAndEquivalents: cash,
+      totalDebt,
+      netDebt: parseStatementValue(metrics.netDebt) ?? (totalDebt !== null && cash !== null ? totalDebt - cash : null),
+      debtToEquity: totalDebt !== null && equity ? totalDebt / equity : null,
+      workingCapital: parseStatementValue(metrics.netWorkingCapital)
+        ?? (currentAssets !== null && currentLiabilities !== null ? currentAssets - currentLiabilities : null),
+      sharesOutstanding: shares,
+      bookValuePerShare: equity !== null && shares ? equity / shares : null,
+    };
+    
+    return {
+      period: periodStr,
+      date,
+      currency: metrics.currency_symbol || undefined,
+      metrics: metricsRecord,
+    };
+  });
+  
+  return balanceSheetData;
+}
+
 /**
  * Get A-stock key metrics from EODHD
  * @param symbol Stock symbol (e.g., "600519" or "600519.SHG")
@@ -240,10 +403,10 @@ export async function getAStockCashFlow(
  */
 export async function getAStockKeyMetrics(symbol: string): Promise<FundamentalData> {
   const apiKey = getApiKey();
-  const eodhSymbol = normalizeSymbol(symbol);
+  const eodhSymbol = normalizeAStockSymbol(symbol);
   
   const url = `${EODHD_BASE_URL}/fundamentals/${eodhSymbol}?api_token=${apiKey}&fmt=json`;
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   
   if (!response.ok) {
     const text = await response.text();
@@ -287,3 +450,27 @@ export async function getAStockKeyMetrics(symbol: string): Promise<FundamentalDa
     metrics: metricsRecord,
   };
 }
+
+export const aStockProvider: DataProvider = {
+  id: "eodhd",
+  market: "a_stock",
+  label: "A-stock",
+  calendar: EXCHANGE_CALENDARS.cn,
+  capabilities: {
+    // EODHD EOD endpoint for 1d, intraday endpoint below that
+    timeframes: ["1m", "5m", "15m", "1h", "4h", "1d"],
+    fundamentals: true,
+    dcf: false,
+    estimates: false,
+  },
+  getKlines: (symbol, timeframe, limit, options = {}) => timeframe === "1d"
+    ? getAStockKlines(symbol, limit, options)
+    : getEodhdIntradayKlines(normalizeAStockSymbol(symbol), timeframe, limit, EXCHANGE_CALENDARS.cn, options.session, options),
+  getQuote: (symbol) => getEodhdQuote(normalizeAStockSymbol(symbol)),
+  getCorporateActions: getAStockCorporateActions,
+  getFundamentals: getAStockFundamentals,
+  getCashFlow: getAStockCashFlow,
+  getBalanceSheet: getAStockBalanceSheet,
+  // EODHD only exposes the latest snapshot, wrap it in an array
+  getKeyMetrics: async (symbol) => [await getAStockKeyMetrics(symbol)],
+};
@@ -0,0 +1,148 @@
+/**
+ * Corporate-action price adjustment.
+ *
+ * Providers serve raw, as-traded bars plus the split and cash-dividend history;
+ * adjustment is applied on top (after the kline cache) so a new dividend that
+ * rescales the past never leaves stale adjusted bars on disk.
+ *
+ * Ratio method: a split of `r` new shares per old share scales earlier prices
+ * by 1/r and earlier volume by r; a cash dividend `D` whose ex-date follows a
+ * close of `P` scales earlier prices by (P - D) / P.
+ *
+ *   split            — splits only, anchored at today (recent bars as traded)
+ *   split+dividend   — splits and dividends, anchored at today
+ *   qfq (前复权)      — A-share name for split+dividend
+ *   hfq (后复权)      — splits and dividends anchored at listing: bars before
+ *                      the first action are as traded, later ones scaled up
+ */
+
+import type { OHLCV } from "./types.js";
+
+export type PriceAdjustment = "none" | "split" | "split+dividend" | "qfq" | "hfq";
+
+export type CorporateAction =
+  | { type: "split"; date: number; ratio: number }      // ex-date (UTC midnight ms), new shares per old share
+  | { type: "dividend"; date: number; amount: number }; // ex-date (UTC midnight ms), cash per share, unadjusted
+
+/** One ex-date's effect on bars before it */
+export interface AdjustmentEvent {
+  date: number;
+  priceFactor: number;
+  volumeFactor: number;
+}
+
+/** Close of the last session before an ex-date, or undefined if unknown */
+export type ReferenceCloseLookup = (exDate: number) => number | undefined;
+
+export function usesDividends(mode: PriceAdjustment): boolean {
+  return mode === "split+dividend" || mode === "qfq" || mode === "hfq";
+}
+
+/**
+ * Corporate actions that can move bars in [first, last]: anything after the
+ * first bar for today-anchored modes, anything up to the last bar for hfq.
+ * Actions with a future ex-date are ignored.
+ */
+export function relevantActions(
+  actions: CorporateAction[],
+  mode: PriceAdjustment,
+  first: number,
+  last: number,
+  now: number = Date.now()
+): CorporateAction[] {
+  if (mode === "none") return [];
+  return actions
+    .filter((a) => a.type === "split" || usesDividends(mode))
+    .filter((a) => a.date <= now && (mode === "hfq" ? a.date <= last : a.date > first))
+    .sort((a, b) => a.date - b.date);
+}
+
+/**
+ * Close of the last bar strictly before `exDate`, if the series spans the
+ * ex-date (daily bars only — intraday closes can be after-hours prints).
+ */
+export function findReferenceClose(candles: OHLCV[], exDate: number): number | undefined {
+  let ref: OHLCV | undefined;
+  for (const c of candles) {
+    if (c.timestamp >= exDate) return ref?.close;
+    ref = c;
+  }
+  return undefined;
+}
+
+/**
+ * Turn corporate actions into per-ex-date factors.
+ * Dividends without a usable reference close are skipped rather than guessed.
+ */
+export function buildAdjustmentEvents(
+  actions: CorporateAction[],
+  referenceClose: ReferenceCloseLookup
+): AdjustmentEvent[] {
+  const events: AdjustmentEvent[] = [];
+  for (const action of actions) {
+    if (action.type === "split") {
+      if (action.ratio > 0 && action.ratio !== 1) {
+        events.push({ date: action.date, priceFactor: 1 / action.ratio, volumeFactor: action.ratio });
+      }
+      continue;
+    }
+    const close = referenceClose(action.date);
+    if (close === undefined || close <= action.amount || action.amount <= 0) continue;
+    events.push({ date: action.date, priceFactor: (close - action.amount) / close, volumeFactor: 1 });
+  }
+  return events.sort((a, b) => a.date - b.date);
+}
+
+/**
+ * Apply adjustment factors to OHLC and volume.
+ * @param candles Ascending raw bars
+ * @param events Factors from buildAdjustmentEvents
+ * @param mode Anchor: hfq scales bars on/after each ex-date, other modes scale bars before it
+ * @returns New adjusted bars (input untouched)
+ */
+export function adjustCandles(
+  candles: OHLCV[],
+  events: AdjustmentEvent[],
+  mode: PriceAdjustment
+): OHLCV[] {
+  if (mode === "none" || events.length === 0) return candles;
+
+  // Multipliers for bars before every event: as traded for hfq, the product
+  // of all factors otherwise. Each ex-date passed then undoes its own factor.
+  let price = 1;
+  let volume = 1;
+  if (mode !== "hfq") {
+    for (const e of events) {
+      price *= e.priceFactor;
+      volume *= e.volumeFactor;
+    }
+  }
+
+  let next = 0;
+  return candles.map((c) => {
+    while (next < events.length && events[next].date <= c.timestamp) {
+      const e = events[next++];
+      price /= e.priceFactor;
+      volume /= e.volumeFactor;
+    }
+    return {
+      ...c,
+      open: c.open * price,
+      high: c.high * price,
+      low: c.low * price,
+      close: c.close * price,
+      volume: c.volume * volume,
+    };
+  });
+}
+
+/**
+ * Parse "4.000000/1.000000" or "4:1" split notation into new shares per old share.
+ * @returns ratio, or NaN if unparseable
+ */
+export function parseSplitRatio(value: string): number {
+  const m = value.trim().match(/^([\d.]+)\s*[/:]\s*([\d.]+)$/);
+  if (!m) return NaN;
+  const ratio = parseFloat(m[1]) / parseFloat(m[2]);
+  return isFinite(ratio) ? ratio : NaN;
+}
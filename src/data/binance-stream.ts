@@ -0,0 +1,341 @@
+/**
+ * Live Binance klines and 24h tickers over one combined-stream WebSocket.
+ *
+ * Each subscription keeps an in-memory rolling OHLCV[] (or the latest
+ * ticker), seeded from REST and updated on every push: the forming candle is
+ * replaced in place, a new open time appends and the oldest bar drops off.
+ * The socket opens with the first subscription, closes with the last, and
+ * reconnects with backoff, re-seeding from REST to cover the gap.
+ */
+
+import type { WebSocket } from "undici";
+import { proxyWebSocket } from "../utils/fetch.js";
+import { getCryptoKlines, getCryptoQuote, cryptoProvider } from "./crypto.js";
+import { mergeCandles } from "./cache.js";
+import type { OHLCV, QuoteSnapshot, Timeframe } from "./types.js";
+
+const BINANCE_STREAM_URL = "wss://stream.binance.com:9443/stream";
+
+/** Candles kept per kline subscription */
+const DEFAULT_MAX_CANDLES = 500;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+/** Binance answers SUBSCRIBE/UNSUBSCRIBE with {result, id}; give up on a request after this */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface LiveKlines {
+  symbol: string;
+  timeframe: Timeframe;
+  candles: OHLCV[];
+  closed: boolean;      // the last push closed its candle
+  updatedAt: number;
+}
+
+export interface LiveTicker {
+  symbol: string;
+  quote: QuoteSnapshot;
+  updatedAt: number;
+}
+
+export interface LiveStreamOptions {
+  url?: string;             // combined-stream endpoint (a local fake server in tests)
+  maxCandles?: number;
+  reconnectMs?: number;     // first reconnect delay, doubled up to 30s
+}
+
+export interface LiveStreams {
+  /** Resolves once seeded and subscribed; call the returned function to unsubscribe */
+  subscribeKlines(symbol: string, timeframe: Timeframe, listener: (update: LiveKlines) => void): Promise<() => void>;
+  subscribeTicker(symbol: string, listener: (update: LiveTicker) => void): Promise<() => void>;
+  getKlines(symbol: string, timeframe: Timeframe): LiveKlines | undefined;
+  getTicker(symbol: string): LiveTicker | undefined;
+  /** Subscribed stream names, e.g. "btcusdt@kline_1m" */
+  active(): string[];
+  /** Drop every subscription and the socket */
+  close(): void;
+}
+
+type Listener = (update: LiveKlines | LiveTicker) => void;
+
+interface Stream {
+  name: string;
+  symbol: string;
+  timeframe?: Timeframe;    // klines only
+  listeners: Set<Listener>;
+  state?: LiveKlines | LiveTicker;
+  ready?: Promise<void>;    // seeded and the SUBSCRIBE acknowledged
+}
+
+const klineStreamName = (symbol: string, timeframe: Timeframe) => `${symbol.toLowerCase()}@kline_${timeframe}`;
+const tickerStreamName = (symbol: string) => `${symbol.toLowerCase()}@ticker`;
+
+/** Timeframes with a native Binance kline stream */
+export function isLiveTimeframe(timeframe: string): timeframe is Timeframe {
+  return (cryptoProvider.capabilities.timeframes as string[]).includes(timeframe);
+}
+
+function candleFromKline(k: any): OHLCV {
+  return {
+    timestamp: k.t,
+    open: parseFloat(k.o),
+    high: parseFloat(k.h),
+    low: parseFloat(k.l),
+    close: parseFloat(k.c),
+    volume: parseFloat(k.v),
+  };
+}
+
+/** Same fields as the REST 24h ticker in getCryptoQuote */
+function quoteFromTicker(t: any): QuoteSnapshot {
+  return {
+    symbol: t.s,
+    price: parseFloat(t.c),
+    change: parseFloat(t.p),
+    changePercent: parseFloat(t.P),
+    previousClose: parseFloat(t.o),
+    open: parseFloat(t.o),
+    dayHigh: parseFloat(t.h),
+    dayLow: parseFloat(t.l),
+    volume: parseFloat(t.v),
+    timestamp: t.C,
+    delayed: false,
+  };
+}
+
+/** Replace the forming candle or append a new one, keeping the last `max` */
+function applyCandle(candles: OHLCV[], candle: OHLCV, max: number): OHLCV[] {
+  const last = candles[candles.length - 1];
+  if (last && candle.timestamp < last.timestamp) return candles;
+  const next = last?.timestamp === candle.timestamp ? [...candles.slice(0, -1), candle] : [...candles, candle];
+  return next.length > max ? next.slice(-max) : next;
+}
+
+export function createLiveStreams(options: LiveStreamOptions = {}): LiveStreams {
+  const url = options.url ?? BINANCE_STREAM_URL;
+  const maxCandles = options.maxCandles ?? DEFAULT_MAX_CANDLES;
+  const reconnectBase = options.reconnectMs ?? RECONNECT_BASE_MS;
+
+  const streams = new Map<string, Stream>();
+  let socket: WebSocket | null = null;
+  let connecting: Promise<WebSocket> | null = null;
+  // Stream name → the ack of the SUBSCRIBE that carried it on the current socket
+  let subscribed = new Map<string, Promise<void>>();
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let requestId = 0;
+  const pending = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+
+  /** Send a request; resolves with Binance's ack for its id */
+  const send = (method: "SUBSCRIBE" | "UNSUBSCRIBE", params: string[]): Promise<void> => {
+    if (params.length === 0 || socket?.readyState !== 1) return Promise.resolve();
+    const id = ++requestId;
+    const ack = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`No reply from Binance to ${method} ${params.join(", ")}`));
+      }, REQUEST_TIMEOUT_MS);
+      timer.unref?.();
+      pending.set(id, {
+        resolve: () => { clearTimeout(timer); resolve(); },
+        reject: (error) => { clearTimeout(timer); reject(error); },
+      });
+    });
+    // Only subscribers wait on acks; the rest shouldn't surface as unhandled
+    ack.catch(() => {});
+    socket.send(JSON.stringify({ method, params, id }));
+    return ack;
+  };
+
+  /** Requests in flight on a socket that went away get no reply */
+  const failPending = () => {
+    for (const request of pending.values()) request.reject(new Error("Live stream disconnected"));
+    pending.clear();
+  };
+
+  const notify = (stream: Stream) => {
+    for (const listener of stream.listeners) listener(stream.state!);
+  };
+
+  async function seed(stream: Stream, merge: "keep-live" | "prefer-rest"): Promise<void> {
+    if (stream.timeframe) {
+      const rest = await getCryptoKlines(stream.symbol, stream.timeframe, maxCandles);
+      const live = (stream.state as LiveKlines | undefined)?.candles ?? [];
+      const candles = merge === "keep-live" ? mergeCandles(rest, live) : mergeCandles(live, rest);
+      stream.state = {
+        symbol: stream.symbol,
+        timeframe: stream.timeframe,
+        candles: candles.slice(-maxCandles),
+        closed: (stream.state as LiveKlines | undefined)?.closed ?? false,
+        updatedAt: Date.now(),
+      };
+    } else if (!stream.state || merge === "prefer-rest") {
+      stream.state = { symbol: stream.symbol, quote: await getCryptoQuote(stream.symbol), updatedAt: Date.now() };
+    }
+  }
+
+  function onMessage(raw: string) {
+    let stream: Stream | undefined;
+    try {
+      const message = JSON.parse(raw);
+      if (!message.stream && message.id !== undefined) {
+        const request = pending.get(message.id);
+        pending.delete(message.id);
+        if (message.error) request?.reject(new Error(`Binance: ${message.error.msg ?? "request failed"}`));
+        else request?.resolve();
+        return;
+      }
+      stream = message.stream ? streams.get(message.stream) : undefined;
+      if (!stream) return;  // streams we've since dropped
+      const data = message.data;
+      if (stream.timeframe) {
+        const prev = stream.state as LiveKlines | undefined;
+        stream.state = {
+          symbol: stream.symbol,
+          timeframe: stream.timeframe,
+          candles: applyCandle(prev?.candles ?? [], candleFromKline(data.k), maxCandles),
+          closed: Boolean(data.k.x),
+          updatedAt: Date.now(),
+        };
+      } else {
+        stream.state = { symbol: stream.symbol, quote: quoteFromTicker(data), updatedAt: Date.now() };
+      }
+    } catch {
+      // Not JSON or not the event we expect; throwing from the socket listener would take down the server
+      return;
+    }
+    notify(stream);
+  }
+
+  function scheduleReconnect() {
+    if (reconnectTimer || streams.size === 0) return;
+    const delay = Math.min(reconnectBase * 2 ** attempts, RECONNECT_MAX_MS);
+    attempts++;
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      try {
+        await ensureSocket();
+        // Bars that closed while we were away come from REST
+        await Promise.all([...streams.values()].map(async (stream) => {
+          try {
+            await seed(stream, "prefer-rest");
+            notify(stream);
+          } catch {
+            // The next push brings the stream current again
+          }
+        }));
+      } catch {
+        scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  function ensureSocket(): Promise<WebSocket> {
+    if (socket) return Promise.resolve(socket);
+    connecting ??= proxyWebSocket(url)
+      .then((ws) => {
+        if (streams.size === 0) {
+          // Everyone unsubscribed while we were connecting
+          ws.close();
+          throw new Error("Live stream closed");
+        }
+        socket = ws;
+        attempts = 0;
+        ws.addEventListener("message", (event) => onMessage(String(event.data)));
+        ws.addEventListener("close", () => {
+          if (socket !== ws) return;
+          socket = null;
+          subscribed = new Map();
+          failPending();
+          scheduleReconnect();
+        });
+        const names = [...streams.keys()];
+        const ack = send("SUBSCRIBE", names);
+        subscribed = new Map(names.map((name) => [name, ack]));
+        return ws;
+      })
+      .finally(() => {
+        connecting = null;
+      });
+    return connecting;
+  }
+
+  function closeSocket() {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    const ws = socket;
+    socket = null;
+    subscribed = new Map();
+    failPending();
+    ws?.close();
+  }
+
+  function drop(stream: Stream) {
+    if (streams.get(stream.name) !== stream) return;
+    streams.delete(stream.name);
+    if (subscribed.delete(stream.name)) send("UNSUBSCRIBE", [stream.name]);
+    if (streams.size === 0) closeSocket();
+  }
+
+  function unsubscribe(stream: Stream, listener: Listener) {
+    stream.listeners.delete(listener);
+    if (stream.listeners.size === 0) drop(stream);
+  }
+
+  async function subscribe(name: string, symbol: string, timeframe: Timeframe | undefined, listener: Listener): Promise<() => void> {
+    let stream = streams.get(name);
+    if (!stream) {
+      const created: Stream = { name, symbol: symbol.toUpperCase(), timeframe, listeners: new Set() };
+      streams.set(name, created);
+      created.ready = (async () => {
+        // Subscribe first so no push between the REST snapshot and the stream is lost
+        await ensureSocket();
+        if (!subscribed.has(name)) {
+          subscribed.set(name, send("SUBSCRIBE", [name]));
+        }
+        // Pushes only flow once Binance has acknowledged the subscription
+        await subscribed.get(name);
+        await seed(created, "keep-live");
+      })();
+      // Every waiting subscriber gets the error; the stream goes away
+      created.ready.catch(() => drop(created));
+      stream = created;
+    }
+    stream.listeners.add(listener);
+    try {
+      await stream.ready;
+    } catch (error) {
+      stream.listeners.delete(listener);
+      throw error;
+    }
+    const subscribedStream = stream;
+    return () => unsubscribe(subscribedStream, listener);
+  }
+
+  return {
+    subscribeKlines(symbol, timeframe, listener) {
+      if (!isLiveTimeframe(timeframe)) {
+        return Promise.reject(new Error(`No live stream for timeframe ${timeframe}`));
+      }
+      return subscribe(klineStreamName(symbol, timeframe), symbol, timeframe, listener as Listener);
+    },
+    subscribeTicker(symbol, listener) {
+      return subscribe(tickerStreamName(symbol), symbol, undefined, listener as Listener);
+    },
+    getKlines(symbol, timeframe) {
+      return streams.get(klineStreamName(symbol, timeframe))?.state as LiveKlines | undefined;
+    },
+    getTicker(symbol) {
+      return streams.get(tickerStreamName(symbol))?.state as LiveTicker | undefined;
+    },
+    active() {
+      return [...streams.keys()];
+    },
+    close() {
+      streams.clear();
+      closeSocket();
+    },
+  };
+}
+
+/** Shared streams for the MCP resources; GAINLAB_BINANCE_WS_URL points them elsewhere */
+export const liveStreams = createLiveStreams({ url: process.env.GAINLAB_BINANCE_WS_URL });
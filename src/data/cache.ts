@@ -0,0 +1,242 @@
+/**
+ * Persistent local OHLCV cache.
+ *
+ * One JSON file per (market, symbol, timeframe) under GAINLAB_CACHE_DIR
+ * (default ~/.gainlab/cache/klines). Closed candles never change, so on a
+ * repeat request only the tail since the last cached bar is fetched and merged.
+ * The last (still-forming) candle is trusted for a short per-timeframe TTL.
+ *
+ * Env:
+ *   GAINLAB_CACHE=off          — disable the cache entirely
+ *   GAINLAB_CACHE_DIR=...      — cache directory
+ *   GAINLAB_CACHE_TTL=1d=600   — override TTL seconds, e.g. "60" or "1m=10,1d=900"
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { Market, OHLCV, Timeframe } from "./types.js";
+
+/** use = serve from cache + top up, bypass = ignore cache, refresh = refetch and overwrite */
+export type KlineCacheMode = "use" | "bypass" | "refresh";
+
+export interface KlineCacheKey {
+  symbol: string;
+  market: Market;
+  timeframe: Timeframe;
+  variant?: string;  // distinguishes differently-shaped series, e.g. "extended" session
+}
+
+interface KlineCacheEntry extends KlineCacheKey {
+  updatedAt: number;  // Unix ms of the last successful upstream fetch
+  candles: OHLCV[];
+}
+
+/** Fetches the most recent `limit` candles from the upstream provider */
+export type KlineFetcher = (limit: number) => Promise<OHLCV[]>;
+
+/** Approximate bar duration per timeframe (1M uses 30 days) */
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "1h": 3_600_000,
+  "4h": 4 * 3_600_000,
+  "1d": 86_400_000,
+  "1w": 7 * 86_400_000,
+  "1M": 30 * 86_400_000,
+};
+
+/** How long the still-forming last candle is considered fresh */
+const DEFAULT_TTL_MS: Record<Timeframe, number> = {
+  "1m": 15_000,
+  "5m": 60_000,
+  "15m": 2 * 60_000,
+  "1h": 5 * 60_000,
+  "4h": 15 * 60_000,
+  "1d": 30 * 60_000,
+  "1w": 2 * 3_600_000,
+  "1M": 6 * 3_600_000,
+};
+
+/** Upper bound on candles kept per file */
+const MAX_CACHED_CANDLES = 5000;
+
+export function isKlineCacheEnabled(): boolean {
+  const flag = (process.env.GAINLAB_CACHE || "").toLowerCase();
+  return flag !== "off" && flag !== "0" && flag !== "false";
+}
+
+function getCacheDir(): string {
+  return process.env.GAINLAB_CACHE_DIR || join(homedir(), ".gainlab", "cache", "klines");
+}
+
+/**
+ * Resolve the forming-candle TTL for a timeframe.
+ * GAINLAB_CACHE_TTL accepts a single number of seconds or "tf=seconds" pairs.
+ */
+export function getCacheTTL(timeframe: Timeframe): number {
+  const raw = process.env.GAINLAB_CACHE_TTL;
+  if (raw) {
+    for (const part of raw.split(",")) {
+      const [lhs, rhs] = part.split("=").map((s) => s.trim());
+      if (rhs === undefined) {
+        const seconds = parseFloat(lhs);
+        if (!isNaN(seconds)) return seconds * 1000;
+      } else if (lhs === timeframe) {
+        const seconds = parseFloat(rhs);
+        if (!isNaN(seconds)) return seconds * 1000;
+      }
+    }
+  }
+  return DEFAULT_TTL_MS[timeframe];
+}
+
+function sanitize(part: string): string {
+  return part.replace(/[^A-Za-z0-9._-]/g, "_");
+}
+
+function getFileStem(symbol: string, timeframe: Timeframe): string {
+  // "1m" and "1M" would collide on case-insensitive filesystems (macOS)
+  const tf = timeframe === "1M" ? "1mo" : timeframe;
+  return `${sanitize(symbol.toUpperCase())}_${tf}`;
+}
+
+function getEntryPath(key: KlineCacheKey): string {
+  const variant = key.variant ? `@${sanitize(key.variant)}` : "";
+  return join(getCacheDir(), key.market, `${getFileStem(key.symbol, key.timeframe)}${variant}.json`);
+}
+
+async function readEntry(key: KlineCacheKey): Promise<KlineCacheEntry | null> {
+  try {
+    const raw = await readFile(getEntryPath(key), "utf8");
+    const entry = JSON.parse(raw) as KlineCacheEntry;
+    if (!Array.isArray(entry.candles) || typeof entry.updatedAt !== "number") {
+      return null;
+    }
+    return entry;
+  } catch {
+    // Missing or corrupt file → treat as cache miss
+    return null;
+  }
+}
+
+async function writeEntry(entry: KlineCacheEntry): Promise<void> {
+  const path = getEntryPath(entry);
+  const dir = join(getCacheDir(), entry.market);
+  try {
+    await mkdir(dir, { recursive: true });
+    // Write-then-rename so a crash never leaves a half-written file
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry));
+    await rename(tmp, path);
+  } catch (error: any) {
+    console.error(`Kline cache write failed for ${entry.symbol}:`, error.message);
+  }
+}
+
+/**
+ * Merge two ascending candle arrays by timestamp.
+ * Candles from `incoming` replace cached ones with the same timestamp.
+ */
+export function mergeCandles(cached: OHLCV[], incoming: OHLCV[]): OHLCV[] {
+  const byTs = new Map<number, OHLCV>();
+  for (const c of cached) byTs.set(c.timestamp, c);
+  for (const c of incoming) byTs.set(c.timestamp, c);
+  return Array.from(byTs.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Serve `limit` candles for a key, consulting the disk cache first.
+ *
+ * - Fresh cache (within TTL) with enough candles → no network.
+ * - Stale cache with enough candles → fetch only the missing tail
+ *   (bars elapsed since the last cached bar, plus the last bar itself).
+ * - Otherwise (miss, too short, or tail doesn't overlap) → full fetch.
+ */
+export async function getCachedKlines(
+  key: KlineCacheKey,
+  limit: number,
+  fetcher: KlineFetcher,
+  mode: KlineCacheMode = "use"
+): Promise<OHLCV[]> {
+  if (mode === "bypass" || !isKlineCacheEnabled()) {
+    return fetcher(limit);
+  }
+
+  const now = Date.now();
+  const entry = mode === "refresh" ? null : await readEntry(key);
+
+  if (entry && entry.candles.length >= limit) {
+    if (now - entry.updatedAt < getCacheTTL(key.timeframe)) {
+      return entry.candles.slice(-limit);
+    }
+
+    const lastTs = entry.candles[entry.candles.length - 1].timestamp;
+    const elapsedBars = Math.ceil((now - lastTs) / TIMEFRAME_MS[key.timeframe]);
+    const tailLimit = Math.min(limit, Math.max(elapsedBars + 1, 2));
+    const tail = await fetcher(tailLimit);
+
+    // The tail must reach back to the cached range, otherwise there's a hole
+    const overlaps = tail.length === 0 || tail[0].timestamp <= lastTs || tail.length < tailLimit;
+    if (overlaps) {
+      const candles = mergeCandles(entry.candles, tail).slice(-MAX_CACHED_CANDLES);
+      await writeEntry({ ...key, updatedAt: now, candles });
+      return candles.slice(-limit);
+    }
+  }
+
+  const fresh = await fetcher(limit);
+  if (fresh.length > 0) {
+    // Keep older cached history when the new window is contiguous with it
+    const base = entry && entry.candles.length > 0 &&
+      entry.candles[entry.candles.length - 1].timestamp >= fresh[0].timestamp
+      ? entry.candles
+      : [];
+    const candles = mergeCandles(base, fresh).slice(-MAX_CACHED_CANDLES);
+    await writeEntry({ ...key, updatedAt: now, candles });
+  }
+  return fresh;
+}
+
+/**
+ * Delete cached kline files.
+ * With no filter the whole cache is wiped; otherwise only matching entries.
+ * @returns Number of files removed
+ */
+export async function purgeKlineCache(filter: Partial<KlineCacheKey> = {}): Promise<number> {
+  const root = getCacheDir();
+  let markets: string[];
+  try {
+    markets = filter.market ? [filter.market] : await readdir(root);
+  } catch {
+    return 0;
+  }
+
+  const timeframes = filter.timeframe
+    ? [filter.timeframe]
+    : (Object.keys(TIMEFRAME_MS) as Timeframe[]);
+  // Matches "<stem>.json" and variants "<stem>@<variant>.json"
+  const stemOf = (file: string) => file.replace(/(@[^@]*)?\.json$/, "");
+  const matches = (file: string): boolean => file.endsWith(".json") && timeframes.some((tf) =>
+    filter.symbol
+      ? stemOf(file) === getFileStem(filter.symbol, tf)
+      : stemOf(file).endsWith(getFileStem("", tf))
+  );
+
+  let removed = 0;
+  for (const market of markets) {
+    let files: string[];
+    try {
+      files = await readdir(join(root, market));
+    } catch {
+      continue;
+    }
+    for (const file of files) {
+      if (!matches(file)) continue;
+      await rm(join(root, market, file), { force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,253 @@
+/**
+ * Earnings, dividend, split and macro calendar from EODHD.
+ *
+ * Endpoints:
+ *   /calendar/earnings  — report dates with EPS estimate/actual (by symbols, or all)
+ *   /calendar/splits    — announced and past splits (market-wide)
+ *   /div/{symbol}       — declared dividends per symbol (ex-dates)
+ *   /economic-events    — macro releases by country
+ * EODHD doesn't rate macro releases, so importance comes from a keyword list
+ * of the releases that usually move markets.
+ */
+
+import { httpFetch } from "../utils/http.js";
+import type { CalendarEvent, CalendarEventType, EventImportance, Market } from "./types.js";
+import { normalizeAStockSymbol } from "./a-stock.js";
+import { toEodhdUSSymbol } from "./fallbacks.js";
+import { canonicalSymbol } from "./resolver.js";
+
+const EODHD_BASE_URL = "https://eodhd.com/api";
+
+function getApiKey(): string {
+  const key = process.env.EODHD_API_KEY;
+  if (!key) {
+    throw new Error(
+      "EODHD_API_KEY not found. Please set it in ~/.openclaw/.env"
+    );
+  }
+  return key;
+}
+
+export const CALENDAR_EVENT_TYPES: CalendarEventType[] = ["earnings", "dividend", "split", "macro"];
+
+const IMPORTANCE_RANK: Record<EventImportance, number> = { low: 0, medium: 1, high: 2 };
+
+/** Macro releases by country; crypto and metals trade on US data */
+const MARKET_COUNTRY: Record<Market, string | null> = {
+  us_stock: "US",
+  a_stock: "CN",
+  crypto: "US",
+  commodity: "US",
+  local: null,
+};
+
+/** Exchange suffixes of each equity market's tickers on EODHD */
+const MARKET_SUFFIXES: Partial<Record<Market, string[]>> = {
+  us_stock: [".US"],
+  a_stock: [".SHG", ".SHE"],
+};
+
+const HIGH_IMPACT = [
+  /non[- ]?farm/i,
+  /\bcpi\b|consumer price/i,
+  /interest rate decision|fomc|fed funds|loan prime rate/i,
+  /\bgdp\b|gross domestic/i,
+  /unemployment rate/i,
+  /\bpce\b|personal consumption/i,
+  /retail sales/i,
+];
+
+const MEDIUM_IMPACT = [
+  /\bpmi\b|\bism\b|purchasing managers/i,
+  /\bppi\b|producer price/i,
+  /jobless claims/i,
+  /consumer confidence|consumer sentiment/i,
+  /durable goods/i,
+  /industrial production/i,
+  /housing starts|home sales|building permits/i,
+  /trade balance/i,
+  /\bjolts\b|job openings/i,
+];
+
+/** Rate a macro release by name */
+export function rateMacroImportance(name: string): EventImportance {
+  if (HIGH_IMPACT.some((re) => re.test(name))) return "high";
+  if (MEDIUM_IMPACT.some((re) => re.test(name))) return "medium";
+  return "low";
+}
+
+/** Company events: earnings move the stock, splits are known well ahead, dividends rarely matter */
+const COMPANY_IMPORTANCE: Record<Exclude<CalendarEventType, "macro">, EventImportance> = {
+  earnings: "high",
+  split: "medium",
+  dividend: "low",
+};
+
+export interface CalendarQuery {
+  market: Market;
+  from: string;                      // YYYY-MM-DD, inclusive
+  to: string;                        // YYYY-MM-DD, inclusive
+  symbols?: string[];                // company events for these only; market-wide otherwise
+  types?: CalendarEventType[];       // default all
+  minImportance?: EventImportance;   // default "low"
+}
+
+export interface CalendarResult {
+  events: CalendarEvent[];  // sorted by date, then time
+  errors: string[];         // sources that failed; the rest are still returned
+}
+
+async function fetchEodhd(path: string, params: Record<string, string>): Promise<any> {
+  const query = new URLSearchParams({ ...params, api_token: getApiKey(), fmt: "json" });
+  const response = await httpFetch(`${EODHD_BASE_URL}${path}?${query}`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`EODHD API error (${response.status}): ${text}`);
+  }
+  return response.json();
+}
+
+/** Ticker as EODHD expects it for the market */
+function toEodhdSymbol(symbol: string, market: Market): string {
+  const canonical = canonicalSymbol(symbol, market);
+  return market === "us_stock" ? toEodhdUSSymbol(canonical) : normalizeAStockSymbol(canonical);
+}
+
+/** Ticker as users write it: US without ".US", A-shares with exchange suffix */
+function fromEodhdSymbol(code: string, market: Market): string {
+  return market === "us_stock" ? code.replace(/\.US$/i, "") : code;
+}
+
+function belongsTo(code: string, market: Market): boolean {
+  return (MARKET_SUFFIXES[market] ?? []).some((suffix) => code.toUpperCase().endsWith(suffix));
+}
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === "" || isNaN(Number(value)) ? null : Number(value);
+
+async function getEarnings(query: CalendarQuery, codes: string[] | null): Promise<CalendarEvent[]> {
+  const data = await fetchEodhd("/calendar/earnings", {
+    from: query.from,
+    to: query.to,
+    ...(codes && { symbols: codes.join(",") }),
+  });
+  return (data.earnings ?? [])
+    .filter((e: any) => belongsTo(e.code, query.market))
+    .map((e: any): CalendarEvent => {
+      const symbol = fromEodhdSymbol(e.code, query.market);
+      const timing = /before/i.test(e.before_after_market ?? "") ? "before_market"
+        : /after/i.test(e.before_after_market ?? "") ? "after_market" : undefined;
+      return {
+        date: e.report_date,
+        ...(timing && { time: timing }),
+        type: "earnings",
+        title: `${symbol} earnings${e.date ? ` (period ending ${e.date})` : ""}`,
+        market: query.market,
+        symbol,
+        importance: COMPANY_IMPORTANCE.earnings,
+        actual: toNumber(e.actual),
+        estimate: toNumber(e.estimate),
+      };
+    });
+}
+
+async function getSplits(query: CalendarQuery, codes: string[] | null): Promise<CalendarEvent[]> {
+  const data = await fetchEodhd("/calendar/splits", { from: query.from, to: query.to });
+  return (data.splits ?? [])
+    .filter((s: any) => belongsTo(s.code, query.market) && (!codes || codes.includes(s.code.toUpperCase())))
+    .map((s: any): CalendarEvent => {
+      const symbol = fromEodhdSymbol(s.code, query.market);
+      return {
+        date: s.split_date,
+        type: "split",
+        title: `${symbol} ${s.new_shares}-for-${s.old_shares} split`,
+        market: query.market,
+        symbol,
+        importance: COMPANY_IMPORTANCE.split,
+      };
+    });
+}
+
+/** Dividends have no market-wide calendar on our plan, so they need symbols */
+async function getDividends(query: CalendarQuery, codes: string[]): Promise<CalendarEvent[]> {
+  const perSymbol = await Promise.all(codes.map(async (code) => {
+    const data: any[] = await fetchEodhd(`/div/${code}`, { from: query.from, to: query.to });
+    const symbol = fromEodhdSymbol(code, query.market);
+    return data
+      .filter((d) => d.date >= query.from && d.date <= query.to)
+      .map((d): CalendarEvent => ({
+        date: d.date,
+        type: "dividend",
+        title: `${symbol} ex-dividend ${d.unadjustedValue ?? d.value}${d.currency ? ` ${d.currency}` : ""}`,
+        market: query.market,
+        symbol,
+        importance: COMPANY_IMPORTANCE.dividend,
+        actual: toNumber(d.unadjustedValue ?? d.value),
+      }));
+  }));
+  return perSymbol.flat();
+}
+
+async function getMacro(query: CalendarQuery, country: string): Promise<CalendarEvent[]> {
+  const data: any[] = await fetchEodhd("/economic-events", {
+    from: query.from,
+    to: query.to,
+    country,
+    limit: "1000",
+  });
+  return data.map((e): CalendarEvent => {
+    // "2024-01-04 13:30:00" in UTC
+    const [date, time] = String(e.date).split(" ");
+    const name = [e.type, e.period ? `(${e.period})` : ""].filter(Boolean).join(" ");
+    return {
+      date,
+      ...(time && { time: time.slice(0, 5) }),
+      type: "macro",
+      title: `${country} ${name}`,
+      market: query.market,
+      importance: rateMacroImportance(e.type ?? ""),
+      actual: toNumber(e.actual),
+      estimate: toNumber(e.estimate),
+      previous: toNumber(e.previous),
+    };
+  });
+}
+
+/**
+ * Fetch and merge calendar events for a market.
+ * Each source is fetched independently; a failing one is reported in
+ * `errors` while the others are still returned.
+ * @throws Error when the market has no calendar or every source fails
+ */
+export async function getCalendarEvents(query: CalendarQuery): Promise<CalendarResult> {
+  const country = MARKET_COUNTRY[query.market];
+  if (country === null) {
+    throw new Error(`Calendar not supported for market: ${query.market}`);
+  }
+  const types = query.types ?? CALENDAR_EVENT_TYPES;
+  const equities = query.market in MARKET_SUFFIXES;
+  const codes = query.symbols?.length
+    ? query.symbols.map((s) => toEodhdSymbol(s, query.market).toUpperCase())
+    : null;
+
+  const sources: Array<[string, () => Promise<CalendarEvent[]>]> = [];
+  if (equities && types.includes("earnings")) sources.push(["earnings", () => getEarnings(query, codes)]);
+  if (equities && types.includes("split")) sources.push(["splits", () => getSplits(query, codes)]);
+  if (equities && codes && types.includes("dividend")) sources.push(["dividends", () => getDividends(query, codes)]);
+  if (types.includes("macro")) sources.push(["macro", () => getMacro(query, country)]);
+
+  const results = await Promise.allSettled(sources.map(([, fetch]) => fetch()));
+  const errors = results.flatMap((r, i) =>
+    r.status === "rejected" ? [`${sources[i][0]}: ${r.reason instanceof Error ? r.reason.message : r.reason}`] : []
+  );
+  if (sources.length > 0 && errors.length === sources.length) {
+    throw new Error(`Calendar unavailable — ${errors.join("; ")}`);
+  }
+
+  const minRank = IMPORTANCE_RANK[query.minImportance ?? "low"];
+  const events = results
+    .flatMap((r) => (r.status === "fulfilled" ? r.value : []))
+    .filter((e) => IMPORTANCE_RANK[e.importance ?? "low"] >= minRank)
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? "").localeCompare(b.time ?? ""));
+  return { events, errors };
+}
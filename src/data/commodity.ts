@@ -1,5 +1,16 @@
-import { proxyFetch } from "../utils/fetch.js";
+import { httpFetch } from "../utils/http.js";
 import { OHLCV } from "./types.js";
+import type { DataProvider } from "./provider.js";
+import { EXCHANGE_CALENDARS } from "./sessions.js";
+import { getEodhdIntradayKlines } from "./eodhd-intraday.js";
+import { getEodhdQuote } from "./eodhd-realtime.js";
+import {
+  DAY_MS,
+  fetchKlineWindows,
+  toIsoDate,
+  tradingDaysSpanMs,
+  type KlineRange,
+} from "./range.js";
 
 const EODHD_BASE_URL = "https://eodhd.com/api";
 
@@ -13,21 +24,8 @@ function getApiKey(): string {
   return key;
 }
 
-/**
- * Convert limit to a date range for EODHD API
- * Commodities trade 24/5, so use calendar days with a smaller buffer
- */
-function getLimitDateRange(limit: number): { from: string; to: string } {
-  const now = new Date();
-  const to = now.toISOString().split("T")[0]; // YYYY-MM-DD
-  
-  // Add 20% buffer for weekends
-  const daysBack = Math.ceil(limit * 1.2);
-  const from = new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000);
-  const fromStr = from.toISOString().split("T")[0];
-  
-  return { from: fromStr, to };
-}
+/** Widest from/to window per EOD request; longer ranges are paged */
+const EOD_MAX_SPAN_MS = 10 * 365 * DAY_MS;
 
 interface EODHDEodData {
   date: string; // "2026-02-14"
@@ -39,59 +37,87 @@ interface EODHDEodData {
   volume: number;
 }
 
+/**
+ * Normalize commodity symbol to EODHD format.
+ * EODHD precious metals are under FOREX exchange (XAUUSD.FOREX, XAGUSD.FOREX).
+ * Accepts bare symbols, .COMM (legacy), or .FOREX
+ */
+function normalizeSymbol(symbol: string): string {
+  if (symbol.endsWith(".COMM") || symbol.endsWith(".comm")) {
+    return symbol.replace(/\.COMM$/i, ".FOREX");
+  } else if (symbol.includes(".")) {
+    return symbol;
+  }
+  return `${symbol}.FOREX`;
+}
+
 /**
  * Get commodity kline data from EODHD
  * @param symbol Commodity symbol (e.g., "XAUUSD" for gold, "XAGUSD" for silver)
- * @param limit Number of data points to return
+ * @param limit Number of data points to return (ignored when range.start is set)
+ * @param range Optional explicit date window
  * @returns Array of OHLCV data
  */
 export async function getCommodityKlines(
   symbol: string,
-  limit: number = 100
+  limit: number = 100,
+  range: KlineRange = {}
 ): Promise<OHLCV[]> {
   const apiKey = getApiKey();
-  const { from, to } = getLimitDateRange(limit);
-  
-  // EODHD precious metals are under FOREX exchange (XAUUSD.FOREX, XAGUSD.FOREX)
-  // Accept bare symbols, .COMM (legacy), or .FOREX
-  let eodhSymbol: string;
-  if (symbol.endsWith(".COMM") || symbol.endsWith(".comm")) {
-    eodhSymbol = symbol.replace(/\.COMM$/i, ".FOREX");
-  } else if (symbol.includes(".")) {
-    eodhSymbol = symbol;
-  } else {
-    eodhSymbol = `${symbol}.FOREX`;
-  }
-  
-  const url = `${EODHD_BASE_URL}/eod/${eodhSymbol}?api_token=${apiKey}&fmt=json&from=${from}&to=${to}`;
-  
-  const response = await proxyFetch(url);
-  
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(
-      `EODHD API error (${response.status}): ${text}`
-    );
-  }
-  
-  const data: EODHDEodData[] = await response.json();
-  
-  if (!Array.isArray(data)) {
-    throw new Error("EODHD API returned unexpected format (expected array)");
-  }
-  
-  // Convert to OHLCV format and sort by date ascending
-  const ohlcv: OHLCV[] = data
-    .map((item) => ({
-      timestamp: new Date(item.date + "T00:00:00Z").getTime(),
-      open: item.open,
-      high: item.high,
-      low: item.low,
-      close: item.close,
-      volume: item.volume,
-    }))
-    .sort((a, b) => a.timestamp - b.timestamp)
-    .slice(-limit); // Take the most recent 'limit' items
-  
-  return ohlcv;
+  const eodhSymbol = normalizeSymbol(symbol);
+
+  const fetchWindow = async (fromTs: number, toTs: number): Promise<OHLCV[]> => {
+    const url = `${EODHD_BASE_URL}/eod/${eodhSymbol}?api_token=${apiKey}&fmt=json&from=${toIsoDate(fromTs)}&to=${toIsoDate(toTs)}`;
+
+    const response = await httpFetch(url);
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `EODHD API error (${response.status}): ${text}`
+      );
+    }
+
+    const data: EODHDEodData[] = await response.json();
+
+    if (!Array.isArray(data)) {
+      throw new Error("EODHD API returned unexpected format (expected array)");
+    }
+
+    // Convert to OHLCV format and sort by date ascending
+    return data
+      .map((item) => ({
+        timestamp: new Date(item.date + "T00:00:00Z").getTime(),
+        open: item.open,
+        high: item.high,
+        low: item.low,
+        close: item.close,
+        volume: item.volume,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  // Metals trade 24/5, so the trading-day estimate fits
+  return fetchKlineWindows(fetchWindow, limit, range, {
+    initialSpanMs: tradingDaysSpanMs(limit),
+    maxSpanMs: EOD_MAX_SPAN_MS,
+  });
 }
+
+export const commodityProvider: DataProvider = {
+  id: "eodhd-forex",
+  market: "commodity",
+  label: "Commodity",
+  calendar: EXCHANGE_CALENDARS.fx,
+  capabilities: {
+    // EODHD EOD endpoint for 1d, intraday endpoint below that
+    timeframes: ["1m", "5m", "15m", "1h", "4h", "1d"],
+    fundamentals: false,
+    dcf: false,
+    estimates: false,
+  },
+  getKlines: (symbol, timeframe, limit, options = {}) => timeframe === "1d"
+    ? getCommodityKlines(symbol, limit, options)
+    : getEodhdIntradayKlines(normalizeSymbol(symbol), timeframe, limit, EXCHANGE_CALENDARS.fx, options.session, options),
+  getQuote: (symbol) => getEodhdQuote(normalizeSymbol(symbol)),
+};
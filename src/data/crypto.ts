@@ -1,23 +1,73 @@
-import { OHLCV, Timeframe } from "./types.js";
-import { proxyFetch } from "../utils/fetch.js";
+import { OHLCV, Timeframe, QuoteSnapshot } from "./types.js";
+import { EXCHANGE_CALENDARS } from "./sessions.js";
+import { httpFetch } from "../utils/http.js";
+import type { DataProvider, ProviderKlineOptions } from "./provider.js";
+import { TIMEFRAME_MS, mergeCandles } from "./cache.js";
+import { fetchKlineWindows, type KlineRange } from "./range.js";
 
 const BINANCE_BASE = "https://api.binance.com";
 
+/** Max klines Binance returns per request */
+const BINANCE_MAX_LIMIT = 1000;
+
+/**
+ * Request budget. Spot allows 6000 weight/minute per IP and a 1000-bar
+ * klines call costs 2, so the real risk is bursts from parallel tools:
+ * cap in-flight requests and back off once a minute's usage passes 80%.
+ */
+const MAX_CONCURRENT_REQUESTS = 3;
+const WEIGHT_LIMIT_PER_MINUTE = 6000;
+const WEIGHT_BACKOFF_RATIO = 0.8;
+
+let inFlight = 0;
+const waiting: Array<() => void> = [];
+let pausedUntil = 0;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Run a Binance request within the concurrency cap and any weight pause */
+async function withRequestSlot<T>(request: () => Promise<T>): Promise<T> {
+  if (inFlight < MAX_CONCURRENT_REQUESTS) {
+    inFlight++;
+  } else {
+    // A finishing request hands its slot straight to us
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+  try {
+    const pause = pausedUntil - Date.now();
+    if (pause > 0) await sleep(pause);
+    return await request();
+  } finally {
+    const next = waiting.shift();
+    if (next) next();
+    else inFlight--;
+  }
+}
+
+/** Track the weight header and 429/418 bans so later requests wait them out */
+function recordRateLimit(response: Response): void {
+  const used = Number(response.headers.get("x-mbx-used-weight-1m"));
+  if (used > WEIGHT_LIMIT_PER_MINUTE * WEIGHT_BACKOFF_RATIO) {
+    // Weight resets at the top of each minute
+    pausedUntil = Math.max(pausedUntil, Math.ceil(Date.now() / 60_000) * 60_000);
+  }
+  if (response.status === 429 || response.status === 418) {
+    const retryAfter = Number(response.headers.get("retry-after")) || 60;
+    pausedUntil = Math.max(pausedUntil, Date.now() + retryAfter * 1000);
+  }
+}
+
 const TIMEFRAME_MAP: Record<string, string> = {
   "1m": "1m", "5m": "5m", "15m": "15m",
   "1h": "1h", "4h": "4h", "1d": "1d",
   "1w": "1w", "1M": "1M",
 };
 
-export async function getCryptoKlines(
-  symbol: string,
-  timeframe: Timeframe,
-  limit: number = 100
-): Promise<OHLCV[]> {
-  const interval = TIMEFRAME_MAP[timeframe] || "1d";
-  const url = `${BINANCE_BASE}/api/v3/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&limit=${limit}`;
+async function fetchBinanceKlines(query: string): Promise<OHLCV[]> {
+  const url = `${BINANCE_BASE}/api/v3/klines?${query}`;
 
-  const response = await proxyFetch(url);
+  const response = await withRequestSlot(() => httpFetch(url));
+  recordRateLimit(response);
   if (!response.ok) {
     throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
   }
@@ -34,20 +84,417 @@ export async function getCryptoKlines(
   }));
 }
 
-export async function getCryptoFundingRate(
+/**
+ * Latest `limit` candles at or before `endTime`, paging backward 1000 at a
+ * time. Each page ends just before the oldest candle of the previous one.
+ */
+async function getLatestCryptoKlines(query: string, limit: number, endTime?: number): Promise<OHLCV[]> {
+  let candles: OHLCV[] = [];
+
+  while (candles.length < limit) {
+    const pageLimit = Math.min(limit - candles.length, BINANCE_MAX_LIMIT);
+    const endParam = endTime !== undefined ? `&endTime=${endTime}` : "";
+    const page = await fetchBinanceKlines(`${query}&limit=${pageLimit}${endParam}`);
+    candles = mergeCandles(page, candles);
+    // A short page means we've reached the pair's listing
+    if (page.length < pageLimit) break;
+    endTime = page[0].timestamp - 1;
+  }
+  return candles.slice(-limit);
+}
+
+/**
+ * Get crypto kline data from Binance spot
+ * @param symbol Trading pair (e.g., "BTCUSDT")
+ * @param timeframe Candle interval
+ * @param limit Number of candles, any size (ignored when options.start is set)
+ * @param options Optional start/end window; ranges are fetched 1000 candles per request
+ * @returns Array of OHLCV data
+ */
+export async function getCryptoKlines(
   symbol: string,
-  limit: number = 100
-): Promise<{ timestamp: number; fundingRate: number; }[]> {
-  const url = `https://fapi.binance.com/fapi/v1/fundingRate?symbol=${symbol.toUpperCase()}&limit=${limit}`;
-  
-  const response = await proxyFetch(url);
+  timeframe: Timeframe,
+  limit: number = 100,
+  options: ProviderKlineOptions = {}
+): Promise<OHLCV[]> {
+  const interval = TIMEFRAME_MAP[timeframe] || "1d";
+  const base = `symbol=${symbol.toUpperCase()}&interval=${interval}`;
+
+  if (options.start === undefined) {
+    return getLatestCryptoKlines(base, limit, options.end);
+  }
+
+  // Window bounds are known up front, so pages can be fetched in parallel
+  return fetchKlineWindows(
+    (from, to) => fetchBinanceKlines(`${base}&startTime=${from}&endTime=${to}&limit=${BINANCE_MAX_LIMIT}`),
+    limit,
+    options,
+    { maxSpanMs: BINANCE_MAX_LIMIT * TIMEFRAME_MS[timeframe], concurrency: MAX_CONCURRENT_REQUESTS }
+  );
+}
+
+const BINANCE_FUTURES_BASE = "https://fapi.binance.com";
+
+/** Max funding events Binance returns per request */
+const FUNDING_MAX_LIMIT = 1000;
+/** Max rows per request for the /futures/data statistics endpoints */
+const FUTURES_STATS_MAX_LIMIT = 500;
+
+/** Sampling periods of the /futures/data endpoints (latest 30 days only) */
+export const FUTURES_PERIODS = ["5m", "15m", "30m", "1h", "2h", "4h", "6h", "12h", "1d"] as const;
+
+export type FuturesPeriod = (typeof FUTURES_PERIODS)[number];
+
+export interface FundingRate {
+  timestamp: number;    // funding settlement time (Unix ms)
+  fundingRate: number;  // per interval, as a fraction (0.0001 = 0.01%)
+}
+
+export interface OpenInterestPoint {
+  timestamp: number;
+  openInterest: number;       // contracts, in base asset
+  openInterestValue: number;  // notional, in quote asset (USDT)
+}
+
+export interface LongShortRatioPoint {
+  timestamp: number;
+  longShortRatio: number;  // long / short positions of the top 20% traders by margin
+  longShare: number;       // fraction of their positions that are long
+  shortShare: number;
+}
+
+export interface TakerVolumePoint {
+  timestamp: number;
+  buyVolume: number;   // taker buys (market orders lifting offers), base asset
+  sellVolume: number;  // taker sells (market orders hitting bids), base asset
+  buySellRatio: number;
+}
+
+async function fetchFutures(path: string, query: string): Promise<any[]> {
+  const url = `${BINANCE_FUTURES_BASE}${path}?${query}`;
+
+  // Futures weight is tracked separately from spot, but share the in-flight cap
+  const response = await withRequestSlot(() => httpFetch(url));
   if (!response.ok) {
     throw new Error(`Binance Futures API error: ${response.status}`);
   }
+  return await response.json() as any[];
+}
 
-  const data = await response.json() as any[];
-  return data.map((d: any) => ({
-    timestamp: d.fundingTime,
-    fundingRate: parseFloat(d.fundingRate),
+/**
+ * Page a futures time series: with options.start, forward from start to end;
+ * otherwise the latest `limit` rows at or before options.end, paging
+ * backward like getLatestCryptoKlines. Pages hold at most `pageMax` rows.
+ */
+async function pageFutures<T extends { timestamp: number }>(
+  fetchPage: (query: string) => Promise<T[]>,
+  limit: number,
+  options: KlineRange,
+  pageMax: number
+): Promise<T[]> {
+  let rows: T[] = [];
+
+  if (options.start !== undefined) {
+    let from = options.start;
+    const to = options.end ?? Date.now();
+    while (from <= to) {
+      const page = await fetchPage(`startTime=${from}&endTime=${to}&limit=${pageMax}`);
+      rows = rows.concat(page);
+      if (page.length < pageMax) break;
+      from = page[page.length - 1].timestamp + 1;
+    }
+    return rows;
+  }
+
+  let endTime = options.end;
+  while (rows.length < limit) {
+    const pageLimit = Math.min(limit - rows.length, pageMax);
+    const endParam = endTime !== undefined ? `&endTime=${endTime}` : "";
+    const page = await fetchPage(`limit=${pageLimit}${endParam}`);
+    rows = page.concat(rows);
+    if (page.length < pageLimit) break;
+    endTime = page[0].timestamp - 1;
+  }
+  return rows.slice(-limit);
+}
+
+/**
+ * Get funding rate history for a USDⓈ-M perpetual
+ * @param symbol Perpetual symbol (e.g., "BTCUSDT")
+ * @param limit Number of funding events, any size (ignored when options.start is set)
+ * @param options Optional start/end window; pages through 1000 events per request
+ * @returns Funding events, oldest first
+ */
+export async function getCryptoFundingRate(
+  symbol: string,
+  limit: number = 100,
+  options: KlineRange = {}
+): Promise<FundingRate[]> {
+  const base = `symbol=${symbol.toUpperCase()}`;
+  return pageFutures(
+    async (query) => (await fetchFutures("/fapi/v1/fundingRate", `${base}&${query}`)).map((d: any) => ({
+      timestamp: d.fundingTime,
+      fundingRate: parseFloat(d.fundingRate),
+    })),
+    limit,
+    options,
+    FUNDING_MAX_LIMIT
+  );
+}
+
+/**
+ * Get open interest history for a USDⓈ-M perpetual
+ * @param symbol Perpetual symbol (e.g., "BTCUSDT")
+ * @param period Sampling period
+ * @param limit Number of samples (Binance keeps the latest 30 days)
+ * @param options Optional start/end window
+ * @returns Open interest samples, oldest first
+ */
+export async function getCryptoOpenInterest(
+  symbol: string,
+  period: FuturesPeriod = "1h",
+  limit: number = 100,
+  options: KlineRange = {}
+): Promise<OpenInterestPoint[]> {
+  const base = `symbol=${symbol.toUpperCase()}&period=${period}`;
+  return pageFutures(
+    async (query) => (await fetchFutures("/futures/data/openInterestHist", `${base}&${query}`)).map((d: any) => ({
+      timestamp: d.timestamp,
+      openInterest: parseFloat(d.sumOpenInterest),
+      openInterestValue: parseFloat(d.sumOpenInterestValue),
+    })),
+    limit,
+    options,
+    FUTURES_STATS_MAX_LIMIT
+  );
+}
+
+/**
+ * Get the top-trader long/short position ratio for a USDⓈ-M perpetual
+ * @param symbol Perpetual symbol (e.g., "BTCUSDT")
+ * @param period Sampling period
+ * @param limit Number of samples (Binance keeps the latest 30 days)
+ * @param options Optional start/end window
+ * @returns Ratio samples, oldest first
+ */
+export async function getCryptoLongShortRatio(
+  symbol: string,
+  period: FuturesPeriod = "1h",
+  limit: number = 100,
+  options: KlineRange = {}
+): Promise<LongShortRatioPoint[]> {
+  const base = `symbol=${symbol.toUpperCase()}&period=${period}`;
+  return pageFutures(
+    async (query) => (await fetchFutures("/futures/data/topLongShortPositionRatio", `${base}&${query}`)).map((d: any) => ({
+      timestamp: d.timestamp,
+      longShortRatio: parseFloat(d.longShortRatio),
+      longShare: parseFloat(d.longAccount),
+      shortShare: parseFloat(d.shortAccount),
+    })),
+    limit,
+    options,
+    FUTURES_STATS_MAX_LIMIT
+  );
+}
+
+/**
+ * Get taker buy/sell volume for a USDⓈ-M perpetual
+ * @param symbol Perpetual symbol (e.g., "BTCUSDT")
+ * @param period Sampling period
+ * @param limit Number of samples (Binance keeps the latest 30 days)
+ * @param options Optional start/end window
+ * @returns Taker volume samples, oldest first
+ */
+export async function getCryptoTakerVolume(
+  symbol: string,
+  period: FuturesPeriod = "1h",
+  limit: number = 100,
+  options: KlineRange = {}
+): Promise<TakerVolumePoint[]> {
+  const base = `symbol=${symbol.toUpperCase()}&period=${period}`;
+  return pageFutures(
+    async (query) => (await fetchFutures("/futures/data/takerlongshortRatio", `${base}&${query}`)).map((d: any) => ({
+      timestamp: d.timestamp,
+      buyVolume: parseFloat(d.buyVol),
+      sellVolume: parseFloat(d.sellVol),
+      buySellRatio: parseFloat(d.buySellRatio),
+    })),
+    limit,
+    options,
+    FUTURES_STATS_MAX_LIMIT
+  );
+}
+
+/** Binance serves at most this many levels per side */
+export const DEPTH_MAX_LIMIT = 5000;
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;  // base asset
+}
+
+export interface OrderBook {
+  symbol: string;
+  bids: OrderBookLevel[];  // best (highest) first
+  asks: OrderBookLevel[];  // best (lowest) first
+  lastUpdateId: number;
+  timestamp: number;       // when the snapshot was taken (Unix ms)
+}
+
+/**
+ * Get a spot order book snapshot. Weight grows with depth (5 up to 100
+ * levels, 50 up to 1000, 250 up to 5000), so ask for what the chart needs.
+ * @param symbol Trading pair (e.g., "BTCUSDT")
+ * @param limit Levels per side, 1–5000
+ */
+export async function getCryptoOrderBook(symbol: string, limit: number = 1000): Promise<OrderBook> {
+  const depth = Math.min(Math.max(Math.round(limit), 1), DEPTH_MAX_LIMIT);
+  const url = `${BINANCE_BASE}/api/v3/depth?symbol=${symbol.toUpperCase()}&limit=${depth}`;
+  const response = await withRequestSlot(() => httpFetch(url));
+  recordRateLimit(response);
+  if (!response.ok) {
+    throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
+  }
+  const d = await response.json() as { lastUpdateId: number; bids: [string, string][]; asks: [string, string][] };
+  const toLevel = ([price, quantity]: [string, string]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) });
+  return {
+    symbol: symbol.toUpperCase(),
+    bids: d.bids.map(toLevel),
+    asks: d.asks.map(toLevel),
+    lastUpdateId: d.lastUpdateId,
+    timestamp: Date.now(),
+  };
+}
+
+/** Max aggregate trades Binance returns per request */
+const AGG_TRADES_MAX_LIMIT = 1000;
+/** Widest startTime/endTime window /api/v3/aggTrades accepts */
+const AGG_TRADES_MAX_WINDOW_MS = 3_600_000;
+/** Empty hours stepped back looking for the last trade before `end` */
+const AGG_TRADES_MAX_EMPTY_WINDOWS = 24;
+
+export interface AggTrade {
+  id: number;            // aggregate trade id, consecutive per symbol
+  timestamp: number;
+  price: number;
+  quantity: number;      // base asset
+  side: "buy" | "sell";  // aggressor: buy = taker lifted the offer, sell = taker hit the bid
+}
+
+export interface AggTradeWindow {
+  trades: AggTrade[];  // oldest first
+  complete: boolean;   // false when maxTrades cut off the start of the window
+}
+
+async function fetchAggTrades(query: string): Promise<AggTrade[]> {
+  const url = `${BINANCE_BASE}/api/v3/aggTrades?${query}`;
+  const response = await withRequestSlot(() => httpFetch(url));
+  recordRateLimit(response);
+  if (!response.ok) {
+    throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json() as { a: number; p: string; q: string; T: number; m: boolean }[];
+  return data.map((t) => ({
+    id: t.a,
+    timestamp: t.T,
+    price: parseFloat(t.p),
+    quantity: parseFloat(t.q),
+    // Buyer was the maker → the seller crossed the spread
+    side: t.m ? "sell" : "buy",
   }));
 }
+
+/**
+ * Get spot aggregate trades with their aggressor side. Busy pairs print
+ * thousands of trades a minute, so the window is filled backward from `end`
+ * by trade id and stops after `maxTrades`: the most recent part is always
+ * covered, and `complete` says whether the start was reached.
+ * @param symbol Trading pair (e.g., "BTCUSDT")
+ * @param options start/end window (Unix ms); end defaults to now
+ * @param maxTrades Upper bound on trades fetched (1000 per request)
+ */
+export async function getCryptoAggTrades(
+  symbol: string,
+  options: KlineRange = {},
+  maxTrades: number = 100_000
+): Promise<AggTradeWindow> {
+  const base = `symbol=${symbol.toUpperCase()}`;
+  const start = options.start ?? -Infinity;
+  let trades: AggTrade[] = [];
+
+  // Anchor on the newest trades at or before end
+  if (options.end === undefined) {
+    trades = await fetchAggTrades(`${base}&limit=${AGG_TRADES_MAX_LIMIT}`);
+  } else {
+    const end = options.end;
+    let windowEnd = end;
+    for (let i = 0; trades.length === 0 && i < AGG_TRADES_MAX_EMPTY_WINDOWS && windowEnd >= start; i++) {
+      let query = `${base}&startTime=${windowEnd - AGG_TRADES_MAX_WINDOW_MS + 1}&endTime=${windowEnd}&limit=${AGG_TRADES_MAX_LIMIT}`;
+      // The window returns its oldest trades first, so walk forward to end
+      for (;;) {
+        const page = await fetchAggTrades(query);
+        trades = trades.concat(page.filter((t) => t.timestamp <= end));
+        if (page.length < AGG_TRADES_MAX_LIMIT || page[page.length - 1].timestamp > end) break;
+        query = `${base}&fromId=${page[page.length - 1].id + 1}&limit=${AGG_TRADES_MAX_LIMIT}`;
+      }
+      windowEnd -= AGG_TRADES_MAX_WINDOW_MS;
+    }
+  }
+
+  // Then page backward by id until the window start or the cap
+  while (trades.length > 0 && trades.length < maxTrades && trades[0].timestamp >= start && trades[0].id > 0) {
+    const fromId = Math.max(trades[0].id - AGG_TRADES_MAX_LIMIT, 0);
+    const page = await fetchAggTrades(`${base}&fromId=${fromId}&limit=${trades[0].id - fromId}`);
+    if (page.length === 0) break;
+    trades = page.concat(trades);
+  }
+
+  const reachedStart = trades.length === 0 || trades[0].timestamp < start || trades[0].id === 0;
+  const inWindow = trades.filter((t) => t.timestamp >= start);
+  return {
+    trades: inWindow.slice(-maxTrades),
+    complete: reachedStart && inWindow.length <= maxTrades,
+  };
+}
+
+/**
+ * Latest price with rolling 24h change, range and volume from Binance spot
+ * @param symbol Trading pair (e.g., "BTCUSDT")
+ */
+export async function getCryptoQuote(symbol: string): Promise<QuoteSnapshot> {
+  const url = `${BINANCE_BASE}/api/v3/ticker/24hr?symbol=${symbol.toUpperCase()}`;
+  const response = await withRequestSlot(() => httpFetch(url));
+  recordRateLimit(response);
+  if (!response.ok) {
+    throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
+  }
+  const t = await response.json() as any;
+  return {
+    symbol: t.symbol,
+    price: parseFloat(t.lastPrice),
+    change: parseFloat(t.priceChange),
+    changePercent: parseFloat(t.priceChangePercent),
+    previousClose: parseFloat(t.openPrice),
+    open: parseFloat(t.openPrice),
+    dayHigh: parseFloat(t.highPrice),
+    dayLow: parseFloat(t.lowPrice),
+    volume: parseFloat(t.volume),
+    timestamp: t.closeTime,
+    delayed: false,
+  };
+}
+
+export const cryptoProvider: DataProvider = {
+  id: "binance",
+  market: "crypto",
+  label: "Crypto",
+  calendar: EXCHANGE_CALENDARS.crypto,
+  capabilities: {
+    timeframes: ["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"],
+    fundamentals: false,
+    dcf: false,
+    estimates: false,
+  },
+  getKlines: getCryptoKlines,
+  getQuote: getCryptoQuote,
+};
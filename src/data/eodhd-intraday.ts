@@ -0,0 +1,125 @@
+/**
+ * EODHD intraday endpoint shared by the A-stock and commodity providers.
+ * EODHD serves 1m/5m/1h bars with UTC Unix timestamps; 15m and 4h are
+ * aggregated locally, anchored at the exchange session open.
+ */
+
+import { httpFetch } from "../utils/http.js";
+import {
+  INTRADAY_MINUTES,
+  filterSession,
+  intradayLookbackDays,
+  type ExchangeCalendar,
+  type TradingSession,
+} from "./sessions.js";
+import { aggregateIntraday } from "./resample.js";
+import { DAY_MS, fetchKlineWindows, type KlineRange } from "./range.js";
+import type { OHLCV, Timeframe } from "./types.js";
+
+const EODHD_BASE_URL = "https://eodhd.com/api";
+
+function getApiKey(): string {
+  const key = process.env.EODHD_API_KEY;
+  if (!key) {
+    throw new Error(
+      "EODHD_API_KEY not found. Please set it in ~/.openclaw/.env"
+    );
+  }
+  return key;
+}
+
+/** Native EODHD interval fetched for each timeframe */
+const EODHD_INTERVALS: Partial<Record<Timeframe, "1m" | "5m" | "1h">> = {
+  "1m": "1m",
+  "5m": "5m",
+  "15m": "5m",
+  "1h": "1h",
+  "4h": "1h",
+};
+
+/** Maximum request window per interval (EODHD API limits) */
+const MAX_RANGE_DAYS: Record<"1m" | "5m" | "1h", number> = {
+  "1m": 120,
+  "5m": 600,
+  "1h": 7200,
+};
+
+interface EODHDIntradayBar {
+  timestamp: number;  // Unix seconds, UTC
+  gmtoffset: number;
+  datetime: string;   // "2026-02-13 14:30:00" (UTC)
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+}
+
+/**
+ * Get intraday kline data from EODHD
+ * @param eodhdSymbol Exchange-qualified symbol (e.g., "600519.SHG", "XAUUSD.FOREX")
+ * @param timeframe Intraday timeframe (1m/5m/15m/1h/4h)
+ * @param limit Number of data points to return (ignored when range.start is set)
+ * @param calendar Exchange sessions and timezone used for filtering/anchoring
+ * @param session "regular" or "extended" hours
+ * @param range Optional explicit window, paged by the API's per-interval limit
+ * @returns Array of OHLCV data with UTC timestamps
+ */
+export async function getEodhdIntradayKlines(
+  eodhdSymbol: string,
+  timeframe: Timeframe,
+  limit: number,
+  calendar: ExchangeCalendar,
+  session: TradingSession = "regular",
+  range: KlineRange = {}
+): Promise<OHLCV[]> {
+  const interval = EODHD_INTERVALS[timeframe];
+  if (!interval) {
+    throw new Error(`Unsupported intraday timeframe for EODHD: ${timeframe}`);
+  }
+
+  const apiKey = getApiKey();
+
+  const fetchWindow = async (fromTs: number, toTs: number): Promise<OHLCV[]> => {
+    const from = Math.floor(fromTs / 1000);
+    const to = Math.floor(toTs / 1000);
+    const url = `${EODHD_BASE_URL}/intraday/${eodhdSymbol}?api_token=${apiKey}&fmt=json&interval=${interval}&from=${from}&to=${to}`;
+    const response = await httpFetch(url);
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`EODHD API error (${response.status}): ${text}`);
+    }
+
+    const data: EODHDIntradayBar[] = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error("EODHD API returned unexpected format (expected array)");
+    }
+
+    const ohlcv = data
+      .filter((item) => item.open !== null && item.close !== null)
+      .map((item) => ({
+        timestamp: item.timestamp * 1000,
+        open: item.open!,
+        high: item.high ?? Math.max(item.open!, item.close!),
+        low: item.low ?? Math.min(item.open!, item.close!),
+        close: item.close!,
+        volume: item.volume ?? 0,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return filterSession(ohlcv, calendar, session, INTRADAY_MINUTES[interval]!);
+  };
+
+  // 15m/4h are built from finer bars, so page for that many more
+  const perBar = INTRADAY_MINUTES[timeframe]! / INTRADAY_MINUTES[interval]!;
+  let ohlcv = await fetchKlineWindows(fetchWindow, (limit + 1) * perBar, range, {
+    initialSpanMs: intradayLookbackDays(timeframe, limit, calendar, session) * DAY_MS,
+    maxSpanMs: MAX_RANGE_DAYS[interval] * DAY_MS,
+  });
+
+  if (perBar > 1) {
+    ohlcv = aggregateIntraday(ohlcv, INTRADAY_MINUTES[timeframe]!, calendar, session);
+  }
+
+  return range.start !== undefined ? ohlcv : ohlcv.slice(-limit);
+}
@@ -0,0 +1,96 @@
+/**
+ * EODHD live quotes shared by the A-stock, commodity and US fallback providers.
+ * /real-time answers "NA" outside trading hours and for some listings; the
+ * quote then falls back to the latest two daily bars, like the Worker does.
+ */
+
+import { httpFetch } from "../utils/http.js";
+import type { QuoteSnapshot } from "./types.js";
+
+const EODHD_BASE_URL = "https://eodhd.com/api";
+
+function getApiKey(): string {
+  const key = process.env.EODHD_API_KEY;
+  if (!key) {
+    throw new Error(
+      "EODHD_API_KEY not found. Please set it in ~/.openclaw/.env"
+    );
+  }
+  return key;
+}
+
+interface EODHDRealtime {
+  code: string;
+  timestamp: number | "NA";  // Unix seconds
+  open: number | "NA";
+  high: number | "NA";
+  low: number | "NA";
+  close: number | "NA";
+  volume: number | "NA";
+  previousClose: number | "NA";
+  change: number | "NA";
+  change_p: number | "NA";
+}
+
+const num = (value: number | "NA" | undefined): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+async function fetchEodhd(path: string): Promise<any> {
+  const separator = path.includes("?") ? "&" : "?";
+  const response = await httpFetch(`${EODHD_BASE_URL}${path}${separator}api_token=${getApiKey()}&fmt=json`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`EODHD API error (${response.status}): ${text}`);
+  }
+  return response.json();
+}
+
+/** Last close vs the one before, marked delayed */
+async function getEodQuote(eodhdSymbol: string): Promise<QuoteSnapshot> {
+  const bars: Array<{ date: string; open: number; high: number; low: number; close: number; volume: number }> =
+    await fetchEodhd(`/eod/${eodhdSymbol}?period=d&order=d&limit=2`);
+  // Newest first with order=d; sort anyway in case the limit is ignored
+  const [latest, prev] = [...bars].sort((a, b) => b.date.localeCompare(a.date));
+  if (!latest) {
+    throw new Error(`No quote found for ${eodhdSymbol}`);
+  }
+  const change = prev ? latest.close - prev.close : 0;
+  return {
+    symbol: eodhdSymbol,
+    price: latest.close,
+    change,
+    changePercent: prev?.close ? (change / prev.close) * 100 : 0,
+    previousClose: prev?.close ?? null,
+    open: latest.open,
+    dayHigh: latest.high,
+    dayLow: latest.low,
+    volume: latest.volume,
+    timestamp: Date.parse(`${latest.date}T00:00:00Z`),
+    delayed: true,
+  };
+}
+
+/**
+ * Latest quote for an exchange-suffixed ticker (e.g., "600519.SHG", "XAUUSD.FOREX", "AAPL.US")
+ */
+export async function getEodhdQuote(eodhdSymbol: string): Promise<QuoteSnapshot> {
+  const q: EODHDRealtime = await fetchEodhd(`/real-time/${eodhdSymbol}`);
+  const price = num(q.close);
+  const timestamp = num(q.timestamp);
+  if (price === null || timestamp === null) {
+    return getEodQuote(eodhdSymbol);
+  }
+  return {
+    symbol: eodhdSymbol,
+    price,
+    change: num(q.change) ?? 0,
+    changePercent: num(q.change_p) ?? 0,
+    previousClose: num(q.previousClose),
+    open: num(q.open),
+    dayHigh: num(q.high),
+    dayLow: num(q.low),
+    volume: num(q.volume),
+    timestamp: timestamp * 1000,
+    delayed: false,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Cross-vendor fallback providers, mirroring the Worker's fetchWithFallback.
+ *
+ * Both EODHD and FMP cover US and Chinese equities, so each vendor's client
+ * can stand in for the other when it errors or is throttled:
+ *   us_stock: FMP (primary) → EODHD (AAPL → AAPL.US)
+ *   a_stock:  EODHD (primary) → FMP (600519.SHG → 600519.SS, .SHE → .SZ)
+ * Fallbacks only claim what they serve as well as the primary; the chain
+ * skips them for anything else (e.g. DCF, A-share intraday via FMP).
+ */
+
+import type { DataProvider } from "./provider.js";
+import { EXCHANGE_CALENDARS } from "./sessions.js";
+import { getEodhdIntradayKlines } from "./eodhd-intraday.js";
+import { getEodhdQuote } from "./eodhd-realtime.js";
+import {
+  getAStockKlines,
+  getAStockFundamentals,
+  getAStockCashFlow,
+  getAStockBalanceSheet,
+  getAStockKeyMetrics,
+  getAStockCorporateActions,
+  normalizeAStockSymbol,
+} from "./a-stock.js";
+import {
+  getUSStockKlines,
+  getUSStockFundamentals,
+  getUSStockCashFlow,
+  getUSStockBalanceSheet,
+  getUSStockKeyMetrics,
+  getUSStockCorporateActions,
+  getUSStockQuote,
+} from "./us-stock.js";
+
+/** "AAPL" → "AAPL.US" for EODHD */
+export function toEodhdUSSymbol(symbol: string): string {
+  return /\.US$/i.test(symbol) ? symbol : `${symbol}.US`;
+}
+
+/** "600519" / "600519.SHG" → "600519.SS", "000001.SHE" → "000001.SZ" for FMP */
+export function toFmpAShareSymbol(symbol: string): string {
+  return normalizeAStockSymbol(symbol).replace(/\.SHG$/i, ".SS").replace(/\.SHE$/i, ".SZ");
+}
+
+// The EODHD client in a-stock.ts passes exchange-suffixed tickers through
+// unchanged, so it serves US listings as well
+export const eodhdUSStockProvider: DataProvider = {
+  id: "eodhd-us",
+  market: "us_stock",
+  label: "US stock",
+  calendar: EXCHANGE_CALENDARS.us,
+  capabilities: {
+    timeframes: ["1m", "5m", "15m", "1h", "4h", "1d"],
+    fundamentals: true,
+    dcf: false,
+    estimates: false,
+  },
+  getKlines: (symbol, timeframe, limit, options = {}) => timeframe === "1d"
+    ? getAStockKlines(toEodhdUSSymbol(symbol), limit, options)
+    : getEodhdIntradayKlines(toEodhdUSSymbol(symbol), timeframe, limit, EXCHANGE_CALENDARS.us, options.session, options),
+  getQuote: (symbol) => getEodhdQuote(toEodhdUSSymbol(symbol)),
+  getCorporateActions: (symbol) => getAStockCorporateActions(toEodhdUSSymbol(symbol)),
+  getFundamentals: (symbol, period, limit) => getAStockFundamentals(toEodhdUSSymbol(symbol), period, limit),
+  getCashFlow: (symbol, period, limit) => getAStockCashFlow(toEodhdUSSymbol(symbol), period, limit),
+  getBalanceSheet: (symbol, period, limit) => getAStockBalanceSheet(toEodhdUSSymbol(symbol), period, limit),
+  // EODHD has today's ratios only, so it stands in for FMP's series just for
+  // the latest annual row; longer requests fail over to FMP's own error
+  getKeyMetrics: async (symbol, period, limit) => {
+    if (period !== "annual" || limit > 1) {
+      throw new Error(`Key metrics history not supported by EODHD (latest snapshot only), got: ${period} × ${limit}`);
+    }
+    return [await getAStockKeyMetrics(toEodhdUSSymbol(symbol))];
+  },
+};
+
+export const fmpAStockProvider: DataProvider = {
+  id: "fmp-cn",
+  market: "a_stock",
+  label: "A-stock",
+  calendar: EXCHANGE_CALENDARS.cn,
+  capabilities: {
+    // The FMP intraday client parses New York wall-clock times, so daily only
+    timeframes: ["1d"],
+    fundamentals: true,
+    dcf: false,
+    estimates: false,
+  },
+  getKlines: (symbol, _timeframe, limit, options = {}) => getUSStockKlines(toFmpAShareSymbol(symbol), limit, options),
+  getQuote: (symbol) => getUSStockQuote(toFmpAShareSymbol(symbol)),
+  getCorporateActions: (symbol) => getUSStockCorporateActions(toFmpAShareSymbol(symbol)),
+  getFundamentals: (symbol, period, limit) => getUSStockFundamentals(toFmpAShareSymbol(symbol), period, limit),
+  getCashFlow: (symbol, period, limit) => getUSStockCashFlow(toFmpAShareSymbol(symbol), period, limit),
+  getBalanceSheet: (symbol, period, limit) => getUSStockBalanceSheet(toFmpAShareSymbol(symbol), period, limit),
+  getKeyMetrics: (symbol, period, limit) => getUSStockKeyMetrics(toFmpAShareSymbol(symbol), period, limit),
+};
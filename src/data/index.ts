@@ -1,150 +1,455 @@
-import { OHLCV, FundamentalData, DCFData, Market, Timeframe } from "./types.js";
-import { getCryptoKlines } from "./crypto.js";
-import { 
-  getUSStockKlines, 
-  getUSStockFundamentals,
-  getUSStockCashFlow,
-  getUSStockKeyMetrics,
-  getUSStockDCF,
-  getUSStockAnalystEstimates
-} from "./us-stock.js";
-import { 
-  getAStockKlines, 
-  getAStockFundamentals,
-  getAStockCashFlow,
-  getAStockKeyMetrics
-} from "./a-stock.js";
-import { getCommodityKlines } from "./commodity.js";
+import { OHLCV, FundamentalData, DCFData, EarningsReport, Market, Timeframe, KlineTimeframe, Quote, QuoteSnapshot } from "./types.js";
+import { cryptoProvider } from "./crypto.js";
+import { usStockProvider } from "./us-stock.js";
+import { aStockProvider } from "./a-stock.js";
+import { commodityProvider } from "./commodity.js";
+import { localProvider } from "./local.js";
+import { eodhdUSStockProvider, fmpAStockProvider } from "./fallbacks.js";
+import { recordSource } from "./sources.js";
+import { canonicalSymbol } from "./resolver.js";
+import { getCachedKlines, mergeCandles, TIMEFRAME_MS, type KlineCacheMode } from "./cache.js";
+import { DAY_MS, type KlineRange } from "./range.js";
+import {
+  adjustCandles,
+  buildAdjustmentEvents,
+  findReferenceClose,
+  relevantActions,
+  type CorporateAction,
+  type PriceAdjustment,
+} from "./adjust.js";
+import { EXCHANGE_CALENDARS, isIntraday, marketStatus, type TradingSession } from "./sessions.js";
+import { isNativeTimeframe, pickBaseTimeframe, resample, resampleBaseLimit, MAX_BASE_BARS } from "./resample.js";
+import {
+  registerProvider,
+  registerFallbackProvider,
+  configureProviderChains,
+  getProvider,
+  getProviderChain,
+  getKlineSupportError,
+  getFeatureSupportError,
+  type DataProvider,
+  type ProviderFeature,
+  type ReportPeriod,
+} from "./provider.js";
 
+// Built-in providers — in-house feeds can override these with registerProvider()
+registerProvider(cryptoProvider);
+registerProvider(usStockProvider);
+registerProvider(aStockProvider);
+registerProvider(commodityProvider);
+registerProvider(localProvider);
+
+// Cross-vendor failover, like the Worker's fetchWithFallback
+registerFallbackProvider(eodhdUSStockProvider);
+registerFallbackProvider(fmpAStockProvider);
+
+// e.g. GAINLAB_PROVIDER_CHAINS="us_stock=eodhd-us,fmp" to make EODHD primary,
+// or "us_stock=fmp" to turn failover off
+if (process.env.GAINLAB_PROVIDER_CHAINS) {
+  try {
+    configureProviderChains(process.env.GAINLAB_PROVIDER_CHAINS);
+  } catch (error) {
+    // stdout carries the MCP protocol, so warn on stderr
+    console.error(`[gainlab] ignoring GAINLAB_PROVIDER_CHAINS: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/** Widest explicit range served in one call, in nominal bars */
+const MAX_RANGE_BARS = 20_000;
+
+/** Corporate actions change at most once a day; keep them in memory for a few hours */
+const CORPORATE_ACTIONS_TTL_MS = 6 * 3_600_000;
+
+/** Daily bars fetched around dividends to find the close before each ex-date */
+const REFERENCE_PADDING_MS = 10 * DAY_MS;
+
+/**
+ * `start`/`end` (Unix ms) select an explicit window: with `start`, every bar in
+ * [start, end] is returned and `limit` is ignored; with only `end`, the last
+ * `limit` bars at or before it. Range queries go straight to the provider.
+ */
+export interface KlineQueryOptions extends KlineRange {
+  /** Local cache behaviour (default "use"; see data/cache.ts) */
+  cache?: KlineCacheMode;
+  /** Intraday equities: regular hours (default) or pre/after-market included */
+  session?: TradingSession;
+  /** Split/dividend adjustment of OHLC and volume (default "none"; see data/adjust.ts) */
+  adjustment?: PriceAdjustment;
+}
+
+/**
+ * Fetch candles for any timeframe: native ones go to the provider (through
+ * the disk cache), others are resampled from the coarsest native timeframe
+ * that builds them, e.g. 1w from 1d for stocks, 12h from 4h for crypto.
+ * Adjustment is applied to the native bars, after the cache. The symbol may
+ * be in any spelling the resolver knows ("BTC", "SH600519", "gold").
+ */
 export async function getKlines(
+  symbol: string,
+  market: Market,
+  timeframe: KlineTimeframe,
+  limit: number = 100,
+  options: KlineQueryOptions = {}
+): Promise<OHLCV[]> {
+  const unsupported = getKlineSupportError(market, timeframe);
+  if (unsupported) {
+    throw new Error(unsupported);
+  }
+  symbol = canonicalSymbol(symbol, market);
+  const provider = getProvider(market);
+  const session = options.session ?? "regular";
+  const { start, end } = options;
+
+  if (!isNativeTimeframe(timeframe) || !provider.capabilities.timeframes.includes(timeframe)) {
+    const base = pickBaseTimeframe(timeframe, provider.capabilities.timeframes)!;
+    const calendar = provider.calendar ?? EXCHANGE_CALENDARS.crypto;
+    const baseLimit = resampleBaseLimit(timeframe, base, limit, calendar, session);
+    const candles = await getKlines(symbol, market, base, baseLimit, options);
+    const resampled = resample(candles, base, timeframe, { calendar, session });
+    if (start !== undefined) {
+      return resampled;
+    }
+    // A full base window that still builds too few bars was cut by the cap, not the listing date
+    if (resampled.length < limit && baseLimit === MAX_BASE_BARS && candles.length >= MAX_BASE_BARS) {
+      throw new Error(
+        `Limit too large for ${timeframe} built from ${base}: ${MAX_BASE_BARS} ${base} bars (max per request) make only ${resampled.length} bars. Use limit ≤ ${resampled.length}, start/end or a larger timeframe`
+      );
+    }
+    return resampled.slice(-limit);
+  }
+
+  const candles = await getNativeKlines(provider, symbol, market, timeframe, limit, options);
+  return applyAdjustment(symbol, market, timeframe, candles, options);
+}
+
+async function getNativeKlines(
+  provider: DataProvider,
   symbol: string,
   market: Market,
   timeframe: Timeframe,
-  limit: number = 100
+  limit: number,
+  options: KlineQueryOptions
 ): Promise<OHLCV[]> {
-  switch (market) {
-    case "crypto":
-      return getCryptoKlines(symbol, timeframe, limit);
-    case "us_stock":
-      // US stocks only support daily data (FMP limitation on Starter plan)
-      if (timeframe !== "1d") {
-        throw new Error(
-          `US stock data only supports daily timeframe (1d), got: ${timeframe}`
-        );
-      }
-      return getUSStockKlines(symbol, limit);
-    case "a_stock":
-      // A-stocks only support daily data (EODHD EOD endpoint)
-      if (timeframe !== "1d") {
-        throw new Error(
-          `A-stock data only supports daily timeframe (1d), got: ${timeframe}`
-        );
-      }
-      return getAStockKlines(symbol, limit);
-    case "commodity":
-      // Commodities only support daily data (EODHD EOD endpoint)
-      if (timeframe !== "1d") {
+  const session = options.session ?? "regular";
+  const { start, end } = options;
+  const serves = (p: DataProvider) => p.capabilities.timeframes.includes(timeframe);
+
+  if (start !== undefined || end !== undefined) {
+    if (start !== undefined) {
+      const bars = Math.ceil(((end ?? Date.now()) - start) / TIMEFRAME_MS[timeframe]);
+      if (bars > MAX_RANGE_BARS) {
         throw new Error(
-          `Commodity data only supports daily timeframe (1d), got: ${timeframe}`
+          `Date range too large for ${timeframe}: ~${bars} bars (max ${MAX_RANGE_BARS}). Narrow the range or use a larger timeframe`
         );
       }
-      return getCommodityKlines(symbol, limit);
-    default:
-      throw new Error(`Unknown market: ${market}`);
+    }
+    // The cache only holds the latest bars, so historical windows bypass it
+    return withFailover(market, serves, (p) => p.getKlines(symbol, timeframe, limit, { session, start, end }));
+  }
+  // Extended-hours bars are a different series, keep them in their own cache entry
+  const variant = isIntraday(timeframe) && session === "extended" ? "extended" : undefined;
+
+  let fetched = false;
+  const candles = await getCachedKlines(
+    { symbol, market, timeframe, variant },
+    limit,
+    (n) => {
+      fetched = true;
+      return withFailover(market, serves, (p) => p.getKlines(symbol, timeframe, n, { session }));
+    },
+    provider.cacheable === false ? "bypass" : options.cache
+  );
+  if (!fetched) recordSource({ market, provider: "cache" });
+  return candles;
+}
+
+/**
+ * Run a request down the market's provider chain and return the first
+ * success, recording which provider served it. Providers `canServe` rejects
+ * are skipped; if all fail, the primary's error is thrown, as the Worker does.
+ */
+async function withFailover<T>(
+  market: Market,
+  canServe: (provider: DataProvider) => boolean,
+  request: (provider: DataProvider) => Promise<T>
+): Promise<T> {
+  const failed: string[] = [];
+  let firstError: unknown;
+  for (const provider of getProviderChain(market).filter(canServe)) {
+    try {
+      const result = await request(provider);
+      recordSource({ market, provider: provider.id, ...(failed.length > 0 && { fallbackFrom: failed }) });
+      return result;
+    } catch (error) {
+      if (failed.length === 0) firstError = error;
+      failed.push(provider.id);
+    }
+  }
+  throw failed.length > 0 ? firstError : new Error(`No ${market} provider can serve this request`);
+}
+
+const corporateActionsCache = new Map<string, { fetchedAt: number; actions: Promise<CorporateAction[]> }>();
+
+const hasCorporateActions = (p: DataProvider) => typeof p.getCorporateActions === "function";
+
+/**
+ * Split and dividend history for a symbol, memoized for a few hours.
+ * Markets without corporate actions in their chain (crypto, FX) return [].
+ */
+export async function getCorporateActions(symbol: string, market: Market): Promise<CorporateAction[]> {
+  if (!getProviderChain(market).some(hasCorporateActions)) return [];
+
+  symbol = canonicalSymbol(symbol, market);
+  const key = `${market}:${symbol.toUpperCase()}`;
+  const hit = corporateActionsCache.get(key);
+  if (hit && Date.now() - hit.fetchedAt < CORPORATE_ACTIONS_TTL_MS) {
+    return hit.actions;
+  }
+  const actions = withFailover(market, hasCorporateActions, (p) => p.getCorporateActions!(symbol));
+  corporateActionsCache.set(key, { fetchedAt: Date.now(), actions });
+  // Don't pin a failed lookup for the whole TTL
+  actions.catch(() => corporateActionsCache.delete(key));
+  return actions;
+}
+
+/**
+ * Scale raw bars for splits/dividends. Dividend factors need the close
+ * before each ex-date: daily series supply it themselves, anything else
+ * (intraday bars, ex-dates outside the window) gets a daily lookup.
+ */
+async function applyAdjustment(
+  symbol: string,
+  market: Market,
+  timeframe: Timeframe,
+  candles: OHLCV[],
+  options: KlineQueryOptions
+): Promise<OHLCV[]> {
+  const mode = options.adjustment ?? "none";
+  if (mode === "none" || candles.length === 0) {
+    return candles;
+  }
+
+  const actions = relevantActions(
+    await getCorporateActions(symbol, market),
+    mode,
+    candles[0].timestamp,
+    candles[candles.length - 1].timestamp
+  );
+  if (actions.length === 0) return candles;
+
+  let daily = timeframe === "1d" ? candles : [];
+  const missing = actions.filter((a) => a.type === "dividend" && findReferenceClose(daily, a.date) === undefined);
+  if (missing.length > 0) {
+    const reference = await getKlines(symbol, market, "1d", 0, {
+      start: missing[0].date - REFERENCE_PADDING_MS,
+      end: Math.min(missing[missing.length - 1].date + REFERENCE_PADDING_MS, Date.now()),
+      cache: options.cache,
+    });
+    daily = mergeCandles(reference, daily);
+  }
+
+  const events = buildAdjustmentEvents(actions, (exDate) => findReferenceClose(daily, exDate));
+  return adjustCandles(candles, events, mode);
+}
+
+const hasQuote = (p: DataProvider) => typeof p.getQuote === "function";
+
+/** Daily bars in a 52-week range: every day for 24/7 markets, trading days otherwise */
+const yearBars = (provider: DataProvider) => ((provider.calendar ?? EXCHANGE_CALENDARS.crypto).weekends ? 365 : 252);
+
+/** Last daily close against the one before, when no provider in the chain quotes live */
+function quoteFromCandles(symbol: string, candles: OHLCV[]): QuoteSnapshot {
+  const latest = candles[candles.length - 1];
+  const prev = candles[candles.length - 2];
+  if (!latest) {
+    throw new Error(`No quote found for ${symbol}`);
+  }
+  const change = prev ? latest.close - prev.close : 0;
+  return {
+    symbol,
+    price: latest.close,
+    change,
+    changePercent: prev?.close ? (change / prev.close) * 100 : 0,
+    previousClose: prev?.close ?? null,
+    open: latest.open,
+    dayHigh: latest.high,
+    dayLow: latest.low,
+    volume: latest.volume,
+    timestamp: latest.timestamp,
+    delayed: true,
+  };
+}
+
+/**
+ * Latest price, change, day and 52-week range and market status. Real-time
+ * where the chain offers it, else the last daily close (marked delayed), as
+ * the Worker's handleQuote does. Missing 52-week ranges come from daily bars.
+ */
+export async function getQuote(symbol: string, market: Market): Promise<Quote> {
+  symbol = canonicalSymbol(symbol, market);
+  const provider = getProvider(market);
+  const bars = yearBars(provider);
+
+  let daily: OHLCV[] | undefined;
+  let snapshot: QuoteSnapshot;
+  if (getProviderChain(market).some(hasQuote)) {
+    snapshot = await withFailover(market, hasQuote, (p) => p.getQuote!(symbol));
+  } else {
+    daily = await getKlines(symbol, market, "1d", bars);
+    snapshot = quoteFromCandles(symbol, daily);
+  }
+
+  let { yearHigh = null, yearLow = null } = snapshot;
+  if (yearHigh === null || yearLow === null) {
+    try {
+      daily ??= await getKlines(symbol, market, "1d", bars);
+      const year = daily.slice(-bars);
+      const highs = [...year.map((c) => c.high), snapshot.dayHigh ?? snapshot.price];
+      const lows = [...year.map((c) => c.low), snapshot.dayLow ?? snapshot.price];
+      yearHigh ??= Math.max(...highs);
+      yearLow ??= Math.min(...lows);
+    } catch {
+      // The quote stands without its 52-week range
+    }
+  }
+
+  return {
+    ...snapshot,
+    symbol,
+    market,
+    yearHigh,
+    yearLow,
+    status: marketStatus(provider.calendar ?? EXCHANGE_CALENDARS.crypto, Date.now()),
+  };
+}
+
+/**
+ * Look up a provider method for an optional feature, throwing the
+ * metadata-derived "not supported" message when it's unavailable. The
+ * returned function fails over along the chain like klines do.
+ */
+function requireMethod<K extends keyof DataProvider>(
+  market: Market,
+  feature: ProviderFeature,
+  method: K
+): NonNullable<DataProvider[K]> {
+  const unsupported = getFeatureSupportError(market, feature);
+  if (unsupported) {
+    throw new Error(unsupported);
+  }
+  const implemented = (p: DataProvider) => p.capabilities[feature] && typeof p[method] === "function";
+  const provider = getProvider(market);
+  if (!implemented(provider)) {
+    throw new Error(`Provider ${provider.id} does not implement ${String(method)}`);
   }
+  return ((...args: unknown[]) =>
+    withFailover(market, implemented, (p) => (p[method] as (...a: unknown[]) => Promise<unknown>).apply(p, args))
+  ) as NonNullable<DataProvider[K]>;
 }
 
 export async function getFundamentals(
   symbol: string,
   market: Market,
-  period: "annual" | "quarter" = "annual",
+  period: ReportPeriod = "annual",
   limit: number = 5
 ): Promise<FundamentalData[]> {
-  switch (market) {
-    case "us_stock":
-      return getUSStockFundamentals(symbol, period, limit);
-    case "a_stock":
-      return getAStockFundamentals(symbol, period, limit);
-    case "crypto":
-    case "commodity":
-      throw new Error(`Fundamental data not supported for market: ${market}`);
-    default:
-      throw new Error(`Unknown market: ${market}`);
-  }
+  return requireMethod(market, "fundamentals", "getFundamentals")(canonicalSymbol(symbol, market), period, limit);
 }
 
 export async function getCashFlow(
   symbol: string,
   market: Market,
-  period: "annual" | "quarter" = "annual",
+  period: ReportPeriod = "annual",
   limit: number = 5
 ): Promise<FundamentalData[]> {
-  switch (market) {
-    case "us_stock":
-      return getUSStockCashFlow(symbol, period, limit);
-    case "a_stock":
-      return getAStockCashFlow(symbol, period, limit);
-    case "crypto":
-    case "commodity":
-      throw new Error(`Cash flow data not supported for market: ${market}`);
-    default:
-      throw new Error(`Unknown market: ${market}`);
-  }
+  return requireMethod(market, "fundamentals", "getCashFlow")(canonicalSymbol(symbol, market), period, limit);
+}
+
+export async function getBalanceSheet(
+  symbol: string,
+  market: Market,
+  period: ReportPeriod = "annual",
+  limit: number = 5
+): Promise<FundamentalData[]> {
+  return requireMethod(market, "fundamentals", "getBalanceSheet")(canonicalSymbol(symbol, market), period, limit);
 }
 
 export async function getKeyMetrics(
   symbol: string,
   market: Market,
-  period: "annual" | "quarter" = "annual",
+  period: ReportPeriod = "annual",
   limit: number = 5
 ): Promise<FundamentalData[]> {
-  switch (market) {
-    case "us_stock":
-      return getUSStockKeyMetrics(symbol, period, limit);
-    case "a_stock":
-      // A-stock key metrics returns a single item, wrap in array
-      const metrics = await getAStockKeyMetrics(symbol);
-      return [metrics];
-    case "crypto":
-    case "commodity":
-      throw new Error(`Key metrics data not supported for market: ${market}`);
-    default:
-      throw new Error(`Unknown market: ${market}`);
-  }
+  return requireMethod(market, "fundamentals", "getKeyMetrics")(canonicalSymbol(symbol, market), period, limit);
 }
 
 export async function getDCF(
   symbol: string,
   market: Market
 ): Promise<DCFData> {
-  switch (market) {
-    case "us_stock":
-      return getUSStockDCF(symbol);
-    case "a_stock":
-    case "crypto":
-    case "commodity":
-      throw new Error("DCF only available for US stocks");
-    default:
-      throw new Error(`Unknown market: ${market}`);
-  }
+  return requireMethod(market, "dcf", "getDCF")(canonicalSymbol(symbol, market));
 }
 
 export async function getAnalystEstimates(
   symbol: string,
   market: Market,
-  period: "annual" | "quarter" = "annual",
+  period: ReportPeriod = "annual",
   limit: number = 3
 ): Promise<FundamentalData[]> {
-  switch (market) {
-    case "us_stock":
-      return getUSStockAnalystEstimates(symbol, period, limit);
-    case "a_stock":
-    case "crypto":
-    case "commodity":
-      throw new Error(`Analyst estimates not supported for market: ${market}`);
-    default:
-      throw new Error(`Unknown market: ${market}`);
-  }
+  return requireMethod(market, "estimates", "getAnalystEstimates")(canonicalSymbol(symbol, market), period, limit);
+}
+
+export async function getEarningsHistory(
+  symbol: string,
+  market: Market,
+  limit: number = 12
+): Promise<EarningsReport[]> {
+  return requireMethod(market, "estimates", "getEarningsHistory")(canonicalSymbol(symbol, market), limit);
 }
 
-export { type OHLCV, type FundamentalData, type DCFData, type Market, type Timeframe } from "./types.js";
+export {
+  registerProvider,
+  registerFallbackProvider,
+  configureProviderChains,
+  getProvider,
+  getProviderChain,
+  listProviders,
+  marketsSupporting,
+  getKlineSupportError,
+  getFeatureSupportError,
+  type DataProvider,
+  type ProviderCapabilities,
+  type ProviderKlineOptions,
+  type ProviderFeature,
+  type ReportPeriod,
+} from "./provider.js";
+export { purgeKlineCache, type KlineCacheMode } from "./cache.js";
+export { marketStatus, type TradingSession } from "./sessions.js";
+export { resample, parseTimeframe, type ResampleOptions } from "./resample.js";
+export { parseDateRange, type KlineRange } from "./range.js";
+export { type PriceAdjustment, type CorporateAction } from "./adjust.js";
+export { trackSources, formatSources, type DataSource } from "./sources.js";
+export { eodhdUSStockProvider, fmpAStockProvider } from "./fallbacks.js";
+export { getCalendarEvents, type CalendarQuery, type CalendarResult } from "./calendar.js";
+export {
+  resolveSymbol,
+  canonicalSymbol,
+  matchSymbolLocally,
+  type SymbolMatch,
+  type SymbolResolution,
+  type ResolveOptions,
+} from "./resolver.js";
+export {
+  type OHLCV,
+  type FundamentalData,
+  type DCFData,
+  type Market,
+  type Timeframe,
+  type KlineTimeframe,
+  type Quote,
+  type QuoteSnapshot,
+  type MarketStatus,
+  type CalendarEvent,
+  type CalendarEventType,
+  type EventImportance,
+} from "./types.js";
@@ -0,0 +1,336 @@
+/**
+ * Local file market — OHLCV from CSV/Parquet files, no network.
+ *
+ * Files live in GAINLAB_LOCAL_DIR and are found by convention:
+ *   <SYMBOL>_<tf>.csv | .parquet   (tf = 1m, 5m, 15m, 1h, 4h, 1d, 1w, 1mo)
+ *   <SYMBOL>.csv | .parquet         (treated as 1d)
+ *
+ * An optional gainlab-local.json in the same directory sets defaults and
+ * per-symbol overrides (file path, timeframe, column mapping, timezone):
+ *   {
+ *     "timezone": "America/New_York",
+ *     "columns": { "timestamp": "time", "volume": "vol" },
+ *     "symbols": { "DESK1": { "file": "desk/bars.parquet", "timeframe": "1h" } }
+ *   }
+ */
+
+import { readFile, readdir } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { asyncBufferFromFile, parquetReadObjects } from "hyparquet";
+import { parseZonedDateTime, isValidTimeZone } from "../utils/timezone.js";
+import type { OHLCV, Timeframe } from "./types.js";
+import type { KlineRange } from "./range.js";
+import type { DataProvider } from "./provider.js";
+
+const CONFIG_FILE = "gainlab-local.json";
+const EXTENSIONS = [".csv", ".parquet"];
+
+type OHLCVField = keyof OHLCV;
+
+export interface LocalSourceConfig {
+  file?: string;                           // path relative to the data directory
+  timeframe?: Timeframe;                   // bar size of `file` (default 1d)
+  columns?: Partial<Record<OHLCVField, string>>;
+  timezone?: string;                       // IANA zone for naive datetimes (default UTC)
+  timestampUnit?: "auto" | "s" | "ms";     // numeric epoch unit (default auto)
+  delimiter?: string;                      // CSV delimiter (default ",")
+}
+
+export interface LocalDataConfig extends LocalSourceConfig {
+  symbols?: Record<string, LocalSourceConfig | LocalSourceConfig[]>;
+}
+
+/** Header names recognised when no explicit column mapping is given */
+const COLUMN_ALIASES: Record<OHLCVField, string[]> = {
+  timestamp: ["timestamp", "time", "date", "datetime", "ts", "open_time"],
+  open: ["open", "o"],
+  high: ["high", "h"],
+  low: ["low", "l"],
+  close: ["close", "c", "last", "price"],
+  volume: ["volume", "vol", "v", "qty"],
+};
+
+function getLocalDir(): string {
+  const dir = process.env.GAINLAB_LOCAL_DIR;
+  if (!dir) {
+    throw new Error(
+      "GAINLAB_LOCAL_DIR not set. Point it at a directory of CSV/Parquet OHLCV files"
+    );
+  }
+  return dir;
+}
+
+async function loadConfig(dir: string): Promise<LocalDataConfig> {
+  let raw: string;
+  try {
+    raw = await readFile(join(dir, CONFIG_FILE), "utf8");
+  } catch {
+    return {};
+  }
+  try {
+    return JSON.parse(raw) as LocalDataConfig;
+  } catch (error: any) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${error.message}`);
+  }
+}
+
+function fileToken(timeframe: Timeframe): string {
+  // "1m" and "1M" would collide on case-insensitive filesystems
+  return timeframe === "1M" ? "1mo" : timeframe;
+}
+
+/**
+ * Find the file and effective settings for (symbol, timeframe).
+ * Explicit config entries win over naming conventions.
+ */
+async function resolveSource(
+  dir: string,
+  config: LocalDataConfig,
+  symbol: string,
+  timeframe: Timeframe
+): Promise<{ path: string; source: LocalSourceConfig } | null> {
+  const { symbols, ...defaults } = config;
+
+  const entryKey = Object.keys(symbols ?? {}).find((k) => k.toUpperCase() === symbol.toUpperCase());
+  if (entryKey) {
+    const entries = ([] as LocalSourceConfig[]).concat(symbols![entryKey]);
+    const match = entries.find((e) => (e.timeframe ?? "1d") === timeframe && e.file);
+    if (match) {
+      return {
+        path: join(dir, match.file!),
+        source: { ...defaults, ...match, columns: { ...defaults.columns, ...match.columns } },
+      };
+    }
+  }
+
+  const files = await readdir(dir);
+  const candidates = [`${symbol}_${fileToken(timeframe)}`];
+  if (timeframe === "1d") candidates.push(symbol);
+
+  for (const base of candidates) {
+    for (const ext of EXTENSIONS) {
+      const wanted = `${base}${ext}`;
+      // Case-sensitive match first, then case-insensitive
+      const found = files.find((f) => f === wanted) ??
+        files.find((f) => f.toLowerCase() === wanted.toLowerCase());
+      if (found) {
+        return { path: join(dir, found), source: defaults };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF).
+ */
+export function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f !== "")) rows.push(row);
+  return rows;
+}
+
+function epochToMs(value: number, unit: LocalSourceConfig["timestampUnit"]): number {
+  if (unit === "s") return value * 1000;
+  if (unit === "ms") return value;
+  // auto: pick the unit that lands in a plausible range
+  const abs = Math.abs(value);
+  if (abs < 1e11) return value * 1000;   // seconds
+  if (abs < 1e14) return value;          // milliseconds
+  if (abs < 1e17) return value / 1e3;    // microseconds
+  return value / 1e6;                    // nanoseconds
+}
+
+/**
+ * Normalize a timestamp cell to Unix ms.
+ * Date-only values map to UTC midnight, matching the EOD providers, so daily
+ * local bars line up with other markets in overlay/correlation.
+ */
+export function parseTimestamp(
+  value: unknown,
+  timeZone: string = "UTC",
+  unit: LocalSourceConfig["timestampUnit"] = "auto"
+): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "bigint") return epochToMs(Number(value), unit);
+  if (typeof value === "number") return epochToMs(value, unit);
+  if (typeof value !== "string") return NaN;
+
+  const trimmed = value.trim();
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return epochToMs(parseFloat(trimmed), unit);
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return new Date(trimmed + "T00:00:00Z").getTime();
+  }
+  return parseZonedDateTime(trimmed, timeZone);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && value.trim() !== "") return parseFloat(value);
+  return NaN;
+}
+
+/** Map each OHLCV field to a column name present in `headers` */
+function resolveColumns(
+  headers: string[],
+  mapping: Partial<Record<OHLCVField, string>> = {}
+): Record<OHLCVField, string | null> {
+  const lower = new Map(headers.map((h) => [h.trim().toLowerCase(), h]));
+  const result = {} as Record<OHLCVField, string | null>;
+
+  for (const field of Object.keys(COLUMN_ALIASES) as OHLCVField[]) {
+    const explicit = mapping[field];
+    if (explicit) {
+      const actual = lower.get(explicit.toLowerCase());
+      if (!actual) {
+        throw new Error(`Column "${explicit}" (mapped to ${field}) not found. Available: ${headers.join(", ")}`);
+      }
+      result[field] = actual;
+      continue;
+    }
+    const alias = COLUMN_ALIASES[field].find((a) => lower.has(a));
+    result[field] = alias ? lower.get(alias)! : null;
+  }
+
+  const missing = (["timestamp", "open", "high", "low", "close"] as OHLCVField[])
+    .filter((f) => result[f] === null);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required column(s): ${missing.join(", ")}. Available: ${headers.join(", ")}. ` +
+      `Set "columns" in ${CONFIG_FILE} to map them.`
+    );
+  }
+  return result;
+}
+
+/** Convert keyed records into sorted, de-duplicated OHLCV */
+export function recordsToOHLCV(
+  records: Record<string, unknown>[],
+  headers: string[],
+  source: LocalSourceConfig = {}
+): OHLCV[] {
+  const columns = resolveColumns(headers, source.columns);
+  const timeZone = source.timezone ?? "UTC";
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown timezone: ${timeZone}`);
+  }
+
+  const byTs = new Map<number, OHLCV>();
+  for (const rec of records) {
+    const candle: OHLCV = {
+      timestamp: parseTimestamp(rec[columns.timestamp!], timeZone, source.timestampUnit),
+      open: toNumber(rec[columns.open!]),
+      high: toNumber(rec[columns.high!]),
+      low: toNumber(rec[columns.low!]),
+      close: toNumber(rec[columns.close!]),
+      volume: columns.volume ? toNumber(rec[columns.volume]) : 0,
+    };
+    if (isNaN(candle.volume)) candle.volume = 0;
+    // Skip malformed rows rather than failing the whole file
+    if ([candle.timestamp, candle.open, candle.high, candle.low, candle.close].some(isNaN)) {
+      continue;
+    }
+    byTs.set(candle.timestamp, candle);
+  }
+  return Array.from(byTs.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+async function readCsvFile(path: string, source: LocalSourceConfig): Promise<OHLCV[]> {
+  const text = await readFile(path, "utf8");
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""), source.delimiter ?? ",");
+  if (rows.length === 0) return [];
+  const [headers, ...body] = rows;
+  const records = body.map((cells) =>
+    Object.fromEntries(headers.map((h, i) => [h, cells[i]]))
+  );
+  return recordsToOHLCV(records, headers, source);
+}
+
+async function readParquetFile(path: string, source: LocalSourceConfig): Promise<OHLCV[]> {
+  const file = await asyncBufferFromFile(path);
+  const records = await parquetReadObjects({ file }) as Record<string, unknown>[];
+  if (records.length === 0) return [];
+  return recordsToOHLCV(records, Object.keys(records[0]), source);
+}
+
+/**
+ * Get kline data from a local CSV/Parquet file
+ * @param symbol File symbol (e.g., "DESK1" → DESK1_1h.csv)
+ * @param timeframe Bar size of the file to read
+ * @param limit Number of most recent bars to return (ignored when range.start is set)
+ * @param range Optional date window
+ * @returns Array of OHLCV data
+ */
+export async function getLocalKlines(
+  symbol: string,
+  timeframe: Timeframe,
+  limit: number = 100,
+  range: KlineRange = {}
+): Promise<OHLCV[]> {
+  const dir = getLocalDir();
+  const config = await loadConfig(dir);
+  const resolved = await resolveSource(dir, config, symbol, timeframe);
+  if (!resolved) {
+    throw new Error(`No local data file for ${symbol} (${timeframe}) in ${dir}`);
+  }
+
+  const ext = extname(resolved.path).toLowerCase();
+  const candles = ext === ".parquet"
+    ? await readParquetFile(resolved.path, resolved.source)
+    : await readCsvFile(resolved.path, resolved.source);
+
+  const { start = -Infinity, end = Infinity } = range;
+  const inRange = candles.filter((c) => c.timestamp >= start && c.timestamp <= end);
+  return range.start !== undefined ? inRange : inRange.slice(-limit);
+}
+
+export const localProvider: DataProvider = {
+  id: "local-files",
+  market: "local",
+  label: "Local",
+  capabilities: {
+    timeframes: ["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"],
+    fundamentals: false,
+    dcf: false,
+    estimates: false,
+  },
+  // Already on disk — caching would only duplicate the files
+  cacheable: false,
+  getKlines: getLocalKlines,
+};
@@ -0,0 +1,181 @@
+/**
+ * Market data provider registry.
+ *
+ * Each market is served by a chain of DataProviders: the primary answers
+ * capability questions and is tried first, fallbacks take over when it
+ * errors (data/index.ts runs the chain). Built-in providers live next to
+ * their API client (crypto.ts, us-stock.ts, ...) or in fallbacks.ts and are
+ * registered in data/index.ts; in-house feeds can replace them via
+ * registerProvider() without touching the router.
+ */
+
+import type { OHLCV, FundamentalData, DCFData, EarningsReport, Market, Timeframe, KlineTimeframe, QuoteSnapshot } from "./types.js";
+import type { ExchangeCalendar, TradingSession } from "./sessions.js";
+import type { KlineRange } from "./range.js";
+import type { CorporateAction } from "./adjust.js";
+import { isNativeTimeframe, parseTimeframe, pickBaseTimeframe } from "./resample.js";
+
+export type ReportPeriod = "annual" | "quarter";
+
+/** Optional datasets a provider can serve beyond klines */
+export type ProviderFeature = "fundamentals" | "dcf" | "estimates";
+
+/**
+ * Per-request options forwarded to DataProvider.getKlines.
+ * With `start`, providers return every bar in [start, end] and ignore `limit`;
+ * with only `end`, the last `limit` bars at or before it.
+ */
+export interface ProviderKlineOptions extends KlineRange {
+  session?: TradingSession;  // intraday equities: regular (default) or extended hours
+}
+
+export interface ProviderCapabilities {
+  timeframes: Timeframe[];  // served natively; others are resampled from these
+  fundamentals: boolean;  // income statement, cash flow, key metrics
+  dcf: boolean;
+  estimates: boolean;     // analyst forward estimates and past consensus vs actuals
+}
+
+export interface DataProvider {
+  id: string;          // "binance", "fmp", ...
+  market: Market;
+  label: string;       // human-readable market name used in messages, e.g. "US stock"
+  capabilities: ProviderCapabilities;
+  cacheable?: boolean; // default true; false skips the local kline cache
+  calendar?: ExchangeCalendar; // exchange sessions for anchoring resampled bars (default 24h UTC)
+  getKlines(symbol: string, timeframe: Timeframe, limit: number, options?: ProviderKlineOptions): Promise<OHLCV[]>;
+  /** Latest price; without one the router quotes the last daily close */
+  getQuote?(symbol: string): Promise<QuoteSnapshot>;
+  /** Split and cash-dividend history; markets without one (crypto, FX) are never adjusted */
+  getCorporateActions?(symbol: string): Promise<CorporateAction[]>;
+  getFundamentals?(symbol: string, period: ReportPeriod, limit: number): Promise<FundamentalData[]>;
+  getCashFlow?(symbol: string, period: ReportPeriod, limit: number): Promise<FundamentalData[]>;
+  getBalanceSheet?(symbol: string, period: ReportPeriod, limit: number): Promise<FundamentalData[]>;
+  getKeyMetrics?(symbol: string, period: ReportPeriod, limit: number): Promise<FundamentalData[]>;
+  getDCF?(symbol: string): Promise<DCFData>;
+  getAnalystEstimates?(symbol: string, period: ReportPeriod, limit: number): Promise<FundamentalData[]>;
+  /** Quarterly reports with consensus and actual EPS/revenue, newest first */
+  getEarningsHistory?(symbol: string, limit: number): Promise<EarningsReport[]>;
+}
+
+const FEATURE_LABELS: Record<ProviderFeature, string> = {
+  fundamentals: "Fundamental data",
+  dcf: "DCF valuation",
+  estimates: "Analyst estimates",
+};
+
+const registry = new Map<Market, DataProvider[]>();
+
+/** Every provider ever registered, by id, so chains can be reordered from config */
+const knownProviders = new Map<string, DataProvider>();
+
+/** Register (or replace) the provider serving `provider.market`, dropping its fallbacks */
+export function registerProvider(provider: DataProvider): void {
+  knownProviders.set(provider.id, provider);
+  registry.set(provider.market, [provider]);
+}
+
+/** Append a provider tried when the ones before it in the market's chain fail */
+export function registerFallbackProvider(provider: DataProvider): void {
+  const chain = registry.get(provider.market);
+  if (!chain) {
+    throw new Error(`Register a primary provider for ${provider.market} before its fallbacks`);
+  }
+  knownProviders.set(provider.id, provider);
+  registry.set(provider.market, [...chain.filter((p) => p.id !== provider.id), provider]);
+}
+
+/** The primary provider for a market */
+export function getProvider(market: Market): DataProvider {
+  const chain = registry.get(market);
+  if (!chain) {
+    throw new Error(`Unknown market: ${market}`);
+  }
+  return chain[0];
+}
+
+/** Primary first, then fallbacks in order */
+export function getProviderChain(market: Market): DataProvider[] {
+  return [...(registry.get(market) ?? [])];
+}
+
+/** Primary providers, one per market */
+export function listProviders(): DataProvider[] {
+  return Array.from(registry.values(), (chain) => chain[0]);
+}
+
+/**
+ * Reorder or trim chains from a spec like "us_stock=eodhd-us,fmp;a_stock=eodhd".
+ * Ids must belong to registered providers of that market.
+ * @throws Error for unknown markets or provider ids
+ */
+export function configureProviderChains(spec: string): void {
+  for (const entry of spec.split(";").map((s) => s.trim()).filter(Boolean)) {
+    const [market, ids = ""] = entry.split("=").map((s) => s.trim());
+    if (!registry.has(market as Market)) {
+      throw new Error(`Unknown market in provider chain: ${market}`);
+    }
+    const chain = ids.split(",").map((s) => s.trim()).filter(Boolean).map((id) => {
+      const provider = knownProviders.get(id);
+      if (!provider || provider.market !== market) {
+        throw new Error(`Unknown provider for ${market}: ${id}`);
+      }
+      return provider;
+    });
+    if (chain.length === 0) {
+      throw new Error(`Empty provider chain for ${market}`);
+    }
+    registry.set(market as Market, chain);
+  }
+}
+
+/** Markets whose provider advertises the given feature */
+export function marketsSupporting(feature: ProviderFeature): Market[] {
+  return listProviders()
+    .filter((p) => p.capabilities[feature])
+    .map((p) => p.market);
+}
+
+function formatTimeframes(timeframes: Timeframe[]): string {
+  if (timeframes.length === 1 && timeframes[0] === "1d") {
+    return "daily timeframe (1d)";
+  }
+  return `timeframes ${timeframes.join(", ")}`;
+}
+
+/**
+ * Explain why a kline request can't be served, or null if it can — either
+ * natively or by resampling a finer timeframe the provider does serve.
+ * Tools use this to answer from metadata before hitting the network.
+ */
+export function getKlineSupportError(market: Market, timeframe: KlineTimeframe): string | null {
+  const provider = registry.get(market)?.[0];
+  if (!provider) {
+    return `Unknown market: ${market}`;
+  }
+  try {
+    parseTimeframe(timeframe);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  const timeframes = provider.capabilities.timeframes;
+  const native = isNativeTimeframe(timeframe) && timeframes.includes(timeframe);
+  if (!native && !pickBaseTimeframe(timeframe, timeframes)) {
+    return `${provider.label} data only supports ${formatTimeframes(provider.capabilities.timeframes)}, got: ${timeframe}`;
+  }
+  return null;
+}
+
+/** Explain why a feature isn't available for a market, or null if it is */
+export function getFeatureSupportError(market: Market, feature: ProviderFeature): string | null {
+  const provider = registry.get(market)?.[0];
+  if (!provider) {
+    return `Unknown market: ${market}`;
+  }
+  if (!provider.capabilities[feature]) {
+    const supported = marketsSupporting(feature);
+    const hint = supported.length > 0 ? ` (available for: ${supported.join(", ")})` : "";
+    return `${FEATURE_LABELS[feature]} not supported for market: ${market}${hint}`;
+  }
+  return null;
+}
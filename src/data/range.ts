@@ -0,0 +1,136 @@
+/**
+ * Date-range kline queries.
+ *
+ * Upstream APIs take calendar windows while tools think in bars. Instead of
+ * guessing one window per request, providers page: an explicit [start, end]
+ * range is split into chunks the upstream serves in one request, and a
+ * "latest N bars" query walks backward, doubling the window, until it has
+ * enough bars or runs out of history.
+ */
+
+import { mergeCandles } from "./cache.js";
+import { parseZonedDateTime } from "../utils/timezone.js";
+import type { OHLCV } from "./types.js";
+
+export interface KlineRange {
+  start?: number;  // Unix ms, inclusive
+  end?: number;    // Unix ms, inclusive; default now
+}
+
+/** Fetch upstream bars with timestamps in [from, to] (Unix ms, inclusive) */
+export type WindowFetcher = (from: number, to: number) => Promise<OHLCV[]>;
+
+export interface PagingOptions {
+  maxSpanMs: number;       // widest window a single upstream request can serve
+  initialSpanMs?: number;  // first backward window for limit queries (default maxSpanMs)
+  maxPages?: number;       // safety stop for backward paging
+  concurrency?: number;    // parallel window requests for explicit ranges (default 1)
+}
+
+export const DAY_MS = 86_400_000;
+
+const DEFAULT_MAX_PAGES = 20;
+const EMPTY_SPAN_MS = 31 * DAY_MS;
+
+/** Calendar days that hold `bars` daily bars of a 5-day-a-week market, plus holidays */
+export function tradingDaysSpanMs(bars: number): number {
+  return (Math.ceil(bars * 7 / 5) + 7) * DAY_MS;
+}
+
+/** "YYYY-MM-DD" (UTC) of a Unix ms timestamp, for date-based upstream params */
+export function toIsoDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().split("T")[0];
+}
+
+/** Map over items with at most `limit` promises in flight, preserving order */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Fetch klines by paging through upstream windows.
+ * With `range.start`: every bar in [start, end], `limit` ignored.
+ * Otherwise: the last `limit` bars at or before `range.end` (default now).
+ * @param fetchWindow Single-request fetcher for one window
+ * @param limit Number of bars for latest-N queries
+ * @param range Optional explicit window
+ * @param paging Upstream window limits
+ * @returns Ascending, de-duplicated OHLCV
+ */
+export async function fetchKlineWindows(
+  fetchWindow: WindowFetcher,
+  limit: number,
+  range: KlineRange,
+  paging: PagingOptions
+): Promise<OHLCV[]> {
+  const end = range.end ?? Date.now();
+  const maxPages = paging.maxPages ?? DEFAULT_MAX_PAGES;
+  let candles: OHLCV[] = [];
+
+  if (range.start !== undefined) {
+    const start = range.start;
+    const windows: Array<[number, number]> = [];
+    for (let from = start; from <= end; from += paging.maxSpanMs) {
+      windows.push([from, Math.min(from + paging.maxSpanMs - 1, end)]);
+    }
+    const pages = await mapWithConcurrency(windows, paging.concurrency ?? 1, ([from, to]) => fetchWindow(from, to));
+    for (const page of pages) {
+      candles = mergeCandles(candles, page);
+    }
+    return candles.filter((c) => c.timestamp >= start && c.timestamp <= end);
+  }
+
+  let span = Math.min(paging.initialSpanMs ?? paging.maxSpanMs, paging.maxSpanMs);
+  let to = end;
+  for (let page = 0; page < maxPages; page++) {
+    const from = to - span + 1;
+    const chunk = await fetchWindow(from, to);
+    candles = mergeCandles(chunk, candles);
+    const inRange = candles.filter((c) => c.timestamp <= end);
+    if (inRange.length >= limit) break;
+    // A month (or a max-size window) without bars means we've walked past the
+    // start of the history; shorter gaps can just be a long market closure
+    if (chunk.length === 0 && span >= Math.min(EMPTY_SPAN_MS, paging.maxSpanMs)) break;
+    to = from - 1;
+    span = Math.min(span * 2, paging.maxSpanMs);
+  }
+  return candles.filter((c) => c.timestamp <= end).slice(-limit);
+}
+
+function parseDateParam(value: string, name: string, endOfDay: boolean): number {
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  const ts = parseZonedDateTime(value, "UTC");
+  if (isNaN(ts)) {
+    throw new Error(`Invalid ${name} date: ${value} (expected YYYY-MM-DD or ISO datetime)`);
+  }
+  // A date-only end covers the whole day
+  return isDateOnly && endOfDay ? ts + DAY_MS - 1 : ts;
+}
+
+/**
+ * Parse tool `start`/`end` strings into a KlineRange.
+ * Dates are UTC; a date-only `end` is inclusive of that whole day.
+ * @throws Error for unparseable dates or start after end
+ */
+export function parseDateRange(start?: string, end?: string): KlineRange {
+  const range: KlineRange = {};
+  if (start) range.start = parseDateParam(start, "start", false);
+  if (end) range.end = parseDateParam(end, "end", true);
+  if (range.start !== undefined && range.end !== undefined && range.start > range.end) {
+    throw new Error(`start (${start}) must be before end (${end})`);
+  }
+  return range;
+}
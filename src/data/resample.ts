@@ -0,0 +1,220 @@
+/**
+ * Resampling engine: derives bars the upstream doesn't serve (1w/1M for
+ * equities, 2h/3d/12h anywhere) by aggregating a finer base timeframe.
+ *
+ * Intraday targets are bucketed per trading day from the session open, so a
+ * bar never straddles the close or the A-share lunch break. Day/week/month
+ * targets bucket by trading date — the UTC date for daily bars (EOD
+ * convention), the exchange-local date for intraday bars. Weeks start on
+ * Monday, months on the 1st; multi-day/week buckets are counted from the
+ * Unix epoch so they stay put as new data arrives.
+ */
+
+import {
+  EXCHANGE_CALENDARS,
+  INTRADAY_MINUTES,
+  isIntraday,
+  localPosition,
+  sessionMinutes,
+  sessionOffset,
+  windowsFor,
+  type ExchangeCalendar,
+  type TradingSession,
+} from "./sessions.js";
+import type { KlineTimeframe, OHLCV, Timeframe } from "./types.js";
+
+export type TimeframeUnit = "m" | "h" | "d" | "w" | "M";
+
+export interface ParsedTimeframe {
+  count: number;
+  unit: TimeframeUnit;
+}
+
+export interface ResampleOptions {
+  calendar?: ExchangeCalendar;  // default: 24h UTC
+  session?: TradingSession;
+}
+
+const NATIVE_TIMEFRAMES: Timeframe[] = ["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"];
+
+const DAY_MS = 86_400_000;
+
+/** Upper bound on base bars fetched for one resampled request (matches the cache cap) */
+export const MAX_BASE_BARS = 5000;
+
+/**
+ * Parse "<count><unit>" — m minutes, h hours, d days, w weeks, M months.
+ * @throws Error for malformed or non-positive timeframes
+ */
+export function parseTimeframe(timeframe: string): ParsedTimeframe {
+  const match = /^(\d+)(m|h|d|w|M)$/.exec(timeframe);
+  const count = match ? parseInt(match[1], 10) : 0;
+  if (!match || count <= 0) {
+    throw new Error(`Invalid timeframe: ${timeframe} (expected e.g. 15m, 2h, 3d, 1w, 1M)`);
+  }
+  return { count, unit: match[2] as TimeframeUnit };
+}
+
+export function isNativeTimeframe(timeframe: string): timeframe is Timeframe {
+  return (NATIVE_TIMEFRAMES as string[]).includes(timeframe);
+}
+
+/** Length in minutes of an intraday (m/h) timeframe */
+function intradayMinutes(tf: ParsedTimeframe): number {
+  return tf.unit === "h" ? tf.count * 60 : tf.count;
+}
+
+/** Can bars of `base` be aggregated exactly into bars of `target`? */
+function canBuild(base: Timeframe, target: ParsedTimeframe): boolean {
+  if (target.unit === "m" || target.unit === "h") {
+    const baseMinutes = INTRADAY_MINUTES[base];
+    return baseMinutes !== undefined && intradayMinutes(target) % baseMinutes === 0;
+  }
+  // Anything up to a day groups cleanly by trading date
+  if (isIntraday(base) || base === "1d") return true;
+  // Weeks straddle month ends, so 1w only builds multi-week bars
+  if (base === "1w") return target.unit === "w";
+  return target.unit === "M";
+}
+
+/** Rough length of a timeframe in minutes, used to rank base candidates */
+function nominalMinutes(tf: ParsedTimeframe): number {
+  const perUnit: Record<TimeframeUnit, number> = { m: 1, h: 60, d: 1440, w: 10_080, M: 43_200 };
+  return tf.count * perUnit[tf.unit];
+}
+
+/**
+ * Coarsest available timeframe that aggregates exactly into `target`
+ * (fewest bars to fetch), or null if none does.
+ */
+export function pickBaseTimeframe(target: KlineTimeframe, available: Timeframe[]): Timeframe | null {
+  const parsed = parseTimeframe(target);
+  const candidates = available
+    .filter((tf) => tf !== target && canBuild(tf, parsed))
+    .sort((a, b) => nominalMinutes(parseTimeframe(b)) - nominalMinutes(parseTimeframe(a)));
+  return candidates[0] ?? null;
+}
+
+/**
+ * Merge consecutive candles that share a bucket key.
+ * Input must be ascending; output timestamps are each bucket's first bar.
+ */
+function bucketCandles(candles: OHLCV[], keyOf: (c: OHLCV) => string | number): OHLCV[] {
+  const result: OHLCV[] = [];
+  let currentKey: string | number | undefined;
+
+  for (const c of candles) {
+    const key = keyOf(c);
+    const last = result[result.length - 1];
+
+    if (key !== currentKey || !last) {
+      result.push({ ...c });
+      currentKey = key;
+    } else {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      last.volume += c.volume;
+    }
+  }
+  return result;
+}
+
+/**
+ * Aggregate intraday bars into larger bars anchored at the session open.
+ * Buckets count trading minutes and never span two trading days,
+ * e.g. US regular 4h → 09:30 and 13:30; A-share 1h → 09:30, 10:30, 13:00, 14:00.
+ */
+export function aggregateIntraday(
+  candles: OHLCV[],
+  targetMinutes: number,
+  calendar: ExchangeCalendar,
+  session: TradingSession
+): OHLCV[] {
+  const windows = windowsFor(calendar, session);
+  return bucketCandles(candles, (c) => {
+    const { date, minute } = localPosition(c.timestamp, calendar.timeZone);
+    return `${date}#${Math.floor(sessionOffset(minute, windows) / targetMinutes)}`;
+  });
+}
+
+/** Days since the Unix epoch of the bar's trading date */
+function tradingDay(timestamp: number, base: Timeframe, timeZone: string): number {
+  if (!isIntraday(base)) {
+    return Math.floor(timestamp / DAY_MS);
+  }
+  const { date } = localPosition(timestamp, timeZone);
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * Resample ascending `base` candles into `target` bars.
+ * @param candles Ascending candles at the base timeframe
+ * @param base Timeframe of `candles`
+ * @param target Any timeframe `base` can build (see pickBaseTimeframe)
+ * @param options Exchange calendar and session used for anchoring
+ * @returns Aggregated candles; the first and last may be partial
+ */
+export function resample(
+  candles: OHLCV[],
+  base: Timeframe,
+  target: KlineTimeframe,
+  options: ResampleOptions = {}
+): OHLCV[] {
+  const tf = parseTimeframe(target);
+  const calendar = options.calendar ?? EXCHANGE_CALENDARS.crypto;
+  const session = options.session ?? "regular";
+
+  if (!canBuild(base, tf)) {
+    throw new Error(`Cannot resample ${base} bars into ${target}`);
+  }
+  if (tf.unit === "m" || tf.unit === "h") {
+    return aggregateIntraday(candles, intradayMinutes(tf), calendar, session);
+  }
+
+  return bucketCandles(candles, (c) => {
+    const day = tradingDay(c.timestamp, base, calendar.timeZone);
+    switch (tf.unit) {
+      case "d":
+        return Math.floor(day / tf.count);
+      case "w":
+        // 1970-01-01 was a Thursday; shift so weeks start on Monday
+        return Math.floor(Math.floor((day + 3) / 7) / tf.count);
+      default: {
+        const date = new Date(day * DAY_MS);
+        return Math.floor((date.getUTCFullYear() * 12 + date.getUTCMonth()) / tf.count);
+      }
+    }
+  });
+}
+
+/**
+ * Number of base bars to fetch so that `limit` complete target bars can be
+ * built, including one extra bucket for the partial bar at the window start.
+ * Capped at MAX_BASE_BARS; getKlines rejects limits the capped window can't fill.
+ */
+export function resampleBaseLimit(
+  target: KlineTimeframe,
+  base: Timeframe,
+  limit: number,
+  calendar: ExchangeCalendar = EXCHANGE_CALENDARS.crypto,
+  session: TradingSession = "regular"
+): number {
+  const tf = parseTimeframe(target);
+  const baseMinutes = INTRADAY_MINUTES[base];
+  let perTarget: number;
+
+  if (baseMinutes !== undefined) {
+    const barsPerDay = Math.ceil(sessionMinutes(calendar, session) / baseMinutes);
+    perTarget = tf.unit === "m" || tf.unit === "h"
+      ? Math.min(Math.ceil(intradayMinutes(tf) / baseMinutes), barsPerDay)
+      : barsPerDay * (tf.unit === "d" ? tf.count : tf.unit === "w" ? 7 * tf.count : 31 * tf.count);
+  } else if (base === "1d") {
+    perTarget = tf.unit === "d" ? tf.count : tf.unit === "w" ? 7 * tf.count : 31 * tf.count;
+  } else {
+    // 1w → Nw, 1M → NM
+    perTarget = tf.count;
+  }
+
+  return Math.min((limit + 1) * perTarget, MAX_BASE_BARS);
+}
@@ -0,0 +1,279 @@
+/**
+ * Symbol resolution across markets.
+ *
+ * Agents write the same instrument many ways — "BTC", "btc/usdt", "600519",
+ * "SH600519", "gold", "XAUUSD.FOREX", "BRK.B". The resolver maps free text to
+ * canonical (symbol, market, exchange) tuples in the form the data layer
+ * expects (BTCUSDT, 600519.SHG, XAUUSD, BRK-B):
+ *   - local rules recognise ticker shapes and well-known names (no network)
+ *   - EODHD /search adds company names and verifies tickers when a key is set
+ * The router runs every symbol through canonicalSymbol(), so all tools accept
+ * the same spellings; gainlab_search exposes the ranked candidates.
+ */
+
+import { httpFetch } from "../utils/http.js";
+import { getCryptoClassification, isExcludedToken } from "../utils/crypto-sectors.js";
+import type { Market } from "./types.js";
+
+const EODHD_BASE_URL = "https://eodhd.com/api";
+
+/** Top candidates closer than this are reported as ambiguous */
+const AMBIGUITY_MARGIN = 0.1;
+/** Below this the best candidate is only a guess */
+const MIN_CONFIDENCE = 0.5;
+
+export interface SymbolMatch {
+  symbol: string;       // canonical, as the data layer takes it
+  market: Market;
+  exchange: string;     // "BINANCE", "US", "SHG", "SHE", "FOREX"
+  name?: string;
+  type?: string;        // "Crypto", "Common Stock", "ETF", "Metal"...
+  confidence: number;   // 0–1
+}
+
+export interface SymbolResolution {
+  query: string;
+  match: SymbolMatch | null;     // best candidate, null when nothing fits
+  candidates: SymbolMatch[];     // ranked, best first
+  ambiguous: boolean;            // several markets fit about equally, or only weak guesses
+  searched: string[];            // "rules", "eodhd"
+}
+
+export interface ResolveOptions {
+  market?: Market;
+  limit?: number;       // default 10
+  remote?: boolean;     // query EODHD search (default true when EODHD_API_KEY is set)
+}
+
+/** Common names of the larger tokens; tickers are recognised from crypto-sectors */
+const CRYPTO_NAMES: Record<string, string> = {
+  BITCOIN: "BTC",
+  ETHEREUM: "ETH",
+  ETHER: "ETH",
+  SOLANA: "SOL",
+  RIPPLE: "XRP",
+  DOGECOIN: "DOGE",
+  CARDANO: "ADA",
+  "BINANCE COIN": "BNB",
+  AVALANCHE: "AVAX",
+  POLKADOT: "DOT",
+  CHAINLINK: "LINK",
+  LITECOIN: "LTC",
+  TRON: "TRX",
+  TONCOIN: "TON",
+  "SHIBA INU": "SHIB",
+  POLYGON: "POL",
+  COSMOS: "ATOM",
+  UNISWAP: "UNI",
+  ARBITRUM: "ARB",
+  OPTIMISM: "OP",
+  PEPE: "PEPE",
+  SUI: "SUI",
+  APTOS: "APT",
+  NEAR: "NEAR",
+};
+
+/** EODHD FOREX metals the commodity market serves */
+const METALS: Array<{ symbol: string; name: string; aliases: string[] }> = [
+  { symbol: "XAUUSD", name: "Gold Spot", aliases: ["XAU", "GOLD", "黄金", "现货黄金"] },
+  { symbol: "XAGUSD", name: "Silver Spot", aliases: ["XAG", "SILVER", "白银", "现货白银"] },
+];
+
+const QUOTE_SEPARATORS = /[\s/_-]/g;
+
+const isKnownToken = (base: string) =>
+  getCryptoClassification(base).sector !== "Other" || Object.values(CRYPTO_NAMES).includes(base);
+
+function cryptoCandidates(raw: string): SymbolMatch[] {
+  const upper = raw.toUpperCase();
+  const named = CRYPTO_NAMES[upper.trim()];
+  if (named) {
+    return [{ symbol: `${named}USDT`, market: "crypto", exchange: "BINANCE", name: `${named}/USDT`, type: "Crypto", confidence: 0.85 }];
+  }
+  const compact = upper.replace(QUOTE_SEPARATORS, "");
+  if (!/^[A-Z0-9]{2,15}$/.test(compact)) return [];
+
+  const quoted = compact.endsWith("USDT") && compact.length > 4;
+  const base = quoted ? compact.slice(0, -4) : compact;
+  if (isExcludedToken(base) && !quoted) return [];
+  const known = isKnownToken(base);
+  // "BTCUSDT" is unmistakable; a bare unknown word is only a weak guess
+  const confidence = quoted ? (known ? 0.95 : 0.8) : known ? 0.9 : 0.3;
+  return [{ symbol: `${base}USDT`, market: "crypto", exchange: "BINANCE", name: `${base}/USDT`, type: "Crypto", confidence }];
+}
+
+function aShareCandidates(raw: string): SymbolMatch[] {
+  const m = raw.trim().toUpperCase().match(/^(SH|SZ)?(\d{6})(?:\.(SHG|SHE|SH|SZ|SS))?$/);
+  if (!m) return [];
+  const [, prefix, code, suffix] = m;
+  const tag = suffix ?? prefix;
+  const exchange = tag
+    ? (/^(SHG|SH|SS)$/.test(tag) ? "SHG" : "SHE")
+    : code.startsWith("6") ? "SHG" : "SHE";
+  return [{
+    symbol: `${code}.${exchange}`,
+    market: "a_stock",
+    exchange,
+    type: "Common Stock",
+    confidence: tag ? 0.95 : 0.9,
+  }];
+}
+
+function metalCandidates(raw: string): SymbolMatch[] {
+  const upper = raw.trim().toUpperCase().replace(/\.(FOREX|COMM)$/, "").replace(QUOTE_SEPARATORS, "");
+  return METALS.flatMap((metal) => {
+    const exact = upper === metal.symbol;
+    const alias = metal.aliases.includes(upper) || metal.aliases.includes(raw.trim());
+    if (!exact && !alias) return [];
+    return [{
+      symbol: metal.symbol,
+      market: "commodity" as const,
+      exchange: "FOREX",
+      name: metal.name,
+      type: "Metal",
+      // "GOLD" is also a NYSE ticker (Barrick)
+      confidence: exact || upper.startsWith("X") ? 0.95 : 0.8,
+    }];
+  });
+}
+
+function usCandidates(raw: string): SymbolMatch[] {
+  const m = raw.trim().toUpperCase().match(/^([A-Z]{1,5})(?:[.-]([A-Z]))?(\.US)?$/);
+  if (!m) return [];
+  const [, root, shareClass, suffix] = m;
+  return [{
+    symbol: shareClass ? `${root}-${shareClass}` : root,
+    market: "us_stock",
+    exchange: "US",
+    type: "Common Stock",
+    // Any short word looks like a ticker; only the suffix makes it certain
+    confidence: suffix ? 0.95 : 0.6,
+  }];
+}
+
+/** Candidates from ticker shapes and known names only */
+export function matchSymbolLocally(query: string, market?: Market): SymbolMatch[] {
+  const all = [
+    ...aShareCandidates(query),
+    ...metalCandidates(query),
+    ...cryptoCandidates(query),
+    ...usCandidates(query),
+  ];
+  return rank(market ? all.filter((c) => c.market === market) : all);
+}
+
+/** EODHD search hits in markets the server covers */
+function fromEodhdHit(hit: any, query: string, rankIndex: number): SymbolMatch | null {
+  const code = String(hit.Code ?? "").toUpperCase();
+  const exchange = String(hit.Exchange ?? "").toUpperCase();
+  let symbol: string;
+  let market: Market;
+  if (exchange === "US") {
+    symbol = code.replace(".", "-");
+    market = "us_stock";
+  } else if (exchange === "SHG" || exchange === "SHE") {
+    symbol = `${code}.${exchange}`;
+    market = "a_stock";
+  } else if (exchange === "FOREX" && METALS.some((m) => m.symbol === code)) {
+    symbol = code;
+    market = "commodity";
+  } else {
+    return null;
+  }
+  const q = query.trim().toUpperCase();
+  const name = String(hit.Name ?? "");
+  const score = code === q ? 0.9 : name.toUpperCase().startsWith(q) ? 0.75 : 0.55;
+  return {
+    symbol,
+    market,
+    exchange,
+    ...(name && { name }),
+    ...(hit.Type && { type: market === "commodity" ? "Metal" : hit.Type }),
+    confidence: Math.max(0.1, score - rankIndex * 0.02),
+  };
+}
+
+async function searchEodhd(query: string): Promise<SymbolMatch[]> {
+  const apiKey = process.env.EODHD_API_KEY;
+  const url = `${EODHD_BASE_URL}/search/${encodeURIComponent(query.trim())}?api_token=${apiKey}&fmt=json&limit=30`;
+  const response = await httpFetch(url);
+  if (!response.ok) {
+    throw new Error(`EODHD search error (${response.status})`);
+  }
+  const hits: any[] = await response.json();
+  return hits
+    .map((hit, i) => fromEodhdHit(hit, query, i))
+    .filter((m): m is SymbolMatch => m !== null);
+}
+
+/** Best first; duplicates of one (symbol, market) keep the higher score and any name */
+function rank(matches: SymbolMatch[]): SymbolMatch[] {
+  const merged = new Map<string, SymbolMatch>();
+  for (const m of matches) {
+    const key = `${m.market}:${m.symbol}`;
+    const prev = merged.get(key);
+    if (!prev) {
+      merged.set(key, m);
+      continue;
+    }
+    const best = m.confidence > prev.confidence ? m : prev;
+    merged.set(key, { ...prev, ...best, name: best.name ?? prev.name, type: best.type ?? prev.type });
+  }
+  return [...merged.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * An EODHD listing verifies a locally guessed ticker; a stock guess the
+ * search didn't list is probably just a word that looks like a ticker.
+ */
+function confirm(local: SymbolMatch[], remote: SymbolMatch[]): SymbolMatch[] {
+  return local.map((l) => {
+    const hit = remote.find((r) => r.market === l.market && r.symbol === l.symbol);
+    if (hit) return { ...l, name: hit.name ?? l.name, confidence: Math.max(l.confidence, 0.95) };
+    const listedMarket = l.market === "us_stock" || l.market === "a_stock";
+    return listedMarket && l.confidence < 0.9 ? { ...l, confidence: l.confidence / 2 } : l;
+  });
+}
+
+/**
+ * Resolve free text to ranked (symbol, market, exchange) candidates.
+ * EODHD search failures are ignored; the local rules still answer.
+ */
+export async function resolveSymbol(query: string, options: ResolveOptions = {}): Promise<SymbolResolution> {
+  const { market, limit = 10 } = options;
+  const local = matchSymbolLocally(query, market);
+  const searched = ["rules"];
+
+  let remote: SymbolMatch[] | null = null;
+  const useRemote = (options.remote ?? Boolean(process.env.EODHD_API_KEY)) && market !== "crypto" && market !== "local";
+  if (useRemote && query.trim().length > 0) {
+    try {
+      remote = await searchEodhd(query);
+      if (market) remote = remote.filter((r) => r.market === market);
+      searched.push("eodhd");
+    } catch {
+      // Search is best-effort; local rules still answer
+    }
+  }
+
+  const candidates = rank(remote ? [...confirm(local, remote), ...remote] : local).slice(0, limit);
+  const [first, second] = candidates;
+  const ambiguous = first !== undefined && (
+    first.confidence < MIN_CONFIDENCE ||
+    (second !== undefined && second.market !== first.market && first.confidence - second.confidence < AMBIGUITY_MARGIN)
+  );
+  return { query, match: first ?? null, candidates, ambiguous, searched };
+}
+
+/**
+ * Canonical spelling of `symbol` for `market`, from local rules only.
+ * Unrecognised symbols pass through unchanged (upper-cased except local files).
+ */
+export function canonicalSymbol(symbol: string, market: Market): string {
+  if (market === "local") return symbol;
+  const [best] = matchSymbolLocally(symbol, market);
+  if (!best) return symbol.trim().toUpperCase();
+  // A bare unknown word is a guess; leave it as given
+  if (market === "crypto" && best.confidence < MIN_CONFIDENCE) return symbol.trim().toUpperCase();
+  return best.symbol;
+}
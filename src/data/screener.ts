@@ -1,10 +1,10 @@
 /**
- * Batch data fetching for heatmaps.
+ * Batch data fetching for heatmaps and peer suggestions.
  * - US stocks: EODHD Screener API
  * - Crypto: Binance 24hr ticker
  */
 
-import { proxyFetch } from "../utils/fetch.js";
+import { httpFetch } from "../utils/http.js";
 import {
   getCryptoClassification,
   isExcludedToken,
@@ -39,15 +39,17 @@ export interface ScreenerItem {
 // --- EODHD Screener (US stocks) ---
 
 interface EodhdScreenerParams {
-  exchange?: string;      // "us" for US stocks
+  exchange?: string;      // "us" for US stocks, "SHG"/"SHE" for A-shares
   sector?: string;        // e.g., "Technology"
+  industry?: string;      // e.g., "Consumer Electronics"
+  code?: string;          // one ticker, without exchange suffix
   minMarketCap?: number;  // minimum market cap in USD
   limit?: number;         // max results (default 50)
 }
 
 export async function getUSStockScreener(params: EodhdScreenerParams = {}): Promise<ScreenerItem[]> {
   const apiKey = getEodhdApiKey();
-  const { exchange = "us", sector, minMarketCap = 1_000_000_000, limit = 50 } = params;
+  const { exchange = "us", sector, industry, code, minMarketCap = 1_000_000_000, limit = 50 } = params;
 
   // Build filters array: [["field", "operator", value], ...]
   const filters: any[][] = [
@@ -57,11 +59,17 @@ export async function getUSStockScreener(params: EodhdScreenerParams = {}): Prom
   if (sector) {
     filters.push(["sector", "=", sector]);
   }
+  if (industry) {
+    filters.push(["industry", "=", industry]);
+  }
+  if (code) {
+    filters.push(["code", "=", code]);
+  }
 
   const filtersEncoded = encodeURIComponent(JSON.stringify(filters));
   const url = `${EODHD_BASE_URL}/screener?sort=market_capitalization.desc&filters=${filtersEncoded}&limit=${limit}&api_token=${apiKey}&fmt=json`;
 
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   if (!response.ok) {
     const text = await response.text();
     throw new Error(`EODHD Screener API error (${response.status}): ${text}`);
@@ -86,6 +94,26 @@ export async function getUSStockScreener(params: EodhdScreenerParams = {}): Prom
   }));
 }
 
+/**
+ * A company's own screener row plus the largest names in its industry and
+ * sector — candidates for peer comparison.
+ */
+export async function getScreenerPeerCandidates(
+  code: string,
+  exchange = "us",
+  limit = 50
+): Promise<{ company: ScreenerItem; candidates: ScreenerItem[] }> {
+  const [company] = await getUSStockScreener({ exchange, code, minMarketCap: 0, limit: 1 });
+  if (!company) {
+    throw new Error(`${code} not found in the EODHD screener (exchange ${exchange})`);
+  }
+  const [industry, sector] = await Promise.all([
+    company.industry !== "Other" ? getUSStockScreener({ exchange, industry: company.industry, limit }) : [],
+    company.sector !== "Other" ? getUSStockScreener({ exchange, sector: company.sector, limit }) : [],
+  ]);
+  return { company, candidates: [...industry, ...sector] };
+}
+
 // --- Binance 24hr Ticker (crypto) ---
 
 interface CryptoScreenerParams {
@@ -98,7 +126,7 @@ export async function getCryptoScreener(params: CryptoScreenerParams = {}): Prom
   const { minVolume = 1_000_000, limit = 50, sector } = params;
 
   const url = `${BINANCE_BASE}/api/v3/ticker/24hr`;
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   if (!response.ok) {
     throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
   }
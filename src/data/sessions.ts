@@ -0,0 +1,144 @@
+/**
+ * Exchange trading sessions for intraday data.
+ *
+ * Times are minutes from local midnight in the exchange timezone. Used to
+ * filter intraday bars to regular/extended hours and, in data/resample.ts, to
+ * anchor aggregated bars at the session open rather than the UTC hour.
+ */
+
+import { toWallClock } from "../utils/timezone.js";
+import type { OHLCV, Timeframe, MarketStatus } from "./types.js";
+
+export type TradingSession = "regular" | "extended";
+
+export interface SessionWindow {
+  start: number;  // minutes from local midnight, inclusive
+  end: number;    // minutes from local midnight, exclusive
+}
+
+export interface ExchangeCalendar {
+  timeZone: string;
+  regular: SessionWindow[];
+  extended: SessionWindow[];
+  weekends?: boolean;  // trades Saturday and Sunday too (crypto)
+}
+
+const hm = (h: number, m: number = 0) => h * 60 + m;
+
+export const EXCHANGE_CALENDARS = {
+  // NYSE/Nasdaq: pre-market 04:00, regular 09:30–16:00, after-hours to 20:00
+  us: {
+    timeZone: "America/New_York",
+    regular: [{ start: hm(9, 30), end: hm(16) }],
+    extended: [{ start: hm(4), end: hm(20) }],
+  },
+  // SSE/SZSE: morning and afternoon sessions, no extended hours
+  cn: {
+    timeZone: "Asia/Shanghai",
+    regular: [{ start: hm(9, 30), end: hm(11, 30) }, { start: hm(13), end: hm(15) }],
+    extended: [{ start: hm(9, 30), end: hm(11, 30) }, { start: hm(13), end: hm(15) }],
+  },
+  // Spot FX/metals trade around the clock on weekdays
+  fx: {
+    timeZone: "UTC",
+    regular: [{ start: 0, end: hm(24) }],
+    extended: [{ start: 0, end: hm(24) }],
+  },
+  // Crypto trades 24/7; days start at UTC midnight like Binance's own bars
+  crypto: {
+    timeZone: "UTC",
+    regular: [{ start: 0, end: hm(24) }],
+    extended: [{ start: 0, end: hm(24) }],
+    weekends: true,
+  },
+} satisfies Record<string, ExchangeCalendar>;
+
+export const INTRADAY_MINUTES: Partial<Record<Timeframe, number>> = {
+  "1m": 1,
+  "5m": 5,
+  "15m": 15,
+  "1h": 60,
+  "4h": 240,
+};
+
+export function isIntraday(timeframe: Timeframe): boolean {
+  return timeframe in INTRADAY_MINUTES;
+}
+
+export function windowsFor(calendar: ExchangeCalendar, session: TradingSession): SessionWindow[] {
+  return session === "extended" ? calendar.extended : calendar.regular;
+}
+
+/** Local trading date ("YYYY-MM-DD") and minute-of-day of a timestamp */
+export function localPosition(timestamp: number, timeZone: string): { date: string; minute: number } {
+  const w = toWallClock(timestamp, timeZone);
+  const date = `${w.year}-${String(w.month).padStart(2, "0")}-${String(w.day).padStart(2, "0")}`;
+  return { date, minute: w.hour * 60 + w.minute };
+}
+
+/**
+ * Whether the exchange is trading at `timestamp`, from its hours alone:
+ * weekends are closed unless the calendar trades them; holidays aren't known.
+ */
+export function marketStatus(calendar: ExchangeCalendar, timestamp: number): MarketStatus {
+  const { date, minute } = localPosition(timestamp, calendar.timeZone);
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (!calendar.weekends && (weekday === 0 || weekday === 6)) return "closed";
+  const inside = (windows: SessionWindow[]) => windows.some((w) => minute >= w.start && minute < w.end);
+  if (inside(calendar.regular)) return "open";
+  if (inside(calendar.extended)) {
+    return minute < calendar.regular[0].start ? "pre_market" : "after_hours";
+  }
+  return "closed";
+}
+
+/**
+ * Keep only bars whose span [start, start + barMinutes) overlaps the session
+ * windows. UTC-aligned hourly bars start before the open: the A-share 09:00
+ * bar and the US 09:00 ET bar hold the first half hour of trading.
+ */
+export function filterSession(
+  candles: OHLCV[],
+  calendar: ExchangeCalendar,
+  session: TradingSession,
+  barMinutes: number = 1
+): OHLCV[] {
+  const windows = windowsFor(calendar, session);
+  return candles.filter((c) => {
+    const { minute } = localPosition(c.timestamp, calendar.timeZone);
+    return windows.some((w) => minute + barMinutes > w.start && minute < w.end);
+  });
+}
+
+/**
+ * Trading minutes elapsed since the session open at a local minute-of-day,
+ * skipping breaks: A-share 13:00 → 120, the same offset as 11:30.
+ */
+export function sessionOffset(minute: number, windows: SessionWindow[]): number {
+  return windows.reduce(
+    (sum, w) => sum + Math.min(Math.max(minute - w.start, 0), w.end - w.start),
+    0
+  );
+}
+
+/** Total trading minutes per day for a session */
+export function sessionMinutes(calendar: ExchangeCalendar, session: TradingSession): number {
+  return windowsFor(calendar, session).reduce((sum, w) => sum + (w.end - w.start), 0);
+}
+
+/**
+ * Calendar days to request so that `limit` intraday bars survive session
+ * filtering, with headroom for weekends and holidays.
+ */
+export function intradayLookbackDays(
+  timeframe: Timeframe,
+  limit: number,
+  calendar: ExchangeCalendar,
+  session: TradingSession
+): number {
+  const minutes = INTRADAY_MINUTES[timeframe] ?? 1440;
+  const barsPerDay = Math.max(1, Math.ceil(sessionMinutes(calendar, session) / minutes));
+  const tradingDays = Math.ceil(limit / barsPerDay);
+  // 7/5 for weekends, plus a few days for holidays
+  return Math.ceil(tradingDays * 1.4) + 4;
+}
@@ -0,0 +1,49 @@
+/**
+ * Which provider actually served a request.
+ *
+ * The router records every successful fetch; callers that want to report it
+ * wrap their data calls in trackSources(), which collects the records made
+ * inside that async call tree without threading them through return types.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Market } from "./types.js";
+
+export interface DataSource {
+  market: Market;
+  provider: string;         // provider id ("fmp", "eodhd-us", ...) or "cache"
+  fallbackFrom?: string[];  // ids that errored before this one served it
+}
+
+const store = new AsyncLocalStorage<DataSource[]>();
+
+/** Note a served request for the enclosing trackSources() call, if any */
+export function recordSource(source: DataSource): void {
+  store.getStore()?.push(source);
+}
+
+/**
+ * Run `fn` and collect the sources that served it.
+ * @returns The result plus unique sources in first-seen order
+ */
+export async function trackSources<T>(fn: () => Promise<T>): Promise<{ result: T; sources: DataSource[] }> {
+  const records: DataSource[] = [];
+  const result = await store.run(records, fn);
+  const seen = new Set<string>();
+  const sources = records.filter((s) => {
+    const key = `${s.market}:${s.provider}:${s.fallbackFrom?.join(",") ?? ""}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { result, sources };
+}
+
+/** "fmp", "eodhd-us (fallback after fmp failed)", "cache" — comma-joined */
+export function formatSources(sources: DataSource[]): string {
+  if (sources.length === 0) return "cache";
+  const labels = sources.map((s) =>
+    s.fallbackFrom?.length ? `${s.provider} (fallback after ${s.fallbackFrom.join(", ")} failed)` : s.provider
+  );
+  return Array.from(new Set(labels)).join(", ");
+}
@@ -9,9 +9,20 @@ export interface OHLCV {
 
 export interface FundamentalData {
   period: string;       // "2025-Q4" | "2025"
+  date?: string;        // period end "2025-12-31", from the statements
+  currency?: string;    // ISO code the statement is reported in ("USD", "TWD"); may differ from the trading currency
   metrics: Record<string, number | null>;
 }
 
+/** One quarterly report: consensus going in and what was reported */
+export interface EarningsReport {
+  date: string;                    // report date "2025-10-30"
+  epsActual: number | null;        // null until reported
+  epsEstimate: number | null;
+  revenueActual: number | null;
+  revenueEstimate: number | null;
+}
+
 export interface DCFData {
   symbol: string;
   date: string;
@@ -19,15 +30,53 @@ export interface DCFData {
   stockPrice: number;
 }
 
+export type CalendarEventType = "earnings" | "dividend" | "split" | "macro";
+
+export type EventImportance = "low" | "medium" | "high";
+
 export interface CalendarEvent {
   date: string;         // "2026-02-15"
-  type: string;
+  time?: string;        // "13:30" (UTC) for macro releases, "before_market"/"after_market" for earnings
+  type: CalendarEventType;
   title: string;
-  market: string;
+  market: Market;
   symbol?: string;
-  importance?: "low" | "medium" | "high";
+  importance?: EventImportance;
+  actual?: number | null;    // reported EPS / release value, once published
+  estimate?: number | null;  // consensus
+  previous?: number | null;  // prior release (macro)
 }
 
-export type Market = "crypto" | "us_stock" | "a_stock" | "commodity";
+/** What a provider knows about the latest trade */
+export interface QuoteSnapshot {
+  symbol: string;
+  name?: string;
+  price: number;
+  change: number;                // vs previous close (crypto: vs 24h ago)
+  changePercent: number;         // percent, 1.5 = +1.5%
+  previousClose: number | null;
+  open: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  volume: number | null;
+  yearHigh?: number | null;
+  yearLow?: number | null;
+  timestamp: number;             // Unix ms of the price
+  delayed: boolean;              // true when the price is the last daily close, not live
+}
+
+export type MarketStatus = "open" | "closed" | "pre_market" | "after_hours";
+
+export interface Quote extends QuoteSnapshot {
+  market: Market;
+  yearHigh: number | null;
+  yearLow: number | null;
+  status: MarketStatus;          // from exchange hours; holidays aren't known
+}
+
+export type Market = "crypto" | "us_stock" | "a_stock" | "commodity" | "local";
 
 export type Timeframe = "1m" | "5m" | "15m" | "1h" | "4h" | "1d" | "1w" | "1M";
+
+/** Native timeframes plus any multiple resampled from them, e.g. "2h", "3d", "12h" */
+export type KlineTimeframe = Timeframe | `${number}${"m" | "h" | "d" | "w" | "M"}`;
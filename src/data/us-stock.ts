@@ -1,5 +1,23 @@
-import { proxyFetch } from "../utils/fetch.js";
-import { OHLCV, FundamentalData, DCFData } from "./types.js";
+import { httpFetch } from "../utils/http.js";
+import { OHLCV, FundamentalData, DCFData, EarningsReport, Timeframe, QuoteSnapshot } from "./types.js";
+import type { DataProvider } from "./provider.js";
+import {
+  EXCHANGE_CALENDARS,
+  INTRADAY_MINUTES,
+  filterSession,
+  intradayLookbackDays,
+  type TradingSession,
+} from "./sessions.js";
+import { aggregateIntraday } from "./resample.js";
+import { parseZonedDateTime } from "../utils/timezone.js";
+import type { CorporateAction } from "./adjust.js";
+import {
+  DAY_MS,
+  fetchKlineWindows,
+  toIsoDate,
+  tradingDaysSpanMs,
+  type KlineRange,
+} from "./range.js";
 
 const FMP_BASE_URL = "https://financialmodelingprep.com";
 
@@ -13,21 +31,8 @@ function getApiKey(): string {
   return key;
 }
 
-/**
- * Convert limit to a date range for FMP API
- * Assumes ~252 trading days per year
- */
-function getLimitDateRange(limit: number): { from: string; to: string } {
-  const now = new Date();
-  const to = now.toISOString().split("T")[0]; // YYYY-MM-DD
-  
-  // Rough estimate: add 40% buffer for weekends/holidays
-  const daysBack = Math.ceil(limit * 1.4);
-  const from = new Date(now.getTime() - daysBack * 24 * 60 * 60 * 1000);
-  const fromStr = from.toISOString().split("T")[0];
-  
-  return { from: fromStr, to };
-}
+/** Widest from/to window per historical-price-eod request (FMP caps at ~5 years) */
+const FMP_DAILY_MAX_SPAN_MS = 5 * 365 * DAY_MS;
 
 interface FMPHistoricalPrice {
   date: string; // "2026-02-14"
@@ -44,47 +49,206 @@ interface FMPHistoricalPrice {
 /**
  * Get US stock kline data from FMP
  * @param symbol Stock symbol (e.g., "AAPL")
- * @param limit Number of data points to return
+ * @param limit Number of data points to return (ignored when range.start is set)
+ * @param range Optional explicit date window, paged in ~5-year requests
  * @returns Array of OHLCV data
  */
 export async function getUSStockKlines(
   symbol: string,
-  limit: number = 100
+  limit: number = 100,
+  range: KlineRange = {}
 ): Promise<OHLCV[]> {
   const apiKey = getApiKey();
-  const { from, to } = getLimitDateRange(limit);
-  
-  const url = `${FMP_BASE_URL}/stable/historical-price-eod/full?symbol=${symbol}&from=${from}&to=${to}&apikey=${apiKey}`;
-  
-  const response = await proxyFetch(url);
-  
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(
-      `FMP API error (${response.status}): ${text}`
-    );
+
+  const fetchWindow = async (fromTs: number, toTs: number): Promise<OHLCV[]> => {
+    const url = `${FMP_BASE_URL}/stable/historical-price-eod/full?symbol=${symbol}&from=${toIsoDate(fromTs)}&to=${toIsoDate(toTs)}&apikey=${apiKey}`;
+
+    const response = await httpFetch(url);
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `FMP API error (${response.status}): ${text}`
+      );
+    }
+
+    const data: FMPHistoricalPrice[] = await response.json();
+
+    if (!Array.isArray(data)) {
+      throw new Error("FMP API returned unexpected format (expected array)");
+    }
+
+    // Convert to OHLCV format and sort by date ascending
+    return data
+      .map((item) => ({
+        timestamp: new Date(item.date + "T00:00:00Z").getTime(),
+        open: item.open,
+        high: item.high,
+        low: item.low,
+        close: item.close,
+        volume: item.volume,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  return fetchKlineWindows(fetchWindow, limit, range, {
+    initialSpanMs: tradingDaysSpanMs(limit),
+    maxSpanMs: FMP_DAILY_MAX_SPAN_MS,
+  });
+}
+
+/** FMP historical-chart intervals; 4h is built from 1hour bars anchored at the open */
+const FMP_INTRADAY_INTERVALS: Partial<Record<Timeframe, string>> = {
+  "1m": "1min",
+  "5m": "5min",
+  "15m": "15min",
+  "1h": "1hour",
+  "4h": "1hour",
+};
+
+/** Conservative from/to window per historical-chart request, in days */
+const FMP_INTRADAY_MAX_DAYS: Record<string, number> = {
+  "1min": 5,
+  "5min": 30,
+  "15min": 60,
+  "1hour": 180,
+};
+
+interface FMPIntradayPrice {
+  date: string; // "2026-02-13 15:59:00" — New York local time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Get US stock intraday kline data from FMP historical-chart
+ * @param symbol Stock symbol (e.g., "AAPL")
+ * @param timeframe Intraday timeframe (1m/5m/15m/1h/4h)
+ * @param limit Number of data points to return (ignored when range.start is set)
+ * @param session "regular" (09:30–16:00 ET) or "extended" (04:00–20:00 ET)
+ * @param range Optional explicit date window
+ * @returns Array of OHLCV data with UTC timestamps
+ */
+export async function getUSStockIntradayKlines(
+  symbol: string,
+  timeframe: Timeframe,
+  limit: number = 100,
+  session: TradingSession = "regular",
+  range: KlineRange = {}
+): Promise<OHLCV[]> {
+  const interval = FMP_INTRADAY_INTERVALS[timeframe];
+  if (!interval) {
+    throw new Error(`Unsupported intraday timeframe for US stocks: ${timeframe}`);
   }
-  
-  const data: FMPHistoricalPrice[] = await response.json();
-  
-  if (!Array.isArray(data)) {
-    throw new Error("FMP API returned unexpected format (expected array)");
+
+  const apiKey = getApiKey();
+  const calendar = EXCHANGE_CALENDARS.us;
+  // 4h bars are built from 1hour, so page for four times as many
+  const perBar = timeframe === "4h" ? 4 : 1;
+  const barMinutes = INTRADAY_MINUTES[timeframe]! / perBar;
+  const extended = session === "extended" ? "&extended=true" : "";
+
+  const fetchWindow = async (fromTs: number, toTs: number): Promise<OHLCV[]> => {
+    const url = `${FMP_BASE_URL}/stable/historical-chart/${interval}?symbol=${symbol}&from=${toIsoDate(fromTs)}&to=${toIsoDate(toTs)}${extended}&apikey=${apiKey}`;
+
+    const response = await httpFetch(url);
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `FMP API error (${response.status}): ${text}`
+      );
+    }
+
+    const data: FMPIntradayPrice[] = await response.json();
+
+    if (!Array.isArray(data)) {
+      throw new Error("FMP API returned unexpected format (expected array)");
+    }
+
+    // FMP intraday dates are exchange-local wall-clock times
+    const ohlcv = data
+      .map((item) => ({
+        timestamp: parseZonedDateTime(item.date, calendar.timeZone),
+        open: item.open,
+        high: item.high,
+        low: item.low,
+        close: item.close,
+        volume: item.volume,
+      }))
+      .filter((c) => !isNaN(c.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return filterSession(ohlcv, calendar, session, barMinutes);
+  };
+
+  let ohlcv = await fetchKlineWindows(fetchWindow, (limit + 1) * perBar, range, {
+    initialSpanMs: intradayLookbackDays(timeframe, limit, calendar, session) * DAY_MS,
+    maxSpanMs: FMP_INTRADAY_MAX_DAYS[interval] * DAY_MS,
+  });
+
+  if (timeframe === "4h") {
+    ohlcv = aggregateIntraday(ohlcv, INTRADAY_MINUTES["4h"]!, calendar, session);
   }
-  
-  // Convert to OHLCV format and sort by date ascending
-  const ohlcv: OHLCV[] = data
-    .map((item) => ({
-      timestamp: new Date(item.date + "T00:00:00Z").getTime(),
-      open: item.open,
-      high: item.high,
-      low: item.low,
-      close: item.close,
-      volume: item.volume,
-    }))
-    .sort((a, b) => a.timestamp - b.timestamp)
-    .slice(-limit); // Take the most recent 'limit' items
-  
-  return ohlcv;
+
+  return range.start !== undefined ? ohlcv : ohlcv.slice(-limit);
+}
+
+interface FMPDividend {
+  date: string;         // ex-dividend date
+  dividend: number;     // as paid
+  adjDividend: number;  // adjusted for later splits
+}
+
+interface FMPSplit {
+  date: string;
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * Get US stock dividend and split history from FMP
+ * @param symbol Stock symbol (e.g., "AAPL")
+ * @returns Corporate actions with unadjusted cash amounts, ascending by ex-date
+ */
+export async function getUSStockCorporateActions(symbol: string): Promise<CorporateAction[]> {
+  const apiKey = getApiKey();
+
+  const fetchList = async <T>(endpoint: string): Promise<T[]> => {
+    const response = await httpFetch(`${FMP_BASE_URL}/stable/${endpoint}?symbol=${symbol}&apikey=${apiKey}`);
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `FMP API error (${response.status}): ${text}`
+      );
+    }
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error("FMP API returned unexpected format (expected array)");
+    }
+    return data;
+  };
+
+  const [dividends, splits] = await Promise.all([
+    fetchList<FMPDividend>("dividends"),
+    fetchList<FMPSplit>("splits"),
+  ]);
+
+  const actions: CorporateAction[] = [
+    ...dividends.map((d): CorporateAction => ({
+      type: "dividend",
+      date: new Date(d.date + "T00:00:00Z").getTime(),
+      amount: d.dividend ?? d.adjDividend,
+    })),
+    ...splits.map((s): CorporateAction => ({
+      type: "split",
+      date: new Date(s.date + "T00:00:00Z").getTime(),
+      ratio: s.numerator / s.denominator,
+    })),
+  ];
+  return actions.filter((a) => !isNaN(a.date)).sort((a, b) => a.date - b.date);
 }
 
 interface FMPIncomeStatement {
@@ -143,7 +307,7 @@ export async function getUSStockFundamentals(
   const apiKey = getApiKey();
   const url = `${FMP_BASE_URL}/stable/income-statement?symbol=${symbol}&period=${period}&limit=${limit}&apikey=${apiKey}`;
   
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   
   if (!response.ok) {
     const text = await response.text();
@@ -177,6 +341,8 @@ export async function getUSStockFundamentals(
     
     return {
       period: periodStr,
+      date: item.date,
+      currency: item.reportedCurrency || undefined,
       metrics: {
         revenue: item.revenue,
         costOfRevenue: item.costOfRevenue,
@@ -190,6 +356,7 @@ export async function getUSStockFundamentals(
         ebitdaRatio: item.ebitdaratio,
         netIncome: item.netIncome,
         netIncomeRatio: item.netIncomeRatio,
+        interestExpense: item.interestExpense,
         eps: item.eps,
         epsDiluted: item.epsdiluted,
         weightedAverageShares: item.weightedAverageShsOut,
@@ -235,7 +402,7 @@ export async function getUSStockCashFlow(
   const apiKey = getApiKey();
   const url = `${FMP_BASE_URL}/stable/cash-flow-statement?symbol=${symbol}&period=${period}&limit=${limit}&apikey=${apiKey}`;
   
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   
   if (!response.ok) {
     const text = await response.text();
@@ -264,6 +431,8 @@ export async function getUSStockCashFlow(
     
     return {
       period: periodStr,
+      date: item.date,
+      currency: item.reportedCurrency || undefined,
       metrics: {
         operatingCashFlow: item.netCashProvidedByOperatingActivities ?? item.operatingCashFlow ?? null,
         freeCashFlow: item.freeCashFlow ?? null,
@@ -279,6 +448,99 @@ export async function getUSStockCashFlow(
   return cashFlowData;
 }
 
+interface FMPBalanceSheet {
+  date: string;
+  symbol: string;
+  reportedCurrency: string;
+  period: string;
+  cashAndCashEquivalents?: number;
+  cashAndShortTermInvestments?: number;
+  totalCurrentAssets?: number;
+  totalAssets?: number;
+  totalCurrentLiabilities?: number;
+  totalLiabilities?: number;
+  totalStockholdersEquity?: number;
+  totalEquity?: number;
+  shortTermDebt?: number;
+  longTermDebt?: number;
+  totalDebt?: number;
+  netDebt?: number;
+}
+
+/**
+ * Get US stock balance sheet data from FMP
+ * @param symbol Stock symbol (e.g., "AAPL")
+ * @param period "annual" or "quarter"
+ * @param limit Number of periods to return (default: 5)
+ * @returns Array of FundamentalData; book value per share needs a share
+ *   count from the income statement and is left to the caller
+ */
+export async function getUSStockBalanceSheet(
+  symbol: string,
+  period: "annual" | "quarter" = "annual",
+  limit: number = 5
+): Promise<FundamentalData[]> {
+  const apiKey = getApiKey();
+  const url = `${FMP_BASE_URL}/stable/balance-sheet-statement?symbol=${symbol}&period=${period}&limit=${limit}&apikey=${apiKey}`;
+  
+  const response = await httpFetch(url);
+  
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `FMP API error (${response.status}): ${text}`
+    );
+  }
+  
+  const data: FMPBalanceSheet[] = await response.json();
+  
+  if (!Array.isArray(data)) {
+    throw new Error("FMP API returned unexpected format (expected array)");
+  }
+  
+  const balanceSheetData: FundamentalData[] = data.map((item) => {
+    const year = item.date.split("-")[0];
+    
+    let periodStr: string;
+    if (period === "annual") {
+      periodStr = year;
+    } else {
+      const quarterMatch = item.period.match(/Q?(\d)/);
+      const quarter = quarterMatch ? quarterMatch[1] : "1";
+      periodStr = `${year}-Q${quarter}`;
+    }
+    
+    // Equity attributable to shareholders, excluding minority interest
+    const equity = item.totalStockholdersEquity ?? item.totalEquity ?? null;
+    const cash = item.cashAndCashEquivalents ?? null;
+    const totalDebt = item.totalDebt ?? (
+      item.shortTermDebt != null || item.longTermDebt != null
+        ? (item.shortTermDebt ?? 0) + (item.longTermDebt ?? 0)
+        : null
+    );
+    
+    return {
+      period: periodStr,
+      date: item.date,
+      currency: item.reportedCurrency || undefined,
+      metrics: {
+        totalAssets: item.totalAssets ?? null,
+        totalLiabilities: item.totalLiabilities ?? null,
+        totalEquity: equity,
+        cashAndEquivalents: cash,
+        totalDebt,
+        netDebt: item.netDebt ?? (totalDebt !== null && cash !== null ? totalDebt - cash : null),
+        debtToEquity: totalDebt !== null && equity ? totalDebt / equity : null,
+        workingCapital: item.totalCurrentAssets != null && item.totalCurrentLiabilities != null
+          ? item.totalCurrentAssets - item.totalCurrentLiabilities
+          : null,
+      },
+    };
+  });
+  
+  return balanceSheetData;
+}
+
 interface FMPKeyMetrics {
   date: string;
   symbol: string;
@@ -326,7 +588,7 @@ export async function getUSStockKeyMetrics(
   
   // Fetch key metrics
   const metricsUrl = `${FMP_BASE_URL}/stable/key-metrics?symbol=${symbol}&period=${period}&limit=${limit}&apikey=${apiKey}`;
-  const metricsResponse = await proxyFetch(metricsUrl);
+  const metricsResponse = await httpFetch(metricsUrl);
   
   if (!metricsResponse.ok) {
     const text = await metricsResponse.text();
@@ -343,7 +605,7 @@ export async function getUSStockKeyMetrics(
   
   // Fetch ratios
   const ratiosUrl = `${FMP_BASE_URL}/stable/ratios?symbol=${symbol}&period=${period}&limit=${limit}&apikey=${apiKey}`;
-  const ratiosResponse = await proxyFetch(ratiosUrl);
+  const ratiosResponse = await httpFetch(ratiosUrl);
   
   if (!ratiosResponse.ok) {
     const text = await ratiosResponse.text();
@@ -419,7 +681,7 @@ export async function getUSStockDCF(symbol: string): Promise<DCFData> {
   const apiKey = getApiKey();
   const url = `${FMP_BASE_URL}/stable/discounted-cash-flow?symbol=${symbol}&apikey=${apiKey}`;
   
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   
   if (!response.ok) {
     const text = await response.text();
@@ -474,7 +736,7 @@ export async function getUSStockAnalystEstimates(
   const apiKey = getApiKey();
   const url = `${FMP_BASE_URL}/stable/analyst-estimates?symbol=${symbol}&period=${period}&limit=${limit}&apikey=${apiKey}`;
   
-  const response = await proxyFetch(url);
+  const response = await httpFetch(url);
   
   if (!response.ok) {
     const text = await response.text();
@@ -522,3 +784,131 @@ export async function getUSStockAnalystEstimates(
   
   return estimatesData;
 }
+
+interface FMPEarnings {
+  symbol: string;
+  date: string;  // report date
+  epsActual: number | null;
+  epsEstimated: number | null;
+  revenueActual: number | null;
+  revenueEstimated: number | null;
+  lastUpdated?: string;
+}
+
+/**
+ * Get US stock earnings history from FMP: consensus EPS/revenue against
+ * reported figures per quarter, newest first. Upcoming reports are included
+ * with null actuals.
+ * @param symbol Stock symbol (e.g., "AAPL")
+ * @param limit Number of reports to return (default: 12)
+ * @returns Array of EarningsReport
+ */
+export async function getUSStockEarningsHistory(
+  symbol: string,
+  limit: number = 12
+): Promise<EarningsReport[]> {
+  const apiKey = getApiKey();
+  const url = `${FMP_BASE_URL}/stable/earnings?symbol=${symbol}&limit=${limit}&apikey=${apiKey}`;
+  
+  const response = await httpFetch(url);
+  
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `FMP API error (${response.status}): ${text}`
+    );
+  }
+  
+  const data: FMPEarnings[] = await response.json();
+  
+  if (!Array.isArray(data)) {
+    throw new Error("FMP API returned unexpected format (expected array)");
+  }
+  
+  return data
+    .map((item) => ({
+      date: item.date,
+      epsActual: item.epsActual ?? null,
+      epsEstimate: item.epsEstimated ?? null,
+      revenueActual: item.revenueActual ?? null,
+      revenueEstimate: item.revenueEstimated ?? null,
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+interface FMPQuote {
+  symbol: string;
+  name?: string;
+  price: number;
+  change: number;
+  changePercentage: number;
+  volume: number;
+  dayLow: number;
+  dayHigh: number;
+  yearLow: number;
+  yearHigh: number;
+  open: number;
+  previousClose: number;
+  timestamp: number;  // Unix seconds
+}
+
+/**
+ * Get the latest quote from FMP, with day and 52-week ranges
+ * @param symbol Stock symbol (e.g., "AAPL")
+ */
+export async function getUSStockQuote(symbol: string): Promise<QuoteSnapshot> {
+  const apiKey = getApiKey();
+  const response = await httpFetch(`${FMP_BASE_URL}/stable/quote?symbol=${symbol}&apikey=${apiKey}`);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`FMP API error (${response.status}): ${text}`);
+  }
+
+  const data: FMPQuote[] = await response.json();
+  const q = Array.isArray(data) ? data[0] : undefined;
+  if (!q) {
+    throw new Error(`No quote found for ${symbol}`);
+  }
+  return {
+    symbol: q.symbol,
+    ...(q.name && { name: q.name }),
+    price: q.price,
+    change: q.change,
+    changePercent: q.changePercentage,
+    previousClose: q.previousClose ?? null,
+    open: q.open ?? null,
+    dayHigh: q.dayHigh ?? null,
+    dayLow: q.dayLow ?? null,
+    volume: q.volume ?? null,
+    yearHigh: q.yearHigh ?? null,
+    yearLow: q.yearLow ?? null,
+    timestamp: q.timestamp * 1000,
+    delayed: false,
+  };
+}
+
+export const usStockProvider: DataProvider = {
+  id: "fmp",
+  market: "us_stock",
+  label: "US stock",
+  calendar: EXCHANGE_CALENDARS.us,
+  capabilities: {
+    // Intraday needs an FMP plan with historical-chart access
+    timeframes: ["1m", "5m", "15m", "1h", "4h", "1d"],
+    fundamentals: true,
+    dcf: true,
+    estimates: true,
+  },
+  getKlines: (symbol, timeframe, limit, options = {}) => timeframe === "1d"
+    ? getUSStockKlines(symbol, limit, options)
+    : getUSStockIntradayKlines(symbol, timeframe, limit, options.session, options),
+  getQuote: getUSStockQuote,
+  getCorporateActions: getUSStockCorporateActions,
+  getFundamentals: getUSStockFundamentals,
+  getCashFlow: getUSStockCashFlow,
+  getBalanceSheet: getUSStockBalanceSheet,
+  getKeyMetrics: getUSStockKeyMetrics,
+  getDCF: getUSStockDCF,
+  getAnalystEstimates: getUSStockAnalystEstimates,
+  getEarningsHistory: getUSStockEarningsHistory,
+};
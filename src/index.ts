@@ -9,6 +9,15 @@ import { registerFundamentalsTool } from "./tools/fundamentals.js";
 import { registerVolumeProfileTool } from "./tools/volume-profile.js";
 import { registerHeatmapTool } from "./tools/heatmap.js";
 import { registerWRBScoringTool } from "./tools/wrb-scoring.js";
+import { registerFundingRateTool } from "./tools/funding-rate.js";
+import { registerPositioningTool } from "./tools/positioning.js";
+import { registerCalendarTool } from "./tools/calendar.js";
+import { registerSearchTool } from "./tools/search.js";
+import { registerQuoteTool } from "./tools/quote.js";
+import { registerOrderBookTool } from "./tools/orderbook.js";
+import { registerFootprintTool } from "./tools/footprint.js";
+import { registerEarningsTool } from "./tools/earnings.js";
+import { registerLiveResources } from "./resources/live.js";
 
 const server = new McpServer({
   name: "gainlab",
@@ -17,7 +26,7 @@ const server = new McpServer({
   capabilities: {
     tools: {},
   },
-  instructions: "GainLab MCP Server - Agent's Eyes for Financial Charts. Provides professional financial chart visualization tools covering crypto, US stocks, A-shares, and commodities.",
+  instructions: "GainLab MCP Server - Agent's Eyes for Financial Charts. Provides professional financial chart visualization tools covering crypto, US stocks, A-shares, commodities, and local CSV/Parquet data.",
 });
 
 // Register tools
@@ -28,6 +37,17 @@ registerFundamentalsTool(server);
 registerVolumeProfileTool(server);
 registerHeatmapTool(server);
 registerWRBScoringTool(server);
+registerFundingRateTool(server);
+registerPositioningTool(server);
+registerCalendarTool(server);
+registerSearchTool(server);
+registerQuoteTool(server);
+registerOrderBookTool(server);
+registerFootprintTool(server);
+registerEarningsTool(server);
+
+// Register resources
+registerLiveResources(server);
 
 // Start server
 async function main() {
@@ -0,0 +1,103 @@
+// Event calendar ECharts chart builder
+// One row per event type on a time axis; marker size follows importance
+
+import type { EChartsOption } from "echarts";
+import type { CalendarEvent, CalendarEventType, EventImportance } from "../../data/types.js";
+import { BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+const TYPE_ROWS: CalendarEventType[] = ["macro", "split", "dividend", "earnings"];
+const TYPE_NAMES: Record<CalendarEventType, string> = {
+  earnings: "Earnings",
+  dividend: "Dividend",
+  split: "Split",
+  macro: "Macro",
+};
+
+const IMPORTANCE_LEVELS: EventImportance[] = ["high", "medium", "low"];
+const IMPORTANCE_SIZE: Record<EventImportance, number> = { high: 18, medium: 12, low: 8 };
+
+/** Event colors shared with the K-line markers */
+export const EVENT_TYPE_COLORS: Record<CalendarEventType, string> = {
+  earnings: GAINLAB_THEME.colorPalette[0],
+  dividend: GAINLAB_THEME.colorPalette[1],
+  split: GAINLAB_THEME.colorPalette[2],
+  macro: GAINLAB_THEME.colorPalette[3],
+};
+
+/** Midday UTC so an event sits in the middle of its day */
+const eventTime = (e: CalendarEvent) => Date.parse(`${e.date}T12:00:00Z`);
+
+/** Tooltip text; a string template keeps it working in the serialized HTML chart */
+function describeEvent(e: CalendarEvent): string {
+  const values = [
+    e.actual != null ? `actual ${e.actual}` : null,
+    e.estimate != null ? `est. ${e.estimate}` : null,
+    e.previous != null ? `prev. ${e.previous}` : null,
+  ].filter(Boolean);
+  return `${e.date}${e.time ? ` ${e.time}` : ""} — ${e.title}${values.length > 0 ? ` (${values.join(", ")})` : ""}`;
+}
+
+export function buildCalendarOption(events: CalendarEvent[], title: string, subtitle?: string): EChartsOption {
+  const rows = TYPE_ROWS.filter((type) => events.some((e) => e.type === type));
+
+  const series: any[] = IMPORTANCE_LEVELS.map((importance) => ({
+    name: `${importance[0].toUpperCase()}${importance.slice(1)} importance`,
+    type: "scatter",
+    symbolSize: IMPORTANCE_SIZE[importance],
+    data: events
+      .filter((e) => (e.importance ?? "low") === importance)
+      .map((e) => ({
+        name: describeEvent(e),
+        value: [eventTime(e), TYPE_NAMES[e.type]],
+        itemStyle: { color: EVENT_TYPE_COLORS[e.type], opacity: importance === "low" ? 0.6 : 0.9 },
+      })),
+  }));
+  // "Today" reference line on the first series
+  series[0].markLine = {
+    symbol: "none",
+    silent: true,
+    lineStyle: { color: SUB_TEXT_COLOR, type: "dashed" },
+    label: { color: SUB_TEXT_COLOR, formatter: "Today" },
+    data: [{ xAxis: Date.now() }],
+  };
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: title,
+      subtext: subtitle,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "item",
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+      formatter: "{a}<br/>{b}",
+    },
+    legend: {
+      show: true,
+      top: "8%",
+      textStyle: { color: TEXT_COLOR, fontSize: 10 },
+    },
+    grid: { left: "10%", right: "4%", top: "18%", bottom: "12%" },
+    xAxis: {
+      type: "time",
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+      axisLabel: { color: SUB_TEXT_COLOR, fontSize: 10 },
+      splitLine: { lineStyle: { color: GRID_COLOR, opacity: 0.3 } },
+    },
+    yAxis: {
+      type: "category",
+      data: rows.map((type) => TYPE_NAMES[type]),
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+      axisLabel: { color: TEXT_COLOR },
+      splitLine: { show: true, lineStyle: { color: GRID_COLOR } },
+    },
+    series,
+    dataZoom: [{ type: "inside", xAxisIndex: 0 }],
+  };
+}
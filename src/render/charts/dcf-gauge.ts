@@ -1,15 +1,118 @@
-import type { EChartsOption } from "echarts";
-import { BG_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GRID_COLOR } from "../themes.js";
+import type { EChartsOption, SeriesOption } from "echarts";
+import type { DCFValuation } from "../../utils/dcf.js";
+import { BG_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GRID_COLOR, GAINLAB_THEME } from "../themes.js";
 
 interface DCFGaugeConfig {
   symbol: string;
   dcfValue: number;
   stockPrice: number;
   analystTarget?: number;  // optional wall street target
+  currency?: string;       // default "$"
+  breakdown?: DCFValuation;  // adds projected vs discounted FCF and the EV bridge below the gauge
+}
+
+/** Scale for the breakdown axes, picked from enterprise value */
+function valueUnit(value: number): { divisor: number; suffix: string } {
+  const abs = Math.abs(value);
+  if (abs >= 1e12) return { divisor: 1e12, suffix: "T" };
+  if (abs >= 1e9) return { divisor: 1e9, suffix: "B" };
+  if (abs >= 1e6) return { divisor: 1e6, suffix: "M" };
+  return { divisor: 1, suffix: "" };
+}
+
+/** Bottom panels: per-year FCF and its present value, and EV → equity bridge */
+function breakdownPanels(valuation: DCFValuation, currency: string): { layout: EChartsOption; series: SeriesOption[] } {
+  const { divisor, suffix } = valueUnit(valuation.enterpriseValue);
+  const scale = (v: number) => Number((v / divisor).toFixed(2));
+  const colors = GAINLAB_THEME.colorPalette;
+  const years = valuation.projections.map((p) => `Y${p.year}`);
+  const bridge = [
+    { name: "PV of FCF", value: valuation.pvForecast, color: colors[0] },
+    { name: "PV of terminal", value: valuation.pvTerminal, color: colors[1] },
+    { name: "Net debt", value: -(valuation.enterpriseValue - valuation.equityValue), color: "#ff4d4d" },
+    { name: "Equity", value: valuation.equityValue, color: "#00d4aa" },
+  ];
+  const valueAxis = (gridIndex: number, name: string) => ({
+    type: "value" as const,
+    gridIndex,
+    name,
+    nameTextStyle: { color: SUB_TEXT_COLOR },
+    axisLabel: { color: SUB_TEXT_COLOR },
+    splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" as const } },
+  });
+
+  const layout: EChartsOption = {
+    tooltip: {
+      trigger: "axis",
+      axisPointer: { type: "shadow" },
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    legend: {
+      data: ["Projected FCF", "Present value"],
+      top: "66%",
+      left: "8%",
+      textStyle: { color: TEXT_COLOR },
+    },
+    grid: [
+      { left: "8%", width: "52%", top: "72%", bottom: "6%" },
+      { left: "70%", right: "4%", top: "72%", bottom: "6%" },
+    ],
+    xAxis: [
+      {
+        type: "category",
+        gridIndex: 0,
+        data: years,
+        axisLine: { lineStyle: { color: GRID_COLOR } },
+        axisLabel: { color: SUB_TEXT_COLOR },
+      },
+      {
+        type: "category",
+        gridIndex: 1,
+        data: bridge.map((b) => b.name),
+        axisLine: { lineStyle: { color: GRID_COLOR } },
+        axisLabel: { color: SUB_TEXT_COLOR, interval: 0, fontSize: 10 },
+      },
+    ],
+    yAxis: [
+      valueAxis(0, `${currency}${suffix}`),
+      valueAxis(1, `${currency}${suffix}`),
+    ],
+  };
+
+  return {
+    layout,
+    series: [
+      {
+        name: "Projected FCF",
+        type: "bar",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        itemStyle: { color: SUB_TEXT_COLOR },
+        data: valuation.projections.map((p) => scale(p.fcf)),
+      },
+      {
+        name: "Present value",
+        type: "bar",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        itemStyle: { color: colors[0] },
+        data: valuation.projections.map((p) => scale(p.presentValue)),
+      },
+      {
+        name: "EV bridge",
+        type: "bar",
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        data: bridge.map((b) => ({ value: scale(b.value), itemStyle: { color: b.color } })),
+      },
+    ],
+  };
 }
 
 export function buildDCFGaugeOption(config: DCFGaugeConfig): EChartsOption {
-  const { symbol, dcfValue, stockPrice, analystTarget } = config;
+  const { symbol, dcfValue, stockPrice, analystTarget, currency = "$", breakdown } = config;
   
   // Calculate margin of safety
   const marginOfSafety = ((dcfValue - stockPrice) / dcfValue) * 100;
@@ -18,13 +121,20 @@ export function buildDCFGaugeOption(config: DCFGaugeConfig): EChartsOption {
   // Determine gauge range
   const minVal = Math.min(dcfValue, stockPrice, analystTarget ?? dcfValue) * 0.5;
   const maxVal = Math.max(dcfValue, stockPrice, analystTarget ?? dcfValue) * 1.5;
-  
+
+  // With a breakdown the gauge moves up and its annotations sit above the panels
+  const gauge = breakdown
+    ? { center: ["50%", "36%"], radius: "44%", labels: { top: "55%" }, note: { top: "60%" } }
+    : { center: ["50%", "60%"], radius: "70%", labels: { bottom: "10%" }, note: { bottom: "3%" } };
+  const panels = breakdown ? breakdownPanels(breakdown, currency) : { layout: {}, series: [] };
+
   return {
+    ...panels.layout,
     backgroundColor: BG_COLOR,
     animation: false,
     title: {
       text: `${symbol} — DCF Valuation`,
-      subtext: `Intrinsic: $${dcfValue.toFixed(2)} | Price: $${stockPrice.toFixed(2)} | ${isUndervalued ? "Discount" : "Premium"}: ${Math.abs(marginOfSafety).toFixed(1)}%`,
+      subtext: `Intrinsic: ${currency}${dcfValue.toFixed(2)} | Price: ${currency}${stockPrice.toFixed(2)} | ${isUndervalued ? "Discount" : "Premium"}: ${Math.abs(marginOfSafety).toFixed(1)}%`,
       left: "center",
       top: "3%",
       textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
@@ -33,8 +143,8 @@ export function buildDCFGaugeOption(config: DCFGaugeConfig): EChartsOption {
     series: [
       {
         type: "gauge",
-        center: ["50%", "60%"],
-        radius: "70%",
+        center: gauge.center,
+        radius: gauge.radius,
         min: minVal,
         max: maxVal,
         startAngle: 200,
@@ -70,28 +180,29 @@ export function buildDCFGaugeOption(config: DCFGaugeConfig): EChartsOption {
           distance: 40,
           fontSize: 11,
           formatter: (value: number) => {
-            if (value >= 1000) return "$" + (value / 1000).toFixed(0) + "K";
-            return "$" + value.toFixed(0);
+            if (value >= 1000) return currency + (value / 1000).toFixed(0) + "K";
+            return currency + value.toFixed(0);
           },
         },
         detail: {
           valueAnimation: false,
-          formatter: `$${stockPrice.toFixed(2)}`,
+          formatter: `${currency}${stockPrice.toFixed(2)}`,
           color: TEXT_COLOR,
           fontSize: 24,
           offsetCenter: [0, "70%"],
         },
         data: [{ value: stockPrice }],
       },
+      ...panels.series,
     ],
     // Add text annotations for DCF value and analyst target
     graphic: [
       {
         type: "text",
         left: "15%",
-        bottom: "10%",
+        ...gauge.labels,
         style: {
-          text: `DCF Intrinsic: $${dcfValue.toFixed(2)}`,
+          text: `DCF Intrinsic: ${currency}${dcfValue.toFixed(2)}`,
           fill: "#00d4aa",
           fontSize: 14,
         },
@@ -99,9 +210,9 @@ export function buildDCFGaugeOption(config: DCFGaugeConfig): EChartsOption {
       ...(analystTarget ? [{
         type: "text" as const,
         right: "15%",
-        bottom: "10%",
+        ...gauge.labels,
         style: {
-          text: `Analyst Target: $${analystTarget.toFixed(2)}`,
+          text: `Analyst Target: ${currency}${analystTarget.toFixed(2)}`,
           fill: "#5b8ff9",
           fontSize: 14,
         },
@@ -109,7 +220,7 @@ export function buildDCFGaugeOption(config: DCFGaugeConfig): EChartsOption {
       {
         type: "text",
         left: "center",
-        bottom: "3%",
+        ...gauge.note,
         style: {
           text: isUndervalued 
             ? `✅ Trading at ${Math.abs(marginOfSafety).toFixed(1)}% discount to intrinsic value`
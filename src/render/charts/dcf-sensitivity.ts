@@ -0,0 +1,131 @@
+/**
+ * DCF sensitivity heatmap.
+ * Fair value per share over discount rate (rows) × terminal growth or exit
+ * multiple (columns), colored by upside vs the current price.
+ */
+
+import type { EChartsOption } from "echarts";
+import type { SensitivityGrid } from "../../utils/dcf.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, TEXT_COLOR, SUB_TEXT_COLOR } from "../themes.js";
+
+interface DCFSensitivityConfig {
+  symbol: string;
+  grid: SensitivityGrid;
+  terminalMethod: "growth" | "multiple";
+  price: number;
+  currency?: string;       // default "$"
+  baseDiscountRate?: number;   // base case cell gets a white border
+  baseTerminalValue?: number;
+}
+
+/** Color scale saturates at ±50% upside */
+const UPSIDE_RANGE = 50;
+
+const pct = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+const near = (a: number, b: number | undefined) => b !== undefined && Math.abs(a - b) < 1e-9;
+
+export function buildDCFSensitivityOption(config: DCFSensitivityConfig): EChartsOption {
+  const { symbol, grid, terminalMethod, price, currency = "$", baseDiscountRate, baseTerminalValue } = config;
+  const { discountRates, terminalValues, perShare } = grid;
+  const rows = discountRates.length;
+
+  const columnLabel = (v: number) => (terminalMethod === "growth" ? pct(v) : `${v}×`);
+  const columnName = terminalMethod === "growth" ? "Terminal growth" : "Exit multiple (× FCF)";
+
+  // [column, row (first rate at top), upside %]; cases where the rate doesn't exceed growth stay blank
+  const data = discountRates.flatMap((rate, i) =>
+    terminalValues.flatMap((value, j) => {
+      const fair = perShare[i][j];
+      if (fair === null) return [];
+      const upside = ((fair - price) / price) * 100;
+      const base = near(rate, baseDiscountRate) && near(value, baseTerminalValue);
+      return [{
+        value: [j, rows - 1 - i, Number(upside.toFixed(1))],
+        name: `WACC ${pct(rate)} · ${columnName} ${columnLabel(value)}: ${currency}${fair.toFixed(2)} (${upside >= 0 ? "+" : ""}${upside.toFixed(1)}%)`,
+        label: { formatter: `${currency}${fair.toFixed(fair >= 100 ? 0 : 2)}` },
+        ...(base ? { itemStyle: { borderColor: "#ffffff", borderWidth: 3 } } : {}),
+      }];
+    })
+  );
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — DCF Sensitivity`,
+      subtext: `Fair value per share | Price: ${currency}${price.toFixed(2)} | color = upside vs price`,
+      left: "center",
+      top: 10,
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      position: "top",
+      formatter: "{b}",
+    },
+    grid: {
+      left: 90,
+      right: 90,
+      top: 80,
+      bottom: 60,
+      containLabel: false,
+    },
+    xAxis: {
+      type: "category",
+      data: terminalValues.map(columnLabel),
+      name: columnName,
+      nameLocation: "middle",
+      nameGap: 30,
+      nameTextStyle: { color: SUB_TEXT_COLOR },
+      axisLine: { show: false },
+      axisTick: { show: false },
+      axisLabel: { color: SUB_TEXT_COLOR, fontSize: 11 },
+      splitArea: { show: false },
+    },
+    yAxis: {
+      type: "category",
+      data: [...discountRates].reverse().map(pct), // first rate at top
+      name: "WACC",
+      nameTextStyle: { color: SUB_TEXT_COLOR },
+      axisLine: { show: false },
+      axisTick: { show: false },
+      axisLabel: { color: SUB_TEXT_COLOR, fontSize: 11 },
+      splitArea: { show: false },
+    },
+    visualMap: {
+      min: -UPSIDE_RANGE,
+      max: UPSIDE_RANGE,
+      dimension: 2,
+      calculable: false,
+      orient: "vertical",
+      right: 10,
+      top: "center",
+      inRange: {
+        color: [DOWN_COLOR, "#6a3040", "#4a4a6a", "#3a6a50", UP_COLOR],
+      },
+      textStyle: { color: SUB_TEXT_COLOR },
+      text: [`+${UPSIDE_RANGE}%`, `-${UPSIDE_RANGE}%`],
+    },
+    series: [
+      {
+        type: "heatmap",
+        data,
+        label: {
+          show: true,
+          color: TEXT_COLOR,
+          fontSize: 12,
+        },
+        emphasis: {
+          itemStyle: {
+            borderColor: "#fff",
+            borderWidth: 2,
+          },
+        },
+        itemStyle: {
+          borderColor: BG_COLOR,
+          borderWidth: 1,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,153 @@
+// Dividend history ECharts chart builder
+// Top: per-share payouts at each ex-date with the trailing 12-month yield.
+// Bottom: calendar-year totals with the payout ratio
+
+import type { EChartsOption } from "echarts";
+import type { DividendAnalysis } from "../../utils/dividends.js";
+import { BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+interface DividendsChartConfig {
+  symbol: string;
+  analysis: DividendAnalysis;
+  currency?: string;  // prefix for per-share amounts, "$" by default
+}
+
+const pct = (fraction: number, digits = 2) => `${(fraction * 100).toFixed(digits)}%`;
+
+export function buildDividendsOption(config: DividendsChartConfig): EChartsOption {
+  const { symbol, analysis, currency = "$" } = config;
+  const colors = GAINLAB_THEME.colorPalette;
+  const [payoutColor, yieldColor, totalColor, ratioColor] = [colors[0], colors[2], colors[1], colors[3]];
+
+  const growthText = analysis.growth.map((g) => `${g.years}y CAGR ${pct(g.cagr, 1)}`).join(" | ");
+  const latestPayout = [...analysis.annual].reverse().find((a) => a.payoutRatio !== null)?.payoutRatio ?? null;
+  const subtext = [
+    analysis.currentYield !== null ? `TTM yield ${pct(analysis.currentYield)}` : null,
+    `TTM ${currency}${analysis.ttmDividend.toFixed(2)}/share (${analysis.paymentsPerYear}× a year)`,
+    growthText || null,
+    latestPayout !== null ? `Payout ${pct(latestPayout, 0)}` : null,
+  ].filter(Boolean).join(" | ");
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — Dividend History`,
+      subtext,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "axis",
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    legend: {
+      data: ["Dividend / share", "TTM yield", "Annual total", "Payout ratio"],
+      top: 50,
+      textStyle: { color: TEXT_COLOR },
+    },
+    grid: [
+      { left: "8%", right: "8%", top: "18%", height: "38%" },
+      { left: "8%", right: "8%", top: "66%", height: "26%" },
+    ],
+    xAxis: [
+      {
+        type: "time",
+        gridIndex: 0,
+        axisLine: { lineStyle: { color: GRID_COLOR } },
+        axisLabel: { color: SUB_TEXT_COLOR },
+        splitLine: { show: false },
+      },
+      {
+        type: "category",
+        gridIndex: 1,
+        data: analysis.annual.map((a) => (a.partial ? `${a.year} (YTD)` : String(a.year))),
+        axisLine: { lineStyle: { color: GRID_COLOR } },
+        axisLabel: { color: SUB_TEXT_COLOR },
+      },
+    ],
+    yAxis: [
+      {
+        type: "value",
+        gridIndex: 0,
+        name: `Per share (${currency})`,
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR },
+        splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+      },
+      {
+        type: "value",
+        gridIndex: 0,
+        name: "TTM yield (%)",
+        position: "right",
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR, formatter: "{value}%" },
+        splitLine: { show: false },
+      },
+      {
+        type: "value",
+        gridIndex: 1,
+        name: "Annual",
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR },
+        splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+      },
+      {
+        type: "value",
+        gridIndex: 1,
+        name: "Payout (%)",
+        position: "right",
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR, formatter: "{value}%" },
+        splitLine: { show: false },
+      },
+    ],
+    series: [
+      {
+        name: "Dividend / share",
+        type: "bar",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        barMaxWidth: 8,
+        itemStyle: { color: payoutColor },
+        data: analysis.payments.map((p) => [p.date, Number(p.amount.toFixed(4))]),
+      },
+      {
+        name: "TTM yield",
+        type: "line",
+        xAxisIndex: 0,
+        yAxisIndex: 1,
+        showSymbol: false,
+        lineStyle: { width: 1.5, color: yieldColor },
+        itemStyle: { color: yieldColor },
+        data: analysis.yields.map((y) => [y.timestamp, Number((y.yield * 100).toFixed(3))]),
+      },
+      {
+        name: "Annual total",
+        type: "bar",
+        xAxisIndex: 1,
+        yAxisIndex: 2,
+        itemStyle: { color: totalColor },
+        data: analysis.annual.map((a) => ({
+          value: Number(a.total.toFixed(4)),
+          // The running year is still filling up
+          itemStyle: a.partial ? { color: totalColor, opacity: 0.4 } : undefined,
+        })),
+        label: { show: true, position: "top", color: TEXT_COLOR, fontSize: 10 },
+      },
+      {
+        name: "Payout ratio",
+        type: "line",
+        xAxisIndex: 1,
+        yAxisIndex: 3,
+        connectNulls: true,
+        lineStyle: { width: 2, color: ratioColor },
+        itemStyle: { color: ratioColor },
+        data: analysis.annual.map((a) => (a.payoutRatio === null ? null : Number((a.payoutRatio * 100).toFixed(1)))),
+      },
+    ],
+  };
+}
@@ -0,0 +1,123 @@
+// Earnings surprise ECharts chart builder
+// Top: EPS and revenue surprise per report (EPS bars colored beat/miss)
+// Bottom: price reaction per report at each horizon
+
+import type { EChartsOption } from "echarts";
+import type { EarningsAnalysis, EarningsOutcome } from "../../utils/earnings.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+interface EarningsChartConfig {
+  symbol: string;
+  analysis: EarningsAnalysis;
+}
+
+const OUTCOME_COLORS: Record<EarningsOutcome, string> = { beat: UP_COLOR, miss: DOWN_COLOR, inline: SUB_TEXT_COLOR };
+
+const pct = (fraction: number, digits = 1) => `${fraction >= 0 ? "+" : ""}${(fraction * 100).toFixed(digits)}%`;
+const toPercent = (fraction: number | null) => (fraction === null ? null : Number((fraction * 100).toFixed(2)));
+
+export function buildEarningsOption(config: EarningsChartConfig): EChartsOption {
+  const { symbol, analysis } = config;
+  const { reports, horizons } = analysis;
+  const dates = reports.map((r) => r.date);
+  const colors = GAINLAB_THEME.colorPalette;
+
+  // "After beats 5d +1.2% | after misses 5d −3.4%" at the middle horizon
+  const mid = Math.floor(horizons.length / 2);
+  const driftText = analysis.drift
+    .filter((d) => d.outcome !== "inline" && d.avgReturns[mid] !== null)
+    .map((d) => `after ${d.outcome === "beat" ? "beats" : "misses"} ${horizons[mid]}d ${pct(d.avgReturns[mid]!)}`)
+    .join(" | ");
+  const subtext = [
+    analysis.beatRate !== null ? `Beat rate ${(analysis.beatRate * 100).toFixed(0)}%` : null,
+    analysis.avgEpsSurprise !== null ? `avg EPS surprise ${pct(analysis.avgEpsSurprise)}` : null,
+    driftText || null,
+  ].filter(Boolean).join(" | ");
+
+  const reactionNames = horizons.map((h) => `${h}d reaction`);
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — Earnings Surprises`,
+      subtext,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "axis",
+      axisPointer: { type: "shadow" },
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    legend: {
+      data: ["EPS surprise", "Revenue surprise", ...reactionNames],
+      top: 50,
+      textStyle: { color: TEXT_COLOR },
+    },
+    axisPointer: { link: [{ xAxisIndex: "all" }] },
+    grid: [
+      { left: "8%", right: "4%", top: "18%", height: "34%" },
+      { left: "8%", right: "4%", top: "60%", height: "30%" },
+    ],
+    xAxis: [0, 1].map((gridIndex) => ({
+      type: "category" as const,
+      gridIndex,
+      data: dates,
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+      axisLabel: { show: gridIndex === 1, color: SUB_TEXT_COLOR },
+    })),
+    yAxis: [
+      {
+        type: "value",
+        gridIndex: 0,
+        name: "Surprise",
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR, formatter: "{value}%" },
+        splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+      },
+      {
+        type: "value",
+        gridIndex: 1,
+        name: "Return from pre-report close",
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR, formatter: "{value}%" },
+        splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+      },
+    ],
+    series: [
+      {
+        name: "EPS surprise",
+        type: "bar",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        itemStyle: { color: UP_COLOR },
+        data: reports.map((r) => ({
+          value: toPercent(r.epsSurprise),
+          itemStyle: { color: r.outcome ? OUTCOME_COLORS[r.outcome] : SUB_TEXT_COLOR },
+        })),
+      },
+      {
+        name: "Revenue surprise",
+        type: "line",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        connectNulls: true,
+        lineStyle: { width: 2, color: colors[0] },
+        itemStyle: { color: colors[0] },
+        data: reports.map((r) => toPercent(r.revenueSurprise)),
+      },
+      ...horizons.map((_h, i) => ({
+        name: reactionNames[i],
+        type: "bar" as const,
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        itemStyle: { color: colors[(i + 1) % colors.length] },
+        data: reports.map((r) => toPercent(r.returns[i])),
+      })),
+    ],
+  };
+}
@@ -0,0 +1,167 @@
+// Footprint ECharts chart builder
+// Top: one column per candle, one cell per price level labelled bid × ask
+// volume and shaded by delta (POC outlined). Bottom: per-bar delta and CVD
+
+import type { EChartsOption } from "echarts";
+import type { DeltaBar, FootprintBar } from "../../utils/orderflow.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR } from "../themes.js";
+
+const CVD_COLOR = "#5b8ff9";
+
+interface FootprintChartParams {
+  symbol: string;
+  timeframe: string;
+  bars: FootprintBar[];
+  delta: (DeltaBar | null)[];
+  tickSize: number;
+  subtitle?: string;
+}
+
+function compact(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return abs >= 10 || abs === 0 ? value.toFixed(0) : value.toFixed(abs >= 1 ? 1 : 3);
+}
+
+/** Decimals needed to print a tick size without float noise */
+const tickDecimals = (tick: number) => Math.max(0, -Math.floor(Math.log10(tick) + 1e-9));
+
+export function buildFootprintOption(params: FootprintChartParams): EChartsOption {
+  const { symbol, timeframe, bars, delta, tickSize, subtitle } = params;
+
+  const dates = bars.map(d => {
+    const date = new Date(d.timestamp);
+    return timeframe.endsWith("m") || timeframe.endsWith("h")
+      ? date.toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+      : date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+  });
+
+  // One evenly spaced price row per tick across every bar's levels
+  const prices = bars.flatMap((b) => b.levels.map((l) => l.price));
+  const low = prices.length > 0 ? Math.min(...prices) : 0;
+  const high = prices.length > 0 ? Math.max(...prices) : 0;
+  const decimals = tickDecimals(tickSize);
+  const rowCount = prices.length > 0 ? Math.round((high - low) / tickSize) + 1 : 0;
+  const priceRows = Array.from({ length: rowCount }, (_, i) => (low + i * tickSize).toFixed(decimals));
+  const rowOf = (price: number) => Math.round((price - low) / tickSize);
+
+  let maxAbsDelta = 0;
+  const cells = bars.flatMap((bar, x) =>
+    bar.levels.map((level) => {
+      maxAbsDelta = Math.max(maxAbsDelta, Math.abs(level.delta));
+      return {
+        value: [x, rowOf(level.price), level.delta],
+        label: { formatter: `${compact(level.bidVolume)} × ${compact(level.askVolume)}` },
+        ...(level.price === bar.poc ? { itemStyle: { borderColor: "#ffffff", borderWidth: 1.5 } } : {}),
+      };
+    })
+  );
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — ${timeframe} Footprint`,
+      subtext: subtitle ?? `Bid × ask volume per ${tickSize.toFixed(decimals)} level`,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "item",
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    grid: [
+      { left: "8%", right: "6%", top: "12%", height: "60%" },
+      { left: "8%", right: "6%", top: "78%", height: "14%" },
+    ],
+    xAxis: [0, 1].map((gridIndex) => ({
+      type: "category" as const,
+      data: dates,
+      gridIndex,
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+      axisLabel: gridIndex === 1 ? { color: SUB_TEXT_COLOR, fontSize: 10 } : { show: false },
+      splitLine: { show: false },
+    })),
+    yAxis: [
+      {
+        type: "category",
+        data: priceRows,
+        gridIndex: 0,
+        axisLine: { lineStyle: { color: GRID_COLOR } },
+        axisLabel: { color: SUB_TEXT_COLOR, fontSize: 9 },
+        splitArea: { show: false },
+      },
+      {
+        type: "value",
+        gridIndex: 1,
+        name: "Delta",
+        nameTextStyle: { color: SUB_TEXT_COLOR, fontSize: 10 },
+        splitLine: { lineStyle: { color: GRID_COLOR, opacity: 0.3 } },
+        axisLabel: { color: SUB_TEXT_COLOR, fontSize: 10 },
+      },
+      {
+        type: "value",
+        gridIndex: 1,
+        name: "CVD",
+        position: "right",
+        nameTextStyle: { color: SUB_TEXT_COLOR, fontSize: 10 },
+        splitLine: { show: false },
+        axisLabel: { color: SUB_TEXT_COLOR, fontSize: 10 },
+        scale: true,
+      },
+    ],
+    visualMap: {
+      show: false,
+      seriesIndex: 0,
+      dimension: 2,
+      min: -maxAbsDelta || -1,
+      max: maxAbsDelta || 1,
+      inRange: { color: [DOWN_COLOR, "#2d2d44", UP_COLOR] },
+    },
+    series: [
+      {
+        name: "Footprint",
+        type: "heatmap",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        data: cells,
+        label: { show: true, color: TEXT_COLOR, fontSize: 8 },
+      },
+      {
+        name: "Delta",
+        type: "bar",
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        data: delta.map((d) => d === null
+          ? null
+          : { value: d.delta, itemStyle: { color: (d.delta >= 0 ? UP_COLOR : DOWN_COLOR) + "80" } }),
+      },
+      {
+        name: "CVD",
+        type: "line",
+        xAxisIndex: 1,
+        yAxisIndex: 2,
+        data: delta.map((d) => d?.cvd ?? null),
+        lineStyle: { width: 1.5, color: CVD_COLOR },
+        itemStyle: { color: CVD_COLOR },
+        showSymbol: false,
+      },
+    ],
+    dataZoom: [
+      { type: "inside", xAxisIndex: [0, 1], start: 0, end: 100 },
+    ],
+    legend: {
+      show: true,
+      data: ["Delta", "CVD"],
+      top: "3%",
+      left: "8%",
+      textStyle: { color: TEXT_COLOR, fontSize: 10 },
+      itemWidth: 20,
+      itemHeight: 10,
+    },
+  };
+}
@@ -37,6 +37,18 @@ const METRIC_MAP: Record<string, { label: string; dataKeys: string[]; format: "c
   // Health
   current_ratio: { label: "Current Ratio", dataKeys: ["currentRatio"], format: "number" },
   dividend_yield: { label: "Dividend Yield", dataKeys: ["dividendYield"], format: "ratio" },
+
+  // Balance Sheet
+  total_assets: { label: "Total Assets", dataKeys: ["totalAssets"], format: "currency" },
+  total_liabilities: { label: "Total Liabilities", dataKeys: ["totalLiabilities"], format: "currency" },
+  total_equity: { label: "Shareholders' Equity", dataKeys: ["totalEquity"], format: "currency" },
+  cash: { label: "Cash & Equivalents", dataKeys: ["cashAndEquivalents"], format: "currency" },
+  total_debt: { label: "Total Debt", dataKeys: ["totalDebt"], format: "currency" },
+  net_debt: { label: "Net Debt", dataKeys: ["netDebt"], format: "currency" },
+  debt_to_equity: { label: "Debt/Equity", dataKeys: ["debtToEquity"], format: "number" },
+  interest_coverage: { label: "Interest Coverage", dataKeys: ["interestCoverage"], format: "number" },
+  working_capital: { label: "Working Capital", dataKeys: ["workingCapital"], format: "currency" },
+  book_value_per_share: { label: "Book Value/Share", dataKeys: ["bookValuePerShare"], format: "number" },
 };
 
 function formatLargeNumber(n: number): string {
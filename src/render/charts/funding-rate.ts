@@ -0,0 +1,156 @@
+// Funding rate ECharts chart builder
+// Top: price (normalized % change when comparing perpetuals)
+// Middle: annualized funding, Bottom: cumulative funding
+
+import type { EChartsOption } from "echarts";
+import type { OHLCV } from "../../data/types.js";
+import type { FundingAnalysis } from "../../utils/funding.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+export interface FundingRateSeries {
+  symbol: string;
+  analysis: FundingAnalysis;
+  prices: OHLCV[];  // empty when no price overlay is available
+}
+
+interface FundingRateChartParams {
+  series: FundingRateSeries[];
+}
+
+const pct = (fraction: number, digits: number = 2) => `${(fraction * 100).toFixed(digits)}%`;
+
+export function buildFundingRateOption(params: FundingRateChartParams): EChartsOption {
+  const { series } = params;
+  const single = series.length === 1;
+  const colorOf = (i: number) => GAINLAB_THEME.colorPalette[i % GAINLAB_THEME.colorPalette.length];
+
+  const grids = [
+    { left: "8%", right: "4%", top: "12%", height: "36%" },
+    { left: "8%", right: "4%", top: "52%", height: "20%" },
+    { left: "8%", right: "4%", top: "76%", height: "14%" },
+  ];
+  const xAxes = grids.map((_, i) => ({
+    type: "time" as const,
+    gridIndex: i,
+    axisLine: { lineStyle: { color: GRID_COLOR } },
+    axisLabel: { show: i === grids.length - 1, color: SUB_TEXT_COLOR },
+    splitLine: { show: false },
+  }));
+  const yAxis = (gridIndex: number, name: string, formatter: string) => ({
+    type: "value" as const,
+    gridIndex,
+    scale: true,
+    name,
+    nameTextStyle: { color: SUB_TEXT_COLOR },
+    axisLabel: { color: SUB_TEXT_COLOR, formatter },
+    splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" as const } },
+  });
+  const yAxes = [
+    yAxis(0, single ? "Price" : "Price change", single ? "{value}" : "{value}%"),
+    yAxis(1, "Funding (ann.)", "{value}%"),
+    yAxis(2, "Cumulative", "{value}%"),
+  ];
+
+  const chartSeries: any[] = [];
+  series.forEach((s, i) => {
+    const color = colorOf(i);
+
+    if (s.prices.length > 0) {
+      const base = s.prices[0].close;
+      chartSeries.push({
+        name: single ? `${s.symbol} price` : s.symbol,
+        type: "line",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        showSymbol: false,
+        lineStyle: { width: 1.5, color: single ? SUB_TEXT_COLOR : color },
+        itemStyle: { color: single ? SUB_TEXT_COLOR : color },
+        data: s.prices.map((c) => [c.timestamp, single ? c.close : ((c.close - base) / base) * 100]),
+      });
+    }
+
+    const annualized = s.analysis.points.map((p) => [p.timestamp, p.annualized * 100]);
+    if (single) {
+      // Sign-colored bars: green when longs pay (crowded long), red when shorts pay
+      chartSeries.push({
+        name: `${s.symbol} funding (ann.)`,
+        type: "bar",
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        data: annualized.map(([t, v]) => ({ value: [t, v], itemStyle: { color: v >= 0 ? UP_COLOR : DOWN_COLOR } })),
+        ...(s.analysis.stats && {
+          markLine: {
+            symbol: "none",
+            silent: true,
+            lineStyle: { color: "#ffc233", type: "dashed" },
+            label: { color: "#ffc233", formatter: `mean ${pct(s.analysis.stats.meanAnnualized, 1)}` },
+            data: [{ yAxis: s.analysis.stats.meanAnnualized * 100 }],
+          },
+        }),
+      });
+    } else {
+      chartSeries.push({
+        name: s.symbol,
+        type: "line",
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        showSymbol: false,
+        lineStyle: { width: 1.5, color },
+        itemStyle: { color },
+        data: annualized,
+      });
+    }
+
+    chartSeries.push({
+      name: single ? `${s.symbol} cumulative` : s.symbol,
+      type: "line",
+      xAxisIndex: 2,
+      yAxisIndex: 2,
+      showSymbol: false,
+      areaStyle: single ? { opacity: 0.15, color } : undefined,
+      lineStyle: { width: 1.5, color },
+      itemStyle: { color },
+      data: s.analysis.points.map((p) => [p.timestamp, p.cumulative * 100]),
+    });
+  });
+
+  const symbols = series.map((s) => s.symbol).join(" vs ");
+  const subtext = series
+    .filter((s) => s.analysis.stats)
+    .map((s) => {
+      const st = s.analysis.stats!;
+      return `${s.symbol}: now ${pct(st.currentAnnualized, 1)} ann. (p${st.currentPercentile.toFixed(0)}) | mean ${pct(st.meanAnnualized, 1)} | cum ${pct(st.cumulative)}`;
+    })
+    .join("   ");
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbols} — Funding Rate`,
+      subtext,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "axis",
+      axisPointer: { type: "cross" },
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    legend: single
+      ? { show: false }
+      : { data: series.map((s) => s.symbol), top: 48, textStyle: { color: TEXT_COLOR } },
+    axisPointer: { link: [{ xAxisIndex: "all" }] },
+    grid: grids,
+    xAxis: xAxes,
+    yAxis: yAxes,
+    dataZoom: [
+      { type: "inside", xAxisIndex: [0, 1, 2], start: 0, end: 100 },
+      { type: "slider", xAxisIndex: [0, 1, 2], start: 0, end: 100, height: 20, bottom: 8, textStyle: { color: TEXT_COLOR }, borderColor: GRID_COLOR },
+    ],
+    series: chartSeries,
+  };
+}
@@ -12,8 +12,9 @@ import {
   calculateAnchoredVWAP,
   calculateATR,
 } from "../../utils/ta.js";
+import type { DeltaBar } from "../../utils/orderflow.js";
 
-type IndicatorType = "MA" | "EMA" | "RSI" | "MACD" | "BOLL" | "KDJ" | "VOL" | "VWAP" | "ATR";
+type IndicatorType = "MA" | "EMA" | "RSI" | "MACD" | "BOLL" | "KDJ" | "VOL" | "VWAP" | "ATR" | "CVD";
 
 interface IndicatorsParams {
   data: OHLCV[];
@@ -22,10 +23,11 @@ interface IndicatorsParams {
   indicators: IndicatorType[];
   maPeriods?: number[];
   anchorDate?: string;
+  delta?: (DeltaBar | null)[];  // CVD panel: per-bar taker delta aligned with data
 }
 
 export function buildIndicatorsOption(params: IndicatorsParams): EChartsOption {
-  const { data, symbol, timeframe, indicators, maPeriods = [7, 25, 99], anchorDate } = params;
+  const { data, symbol, timeframe, indicators, maPeriods = [7, 25, 99], anchorDate, delta = [] } = params;
 
   // Format dates for x-axis
   const dates = data.map(d => {
@@ -45,7 +47,7 @@ export function buildIndicatorsOption(params: IndicatorsParams): EChartsOption {
 
   // Determine which indicators need separate panels
   const overlayIndicators = indicators.filter(i => ["MA", "EMA", "BOLL", "VWAP"].includes(i));
-  const subIndicators = indicators.filter(i => ["RSI", "MACD", "KDJ", "ATR"].includes(i));
+  const subIndicators = indicators.filter(i => ["RSI", "MACD", "KDJ", "ATR", "CVD"].includes(i));
   
   // Calculate grid layout
   // Main panel (K-line): 45%
@@ -450,6 +452,36 @@ export function buildIndicatorsOption(params: IndicatorsParams): EChartsOption {
     subPanelIndex++;
   }
   
+  if (subIndicators.includes("CVD")) {
+    const cvdXAxisIndex = subPanelIndex;
+    const cvdYAxisIndex = subPanelIndex;
+    
+    // Per-bar delta as a histogram, running CVD as a line; uncovered bars stay empty
+    series.push(
+      {
+        name: "Delta",
+        type: "bar",
+        data: data.map((_, i) => {
+          const d = delta[i];
+          return d ? { value: d.delta, itemStyle: { color: (d.delta >= 0 ? UP_COLOR : DOWN_COLOR) + "80" } } : null;
+        }),
+        xAxisIndex: cvdXAxisIndex,
+        yAxisIndex: cvdYAxisIndex,
+      },
+      {
+        name: "CVD",
+        type: "line",
+        data: data.map((_, i) => delta[i]?.cvd ?? null),
+        xAxisIndex: cvdXAxisIndex,
+        yAxisIndex: cvdYAxisIndex,
+        lineStyle: { width: 1.5, color: colors[0] },
+        showSymbol: false,
+      }
+    );
+    
+    subPanelIndex++;
+  }
+  
   // Build indicator list for title
   const indicatorNames = [
     ...overlayIndicators,
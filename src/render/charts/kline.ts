@@ -1,18 +1,66 @@
 import type { EChartsOption } from "echarts";
-import { OHLCV } from "../../data/types.js";
+import { OHLCV, CalendarEvent } from "../../data/types.js";
 import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR } from "../themes.js";
+import { EVENT_TYPE_COLORS } from "./calendar.js";
 
-export function buildKlineOption(data: OHLCV[], symbol: string, timeframe: string): EChartsOption {
-  const dates = data.map(d => {
-    const date = new Date(d.timestamp);
+const EVENT_LETTERS: Record<CalendarEvent["type"], string> = {
+  earnings: "E",
+  dividend: "D",
+  split: "S",
+  macro: "M",
+};
+
+/**
+ * Pin events to the first candle on or after their date. Events past the
+ * last candle get empty placeholder slots so upcoming dates stay visible.
+ */
+function placeEvents(
+  data: OHLCV[],
+  events: CalendarEvent[],
+  dates: (string | number)[],
+  ohlc: (number | string)[][],
+  volumes: (number | string)[],
+  formatDate: (timestamp: number) => string
+): any[] {
+  const candleDays = data.map(d => new Date(d.timestamp).toISOString().slice(0, 10));
+  const lastClose = data[data.length - 1].close;
+  return events.map(e => {
+    let index = candleDays.findIndex(day => day >= e.date);
+    if (index === -1) {
+      const label = formatDate(Date.parse(`${e.date}T00:00:00Z`));
+      index = dates.indexOf(label);
+      if (index === -1) {
+        dates.push(label);
+        ohlc.push(["-", "-", "-", "-"]);
+        volumes.push("-");
+        index = dates.length - 1;
+      }
+    }
+    const color = EVENT_TYPE_COLORS[e.type];
+    return {
+      name: e.title,
+      coord: [index, index < data.length ? data[index].high : lastClose],
+      value: EVENT_LETTERS[e.type],
+      itemStyle: { color: index < data.length ? color : color + "80", borderColor: color },
+    };
+  });
+}
+
+export function buildKlineOption(data: OHLCV[], symbol: string, timeframe: string, events: CalendarEvent[] = []): EChartsOption {
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
     return timeframe.includes("m") || timeframe === "1h" || timeframe === "4h"
       ? date.toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
       : date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
-  });
+  };
+  const dates: (string | number)[] = data.map(d => formatDate(d.timestamp));
 
-  const ohlc = data.map(d => [d.open, d.close, d.low, d.high]);
-  const volumes = data.map(d => d.volume);
+  const ohlc: (number | string)[][] = data.map(d => [d.open, d.close, d.low, d.high]);
+  const volumes: (number | string)[] = data.map(d => d.volume);
   const volumeColors = data.map(d => d.close >= d.open ? UP_COLOR : DOWN_COLOR);
+  const eventMarks = data.length > 0 && events.length > 0
+    ? placeEvents(data, events, dates, ohlc, volumes, formatDate)
+    : [];
 
   return {
     backgroundColor: BG_COLOR,
@@ -82,13 +130,21 @@ export function buildKlineOption(data: OHLCV[], symbol: string, timeframe: strin
           borderColor: UP_COLOR,
           borderColor0: DOWN_COLOR,
         },
+        ...(eventMarks.length > 0 && {
+          markPoint: {
+            symbol: "pin",
+            symbolSize: 28,
+            label: { color: "#fff", fontSize: 10, fontWeight: "bold" },
+            data: eventMarks,
+          },
+        }),
       },
       {
         name: "Volume",
         type: "bar",
         data: volumes.map((v, i) => ({
           value: v,
-          itemStyle: { color: volumeColors[i] + "80" },
+          itemStyle: { color: (volumeColors[i] ?? GRID_COLOR) + "80" },
         })),
         xAxisIndex: 1,
         yAxisIndex: 1,
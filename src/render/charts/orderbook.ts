@@ -0,0 +1,133 @@
+// Order book depth ECharts chart builder
+// Cumulative bid (left) and ask (right) notional by price, with the mid
+// price, walls and the levels a market order of the given size would reach
+
+import type { EChartsOption } from "echarts";
+import type { OrderBookAnalysis } from "../../utils/orderbook.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR } from "../themes.js";
+
+const WALL_COLOR = "#ffc233";
+const SWEEP_COLOR = "#5b8ff9";
+
+const signedPct = (fraction: number) => `${fraction >= 0 ? "+" : ""}${(fraction * 100).toFixed(1)}%`;
+
+function compact(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toFixed(abs >= 1 ? 2 : 4);
+}
+
+export function buildOrderBookOption(analysis: OrderBookAnalysis): EChartsOption {
+  const { symbol, mid, bids, asks, walls, buy, sell } = analysis;
+
+  // Bids plotted low → high so both areas rise away from the mid
+  const bidData = [...bids].reverse().map((p) => [p.price, p.cumulativeNotional]);
+  const askData = asks.map((p) => [p.price, p.cumulativeNotional]);
+  const cumulativeAt = (side: "bid" | "ask", price: number) =>
+    (side === "bid" ? bids : asks).find((p) => p.price === price)?.cumulativeNotional ?? 0;
+
+  const wallPoints = (side: "bid" | "ask") =>
+    walls
+      .filter((w) => w.side === side)
+      .map((w) => ({
+        name: `${side} wall ${compact(w.quantity)} @ ${w.price} (${w.multiple.toFixed(1)}× median)`,
+        coord: [w.price, cumulativeAt(side, w.price)],
+        value: compact(w.notional),
+      }));
+
+  const sweepLines = [buy, sell]
+    .filter((s) => s.worstPrice !== null && s.worstPrice >= mid * (1 - analysis.range) && s.worstPrice <= mid * (1 + analysis.range))
+    .map((s) => ({
+      name: `${s.side} ${compact(s.notional)}`,
+      xAxis: s.worstPrice!,
+      lineStyle: { color: SWEEP_COLOR, type: "dotted" as const },
+      label: { color: SWEEP_COLOR, formatter: `${s.side} ${compact(s.notional)}` },
+    }));
+
+  const wallMarks = {
+    symbol: "pin",
+    symbolSize: 36,
+    itemStyle: { color: WALL_COLOR },
+    label: { color: BG_COLOR, fontSize: 9 },
+  };
+
+  const lean = analysis.imbalance > 0 ? "bid-heavy" : analysis.imbalance < 0 ? "ask-heavy" : "balanced";
+  const slip = (s: typeof buy) =>
+    s.slippage === null ? "—" : `${(s.slippage * 10_000).toFixed(1)} bps${s.complete ? "" : " (book exhausted)"}`;
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — Order Book Depth`,
+      subtext:
+        `Mid ${mid} | Spread ${analysis.spreadBps.toFixed(2)} bps | Imbalance ±${(analysis.range * 100).toFixed(1)}%: ${signedPct(analysis.imbalance)} (${lean}) | ` +
+        `Buy ${compact(buy.notional)}: ${slip(buy)} | Sell ${compact(sell.notional)}: ${slip(sell)}`,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "axis",
+      axisPointer: { type: "cross" },
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    legend: {
+      data: ["Bids", "Asks"],
+      top: 48,
+      textStyle: { color: TEXT_COLOR },
+    },
+    grid: { left: "8%", right: "4%", top: "16%", bottom: "10%" },
+    xAxis: {
+      type: "value",
+      scale: true,
+      name: "Price",
+      nameTextStyle: { color: SUB_TEXT_COLOR },
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+      axisLabel: { color: SUB_TEXT_COLOR },
+      splitLine: { show: false },
+    },
+    yAxis: {
+      type: "value",
+      name: "Cumulative notional",
+      nameTextStyle: { color: SUB_TEXT_COLOR },
+      axisLabel: { color: SUB_TEXT_COLOR },
+      splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+    },
+    series: [
+      {
+        name: "Bids",
+        type: "line",
+        step: "end",
+        showSymbol: false,
+        lineStyle: { width: 1.5, color: UP_COLOR },
+        itemStyle: { color: UP_COLOR },
+        areaStyle: { color: UP_COLOR, opacity: 0.2 },
+        data: bidData,
+        markLine: {
+          symbol: "none",
+          silent: true,
+          label: { color: SUB_TEXT_COLOR },
+          lineStyle: { color: SUB_TEXT_COLOR, type: "dashed" },
+          data: [{ name: "Mid", xAxis: mid, label: { formatter: "mid" } }, ...sweepLines],
+        },
+        markPoint: { ...wallMarks, data: wallPoints("bid") },
+      },
+      {
+        name: "Asks",
+        type: "line",
+        step: "start",
+        showSymbol: false,
+        lineStyle: { width: 1.5, color: DOWN_COLOR },
+        itemStyle: { color: DOWN_COLOR },
+        areaStyle: { color: DOWN_COLOR, opacity: 0.2 },
+        data: askData,
+        markPoint: { ...wallMarks, data: wallPoints("ask") },
+      },
+    ],
+  };
+}
@@ -0,0 +1,168 @@
+// Peer comparison ECharts chart builder
+// Left: radar of percentile scores per company (subject filled, peer median dashed)
+// Right: table as a heatmap — raw values in cells, colored by percentile score,
+// with peer median and the subject's premium/discount rows below
+
+import type { EChartsOption } from "echarts";
+import {
+  PEER_METRICS,
+  formatPeerRelative,
+  formatPeerValue,
+  type PeerComparison,
+  type PeerRow,
+} from "../../utils/peers.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+interface PeersChartConfig {
+  comparison: PeerComparison;
+  rows?: PeerRow[];          // table order; defaults to comparison order
+}
+
+const SUBJECT_COLOR = "#ffcc00";
+const MEDIAN_LABEL = "Peer median";
+
+const toScore = (score: number | null | undefined) => (score == null ? null : Math.round(score));
+
+export function buildPeersOption(config: PeersChartConfig): EChartsOption {
+  const { comparison } = config;
+  const { subject, metrics } = comparison;
+  const rows = config.rows ?? comparison.rows;
+  const colors = GAINLAB_THEME.colorPalette;
+  const peerColor = (i: number) => colors[i % colors.length];
+
+  const relativeLabel = `${subject} vs median`;
+  // Top to bottom: companies in table order, then median and relative rows
+  const tableRows = [...rows.map((r) => r.symbol), MEDIAN_LABEL, relativeLabel];
+  const y = (index: number) => tableRows.length - 1 - index;
+
+  const scoreCells = rows.flatMap((row, i) =>
+    metrics.map((metric, j) => ({
+      value: [j, y(i), toScore(row.scores[metric]) ?? "-"],
+      label: { formatter: formatPeerValue(metric, row.values[metric]) },
+      ...(row.symbol === subject ? { itemStyle: { borderColor: SUBJECT_COLOR, borderWidth: 2 } } : {}),
+    }))
+  );
+  const summaryCells = metrics.flatMap((metric, j) => {
+    const rel = comparison.relative[metric];
+    const better = rel == null ? null : (rel > 0) === PEER_METRICS[metric].higherIsBetter;
+    return [
+      {
+        value: [j, y(rows.length), 0],
+        label: { formatter: formatPeerValue(metric, comparison.median[metric]), color: SUB_TEXT_COLOR },
+      },
+      {
+        value: [j, y(rows.length + 1), 0],
+        label: {
+          formatter: formatPeerRelative(metric, rel),
+          color: better === null ? SUB_TEXT_COLOR : better ? UP_COLOR : DOWN_COLOR,
+          fontWeight: "bold" as const,
+        },
+      },
+    ];
+  });
+
+  const radarSeries = [
+    ...comparison.rows.map((row, i) => {
+      const isSubject = row.symbol === subject;
+      const color = isSubject ? SUBJECT_COLOR : peerColor(i);
+      return {
+        name: row.symbol,
+        value: metrics.map((m) => toScore(row.scores[m]) ?? 0),
+        lineStyle: { color, width: isSubject ? 3 : 1.5 },
+        itemStyle: { color },
+        ...(isSubject ? { areaStyle: { color, opacity: 0.2 } } : {}),
+      };
+    }),
+    {
+      name: MEDIAN_LABEL,
+      value: metrics.map((m) => toScore(comparison.medianScores[m]) ?? 0),
+      lineStyle: { color: TEXT_COLOR, width: 1.5, type: "dashed" as const },
+      itemStyle: { color: TEXT_COLOR },
+      symbol: "none",
+    },
+  ];
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${subject} vs Peers`,
+      subtext: `Percentile within the group (100 = best; lower is better for leverage and multiples) | ${rows.length - 1} peers`,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "item",
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    legend: {
+      data: [...comparison.rows.map((r) => r.symbol), MEDIAN_LABEL],
+      bottom: 5,
+      left: "2%",
+      width: "44%",
+      textStyle: { color: TEXT_COLOR },
+    },
+    radar: {
+      center: ["24%", "55%"],
+      radius: "55%",
+      indicator: metrics.map((m) => ({ name: PEER_METRICS[m].label, max: 100 })),
+      axisName: { color: SUB_TEXT_COLOR, fontSize: 10 },
+      splitLine: { lineStyle: { color: GRID_COLOR } },
+      splitArea: { show: false },
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+    },
+    grid: { left: "58%", right: "2%", top: 80, bottom: 50 },
+    xAxis: {
+      type: "category",
+      data: metrics.map((m) => PEER_METRICS[m].label),
+      position: "top",
+      axisLine: { show: false },
+      axisTick: { show: false },
+      axisLabel: { color: SUB_TEXT_COLOR, fontSize: 9, interval: 0, rotate: 30 },
+    },
+    yAxis: {
+      type: "category",
+      data: [...tableRows].reverse().map((label) => ({
+        value: label,
+        textStyle: label === subject
+          ? { color: SUBJECT_COLOR, fontWeight: "bold" as const }
+          : { color: SUB_TEXT_COLOR },
+      })),
+      axisLine: { show: false },
+      axisTick: { show: false },
+      axisLabel: { fontSize: 10 },
+    },
+    visualMap: {
+      min: 0,
+      max: 100,
+      dimension: 2,
+      seriesIndex: 1,
+      show: false,
+      inRange: { color: [DOWN_COLOR, "#6a3040", "#4a4a6a", "#3a6a50", UP_COLOR] },
+    },
+    series: [
+      {
+        type: "radar",
+        data: radarSeries,
+      },
+      {
+        name: "Percentile",
+        type: "heatmap",
+        data: scoreCells,
+        label: { show: true, color: TEXT_COLOR, fontSize: 9 },
+        itemStyle: { borderColor: BG_COLOR, borderWidth: 1 },
+      },
+      {
+        name: MEDIAN_LABEL,
+        type: "heatmap",
+        data: summaryCells,
+        label: { show: true, fontSize: 9 },
+        itemStyle: { color: "#24243a", borderColor: BG_COLOR, borderWidth: 1 },
+        tooltip: { show: false },
+      },
+    ],
+  };
+}
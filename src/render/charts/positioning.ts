@@ -0,0 +1,175 @@
+// Derivatives positioning ECharts chart builder
+// Panels: K-line, open interest, top-trader long/short ratio, taker buy/sell volume
+
+import type { EChartsOption } from "echarts";
+import type { OHLCV } from "../../data/types.js";
+import type { OpenInterestPoint, LongShortRatioPoint, TakerVolumePoint } from "../../data/crypto.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+interface PositioningChartParams {
+  symbol: string;
+  period: string;
+  candles: OHLCV[];
+  openInterest: OpenInterestPoint[];
+  longShort: LongShortRatioPoint[];
+  taker: TakerVolumePoint[];
+  subtitle?: string;
+}
+
+/**
+ * Values for each candle, matched on timestamp. The /futures/data samples
+ * sit on period boundaries like kline open times; gaps stay null.
+ */
+function alignToCandles<T extends { timestamp: number }>(
+  candles: OHLCV[],
+  rows: T[],
+  pick: (row: T) => number
+): (number | null)[] {
+  const byTime = new Map(rows.map((r) => [r.timestamp, pick(r)]));
+  return candles.map((c) => byTime.get(c.timestamp) ?? null);
+}
+
+export function buildPositioningOption(params: PositioningChartParams): EChartsOption {
+  const { symbol, period, candles, openInterest, longShort, taker, subtitle } = params;
+
+  const dates = candles.map(d => {
+    const date = new Date(d.timestamp);
+    return period === "1d"
+      ? date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+      : date.toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+  });
+
+  // Grid layout: K-line 36%, then three 14% panels
+  const panelHeights = [36, 14, 14, 14];
+  const gap = 3;
+  let currentTop = 12;
+  const grids = panelHeights.map((height) => {
+    const grid = { left: "8%", right: "4%", top: `${currentTop}%`, height: `${height}%` };
+    currentTop += height + gap;
+    return grid;
+  });
+
+  const xAxes = grids.map((_, index) => ({
+    type: "category" as const,
+    data: dates,
+    gridIndex: index,
+    axisLine: { lineStyle: { color: GRID_COLOR } },
+    axisLabel: index === grids.length - 1
+      ? { color: SUB_TEXT_COLOR, fontSize: 10 }
+      : { show: false },
+    splitLine: { show: false },
+  }));
+
+  const panelNames = ["Price", "Open interest", "Top L/S", "Taker vol"];
+  const yAxes = grids.map((_, index) => ({
+    type: "value" as const,
+    gridIndex: index,
+    name: panelNames[index],
+    nameTextStyle: { color: SUB_TEXT_COLOR, fontSize: 10 },
+    splitLine: { lineStyle: { color: GRID_COLOR, opacity: index === 0 ? 1 : 0.3 } },
+    axisLabel: { color: SUB_TEXT_COLOR, fontSize: 10 },
+    axisLine: { lineStyle: { color: GRID_COLOR } },
+    scale: index !== 3,
+  }));
+
+  const colors = GAINLAB_THEME.colorPalette;
+  const series: any[] = [
+    {
+      name: "K Line",
+      type: "candlestick",
+      data: candles.map(d => [d.open, d.close, d.low, d.high]),
+      xAxisIndex: 0,
+      yAxisIndex: 0,
+      itemStyle: {
+        color: UP_COLOR,
+        color0: DOWN_COLOR,
+        borderColor: UP_COLOR,
+        borderColor0: DOWN_COLOR,
+      },
+    },
+    {
+      name: "Open Interest (USD)",
+      type: "line",
+      data: alignToCandles(candles, openInterest, (r) => r.openInterestValue),
+      xAxisIndex: 1,
+      yAxisIndex: 1,
+      connectNulls: true,
+      showSymbol: false,
+      lineStyle: { width: 1.5, color: colors[1] },
+      itemStyle: { color: colors[1] },
+      areaStyle: { color: colors[1], opacity: 0.15 },
+    },
+    {
+      name: "Top Trader L/S",
+      type: "line",
+      data: alignToCandles(candles, longShort, (r) => r.longShortRatio),
+      xAxisIndex: 2,
+      yAxisIndex: 2,
+      connectNulls: true,
+      showSymbol: false,
+      lineStyle: { width: 1.5, color: colors[3] },
+      itemStyle: { color: colors[3] },
+      markLine: {
+        symbol: "none",
+        silent: true,
+        lineStyle: { color: SUB_TEXT_COLOR, type: "dashed" },
+        label: { show: false },
+        data: [{ yAxis: 1 }],
+      },
+    },
+    // Buys above zero, sells below, so the imbalance reads at a glance
+    {
+      name: "Taker Buy",
+      type: "bar",
+      stack: "taker",
+      data: alignToCandles(candles, taker, (r) => r.buyVolume),
+      xAxisIndex: 3,
+      yAxisIndex: 3,
+      itemStyle: { color: UP_COLOR + "b0" },
+    },
+    {
+      name: "Taker Sell",
+      type: "bar",
+      stack: "taker",
+      data: alignToCandles(candles, taker, (r) => -r.sellVolume),
+      xAxisIndex: 3,
+      yAxisIndex: 3,
+      itemStyle: { color: DOWN_COLOR + "b0" },
+    },
+  ];
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — ${period} Derivatives Positioning`,
+      subtext: subtitle,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "axis",
+      axisPointer: { type: "cross" },
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    axisPointer: { link: [{ xAxisIndex: "all" }] },
+    grid: grids,
+    xAxis: xAxes,
+    yAxis: yAxes,
+    series,
+    dataZoom: [
+      { type: "inside", xAxisIndex: grids.map((_, i) => i), start: 0, end: 100 },
+    ],
+    legend: {
+      show: true,
+      top: "3%",
+      left: "8%",
+      textStyle: { color: TEXT_COLOR, fontSize: 10 },
+      itemWidth: 20,
+      itemHeight: 10,
+    },
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Reverse DCF chart.
+ * Fair value per share as a function of uniform FCF growth, with the current
+ * price, the growth it implies, and historical FCF growth marked.
+ */
+
+import type { EChartsOption } from "echarts";
+import { BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+interface ReverseDCFConfig {
+  symbol: string;
+  curve: { growth: number; perShare: number }[];   // ascending growth
+  price: number;
+  impliedGrowth: number | null;
+  historicalGrowth: number | null;
+  years: number;
+  currency?: string;       // default "$"
+}
+
+const toPercent = (fraction: number) => Number((fraction * 100).toFixed(2));
+
+export function buildReverseDCFOption(config: ReverseDCFConfig): EChartsOption {
+  const { symbol, curve, price, impliedGrowth, historicalGrowth, years, currency = "$" } = config;
+  const colors = GAINLAB_THEME.colorPalette;
+  const minGrowth = toPercent(curve[0].growth);
+  const maxGrowth = toPercent(curve[curve.length - 1].growth);
+  const inRange = (g: number | null): g is number => g !== null && toPercent(g) >= minGrowth && toPercent(g) <= maxGrowth;
+
+  const verticals = [
+    ...(inRange(impliedGrowth)
+      ? [{ xAxis: toPercent(impliedGrowth), name: `Implied ${toPercent(impliedGrowth).toFixed(1)}%`, color: "#ffcc00" }]
+      : []),
+    ...(inRange(historicalGrowth)
+      ? [{ xAxis: toPercent(historicalGrowth), name: `Historical ${toPercent(historicalGrowth).toFixed(1)}%`, color: colors[1] }]
+      : []),
+  ];
+
+  const subtext = impliedGrowth !== null
+    ? `Price ${currency}${price.toFixed(2)} implies ${toPercent(impliedGrowth).toFixed(1)}% FCF growth a year for ${years} years`
+    : `Price ${currency}${price.toFixed(2)} is outside the growth range the model can justify`;
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — Reverse DCF`,
+      subtext,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "axis",
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    grid: { left: "10%", right: "6%", top: 80, bottom: 60 },
+    xAxis: {
+      type: "value",
+      min: minGrowth,
+      max: maxGrowth,
+      name: `Annual FCF growth, ${years} years`,
+      nameLocation: "middle",
+      nameGap: 30,
+      nameTextStyle: { color: SUB_TEXT_COLOR },
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+      axisLabel: { color: SUB_TEXT_COLOR, formatter: "{value}%" },
+      splitLine: { show: false },
+    },
+    yAxis: {
+      type: "value",
+      name: `Fair value (${currency}/share)`,
+      nameTextStyle: { color: SUB_TEXT_COLOR },
+      axisLabel: { color: SUB_TEXT_COLOR },
+      splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+    },
+    series: [
+      {
+        name: "Fair value",
+        type: "line",
+        showSymbol: false,
+        lineStyle: { width: 2, color: colors[0] },
+        itemStyle: { color: colors[0] },
+        data: curve.map((p) => [toPercent(p.growth), Number(p.perShare.toFixed(2))]),
+        markLine: {
+          symbol: "none",
+          data: [
+            {
+              yAxis: price,
+              name: "Price",
+              lineStyle: { color: TEXT_COLOR, type: "dashed" },
+              label: { formatter: `Price ${currency}${price.toFixed(2)}`, color: TEXT_COLOR, position: "insideEndTop" },
+            },
+            ...verticals.map((v) => ({
+              xAxis: v.xAxis,
+              name: v.name,
+              lineStyle: { color: v.color, type: "dashed" as const },
+              label: { formatter: v.name, color: v.color },
+            })),
+          ],
+        },
+        markPoint: {
+          symbol: "circle",
+          symbolSize: 10,
+          itemStyle: { color: "#ffcc00" },
+          label: { show: false },
+          data: inRange(impliedGrowth) ? [{ name: "Implied", coord: [toPercent(impliedGrowth), price] as [number, number] }] : [],
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,154 @@
+// Valuation bands ECharts chart builder
+// Top: the multiple's daily history with mean and ±σ lines, ±1σ shaded.
+// Bottom: price channel — the close against the price at each band level
+
+import type { EChartsOption } from "echarts";
+import { BAND_MULTIPLES, type ValuationBands } from "../../utils/valuation-bands.js";
+import { UP_COLOR, DOWN_COLOR, BG_COLOR, GRID_COLOR, TEXT_COLOR, SUB_TEXT_COLOR, GAINLAB_THEME } from "../themes.js";
+
+interface ValuationBandsChartConfig {
+  symbol: string;
+  bands: ValuationBands;
+  years: number;
+  currency?: string;  // prefix for prices, "$" by default
+}
+
+/** "Mean", "+1σ", "-2σ" */
+export const bandLabel = (sigma: number) => (sigma === 0 ? "Mean" : `${sigma > 0 ? "+" : ""}${sigma}σ`);
+
+// Cheap levels in the up color, rich levels in the down color
+const levelColor = (sigma: number) => (sigma === 0 ? SUB_TEXT_COLOR : sigma < 0 ? UP_COLOR : DOWN_COLOR);
+const levelLineType = (sigma: number) =>
+  sigma === 0 ? "solid" as const : Math.abs(sigma) === 1 ? "dashed" as const : "dotted" as const;
+
+export function buildValuationBandsOption(config: ValuationBandsChartConfig): EChartsOption {
+  const { symbol, bands, years, currency = "$" } = config;
+  const { label } = BAND_MULTIPLES[bands.multiple];
+  const multipleColor = GAINLAB_THEME.colorPalette[0];
+  const round = (v: number | null, digits = 2) => (v === null ? null : Number(v.toFixed(digits)));
+  const sigmaOne = (s: number) => bands.levels.find((l) => l.sigma === s)?.value;
+
+  const lowerOne = sigmaOne(-1);
+  const upperOne = sigmaOne(1);
+  const position = [
+    bands.zScore !== null ? `${bands.zScore >= 0 ? "+" : ""}${bands.zScore.toFixed(1)}σ` : null,
+    bands.percentile !== null ? `percentile ${(bands.percentile * 100).toFixed(0)}` : null,
+  ].filter(Boolean).join(", ");
+  const subtext = bands.current !== null && bands.mean !== null
+    ? `${label} ${bands.current.toFixed(1)}× vs ${years}y mean ${bands.mean.toFixed(1)}×` +
+      (position ? ` (${position})` : "") +
+      (lowerOne !== undefined && upperOne !== undefined ? ` | ±1σ ${lowerOne.toFixed(1)}–${upperOne.toFixed(1)}×` : "")
+    : `${label} unavailable (loss-making or missing statements)`;
+
+  return {
+    backgroundColor: BG_COLOR,
+    animation: false,
+    title: {
+      text: `${symbol} — ${label} Bands`,
+      subtext,
+      left: "center",
+      textStyle: { color: TEXT_COLOR, fontSize: 16, fontWeight: "bold" },
+      subtextStyle: { color: SUB_TEXT_COLOR },
+    },
+    tooltip: {
+      trigger: "axis",
+      backgroundColor: "#2d2d44",
+      borderColor: "#3d3d5c",
+      textStyle: { color: TEXT_COLOR },
+    },
+    axisPointer: { link: [{ xAxisIndex: "all" }] },
+    legend: {
+      data: [label, "Close", ...bands.levels.map((l) => `${label} ${bandLabel(l.sigma)}`)],
+      top: 50,
+      textStyle: { color: TEXT_COLOR },
+    },
+    grid: [
+      { left: "8%", right: "8%", top: "20%", height: "30%" },
+      { left: "8%", right: "8%", top: "60%", height: "32%" },
+    ],
+    xAxis: [0, 1].map((gridIndex) => ({
+      type: "time" as const,
+      gridIndex,
+      axisLine: { lineStyle: { color: GRID_COLOR } },
+      axisLabel: { color: SUB_TEXT_COLOR, show: gridIndex === 1 },
+      splitLine: { show: false },
+    })),
+    yAxis: [
+      {
+        type: "value",
+        gridIndex: 0,
+        name: `${label} (×)`,
+        scale: true,
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR },
+        splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+      },
+      {
+        type: "value",
+        gridIndex: 1,
+        name: `Price (${currency})`,
+        scale: true,
+        nameTextStyle: { color: SUB_TEXT_COLOR },
+        axisLabel: { color: SUB_TEXT_COLOR },
+        splitLine: { lineStyle: { color: GRID_COLOR, type: "dashed" } },
+      },
+    ],
+    series: [
+      {
+        name: label,
+        type: "line",
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        showSymbol: false,
+        lineStyle: { width: 1.5, color: multipleColor },
+        itemStyle: { color: multipleColor },
+        data: bands.points.map((p) => [p.timestamp, round(p.multiple)]),
+        markLine: {
+          silent: true,
+          symbol: "none",
+          data: bands.levels.map((l) => ({
+            yAxis: Number(l.value.toFixed(2)),
+            name: bandLabel(l.sigma),
+            lineStyle: {
+              color: levelColor(l.sigma),
+              type: levelLineType(l.sigma),
+              width: 1,
+            },
+            label: { formatter: `${bandLabel(l.sigma)} ${l.value.toFixed(1)}×`, color: levelColor(l.sigma), fontSize: 10 },
+          })),
+        },
+        markArea: {
+          silent: true,
+          itemStyle: { color: "rgba(255, 255, 255, 0.05)" },
+          data: lowerOne !== undefined && upperOne !== undefined
+            ? [[{ yAxis: Number(lowerOne.toFixed(2)) }, { yAxis: Number(upperOne.toFixed(2)) }]]
+            : [],
+        },
+      },
+      {
+        name: "Close",
+        type: "line",
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        showSymbol: false,
+        lineStyle: { width: 2, color: TEXT_COLOR },
+        itemStyle: { color: TEXT_COLOR },
+        data: bands.points.map((p) => [p.timestamp, round(p.close)]),
+      },
+      ...bands.levels.map((l, i) => ({
+        name: `${label} ${bandLabel(l.sigma)}`,
+        type: "line" as const,
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        showSymbol: false,
+        lineStyle: {
+          width: 1,
+          color: levelColor(l.sigma),
+          type: levelLineType(l.sigma),
+        },
+        itemStyle: { color: levelColor(l.sigma) },
+        data: bands.points.map((p) => [p.timestamp, round(p.bandPrices[i])]),
+      })),
+    ],
+  };
+}
@@ -0,0 +1,137 @@
+// Live MCP resources — Binance klines and 24h tickers kept current over a
+// WebSocket. Clients subscribe to a URI and get notifications/resources/updated
+// on every push, then re-read it (e.g. to re-render buildKlineOption)
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { canonicalSymbol } from "../data/index.js";
+import { getCryptoKlines, getCryptoQuote } from "../data/crypto.js";
+import { liveStreams, isLiveTimeframe, type LiveStreams } from "../data/binance-stream.js";
+import type { Timeframe } from "../data/types.js";
+
+const KLINE_URI = /^gainlab:\/\/live\/kline\/([^/]+)\/([^/]+)$/;
+const TICKER_URI = /^gainlab:\/\/live\/ticker\/([^/]+)$/;
+
+/** Candles returned when a URI is read without a subscription */
+const SNAPSHOT_CANDLES = 500;
+
+type LiveTarget = { kind: "kline"; symbol: string; timeframe: Timeframe } | { kind: "ticker"; symbol: string };
+
+function parseLiveUri(uri: string): LiveTarget {
+  const kline = uri.match(KLINE_URI);
+  if (kline) {
+    const timeframe = decodeURIComponent(kline[2]);
+    if (!isLiveTimeframe(timeframe)) {
+      throw new Error(`No live stream for timeframe ${timeframe}; use 1m, 5m, 15m, 1h, 4h, 1d, 1w or 1M`);
+    }
+    return { kind: "kline", symbol: canonicalSymbol(decodeURIComponent(kline[1]), "crypto"), timeframe };
+  }
+  const ticker = uri.match(TICKER_URI);
+  if (ticker) {
+    return { kind: "ticker", symbol: canonicalSymbol(decodeURIComponent(ticker[1]), "crypto") };
+  }
+  throw new Error(`Not a live resource: ${uri}`);
+}
+
+/** The live buffer when subscribed, else a one-off REST snapshot */
+async function readLive(target: LiveTarget, streams: LiveStreams): Promise<object> {
+  if (target.kind === "kline") {
+    const live = streams.getKlines(target.symbol, target.timeframe);
+    if (live) return { ...live, live: true };
+    const candles = await getCryptoKlines(target.symbol, target.timeframe, SNAPSHOT_CANDLES);
+    return { symbol: target.symbol, timeframe: target.timeframe, candles, closed: false, updatedAt: Date.now(), live: false };
+  }
+  const live = streams.getTicker(target.symbol);
+  if (live) return { ...live, live: true };
+  return { symbol: target.symbol, quote: await getCryptoQuote(target.symbol), updatedAt: Date.now(), live: false };
+}
+
+const json = (uri: string, body: object) => ({
+  contents: [{ uri, mimeType: "application/json", text: JSON.stringify(body) }],
+});
+
+export function registerLiveResources(server: McpServer, streams: LiveStreams = liveStreams) {
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  /**
+   * Unsubscribe functions by the URI the client subscribed with, recorded
+   * before the stream is ready so concurrent requests for a URI share it
+   */
+  const subscriptions = new Map<string, Promise<() => void>>();
+  const stop = (subscription: Promise<() => void>) => subscription.then((unsubscribe) => unsubscribe(), () => {});
+
+  const listSubscribed = (kind: LiveTarget["kind"]) => () => ({
+    resources: [...subscriptions.keys()]
+      .filter((uri) => uri.startsWith(`gainlab://live/${kind}/`))
+      .map((uri) => ({ uri, name: uri.slice("gainlab://live/".length), mimeType: "application/json" })),
+  });
+
+  server.registerResource(
+    "live-kline",
+    new ResourceTemplate("gainlab://live/kline/{symbol}/{timeframe}", { list: listSubscribed("kline") }),
+    {
+      title: "Live Binance klines",
+      description: "Rolling OHLCV[] for a Binance pair, e.g. gainlab://live/kline/BTCUSDT/1m. Subscribe for an update on every push; " +
+        "`closed` marks the push that closed a candle.",
+      mimeType: "application/json",
+    },
+    async (uri) => json(uri.href, await readLive(parseLiveUri(uri.href), streams))
+  );
+
+  server.registerResource(
+    "live-ticker",
+    new ResourceTemplate("gainlab://live/ticker/{symbol}", { list: listSubscribed("ticker") }),
+    {
+      title: "Live Binance 24h ticker",
+      description: "Last price, rolling 24h change, range and volume for a Binance pair, e.g. gainlab://live/ticker/ETHUSDT.",
+      mimeType: "application/json",
+    },
+    async (uri) => json(uri.href, await readLive(parseLiveUri(uri.href), streams))
+  );
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const existing = subscriptions.get(uri);
+    if (existing) {
+      await existing;
+      return {};
+    }
+    const target = parseLiveUri(uri);
+    const onUpdate = () => {
+      server.server.sendResourceUpdated({ uri }).catch(() => {
+        // Client went away; onclose drops the subscription
+      });
+    };
+    const subscription = target.kind === "kline"
+      ? streams.subscribeKlines(target.symbol, target.timeframe, onUpdate)
+      : streams.subscribeTicker(target.symbol, onUpdate);
+    subscriptions.set(uri, subscription);
+    try {
+      await subscription;
+    } catch (error) {
+      if (subscriptions.get(uri) === subscription) subscriptions.delete(uri);
+      throw error;
+    }
+    // Unless it was unsubscribed while the stream started; that request stops it
+    if (subscriptions.get(uri) === subscription) server.sendResourceListChanged();
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const subscription = subscriptions.get(uri);
+    if (!subscription) return {};
+    subscriptions.delete(uri);
+    // Waits out a subscribe still in flight, then stops its stream
+    await stop(subscription);
+    server.sendResourceListChanged();
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    for (const subscription of subscriptions.values()) stop(subscription);
+    subscriptions.clear();
+    previousOnClose?.();
+  };
+}
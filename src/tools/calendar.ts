@@ -0,0 +1,123 @@
+// Event Calendar MCP tool — earnings, dividends, splits and macro releases
+// as a timeline chart or a structured list
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { toIsoDate, DAY_MS } from "../data/range.js";
+import { getCalendarEvents, type CalendarEvent } from "../data/index.js";
+import { buildCalendarOption } from "../render/charts/calendar.js";
+import { renderToPNG, renderToHTML } from "../render/engine.js";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const CalendarSchema = {
+  market: z.enum(["us_stock", "a_stock", "crypto", "commodity"]).describe("Market: company events for stocks; crypto and commodities get US macro releases"),
+  symbols: z.array(z.string()).max(20).optional().describe('Limit company events to these tickers, e.g. ["AAPL", "MSFT"]; dividends need symbols'),
+  types: z
+    .array(z.enum(["earnings", "dividend", "split", "macro"]))
+    .min(1)
+    .default(["earnings", "dividend", "split", "macro"])
+    .describe("Event types to include"),
+  importance: z.enum(["low", "medium", "high"]).default("low").describe("Minimum importance (macro releases are rated by how much they usually move markets)"),
+  start: isoDate.optional().describe("From date, YYYY-MM-DD; default today"),
+  end: isoDate.optional().describe("To date, YYYY-MM-DD (inclusive); default 30 days after start"),
+  limit: z.number().min(1).max(500).default(200).describe("Maximum number of events (earliest first)"),
+  format: z.enum(["interactive", "image", "list"]).default("interactive").describe("Timeline chart (interactive/image) or a JSON list of events"),
+};
+
+const DEFAULT_WINDOW_DAYS = 30;
+
+function countByType(events: CalendarEvent[]): string {
+  const counts = new Map<string, number>();
+  for (const e of events) counts.set(e.type, (counts.get(e.type) ?? 0) + 1);
+  return [...counts].map(([type, n]) => `${n} ${type}`).join(", ");
+}
+
+export function registerCalendarTool(server: McpServer) {
+  server.tool(
+    "gainlab_calendar",
+    "Event calendar: earnings dates (with EPS estimate/actual), dividends, splits and macro releases (CPI, NFP, rate decisions...) " +
+    "filtered by market, symbols and importance. Renders a timeline or returns a structured list.",
+    CalendarSchema,
+    async (params) => {
+      try {
+        const from = params.start ?? toIsoDate(Date.now());
+        const to = params.end ?? toIsoDate(Date.parse(`${from}T00:00:00Z`) + DEFAULT_WINDOW_DAYS * DAY_MS);
+        if (to < from) {
+          throw new Error(`End date ${to} is before start date ${from}`);
+        }
+
+        const { events: all, errors } = await getCalendarEvents({
+          market: params.market,
+          from,
+          to,
+          symbols: params.symbols,
+          types: params.types,
+          minImportance: params.importance,
+        });
+        const events = all.slice(0, params.limit);
+        const notes = [
+          ...(all.length > events.length ? [`Showing the first ${events.length} of ${all.length} events`] : []),
+          ...errors.map((e) => `⚠️ Unavailable: ${e}`),
+        ];
+
+        if (events.length === 0) {
+          return {
+            content: [{ type: "text", text: [`No events found from ${from} to ${to}`, ...notes].join("\n") }],
+          };
+        }
+
+        const scope = params.symbols?.length ? params.symbols.join(", ") : params.market;
+        const summaryText = [
+          `📅 ${scope} Event Calendar ${from} → ${to} (${countByType(events)})`,
+          ...notes,
+          "Source: eodhd",
+        ].join("\n");
+
+        if (params.format === "list") {
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              { type: "text" as const, text: JSON.stringify(events, null, 2) },
+            ],
+          };
+        }
+
+        const option = buildCalendarOption(events, `${scope} — Event Calendar`, `${from} → ${to}`);
+        if (params.format === "image") {
+          const pngBuffer = await renderToPNG(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "image" as const,
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
+          };
+        } else {
+          const html = renderToHTML(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `gainlab://chart/calendar/${params.market}`,
+                  mimeType: "text/html",
+                  text: html,
+                },
+              },
+            ],
+          };
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,149 @@
+// Earnings MCP tool — surprise history (reported vs consensus EPS/revenue)
+// with the price reaction around each report and the average drift after
+// beats vs misses
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  getEarningsHistory,
+  getKlines,
+  getFeatureSupportError,
+  canonicalSymbol,
+  trackSources,
+  formatSources,
+} from "../data/index.js";
+import { analyzeEarnings, DEFAULT_REACTION_HORIZONS, type DriftSummary, type EarningsSurprise } from "../utils/earnings.js";
+import { buildEarningsOption } from "../render/charts/earnings.js";
+import { renderToPNG, renderToHTML } from "../render/engine.js";
+
+const EarningsSchema = {
+  symbol: z.string().describe('Stock ticker, e.g. "AAPL"'),
+  market: z.enum(["us_stock", "a_stock"]).default("us_stock").describe("Market type (consensus history needs an analyst estimates provider)"),
+  quarters: z.number().int().min(4).max(40).default(12).describe("Past reports to analyze"),
+  format: z.enum(["interactive", "image"]).default("interactive").describe("Output format"),
+};
+
+const DAY_MS = 86_400_000;
+/** Scheduled reports come back with the history; fetch a few extra so `quarters` are reported ones */
+const UPCOMING_ALLOWANCE = 4;
+
+const pct = (fraction: number | null, digits = 1) =>
+  fraction === null ? "n/a" : `${fraction >= 0 ? "+" : ""}${(fraction * 100).toFixed(digits)}%`;
+
+function formatLargeNumber(n: number): string {
+  const abs = Math.abs(n);
+  if (abs >= 1e12) return (n / 1e12).toFixed(2) + "T";
+  if (abs >= 1e9) return (n / 1e9).toFixed(2) + "B";
+  if (abs >= 1e6) return (n / 1e6).toFixed(1) + "M";
+  return n.toFixed(0);
+}
+
+const horizonReturns = (returns: (number | null)[]) =>
+  DEFAULT_REACTION_HORIZONS.map((h, i) => `${h}d ${pct(returns[i])}`).join(", ");
+
+function formatLastReport(r: EarningsSurprise): string {
+  const eps = r.epsEstimate !== null
+    ? `EPS ${r.epsActual.toFixed(2)} vs ${r.epsEstimate.toFixed(2)} est (${pct(r.epsSurprise)}, ${r.outcome})`
+    : `EPS ${r.epsActual.toFixed(2)}`;
+  const revenue = r.revenueActual !== null && r.revenueEstimate !== null
+    ? `, revenue ${formatLargeNumber(r.revenueActual)} vs ${formatLargeNumber(r.revenueEstimate)} (${pct(r.revenueSurprise)})`
+    : "";
+  return `Last: ${r.date} ${eps}${revenue} | ${horizonReturns(r.returns)}`;
+}
+
+function formatDrift(d: DriftSummary): string {
+  const label = d.outcome === "beat" ? "beats" : d.outcome === "miss" ? "misses" : "in-line reports";
+  const upShare = d.positiveShare.map((s) => (s === null ? "n/a" : `${(s * 100).toFixed(0)}%`)).join(" / ");
+  return `After ${label} (${d.count}): ${horizonReturns(d.avgReturns)} (up ${upShare})`;
+}
+
+export function registerEarningsTool(server: McpServer) {
+  server.tool(
+    "gainlab_earnings",
+    "Earnings surprise history for a stock: reported EPS and revenue against the consensus per quarter (beat/miss magnitude), " +
+    "the price reaction around each report (1d/5d/20d returns from the pre-report close) and the average drift after beats vs misses. " +
+    "Also shows the next scheduled report and its consensus when announced.",
+    EarningsSchema,
+    async (params) => {
+      const unsupported = getFeatureSupportError(params.market, "estimates");
+      if (unsupported) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${unsupported}` }],
+          isError: true,
+        };
+      }
+
+      try {
+        const symbol = canonicalSymbol(params.symbol, params.market);
+        const { result: { history, candles }, sources } = await trackSources(async () => {
+          const history = await getEarningsHistory(symbol, params.market, params.quarters + UPCOMING_ALLOWANCE);
+          const reported = history.filter((r) => r.epsActual !== null).slice(0, params.quarters);
+          if (reported.length === 0) return { history, candles: [] };
+          // A few days before the oldest report for the pre-report close
+          const start = Date.parse(`${reported[reported.length - 1].date}T00:00:00Z`) - 10 * DAY_MS;
+          const candles = await getKlines(symbol, params.market, "1d", 0, { start, adjustment: "split" });
+          return { history: [...history.filter((r) => r.epsActual === null), ...reported], candles };
+        });
+
+        const analysis = analyzeEarnings(history, candles);
+        if (analysis.reports.length === 0) {
+          return {
+            content: [{ type: "text" as const, text: `No reported earnings found for ${symbol}` }],
+          };
+        }
+
+        const option = buildEarningsOption({ symbol, analysis });
+        const count = (outcome: string) => analysis.reports.filter((r) => r.outcome === outcome).length;
+        const upcoming = analysis.upcoming;
+        const summaryText = [
+          `📊 ${symbol} Earnings — ${analysis.reports.length} reports: beat ${count("beat")} / miss ${count("miss")} / in line ${count("inline")}` +
+            (analysis.beatRate !== null ? ` (beat rate ${(analysis.beatRate * 100).toFixed(0)}%)` : "") +
+            (analysis.avgEpsSurprise !== null ? `, avg EPS surprise ${pct(analysis.avgEpsSurprise)}` : ""),
+          formatLastReport(analysis.reports[analysis.reports.length - 1]),
+          ...analysis.drift.map(formatDrift),
+          ...(upcoming
+            ? [`Next report: ${upcoming.date}` +
+                (upcoming.epsEstimate !== null ? `, EPS est ${upcoming.epsEstimate.toFixed(2)}` : "") +
+                (upcoming.revenueEstimate !== null ? `, revenue est ${formatLargeNumber(upcoming.revenueEstimate)}` : "")]
+            : []),
+          "Returns run from the last close before the report day to N sessions after it (split-adjusted)",
+          `Source: ${formatSources(sources)}`,
+        ].join("\n");
+
+        if (params.format === "image") {
+          const pngBuffer = await renderToPNG(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "image" as const,
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
+          };
+        } else {
+          const html = renderToHTML(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `gainlab://chart/earnings/${symbol}`,
+                  mimeType: "text/html",
+                  text: html,
+                },
+              },
+            ],
+          };
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,150 @@
+// Footprint MCP tool — order flow from Binance aggregate trades: bid × ask
+// volume per price level per candle, per-bar delta and CVD. Unlike volume
+// profile's candle-color split, every trade is classified by its aggressor
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getKlines, canonicalSymbol, parseDateRange } from "../data/index.js";
+import { getCryptoAggTrades } from "../data/crypto.js";
+import { TIMEFRAME_MS } from "../data/cache.js";
+import {
+  calculateVolumeDelta,
+  buildFootprint,
+  footprintTickSize,
+  summarizeOrderFlow,
+  coveredFrom,
+  type OrderFlowSummary,
+} from "../utils/orderflow.js";
+import { buildFootprintOption } from "../render/charts/footprint.js";
+import { renderToPNG, renderToHTML } from "../render/engine.js";
+
+/** Most bars one footprint draws; ranges are held to the same cap as `limit` */
+const MAX_FOOTPRINT_BARS = 60;
+
+const FootprintSchema = {
+  symbol: z.string().describe('Binance spot pair, e.g. "BTCUSDT"'),
+  timeframe: z.enum(["1m", "5m", "15m", "1h"]).default("5m").describe("Bar size: 1m, 5m, 15m or 1h"),
+  limit: z.number().min(5).max(MAX_FOOTPRINT_BARS).default(24).describe("Number of bars"),
+  start: z.string().optional().describe(`Range start, YYYY-MM-DD or ISO datetime (UTC); returns every bar up to end (at most ${MAX_FOOTPRINT_BARS}) and overrides limit`),
+  end: z.string().optional().describe("Range end, YYYY-MM-DD (inclusive) or ISO datetime (UTC); default now"),
+  rows: z.number().int().min(4).max(40).default(12).describe("Price levels a typical bar is split into (sets the automatic tick size)"),
+  tick_size: z.number().positive().optional().describe("Price level size; overrides rows"),
+  max_trades: z.number().int().min(1000).max(500_000).default(200_000).describe("Most recent trades to fetch (1000 per request); older bars are left blank"),
+  format: z.enum(["interactive", "image"]).default("interactive").describe("Output format"),
+};
+
+const pct = (fraction: number) => `${fraction >= 0 ? "+" : ""}${(fraction * 100).toFixed(2)}%`;
+
+function formatVolume(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${sign}${(abs / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${sign}${(abs / 1e3).toFixed(1)}K`;
+  return `${sign}${abs.toFixed(abs >= 10 ? 0 : 3)}`;
+}
+
+function formatSummary(s: OrderFlowSummary): string[] {
+  const read = s.divergence === "bearish"
+    ? "Bearish divergence — price rose while taker sells outweighed buys"
+    : s.divergence === "bullish"
+      ? "Bullish divergence — price fell while taker buys outweighed sells"
+      : "Price and CVD agree";
+  return [
+    `Taker buys ${formatVolume(s.buyVolume)} vs sells ${formatVolume(s.sellVolume)} | Delta: ${s.delta >= 0 ? "+" : ""}${formatVolume(s.delta)} | Price: ${pct(s.priceChange)}`,
+    `Read: ${read}`,
+  ];
+}
+
+export function registerFootprintTool(server: McpServer) {
+  server.tool(
+    "gainlab_footprint",
+    "Order flow footprint chart for a Binance spot pair from aggregate trades: per candle, the volume sold into the bid × bought " +
+    "from the ask at each price level (shaded by delta, point of control outlined), with per-bar volume delta and cumulative volume delta (CVD) below. " +
+    "Summarizes taker buy vs sell volume and flags price/CVD divergence.",
+    FootprintSchema,
+    async (params) => {
+      try {
+        const symbol = canonicalSymbol(params.symbol, "crypto");
+        const range = parseDateRange(params.start, params.end);
+        if (range.start !== undefined) {
+          const bars = Math.ceil(((range.end ?? Date.now()) - range.start) / TIMEFRAME_MS[params.timeframe]);
+          if (bars > MAX_FOOTPRINT_BARS) {
+            throw new Error(
+              `Date range too large for a ${params.timeframe} footprint: ~${bars} bars (max ${MAX_FOOTPRINT_BARS}). Narrow the range or use a larger timeframe`
+            );
+          }
+        }
+        const candles = await getKlines(symbol, "crypto", params.timeframe, params.limit, range);
+
+        if (candles.length === 0) {
+          return {
+            content: [{ type: "text", text: `No data found for ${symbol}` }],
+            isError: true,
+          };
+        }
+
+        const trades = await getCryptoAggTrades(symbol, { start: candles[0].timestamp, end: range.end }, params.max_trades);
+        const from = coveredFrom(trades);
+        const tickSize = params.tick_size ?? footprintTickSize(candles, params.rows);
+        const bars = buildFootprint(candles, trades.trades, tickSize, from);
+        const delta = calculateVolumeDelta(candles, trades.trades, from);
+        const summary = summarizeOrderFlow(candles, delta);
+
+        if (!summary) {
+          return {
+            content: [{
+              type: "text",
+              text: `${params.max_trades.toLocaleString("en-US")} trades don't cover a whole ${params.timeframe} bar of ${symbol}; raise max_trades or use a shorter timeframe`,
+            }],
+            isError: true,
+          };
+        }
+
+        const firstCovered = delta.findIndex((d) => d !== null);
+        const option = buildFootprintOption({ symbol, timeframe: params.timeframe, bars, delta, tickSize });
+        const summaryText = [
+          `📊 ${symbol} ${params.timeframe} Footprint (${candles.length} bars, ${trades.trades.length.toLocaleString("en-US")} trades, tick ${tickSize})`,
+          ...formatSummary(summary),
+          ...(firstCovered > 0
+            ? [`Trade cap reached: ${firstCovered} oldest bars left blank, covered from ${new Date(candles[firstCovered].timestamp).toISOString()}`]
+            : []),
+          "Source: binance (spot klines, aggTrades)",
+        ].join("\n");
+
+        if (params.format === "image") {
+          const pngBuffer = await renderToPNG(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "image" as const,
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
+          };
+        } else {
+          const html = renderToHTML(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `gainlab://chart/footprint/${symbol}`,
+                  mimeType: "text/html",
+                  text: html,
+                },
+              },
+            ],
+          };
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -1,11 +1,88 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getFundamentals, getCashFlow, getKeyMetrics, getDCF, getAnalystEstimates } from "../data/index.js";
+import {
+  getFundamentals,
+  getCashFlow,
+  getBalanceSheet,
+  getKeyMetrics,
+  getDCF,
+  getAnalystEstimates,
+  getCorporateActions,
+  getKlines,
+  getQuote,
+  getFeatureSupportError,
+  canonicalSymbol,
+  trackSources,
+  formatSources,
+  type DataSource,
+} from "../data/index.js";
+import { getScreenerPeerCandidates, type ScreenerItem } from "../data/screener.js";
+import { analyzeDividends } from "../utils/dividends.js";
+import {
+  capitalCost,
+  centeredRange,
+  defaultStages,
+  discountCashFlows,
+  historicalGrowth,
+  impliedGrowth,
+  sensitivityGrid,
+  withUniformGrowth,
+  type CapitalCost,
+  type DCFInputs,
+  type TerminalValueMethod,
+} from "../utils/dcf.js";
+import {
+  PEER_METRICS,
+  PEER_METRIC_KEYS,
+  comparePeers,
+  formatPeerRelative,
+  formatPeerValue,
+  peerMetricValues,
+  pickPeers,
+  sortPeerRows,
+  type PeerMetric,
+} from "../utils/peers.js";
+import {
+  BAND_MULTIPLES,
+  DEFAULT_REPORT_LAG_DAYS,
+  analyzeValuationBands,
+  fundamentalSteps,
+  type BandMultiple,
+} from "../utils/valuation-bands.js";
 import { buildFundamentalsOption } from "../render/charts/fundamentals.js";
+import { buildDividendsOption } from "../render/charts/dividends.js";
 import { buildDCFGaugeOption } from "../render/charts/dcf-gauge.js";
+import { buildDCFSensitivityOption } from "../render/charts/dcf-sensitivity.js";
+import { buildReverseDCFOption } from "../render/charts/reverse-dcf.js";
 import { buildEstimatesOption } from "../render/charts/analyst-estimates.js";
+import { buildPeersOption } from "../render/charts/peers.js";
+import { buildValuationBandsOption, bandLabel } from "../render/charts/valuation-bands.js";
 import { renderToPNG, renderToHTML } from "../render/engine.js";
-import type { FundamentalData } from "../data/types.js";
+import type { EChartsOption } from "echarts";
+import type { FundamentalData, Market } from "../data/types.js";
+
+// The `dcf` field, shared by the three DCF modes
+const DCFAssumptionsSchema = z.object({
+  growth_stages: z.array(z.object({
+    years: z.number().int().min(1).max(20),
+    growth: z.number().min(-0.5).max(1).describe("Annual FCF growth as a fraction, e.g. 0.08"),
+  })).min(1).max(5).optional().describe(
+    "FCF growth stages in order (default: historical FCF CAGR clamped to 0-15% for 5 years, then halfway to terminal growth for 5 years)"
+  ),
+  wacc: z.number().min(0.01).max(0.3).optional().describe("Discount rate as a fraction; overrides the CAPM inputs"),
+  risk_free_rate: z.number().min(0).max(0.2).optional().describe("CAPM risk-free rate (default 4.5% US, 2% A-shares)"),
+  beta: z.number().min(0).max(5).optional().describe("CAPM beta (default 1.0)"),
+  equity_risk_premium: z.number().min(0).max(0.2).optional().describe("CAPM equity risk premium (default 5% US, 6% A-shares)"),
+  cost_of_debt: z.number().min(0).max(0.3).optional().describe("Pre-tax cost of debt (default: interest expense / total debt)"),
+  tax_rate: z.number().min(0).max(0.6).optional().describe("Tax rate for the debt shield (default 21% US, 25% A-shares)"),
+  terminal_growth: z.number().min(-0.02).max(0.06).optional().describe("Perpetual growth after the forecast (default 2.5%)"),
+  exit_multiple: z.number().positive().max(100).optional().describe("Terminal value as a multiple of final-year FCF; replaces perpetual growth"),
+  net_debt: z.number().optional().describe("Debt minus cash in reporting currency (default: latest balance sheet)"),
+  shares_outstanding: z.number().positive().optional().describe("Share count (default: period-end count on the latest balance sheet where reported (EODHD), else the diluted weighted average)"),
+  base_fcf: z.enum(["latest", "average"]).optional().describe("Starting FCF: latest fiscal year or the average of the last 5 (default latest)"),
+});
+
+type DCFAssumptions = z.infer<typeof DCFAssumptionsSchema>;
 
 const FundamentalsSchema = {
   symbols: z.array(z.string()).min(1).max(5).describe("Stock symbols (1-5 companies for comparison)"),
@@ -21,13 +98,36 @@ const FundamentalsSchema = {
     "roe", "roa", "profit_margin",
     // Health (new)
     "current_ratio", "dividend_yield",
-  ])).default(["revenue"]).describe("Fundamental metrics to display (ignored in dcf mode, determines revenue/eps in estimates mode)"),
+    // Balance Sheet
+    "total_assets", "total_liabilities", "total_equity", "cash", "total_debt", "net_debt",
+    "debt_to_equity", "interest_coverage", "working_capital", "book_value_per_share",
+  ])).default(["revenue"]).describe("Fundamental metrics to display (ignored in the DCF and dividends modes, determines revenue/eps in estimates mode)"),
   period: z.enum(["annual", "quarter"]).default("annual").describe("Reporting period"),
-  years: z.number().min(1).max(10).default(5).describe("Number of years/quarters of historical data"),
+  years: z.number().min(1).max(10).default(5).describe("Number of years/quarters of historical data (dividends mode: years of payouts and yield history; valuation_bands mode: years of daily history)"),
   format: z.enum(["interactive", "image"]).default("interactive").describe("Output format: interactive HTML or PNG image"),
-  mode: z.enum(["standard", "dcf", "estimates"]).default("standard").describe(
-    "Visualization mode: standard=bar charts, dcf=DCF valuation gauge, estimates=analyst forecast chart"
+  mode: z.enum(["standard", "dcf", "dcf_sensitivity", "reverse_dcf", "estimates", "dividends", "peers", "valuation_bands"]).default("standard").describe(
+    "Visualization mode: standard=bar charts, dcf=DCF valuation (free cash flow model) gauge and breakdown, " +
+    "dcf_sensitivity=fair value heatmap over WACC × terminal growth (or exit multiple), " +
+    "reverse_dcf=FCF growth implied by the current price, estimates=analyst forecast chart, " +
+    "dividends=dividend history (payouts per ex-date, annual totals, growth, payout ratio, trailing yield) for the first symbol, " +
+    "peers=percentile radar and table of the first symbol against the rest (or suggested peers), " +
+    "valuation_bands=daily P/E, P/B or EV/EBITDA history with mean ±σ bands and the price at each band for the first symbol"
   ),
+  peer_metrics: z.array(z.enum([
+    "revenue_growth", "gross_margin", "operating_margin", "net_margin", "roe",
+    "debt_to_equity", "pe_ratio", "pb_ratio", "ev_ebitda",
+  ])).min(3).optional().describe("Peers mode: metrics to score (default all; at least 3 for the radar)"),
+  sort_by: z.enum([
+    "score", "revenue_growth", "gross_margin", "operating_margin", "net_margin", "roe",
+    "debt_to_equity", "pe_ratio", "pb_ratio", "ev_ebitda",
+  ]).default("score").describe("Peers mode: table order, best first by overall or one metric's percentile"),
+  suggest_peers: z.number().int().min(0).max(8).default(5).describe(
+    "Peers mode: with a single symbol, add this many peers from the EODHD screener (same industry, then sector, nearest market cap)"
+  ),
+  band_multiple: z.enum(["pe", "pb", "ev_ebitda"]).default("pe").describe(
+    "Valuation bands mode: multiple from daily closes and trailing quarterly statements (TTM net income, book value or TTM EBITDA)"
+  ),
+  dcf: DCFAssumptionsSchema.optional().describe("Assumptions for the dcf, dcf_sensitivity and reverse_dcf modes; anything left out is derived from the statements or defaulted"),
 };
 
 // Metric categories for smart data fetching
@@ -40,89 +140,664 @@ const CASH_FLOW_METRICS = new Set([
 const KEY_METRICS = new Set([
   "pe_ratio", "pb_ratio", "ev_ebitda", "roe", "roa", "profit_margin", "current_ratio", "dividend_yield"
 ]);
+const BALANCE_SHEET_METRICS = new Set([
+  "total_assets", "total_liabilities", "total_equity", "cash", "total_debt", "net_debt",
+  "debt_to_equity", "interest_coverage", "working_capital", "book_value_per_share"
+]);
+// Balance sheet ratios that also need the income statement (operating
+// income / interest expense, share count when the balance sheet has none)
+const CROSS_STATEMENT_METRICS = new Set(["interest_coverage", "book_value_per_share"]);
 
 // Available metrics mapping (all supported metrics)
 const AVAILABLE_METRICS = new Set([
   ...INCOME_METRICS,
   ...CASH_FLOW_METRICS,
   ...KEY_METRICS,
+  ...BALANCE_SHEET_METRICS,
 ]);
 
-// DCF mode handler
+/** Fill ratios that combine one period's income statement and balance sheet */
+function fillCrossStatementMetrics(metrics: Record<string, number | null>): void {
+  const { operatingIncome, interestExpense, totalEquity } = metrics;
+  if (metrics.interestCoverage == null && operatingIncome != null && interestExpense) {
+    // Providers disagree on the sign of interest expense
+    metrics.interestCoverage = operatingIncome / Math.abs(interestExpense);
+  }
+  const shares = metrics.sharesOutstanding ?? metrics.weightedAverageShares;
+  if (metrics.bookValuePerShare == null && totalEquity != null && shares) {
+    metrics.bookValuePerShare = totalEquity / shares;
+  }
+}
+
+// CAPM and tax defaults per market when the request doesn't set them
+const DCF_MARKET_DEFAULTS: Record<string, { riskFreeRate: number; equityRiskPremium: number; taxRate: number }> = {
+  us_stock: { riskFreeRate: 0.045, equityRiskPremium: 0.05, taxRate: 0.21 },
+  a_stock: { riskFreeRate: 0.02, equityRiskPremium: 0.06, taxRate: 0.25 },
+};
+const DEFAULT_BETA = 1;
+const DEFAULT_TERMINAL_GROWTH = 0.025;
+// Fiscal years of free cash flow behind the base and the default growth
+const DCF_HISTORY_YEARS = 5;
+// Sensitivity grid: 5 × 5 around the base case
+const SENSITIVITY_SIZE = 5;
+const SENSITIVITY_RATE_STEP = 0.01;
+const SENSITIVITY_GROWTH_STEP = 0.005;
+const SENSITIVITY_MULTIPLE_STEP = 2;
+// Reverse DCF value curve, growth from −10% to +30%
+const REVERSE_CURVE_GROWTH = Array.from({ length: 41 }, (_, i) => (i - 10) / 100);
+
+function formatMoney(n: number, currency: string): string {
+  const sign = n < 0 ? "-" : "";
+  const abs = Math.abs(n);
+  if (abs >= 1e12) return `${sign}${currency}${(abs / 1e12).toFixed(2)}T`;
+  if (abs >= 1e9) return `${sign}${currency}${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}${currency}${(abs / 1e6).toFixed(1)}M`;
+  return `${sign}${currency}${abs.toFixed(0)}`;
+}
+
+const pct = (fraction: number, digits = 1) => `${(fraction * 100).toFixed(digits)}%`;
+
+// Currency each market's shares trade in; statements in another one can't be
+// set against the price without an exchange rate
+const MARKET_CURRENCY: Record<string, { code: string; symbol: string }> = {
+  us_stock: { code: "USD", symbol: "$" },
+  a_stock: { code: "CNY", symbol: "¥" },
+};
+
+/** The statements' reporting currency when it isn't the trading currency (TSM files in TWD), else null */
+function foreignReportingCurrency(market: Market, ...statements: FundamentalData[][]): string | null {
+  const trading = MARKET_CURRENCY[market].code;
+  return statements.flat().find((s) => s.currency && s.currency.toUpperCase() !== trading)?.currency ?? null;
+}
+
+const currencyMismatch = (symbol: string, market: Market, reported: string) =>
+  `${symbol} reports in ${reported} but trades in ${MARKET_CURRENCY[market].code}; ` +
+  "per-share values and multiples would be off by the exchange rate";
+
+const dcfError = (text: string) => ({
+  content: [{ type: "text" as const, text: `Error: ${text}` }],
+  isError: true,
+});
+
+/** Everything the DCF modes share: resolved inputs plus what's needed to explain them */
+interface DCFModel {
+  inputs: DCFInputs;
+  price: number;
+  currency: string;
+  baseMethod: "latest" | "average";
+  latestPeriod: string;
+  fcfYears: number;                 // fiscal years of FCF history behind the base and growth
+  historical: number | null;        // FCF CAGR over that history
+  customStages: boolean;
+  capital: CapitalCost | null;      // null when `wacc` was given
+  netDebt: number | null;           // null when unavailable (treated as 0)
+  reference: number | null;         // provider's own DCF, if it has one
+  sources: DataSource[];
+}
+
+/** Fetch statements and price, then fill every assumption the request left out */
+async function loadDCFModel(symbol: string, market: Market, assumptions: DCFAssumptions): Promise<DCFModel> {
+  const { result: { cashFlow, balance, income, quote, reference }, sources } = await trackSources(async () => {
+    const [cashFlow, balance, income, quote] = await Promise.all([
+      getCashFlow(symbol, market, "annual", DCF_HISTORY_YEARS),
+      // Net debt, shares and cost of debt all have overrides; don't fail over them
+      getBalanceSheet(symbol, market, "annual", 1).catch(() => []),
+      getFundamentals(symbol, market, "annual", 1).catch(() => []),
+      getQuote(symbol, market),
+    ] as const);
+    // The provider's own DCF, where there is one, as a cross-check
+    const reference = getFeatureSupportError(market, "dcf") === null
+      ? await getDCF(symbol, market).catch(() => null)
+      : null;
+    return { cashFlow, balance, income, quote, reference };
+  });
+
+  const reported = foreignReportingCurrency(market, cashFlow, balance, income);
+  if (reported) {
+    throw new Error(currencyMismatch(symbol, market, reported));
+  }
+  const currency = MARKET_CURRENCY[market].symbol;
+  const defaults = DCF_MARKET_DEFAULTS[market];
+
+  // Oldest first
+  const fcfHistory = cashFlow
+    .filter((p) => p.metrics.freeCashFlow != null)
+    .map((p) => ({ period: p.period, fcf: p.metrics.freeCashFlow! }))
+    .reverse();
+  if (fcfHistory.length === 0) {
+    throw new Error(`No free cash flow history for ${symbol}`);
+  }
+  const latest = fcfHistory[fcfHistory.length - 1];
+  const baseMethod = assumptions.base_fcf ?? "latest";
+  const baseFcf = baseMethod === "average"
+    ? fcfHistory.reduce((sum, p) => sum + p.fcf, 0) / fcfHistory.length
+    : latest.fcf;
+  if (baseFcf <= 0) {
+    throw new Error(
+      `${symbol} base free cash flow is ${formatMoney(baseFcf, currency)} (${baseMethod}); a DCF needs positive cash flow to project` +
+      (baseMethod === "latest" ? ' — try dcf.base_fcf "average"' : "")
+    );
+  }
+
+  const sheet = balance[0]?.metrics ?? {};
+  const statement = income[0]?.metrics ?? {};
+  // EODHD balance sheets carry the period-end count; FMP's don't, so FMP
+  // filers use the income statement's diluted weighted average
+  const shares = assumptions.shares_outstanding
+    ?? sheet.sharesOutstanding ?? statement.weightedAverageSharesDiluted ?? statement.weightedAverageShares;
+  if (!shares) {
+    throw new Error(`Share count unavailable for ${symbol}; pass dcf.shares_outstanding`);
+  }
+  const netDebt: number | null = assumptions.net_debt ?? sheet.netDebt ?? null;
+  const totalDebt = sheet.totalDebt ?? 0;
+
+  // Interest paid over debt carried, when both are on the latest statements
+  const impliedCostOfDebt = statement.interestExpense && totalDebt > 0
+    ? Math.abs(statement.interestExpense) / totalDebt
+    : undefined;
+  const capital = assumptions.wacc === undefined
+    ? capitalCost({
+        riskFreeRate: assumptions.risk_free_rate ?? defaults.riskFreeRate,
+        beta: assumptions.beta ?? DEFAULT_BETA,
+        equityRiskPremium: assumptions.equity_risk_premium ?? defaults.equityRiskPremium,
+        costOfDebt: assumptions.cost_of_debt ?? impliedCostOfDebt,
+        taxRate: assumptions.tax_rate ?? defaults.taxRate,
+        equityValue: quote.price * shares,
+        debtValue: totalDebt,
+      })
+    : null;
+
+  const terminalGrowth: number = assumptions.terminal_growth ?? DEFAULT_TERMINAL_GROWTH;
+  const historical = historicalGrowth(fcfHistory.map((p) => p.fcf));
+  const terminal: TerminalValueMethod = assumptions.exit_multiple !== undefined
+    ? { method: "multiple", multiple: assumptions.exit_multiple }
+    : { method: "growth", growth: terminalGrowth };
+
+  return {
+    inputs: {
+      baseFcf,
+      stages: assumptions.growth_stages ?? defaultStages(historical, terminalGrowth),
+      discountRate: assumptions.wacc ?? capital!.wacc,
+      terminal,
+      netDebt: netDebt ?? 0,
+      sharesOutstanding: shares,
+    },
+    price: quote.price,
+    currency,
+    baseMethod,
+    latestPeriod: latest.period,
+    fcfYears: fcfHistory.length,
+    historical,
+    customStages: assumptions.growth_stages !== undefined,
+    capital,
+    netDebt,
+    reference: reference?.dcf ?? null,
+    sources,
+  };
+}
+
+/** "Assumptions: base FCF … | growth … | WACC … | terminal …" */
+function describeAssumptions(model: DCFModel): string {
+  const { inputs, capital, currency } = model;
+  const growthText = inputs.stages.map((s) => `${pct(s.growth)} × ${s.years}y`).join(" → ") +
+    (model.customStages ? "" : ` (default; ${model.fcfYears - 1}y FCF CAGR ${model.historical === null ? "n/a" : pct(model.historical)})`);
+  const rateText = capital
+    ? `WACC ${pct(inputs.discountRate)} (CAPM ${pct(capital.costOfEquity)}` +
+      (capital.afterTaxCostOfDebt !== null ? `; debt ${pct(capital.debtWeight)} at ${pct(capital.afterTaxCostOfDebt)} after tax` : "") + ")"
+    : `WACC ${pct(inputs.discountRate)}`;
+  const terminalText = inputs.terminal.method === "growth"
+    ? `terminal growth ${pct(inputs.terminal.growth)}`
+    : `exit multiple ${inputs.terminal.multiple}× FCF`;
+  const baseText = model.baseMethod === "average" ? `${model.fcfYears}y average` : model.latestPeriod;
+  return `Assumptions: base FCF ${formatMoney(inputs.baseFcf, currency)} (${baseText}) | growth ${growthText} | ${rateText} | ${terminalText}`;
+}
+
+/** Text plus the chart as an image or an interactive resource */
+async function chartResponse(option: EChartsOption, summaryText: string, uri: string, format: string): Promise<any> {
+  if (format === "image") {
+    const pngBuffer = await renderToPNG(option);
+    return {
+      content: [
+        { type: "text" as const, text: summaryText },
+        {
+          type: "image" as const,
+          data: pngBuffer.toString("base64"),
+          mimeType: "image/png",
+        },
+      ],
+    };
+  }
+  const html = renderToHTML(option);
+  return {
+    content: [
+      { type: "text" as const, text: `📊 ${summaryText}` },
+      {
+        type: "resource" as const,
+        resource: { uri, mimeType: "text/html", text: html },
+      },
+    ],
+  };
+}
+
+// DCF mode handler — in-house model on the statements, so it works wherever fundamentals do
 async function handleDCFMode(params: any): Promise<any> {
   const symbol = params.symbols[0];
   const market = params.market;
-  
-  if (market !== "us_stock") {
+
+  const unsupported = getFeatureSupportError(market, "fundamentals");
+  if (unsupported) {
+    return dcfError(unsupported);
+  }
+
+  try {
+    const model = await loadDCFModel(symbol, market, params.dcf ?? {});
+    const { inputs, price, currency, netDebt } = model;
+    const valuation = discountCashFlows(inputs);
+    if (valuation.perShare <= 0) {
+      return dcfError(
+        `${symbol} equity value is ${formatMoney(valuation.equityValue, currency)} ` +
+        `(EV ${formatMoney(valuation.enterpriseValue, currency)} less net debt ${formatMoney(inputs.netDebt, currency)}); nothing left per share`
+      );
+    }
+
+    const option = buildDCFGaugeOption({
+      symbol,
+      dcfValue: valuation.perShare,
+      stockPrice: price,
+      currency,
+      breakdown: valuation,
+    });
+
+    const marginOfSafety = ((valuation.perShare - price) / valuation.perShare) * 100;
+    const isUndervalued = marginOfSafety > 0;
+    const summaryText = [
+      `${symbol} DCF Analysis — Intrinsic Value: ${currency}${valuation.perShare.toFixed(2)} | Stock Price: ${currency}${price.toFixed(2)} | ` +
+        `${isUndervalued ? "Discount" : "Premium"}: ${Math.abs(marginOfSafety).toFixed(1)}% (${isUndervalued ? "undervalued" : "overvalued"})`,
+      describeAssumptions(model),
+      `Value: PV of FCF ${formatMoney(valuation.pvForecast, currency)} + PV of terminal ${formatMoney(valuation.pvTerminal, currency)} ` +
+        `(${pct(valuation.terminalShare, 0)} of EV) = EV ${formatMoney(valuation.enterpriseValue, currency)} ` +
+        (netDebt === null
+          ? "− net debt unavailable (assumed 0) = "
+          : netDebt < 0
+            ? `+ net cash ${formatMoney(-netDebt, currency)} = `
+            : `− net debt ${formatMoney(netDebt, currency)} = `) +
+        `equity ${formatMoney(valuation.equityValue, currency)} ÷ ${formatMoney(inputs.sharesOutstanding, "")} shares`,
+      `Discounted FCF: ${valuation.projections.map((p) => `Y${p.year} ${formatMoney(p.presentValue, currency)}`).join(", ")}`,
+      ...(model.reference !== null ? [`Provider DCF for reference: ${currency}${model.reference.toFixed(2)}`] : []),
+      `Source: ${formatSources(model.sources)}`,
+    ].join("\n");
+
+    return await chartResponse(option, summaryText, `gainlab://chart/dcf/${symbol}`, params.format);
+  } catch (error: any) {
+    return dcfError(error.message);
+  }
+}
+
+// DCF sensitivity handler — per-share value over WACC × terminal growth (or exit multiple)
+async function handleDCFSensitivityMode(params: any): Promise<any> {
+  const symbol = params.symbols[0];
+  const market = params.market;
+
+  const unsupported = getFeatureSupportError(market, "fundamentals");
+  if (unsupported) {
+    return dcfError(unsupported);
+  }
+
+  try {
+    const model = await loadDCFModel(symbol, market, params.dcf ?? {});
+    const { inputs, price, currency } = model;
+    const base = inputs.terminal.method === "growth" ? inputs.terminal.growth : inputs.terminal.multiple;
+    const grid = sensitivityGrid(
+      inputs,
+      centeredRange(inputs.discountRate, SENSITIVITY_RATE_STEP, SENSITIVITY_SIZE).filter((r) => r > 0),
+      inputs.terminal.method === "growth"
+        ? centeredRange(base, SENSITIVITY_GROWTH_STEP, SENSITIVITY_SIZE)
+        : centeredRange(base, SENSITIVITY_MULTIPLE_STEP, SENSITIVITY_SIZE).filter((m) => m > 0),
+    );
+
+    const option = buildDCFSensitivityOption({
+      symbol,
+      grid,
+      terminalMethod: inputs.terminal.method,
+      price,
+      currency,
+      baseDiscountRate: inputs.discountRate,
+      baseTerminalValue: base,
+    });
+
+    const values = grid.perShare.flat().filter((v): v is number => v !== null);
+    const baseValue = discountCashFlows(inputs).perShare;
+    const axisText = (values: number[], format: (v: number) => string) =>
+      `${format(values[0])}–${format(values[values.length - 1])}`;
+    const summaryText = [
+      `${symbol} DCF Sensitivity — base ${currency}${baseValue.toFixed(2)} vs price ${currency}${price.toFixed(2)}; ` +
+        `range ${currency}${Math.min(...values).toFixed(2)}–${currency}${Math.max(...values).toFixed(2)} across ` +
+        `WACC ${axisText(grid.discountRates, (v) => pct(v))} × ` +
+        (inputs.terminal.method === "growth"
+          ? `terminal growth ${axisText(grid.terminalValues, (v) => pct(v))}`
+          : `exit multiple ${axisText(grid.terminalValues, (v) => `${v}×`)}`),
+      `${values.filter((v) => v > price).length} of ${values.length} cases above the current price`,
+      describeAssumptions(model),
+      `Source: ${formatSources(model.sources)}`,
+    ].join("\n");
+
+    return await chartResponse(option, summaryText, `gainlab://chart/dcf-sensitivity/${symbol}`, params.format);
+  } catch (error: any) {
+    return dcfError(error.message);
+  }
+}
+
+// Reverse DCF handler — the FCF growth the current price implies
+async function handleReverseDCFMode(params: any): Promise<any> {
+  const symbol = params.symbols[0];
+  const market = params.market;
+
+  const unsupported = getFeatureSupportError(market, "fundamentals");
+  if (unsupported) {
+    return dcfError(unsupported);
+  }
+
+  try {
+    const model = await loadDCFModel(symbol, market, params.dcf ?? {});
+    const { inputs, price, currency } = model;
+    // Same horizon as the forward model, one growth rate throughout
+    const years = inputs.stages.reduce((sum, s) => sum + s.years, 0);
+    const implied = impliedGrowth(inputs, price, years);
+    const curve = REVERSE_CURVE_GROWTH.map((growth) => ({
+      growth,
+      perShare: discountCashFlows(withUniformGrowth(inputs, growth, years)).perShare,
+    }));
+    // Forward model's stages as one equivalent rate, for comparison
+    const modelGrowth = inputs.stages.reduce((product, s) => product * (1 + s.growth) ** s.years, 1) ** (1 / years) - 1;
+
+    const option = buildReverseDCFOption({
+      symbol,
+      curve,
+      price,
+      impliedGrowth: implied,
+      historicalGrowth: model.historical,
+      years,
+      currency,
+    });
+
+    const impliedText = implied !== null
+      ? `${currency}${price.toFixed(2)} implies ${pct(implied)} annual FCF growth for ${years} years`
+      : `${currency}${price.toFixed(2)} is outside what −50% to +100% annual FCF growth for ${years} years can justify`;
+    const summaryText = [
+      `${symbol} Reverse DCF — ${impliedText}`,
+      `Compare: ${model.fcfYears - 1}y historical FCF CAGR ${model.historical === null ? "n/a" : pct(model.historical)} | ` +
+        `model stages ≈ ${pct(modelGrowth)} a year`,
+      describeAssumptions(model),
+      `Source: ${formatSources(model.sources)}`,
+    ].join("\n");
+
+    return await chartResponse(option, summaryText, `gainlab://chart/reverse-dcf/${symbol}`, params.format);
+  } catch (error: any) {
+    return dcfError(error.message);
+  }
+}
+
+const YEAR_MS = 365 * 86_400_000;
+
+// Dividends mode handler
+async function handleDividendsMode(params: any): Promise<any> {
+  const symbol = params.symbols[0];
+  const market = params.market;
+
+  try {
+    const now = Date.now();
+    const from = now - params.years * YEAR_MS;
+    const { result: [actions, candles, cashFlow], sources } = await trackSources(async () => Promise.all([
+      getCorporateActions(symbol, market),
+      // Split-adjusted to match the split-adjusted payouts
+      getKlines(symbol, market, "1d", 0, { start: from, adjustment: "split" }),
+      // Payout ratio is a nice-to-have; don't fail the chart over it
+      getCashFlow(symbol, market, "annual", params.years).catch(() => []),
+    ] as const));
+
+    // Growth uses the whole record; the chart shows the requested window
+    const full = analyzeDividends(actions, candles, cashFlow, now);
+    if (full.payments.length === 0) {
+      return {
+        content: [{ type: "text" as const, text: `No dividends on record for ${symbol}` }],
+      };
+    }
+    const fromYear = new Date(from).getUTCFullYear();
+    const analysis = {
+      ...full,
+      payments: full.payments.filter((p) => p.date >= from),
+      annual: full.annual.filter((a) => a.year >= fromYear),
+    };
+
+    const currency = MARKET_CURRENCY[market].symbol;
+    const option = buildDividendsOption({ symbol, analysis, currency });
+
+    const payout = [...analysis.annual].reverse().find((a) => a.payoutRatio !== null);
+    const recent = full.payments.slice(-4).reverse()
+      .map((p) => `${new Date(p.date).toISOString().slice(0, 10)} ${currency}${p.amount.toFixed(4).replace(/0+$/, "").replace(/\.$/, "")}`);
+    const summaryText = [
+      `${symbol} Dividends — TTM ${currency}${full.ttmDividend.toFixed(2)}/share (${full.paymentsPerYear} payments)` +
+        (full.currentYield !== null ? `, yield ${pct(full.currentYield, 2)}` : ""),
+      ...(full.growth.length > 0 ? [`Growth: ${full.growth.map((g) => `${g.years}y CAGR ${pct(g.cagr)}`).join(" | ")}`] : []),
+      ...(payout ? [`Payout ratio ${payout.year}: ${pct(payout.payoutRatio!, 0)} of net income`] : []),
+      `Recent ex-dates: ${recent.join(", ")} (split-adjusted)`,
+      `Source: ${formatSources(sources)}`,
+    ].join("\n");
+
+    return await chartResponse(option, summaryText, `gainlab://chart/dividends/${symbol}`, params.format);
+  } catch (error: any) {
     return {
-      content: [{
-        type: "text" as const,
-        text: "Error: DCF mode is only available for US stocks",
-      }],
+      content: [{ type: "text" as const, text: `Error: ${error.message}` }],
       isError: true,
     };
   }
-  
+}
+
+// Peers mode handler — percentile scores vs peers (given, or suggested from the screener)
+async function handlePeersMode(params: any): Promise<any> {
+  const market: Market = params.market;
+
+  const unsupported = getFeatureSupportError(market, "fundamentals");
+  if (unsupported) {
+    return {
+      content: [{ type: "text" as const, text: `Error: ${unsupported}` }],
+      isError: true,
+    };
+  }
+
   try {
-    // Fetch DCF data
-    const dcfData = await getDCF(symbol, market);
-    
-    // Try to fetch analyst target (optional — from nearest year estimate)
-    let analystTarget: number | undefined;
-    try {
-      const estimates = await getAnalystEstimates(symbol, market, "annual", 1);
-      if (estimates.length > 0 && estimates[0].metrics.epsAvg) {
-        // Use EPS estimate × current P/E as rough target
-        // Or just show the EPS estimate in the summary text
-        analystTarget = undefined; // No direct price target from this endpoint
+    const subject = canonicalSymbol(params.symbols[0], market);
+    const metrics: PeerMetric[] = params.peer_metrics ?? PEER_METRIC_KEYS;
+    let symbols: string[] = [...new Set(params.symbols.map((s: string) => canonicalSymbol(s, market)))] as string[];
+
+    // A lone symbol gets peers from its screener industry/sector
+    let suggestedFrom: ScreenerItem | null = null;
+    if (symbols.length === 1 && params.suggest_peers > 0) {
+      const [code, suffix] = subject.split(".");
+      const exchange = market === "a_stock" ? suffix : "us";
+      try {
+        const { company, candidates } = await getScreenerPeerCandidates(code, exchange);
+        suggestedFrom = company;
+        symbols = [subject, ...pickPeers(company, candidates, params.suggest_peers).map((p) => canonicalSymbol(p.code, market))];
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error: Could not suggest peers for ${subject} (${error.message}). Pass peers in symbols instead.`,
+          }],
+          isError: true,
+        };
       }
-    } catch {
-      analystTarget = undefined;
     }
-    
-    // Build DCF gauge chart
-    const option = buildDCFGaugeOption({
-      symbol: dcfData.symbol,
-      dcfValue: dcfData.dcf,
-      stockPrice: dcfData.stockPrice,
-      analystTarget,
-    });
-    
-    // Calculate margin of safety
-    const marginOfSafety = ((dcfData.dcf - dcfData.stockPrice) / dcfData.dcf) * 100;
-    const isUndervalued = marginOfSafety > 0;
-    
-    const summaryText = `${symbol} DCF Analysis — Intrinsic Value: $${dcfData.dcf.toFixed(2)} | Stock Price: $${dcfData.stockPrice.toFixed(2)} | ${isUndervalued ? "Discount" : "Premium"}: ${Math.abs(marginOfSafety).toFixed(1)}% (${isUndervalued ? "undervalued" : "overvalued"})`;
-    
-    // Render
-    if (params.format === "image") {
-      const pngBuffer = await renderToPNG(option);
+    if (symbols.length < 2) {
       return {
-        content: [
-          { type: "text" as const, text: summaryText },
-          {
-            type: "image" as const,
-            data: pngBuffer.toString("base64"),
-            mimeType: "image/png",
-          },
-        ],
+        content: [{ type: "text" as const, text: `Error: No peers found for ${subject}; pass peers in symbols` }],
+        isError: true,
       };
-    } else {
-      const html = renderToHTML(option);
+    }
+
+    const fetchCompany = async (symbol: string) => {
+      try {
+        const [income, keyMetrics, balance] = await Promise.all([
+          getFundamentals(symbol, market, "annual", 2),
+          // Ratios and the balance sheet fill in what they can
+          getKeyMetrics(symbol, market, "annual", 1).catch(() => []),
+          getBalanceSheet(symbol, market, "annual", 1).catch(() => []),
+        ]);
+        const values = peerMetricValues(income, keyMetrics[0], balance[0]);
+        // Provider multiples divide the quoted price by statements in another currency
+        const reported = foreignReportingCurrency(market, income, balance);
+        if (reported) {
+          values.pe_ratio = values.pb_ratio = values.ev_ebitda = null;
+        }
+        return { symbol, values, reported };
+      } catch (error: any) {
+        console.error(`Failed to fetch fundamentals for ${symbol}:`, error.message);
+        return null;
+      }
+    };
+    const { result, sources } = await trackSources(() => Promise.all(symbols.map(fetchCompany)));
+    const companies = result.filter((c): c is NonNullable<typeof c> => c !== null);
+    const missing = symbols.filter((s) => !companies.some((c) => c.symbol === s));
+    const foreign = companies.filter((c) => c.reported !== null);
+    if (missing.includes(subject)) {
       return {
-        content: [
-          { type: "text" as const, text: `📊 ${summaryText}` },
-          {
-            type: "resource" as const,
-            resource: {
-              uri: `gainlab://chart/dcf/${symbol}`,
-              mimeType: "text/html",
-              text: html,
-            },
-          },
-        ],
+        content: [{ type: "text" as const, text: `Error: No fundamental data found for ${subject} on ${market}` }],
+        isError: true,
       };
     }
+    if (companies.length < 2) {
+      return {
+        content: [{ type: "text" as const, text: `Error: No fundamental data found for any peer of ${subject} (${missing.join(", ")})` }],
+        isError: true,
+      };
+    }
+
+    const comparison = comparePeers(subject, companies, metrics);
+    const rows = sortPeerRows(comparison.rows, params.sort_by);
+    const option = buildPeersOption({ comparison, rows });
+
+    const own = comparison.rows[0];
+    const rank = sortPeerRows(comparison.rows, "score").findIndex((r) => r.symbol === subject) + 1;
+    const label = (m: PeerMetric) => PEER_METRICS[m].label;
+    const relative = (m: PeerMetric) =>
+      comparison.relative[m] == null ? null : `${label(m)} ${formatPeerRelative(m, comparison.relative[m])}`;
+    const strengths = metrics.filter((m) => (own.scores[m] ?? -1) >= 75).map(label);
+    const weaknesses = metrics.filter((m) => own.scores[m] != null && own.scores[m]! <= 25).map(label);
+    const cells = (values: (string | number)[]) => `| ${values.join(" | ")} |`;
+    const table = [
+      cells(["Symbol", "Score", ...metrics.map(label)]),
+      cells(["---", "---:", ...metrics.map(() => "---:")]),
+      ...rows.map((r) => cells([
+        r.symbol === subject ? `**${r.symbol}**` : r.symbol,
+        r.score === null ? "—" : r.score.toFixed(0),
+        ...metrics.map((m) => formatPeerValue(m, r.values[m])),
+      ])),
+      cells(["Peer median", "", ...metrics.map((m) => formatPeerValue(m, comparison.median[m]))]),
+      cells([`${subject} vs median`, "", ...metrics.map((m) => formatPeerRelative(m, comparison.relative[m]))]),
+    ];
+
+    const summaryText = [
+      `${subject} vs ${companies.length - 1} peers — overall score ${own.score === null ? "n/a" : own.score.toFixed(0)}/100, rank ${rank} of ${companies.length}`,
+      ...(suggestedFrom
+        ? [`Peers: same industry (${suggestedFrom.industry}) then sector (${suggestedFrom.sector}), nearest market cap, from the EODHD screener`]
+        : []),
+      `Valuation vs peer median: ${(["pe_ratio", "pb_ratio", "ev_ebitda"] as PeerMetric[]).filter((m) => metrics.includes(m)).map(relative).filter(Boolean).join(", ") || "n/a"}`,
+      ...(strengths.length ? [`Top quartile: ${strengths.join(", ")}`] : []),
+      ...(weaknesses.length ? [`Bottom quartile: ${weaknesses.join(", ")}`] : []),
+      ...(missing.length ? [`⚠️ No data for ${missing.join(", ")}`] : []),
+      ...(foreign.length
+        ? [`⚠️ Multiples left out for ${foreign.map((c) => `${c.symbol} (reports in ${c.reported})`).join(", ")}: statements aren't in ${MARKET_CURRENCY[market].code}`]
+        : []),
+      "",
+      ...table,
+      "",
+      `Sorted by ${params.sort_by === "score" ? "overall score" : `${label(params.sort_by)} score`}; scores are percentiles within the group (lower is better for leverage and multiples)`,
+      `Source: ${formatSources(sources)}`,
+    ].join("\n");
+
+    return await chartResponse(option, summaryText, `gainlab://chart/peers/${subject}`, params.format);
+  } catch (error: any) {
+    return {
+      content: [{ type: "text" as const, text: `Error: ${error.message}` }],
+      isError: true,
+    };
+  }
+}
+
+// Valuation bands mode handler — a multiple against its own history
+async function handleValuationBandsMode(params: any): Promise<any> {
+  const symbol = params.symbols[0];
+  const market: Market = params.market;
+  const multiple: BandMultiple = params.band_multiple;
+  const { label, denominator } = BAND_MULTIPLES[multiple];
+
+  const unsupported = getFeatureSupportError(market, "fundamentals");
+  if (unsupported) {
+    return {
+      content: [{ type: "text" as const, text: `Error: ${unsupported}` }],
+      isError: true,
+    };
+  }
+
+  try {
+    const from = Date.now() - params.years * YEAR_MS;
+    // A trailing year plus the report lag before the first close
+    const quarters = params.years * 4 + 6;
+    const { result: [income, balance, candles, actions], sources } = await trackSources(async () => Promise.all([
+      getFundamentals(symbol, market, "quarter", quarters),
+      getBalanceSheet(symbol, market, "quarter", quarters).catch(() => []),
+      // Raw closes against as-reported share counts; splits are handled in the bands
+      getKlines(symbol, market, "1d", 0, { start: from }),
+      getCorporateActions(symbol, market).catch(() => []),
+    ] as const));
+
+    const reported = foreignReportingCurrency(market, income, balance);
+    if (reported) {
+      return {
+        content: [{ type: "text" as const, text: `Error: ${currencyMismatch(symbol, market, reported)}` }],
+        isError: true,
+      };
+    }
+
+    const bands = analyzeValuationBands(candles, fundamentalSteps(income, balance, multiple), actions, multiple);
+    if (bands.mean === null || bands.std === null || bands.current === null) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Error: No ${label} history for ${symbol}: needs positive ${denominator}` +
+            (multiple === "ev_ebitda" ? ", a positive enterprise value" : "") +
+            " and share counts in the quarterly statements",
+        }],
+        isError: true,
+      };
+    }
+
+    const currency = MARKET_CURRENCY[market].symbol;
+    const option = buildValuationBandsOption({ symbol, bands, years: params.years, currency });
+
+    const last = bands.points[bands.points.length - 1];
+    const levelsText = bands.levels.map((l, i) => {
+      const price = last.bandPrices[i];
+      return `${bandLabel(l.sigma)} ${l.value.toFixed(1)}×` + (price !== null ? ` (${currency}${price.toFixed(2)})` : "");
+    });
+    const meanPrice = last.bandPrices[bands.levels.findIndex((l) => l.sigma === 0)];
+    const summaryText = [
+      `${symbol} ${label} Bands — ${params.years}y of daily closes, ${label} on ${denominator}`,
+      `Current ${bands.current.toFixed(1)}× vs mean ${bands.mean.toFixed(1)}× (σ ${bands.std.toFixed(1)}×): ` +
+        `${bands.zScore! >= 0 ? "+" : ""}${bands.zScore!.toFixed(1)}σ, at or above ${(bands.percentile! * 100).toFixed(0)}% of its own history`,
+      `Price at band today: ${levelsText.join(" | ")}`,
+      ...(meanPrice != null
+        ? [`Close ${currency}${last.close.toFixed(2)} is ${last.close >= meanPrice ? "+" : ""}${pct(last.close / meanPrice - 1)} vs the price at the mean multiple`]
+        : []),
+      ...(bands.coverage < 0.9
+        ? [`⚠️ ${label} only defined on ${(bands.coverage * 100).toFixed(0)}% of closes (losses, negative ${denominator.replace("TTM ", "")} or missing quarters)`]
+        : []),
+      `Statements count from ${DEFAULT_REPORT_LAG_DAYS} days after quarter end; prices split-adjusted`,
+      `Source: ${formatSources(sources)}`,
+    ].join("\n");
+
+    return await chartResponse(option, summaryText, `gainlab://chart/valuation-bands/${symbol}`, params.format);
   } catch (error: any) {
     return {
       content: [{ type: "text" as const, text: `Error: ${error.message}` }],
@@ -136,11 +811,12 @@ async function handleEstimatesMode(params: any): Promise<any> {
   const symbol = params.symbols[0];
   const market = params.market;
   
-  if (market !== "us_stock") {
+  const unsupported = getFeatureSupportError(market, "estimates");
+  if (unsupported) {
     return {
       content: [{
         type: "text" as const,
-        text: "Error: Analyst estimates are only available for US stocks",
+        text: `Error: ${unsupported}`,
       }],
       isError: true,
     };
@@ -150,11 +826,12 @@ async function handleEstimatesMode(params: any): Promise<any> {
     // Determine which metric to show (default to revenue)
     const metric = params.metrics.includes("eps") ? "eps" : "revenue";
     
-    // Fetch historical actuals
-    const actuals = await getFundamentals(symbol, market, params.period, params.years);
-    
-    // Fetch forward estimates
-    const estimates = await getAnalystEstimates(symbol, market, params.period, 3);
+    const { result: [actuals, estimates], sources } = await trackSources(async () => [
+      // Historical actuals
+      await getFundamentals(symbol, market, params.period, params.years),
+      // Forward estimates
+      await getAnalystEstimates(symbol, market, params.period, 3),
+    ] as const);
     
     // Build estimates chart
     const option = buildEstimatesOption({
@@ -165,37 +842,9 @@ async function handleEstimatesMode(params: any): Promise<any> {
     });
     
     const metricLabel = metric === "revenue" ? "Revenue" : "EPS";
-    const summaryText = `${symbol} ${metricLabel} — ${actuals.length} periods actual, ${estimates.length} periods estimated`;
+    const summaryText = `${symbol} ${metricLabel} — ${actuals.length} periods actual, ${estimates.length} periods estimated\nSource: ${formatSources(sources)}`;
     
-    // Render
-    if (params.format === "image") {
-      const pngBuffer = await renderToPNG(option);
-      return {
-        content: [
-          { type: "text" as const, text: summaryText },
-          {
-            type: "image" as const,
-            data: pngBuffer.toString("base64"),
-            mimeType: "image/png",
-          },
-        ],
-      };
-    } else {
-      const html = renderToHTML(option);
-      return {
-        content: [
-          { type: "text" as const, text: `📊 ${summaryText}` },
-          {
-            type: "resource" as const,
-            resource: {
-              uri: `gainlab://chart/estimates/${symbol}`,
-              mimeType: "text/html",
-              text: html,
-            },
-          },
-        ],
-      };
-    }
+    return await chartResponse(option, summaryText, `gainlab://chart/estimates/${symbol}`, params.format);
   } catch (error: any) {
     return {
       content: [{ type: "text" as const, text: `Error: ${error.message}` }],
@@ -207,23 +856,34 @@ async function handleEstimatesMode(params: any): Promise<any> {
 export function registerFundamentalsTool(server: McpServer) {
   server.tool(
     "gainlab_fundamentals",
-    "Visualize fundamental financial data (revenue, profit, margins, earnings) for stocks. Supports multi-company comparison.",
+    "Visualize fundamental financial data (revenue, profit, margins, earnings, cash flow, balance sheet strength) for stocks. Supports multi-company comparison, percentile peer scoring with suggested peers, and P/E, P/B or EV/EBITDA bands against the stock's own history.",
     FundamentalsSchema,
     async (params) => {
       try {
         // Route to special modes
         if (params.mode === "dcf") {
           return await handleDCFMode(params);
+        } else if (params.mode === "dcf_sensitivity") {
+          return await handleDCFSensitivityMode(params);
+        } else if (params.mode === "reverse_dcf") {
+          return await handleReverseDCFMode(params);
         } else if (params.mode === "estimates") {
           return await handleEstimatesMode(params);
+        } else if (params.mode === "dividends") {
+          return await handleDividendsMode(params);
+        } else if (params.mode === "peers") {
+          return await handlePeersMode(params);
+        } else if (params.mode === "valuation_bands") {
+          return await handleValuationBandsMode(params);
         }
         
-        // Validate market
-        if (params.market !== "us_stock" && params.market !== "a_stock") {
+        // Validate market against provider capabilities
+        const unsupported = getFeatureSupportError(params.market, "fundamentals");
+        if (unsupported) {
           return {
             content: [{
               type: "text",
-              text: "Error: Fundamental data is only available for us_stock and a_stock markets. Crypto and commodities are not supported.",
+              text: `Error: ${unsupported}`,
             }],
             isError: true,
           };
@@ -261,13 +921,14 @@ export function registerFundamentalsTool(server: McpServer) {
         }
 
         // Determine which data sources are needed based on requested metrics
-        const needsIncome = supportedMetrics.some(m => INCOME_METRICS.has(m));
+        const needsIncome = supportedMetrics.some(m => INCOME_METRICS.has(m) || CROSS_STATEMENT_METRICS.has(m));
         const needsCashFlow = supportedMetrics.some(m => CASH_FLOW_METRICS.has(m));
         const needsKeyMetrics = supportedMetrics.some(m => KEY_METRICS.has(m));
+        const needsBalanceSheet = supportedMetrics.some(m => BALANCE_SHEET_METRICS.has(m));
 
         // Fetch data for all symbols in parallel
         const dataMap = new Map<string, FundamentalData[]>();
-        const fetchPromises = params.symbols.map(async (symbol) => {
+        const fetchSymbol = async (symbol: string) => {
           try {
             // Fetch all needed data sources in parallel
             const fetchTasks: Promise<FundamentalData[]>[] = [];
@@ -281,6 +942,9 @@ export function registerFundamentalsTool(server: McpServer) {
             if (needsKeyMetrics) {
               fetchTasks.push(getKeyMetrics(symbol, params.market, params.period, params.years));
             }
+            if (needsBalanceSheet) {
+              fetchTasks.push(getBalanceSheet(symbol, params.market, params.period, params.years));
+            }
             
             const results = await Promise.all(fetchTasks);
             
@@ -299,14 +963,18 @@ export function registerFundamentalsTool(server: McpServer) {
             
             // Convert map back to array
             const mergedArray = Array.from(mergedData.values());
+            if (needsBalanceSheet) {
+              mergedArray.forEach(item => fillCrossStatementMetrics(item.metrics));
+            }
             dataMap.set(symbol, mergedArray);
           } catch (error: any) {
             console.error(`Failed to fetch fundamentals for ${symbol}:`, error.message);
             dataMap.set(symbol, []);  // Empty data for failed symbols
           }
-        });
+        };
 
-        await Promise.all(fetchPromises);
+        const { sources } = await trackSources(() => Promise.all(params.symbols.map(fetchSymbol)));
+        const sourceText = `Source: ${formatSources(sources)}`;
 
         // Check if we have any data
         const totalDataPoints = Array.from(dataMap.values()).reduce((sum, data) => sum + data.length, 0);
@@ -332,7 +1000,7 @@ export function registerFundamentalsTool(server: McpServer) {
           const pngBuffer = await renderToPNG(option);
           return {
             content: [
-              ...(warningMessage ? [{ type: "text" as const, text: warningMessage }] : []),
+              { type: "text" as const, text: `${warningMessage}${sourceText}` },
               {
                 type: "image" as const,
                 data: pngBuffer.toString("base64"),
@@ -350,7 +1018,7 @@ export function registerFundamentalsTool(server: McpServer) {
 
           return {
             content: [
-              { type: "text" as const, text: `${warningMessage}📊 ${description}` },
+              { type: "text" as const, text: `${warningMessage}📊 ${description}\n${sourceText}` },
               {
                 type: "resource" as const,
                 resource: {
@@ -0,0 +1,127 @@
+// Funding Rate MCP tool — perpetual funding history with carry, cumulative
+// funding and a price overlay
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseDateRange, canonicalSymbol, type OHLCV, type Timeframe } from "../data/index.js";
+import { getCryptoFundingRate, getCryptoKlines } from "../data/crypto.js";
+import { TIMEFRAME_MS } from "../data/cache.js";
+import { analyzeFunding, type FundingStats } from "../utils/funding.js";
+import { buildFundingRateOption, type FundingRateSeries } from "../render/charts/funding-rate.js";
+import { renderToPNG, renderToHTML } from "../render/engine.js";
+
+const FundingRateSchema = {
+  symbols: z
+    .array(z.string())
+    .min(1, "At least 1 symbol required")
+    .max(6, "Maximum 6 symbols allowed")
+    .describe('Binance USDⓈ-M perpetuals, e.g. ["BTCUSDT"] or ["BTCUSDT", "ETHUSDT", "SOLUSDT"] to compare'),
+  limit: z.number().min(10).max(3000).default(270).describe("Funding events per symbol (3/day on 8h contracts; 270 ≈ 90 days)"),
+  start: z.string().optional().describe("Range start, YYYY-MM-DD or ISO datetime (UTC); returns every event up to end and overrides limit"),
+  end: z.string().optional().describe("Range end, YYYY-MM-DD (inclusive) or ISO datetime (UTC); default now"),
+  show_price: z.boolean().default(true).describe("Overlay spot price (normalized % change when comparing several perpetuals)"),
+  format: z.enum(["interactive", "image"]).default("interactive").describe("Output format"),
+};
+
+/** Price bars per overlay are capped near one Binance page */
+const MAX_PRICE_BARS = 1000;
+const PRICE_TIMEFRAMES: Timeframe[] = ["1h", "4h", "1d"];
+
+/** Finest timeframe that covers the funding window in about one page */
+function pickPriceTimeframe(spanMs: number): Timeframe {
+  return PRICE_TIMEFRAMES.find((tf) => spanMs / TIMEFRAME_MS[tf] <= MAX_PRICE_BARS) ?? "1d";
+}
+
+const pct = (fraction: number, digits: number = 4) => `${(fraction * 100).toFixed(digits)}%`;
+
+function formatStats(symbol: string, stats: FundingStats): string {
+  const date = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+  return [
+    `${symbol} (${stats.count} events, ${stats.intervalHours}h interval)`,
+    `  Current: ${pct(stats.current)} → ${pct(stats.currentAnnualized, 2)} annualized, percentile ${stats.currentPercentile.toFixed(0)}`,
+    `  Mean: ${pct(stats.mean)} → ${pct(stats.meanAnnualized, 2)} annualized | positive ${(stats.positiveShare * 100).toFixed(0)}% of the time`,
+    `  Max: ${pct(stats.max.rate)} (${date(stats.max.timestamp)}) | Min: ${pct(stats.min.rate)} (${date(stats.min.timestamp)})`,
+    `  Cumulative: ${pct(stats.cumulative, 2)} paid by longs`,
+  ].join("\n");
+}
+
+export function registerFundingRateTool(server: McpServer) {
+  server.tool(
+    "gainlab_funding_rate",
+    "Chart funding rate history for Binance USDⓈ-M perpetuals: annualized carry, cumulative funding and a price overlay, " +
+    "with stats (mean, extremes, current rate vs its historical percentile). Compare up to 6 perpetuals to spot crowded positioning.",
+    FundingRateSchema,
+    async (params) => {
+      try {
+        const range = parseDateRange(params.start, params.end);
+        const symbols = params.symbols.map((s) => canonicalSymbol(s, "crypto"));
+
+        const series: FundingRateSeries[] = await Promise.all(symbols.map(async (symbol) => {
+          const rates = await getCryptoFundingRate(symbol, params.limit, range);
+          const analysis = analyzeFunding(rates);
+
+          let prices: OHLCV[] = [];
+          if (params.show_price && analysis.points.length > 0) {
+            const first = analysis.points[0].timestamp;
+            const last = analysis.points[analysis.points.length - 1].timestamp;
+            // Perpetuals without a spot pair (e.g. 1000PEPEUSDT) just lose the overlay
+            prices = await getCryptoKlines(symbol, pickPriceTimeframe(last - first), 0, { start: first, end: last })
+              .catch(() => []);
+          }
+          return { symbol, analysis, prices };
+        }));
+
+        const empty = series.filter((s) => s.analysis.points.length === 0);
+        if (empty.length > 0) {
+          return {
+            content: [{ type: "text", text: `No funding data found for: ${empty.map((s) => s.symbol).join(", ")}` }],
+            isError: true,
+          };
+        }
+
+        const option = buildFundingRateOption({ series });
+        const missingPrice = params.show_price ? series.filter((s) => s.prices.length === 0) : [];
+        const summaryText = [
+          `📊 Funding Rate — ${symbols.join(", ")}`,
+          ...series.map((s) => formatStats(s.symbol, s.analysis.stats!)),
+          ...(missingPrice.length > 0 ? [`⚠️ No spot price overlay for: ${missingPrice.map((s) => s.symbol).join(", ")}`] : []),
+          "Source: binance (USDⓈ-M futures funding, spot klines)",
+        ].join("\n");
+
+        if (params.format === "image") {
+          const pngBuffer = await renderToPNG(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "image" as const,
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
+          };
+        } else {
+          const html = renderToHTML(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `gainlab://chart/funding-rate/${symbols.join("+")}`,
+                  mimeType: "text/html",
+                  text: html,
+                },
+              },
+            ],
+          };
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -7,6 +7,7 @@ import { buildCorrelationMatrix } from "../utils/correlation.js";
 import { buildSectorTreemapOption } from "../render/charts/sector-treemap.js";
 import { buildCorrelationMatrixOption } from "../render/charts/correlation-matrix.js";
 import { renderToPNG, renderToHTML } from "../render/engine.js";
+import { getKlineSupportError, trackSources, formatSources, type PriceAdjustment } from "../data/index.js";
 import type { Market } from "../data/types.js";
 
 const HeatmapSchema = {
@@ -33,12 +34,15 @@ const HeatmapSchema = {
   symbols: z.array(z.string()).min(2).max(20).optional().describe(
     "Symbols for correlation matrix, e.g. ['BTCUSDT', 'AAPL', 'XAUUSD']"
   ),
-  markets: z.array(z.enum(["crypto", "us_stock", "a_stock", "commodity"])).optional().describe(
+  markets: z.array(z.enum(["crypto", "us_stock", "a_stock", "commodity", "local"])).optional().describe(
     "Market for each symbol (same order), e.g. ['crypto', 'us_stock', 'commodity']"
   ),
   days: z.number().min(30).max(365).default(90).describe(
     "Number of days for correlation calculation (default: 90)"
   ),
+  adjustment: z.enum(["none", "split", "split+dividend", "qfq", "hfq"]).default("split+dividend").describe(
+    "Stock price adjustment for returns (default: split+dividend, i.e. total return)"
+  ),
   // common
   format: z.enum(["interactive", "image"]).default("interactive"),
 };
@@ -147,6 +151,7 @@ async function handleCorrelationMatrix(params: {
   symbols?: string[];
   markets?: Market[];
   days: number;
+  adjustment: PriceAdjustment;
   format: "interactive" | "image";
 }) {
   if (!params.symbols || params.symbols.length < 2) {
@@ -170,7 +175,20 @@ async function handleCorrelationMatrix(params: {
     market: params.markets![i],
   }));
 
-  const matrix = await buildCorrelationMatrix(assets, params.days);
+  const unsupported = assets
+    .map((a) => getKlineSupportError(a.market, "1d"))
+    .filter((msg): msg is string => msg !== null);
+  if (unsupported.length > 0) {
+    return {
+      content: [{ type: "text" as const, text: `Error: ${unsupported.join("; ")}` }],
+      isError: true,
+    };
+  }
+
+  const { result: matrix, sources } = await trackSources(() =>
+    buildCorrelationMatrix(assets, params.days, params.adjustment)
+  );
+  const sourceText = `Sources: ${formatSources(sources)}`;
   const option = buildCorrelationMatrixOption({ matrix });
 
   const n = params.symbols.length;
@@ -181,11 +199,14 @@ async function handleCorrelationMatrix(params: {
   if (params.format === "image") {
     const pngBuffer = await renderToPNG(option, size, size);
     return {
-      content: [{
-        type: "image" as const,
-        data: pngBuffer.toString("base64"),
-        mimeType: "image/png" as const,
-      }],
+      content: [
+        { type: "text" as const, text: sourceText },
+        {
+          type: "image" as const,
+          data: pngBuffer.toString("base64"),
+          mimeType: "image/png" as const,
+        },
+      ],
     };
   } else {
     const html = renderToHTML(option, size, size);
@@ -193,7 +214,7 @@ async function handleCorrelationMatrix(params: {
       content: [
         {
           type: "text" as const,
-          text: `📊 Correlation matrix: ${params.symbols.join(", ")} (${params.days} days)`,
+          text: `📊 Correlation matrix: ${params.symbols.join(", ")} (${params.days} days)\n${sourceText}`,
         },
         {
           type: "resource" as const,
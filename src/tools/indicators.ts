@@ -1,28 +1,40 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getKlines } from "../data/index.js";
+import { getKlines, parseDateRange, trackSources, formatSources, canonicalSymbol } from "../data/index.js";
+import { getCryptoAggTrades } from "../data/crypto.js";
+import { calculateVolumeDelta, coveredFrom, type DeltaBar } from "../utils/orderflow.js";
 import { buildIndicatorsOption } from "../render/charts/indicators.js";
 import { renderToPNG, renderToHTML } from "../render/engine.js";
 
 const IndicatorsSchema = {
   symbol: z.string().describe('Trading pair or ticker symbol'),
-  market: z.enum(["crypto", "us_stock", "a_stock", "commodity"]).describe("Market type"),
-  timeframe: z.enum(["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"]).default("1d"),
-  indicators: z.array(z.enum(["MA", "EMA", "RSI", "MACD", "BOLL", "KDJ", "VOL", "VWAP", "ATR"]))
+  market: z.enum(["crypto", "us_stock", "a_stock", "commodity", "local"]).describe("Market type"),
+  timeframe: z.templateLiteral([z.number().int().positive(), z.enum(["m", "h", "d", "w", "M"])])
+    .default("1d")
+    .describe("Timeframe: 1m, 5m, 15m, 1h, 4h, 1d, 1w, 1M, or any multiple such as 2h, 3d, 12h (resampled)"),
+  session: z.enum(["regular", "extended"]).default("regular").describe("Intraday US stocks: regular hours or include pre/after-market"),
+  adjustment: z.enum(["none", "split", "split+dividend", "qfq", "hfq"]).default("split").describe("Stocks: corporate-action adjustment — none (as traded), split, split+dividend, qfq (前复权, same as split+dividend) or hfq (后复权); crypto and commodities are unaffected"),
+  cache: z.enum(["use", "bypass", "refresh"]).default("use").describe("Local kline cache: use (serve cached bars, fetch only newer ones), bypass (fetch everything, leave the cache as is) or refresh (refetch and overwrite the cached entry)"),
+  indicators: z.array(z.enum(["MA", "EMA", "RSI", "MACD", "BOLL", "KDJ", "VOL", "VWAP", "ATR", "CVD"]))
     .min(1)
-    .describe("Technical indicators to display (VOL is always shown)"),
+    .describe("Technical indicators to display (VOL is always shown). CVD (cumulative volume delta from Binance trades) is crypto only"),
   ma_periods: z.array(z.number().min(1).max(200))
     .default([7, 25, 99])
     .describe("Periods for MA/EMA indicators (default: [7, 25, 99])"),
   anchor_date: z.string().optional().describe("Anchor date for Anchored VWAP (YYYY-MM-DD). Only used when VWAP is selected."),
   limit: z.number().min(10).max(500).default(100),
+  start: z.string().optional().describe("Range start, YYYY-MM-DD or ISO datetime (UTC); returns every bar up to end and overrides limit"),
+  end: z.string().optional().describe("Range end, YYYY-MM-DD (inclusive) or ISO datetime (UTC); default now"),
   format: z.enum(["interactive", "image"]).default("interactive"),
 };
 
+/** Trades fetched for the CVD panel, newest first; older bars are left blank */
+const CVD_MAX_TRADES = 100_000;
+
 export function registerIndicatorsTool(server: McpServer) {
   server.tool(
     "gainlab_indicators",
-    "Draw a K-line chart with technical indicators (MA/EMA/RSI/MACD/BOLL/KDJ). Overlay indicators (MA/EMA/BOLL) appear on the main chart, while oscillators (RSI/MACD/KDJ) get separate panels below. Volume is always shown.",
+    "Draw a K-line chart with technical indicators (MA/EMA/RSI/MACD/BOLL/KDJ/CVD). Overlay indicators (MA/EMA/BOLL) appear on the main chart, while oscillators (RSI/MACD/KDJ) and crypto CVD (true taker buy − sell volume from trades) get separate panels below. Volume is always shown.",
     IndicatorsSchema,
     async (params) => {
       try {
@@ -38,8 +50,27 @@ export function registerIndicatorsTool(server: McpServer) {
             isError: true
           };
         }
-        
-        const data = await getKlines(params.symbol, params.market, params.timeframe, params.limit);
+
+        if (indicators.includes("CVD") && params.market !== "crypto") {
+          return {
+            content: [{
+              type: "text",
+              text: "CVD needs trade-level aggressor data, which is only available for crypto (Binance spot)."
+            }],
+            isError: true
+          };
+        }
+
+        const range = parseDateRange(params.start, params.end);
+        const { result: data, sources } = await trackSources(() =>
+          getKlines(params.symbol, params.market, params.timeframe, params.limit, {
+            session: params.session,
+            adjustment: params.adjustment,
+            cache: params.cache,
+            ...range,
+          })
+        );
+        let sourceText = `Source: ${formatSources(sources)}`;
         
         if (data.length === 0) {
           return {
@@ -58,6 +89,23 @@ export function registerIndicatorsTool(server: McpServer) {
           };
         }
         
+        let delta: (DeltaBar | null)[] | undefined;
+        if (indicators.includes("CVD")) {
+          const trades = await getCryptoAggTrades(
+            canonicalSymbol(params.symbol, "crypto"),
+            { start: data[0].timestamp, end: range.end },
+            CVD_MAX_TRADES
+          );
+          delta = calculateVolumeDelta(data, trades.trades, coveredFrom(trades));
+          sourceText += ", binance aggTrades (CVD)";
+          const firstCovered = delta.find((d) => d !== null);
+          if (!trades.complete) {
+            sourceText += firstCovered
+              ? `\nCVD covers bars from ${new Date(firstCovered.timestamp).toISOString()} (${CVD_MAX_TRADES.toLocaleString("en-US")} trade cap)`
+              : `\nCVD: the ${CVD_MAX_TRADES.toLocaleString("en-US")}-trade cap doesn't cover a whole bar; use a shorter timeframe`;
+          }
+        }
+        
         const option = buildIndicatorsOption({
           data,
           symbol: params.symbol,
@@ -65,16 +113,20 @@ export function registerIndicatorsTool(server: McpServer) {
           indicators,
           maPeriods: params.ma_periods,
           anchorDate: params.anchor_date,
+          delta,
         });
         
         if (params.format === "image") {
           const pngBuffer = await renderToPNG(option);
           return {
-            content: [{
-              type: "image",
-              data: pngBuffer.toString("base64"),
-              mimeType: "image/png"
-            }]
+            content: [
+              { type: "text", text: sourceText },
+              {
+                type: "image",
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png"
+              },
+            ]
           };
         } else {
           const html = renderToHTML(option);
@@ -83,7 +135,7 @@ export function registerIndicatorsTool(server: McpServer) {
             content: [
               {
                 type: "text",
-                text: `📊 ${params.symbol} ${params.timeframe} with ${indicatorList} (${data.length} candles)`
+                text: `📊 ${params.symbol} ${params.timeframe} with ${indicatorList} (${data.length} candles)\n${sourceText}`
               },
               {
                 type: "resource",
@@ -1,26 +1,74 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getKlines } from "../data/index.js";
+import {
+  getKlines,
+  getCalendarEvents,
+  parseDateRange,
+  trackSources,
+  formatSources,
+  type CalendarEvent,
+} from "../data/index.js";
+import { toIsoDate, DAY_MS } from "../data/range.js";
 import { buildKlineOption } from "../render/charts/kline.js";
 import { renderToPNG, renderToHTML } from "../render/engine.js";
 
 const KlineSchema = {
   symbol: z.string().describe('Trading pair or ticker symbol, e.g. "BTCUSDT", "AAPL", "600519.SHG", "XAUUSD"'),
-  market: z.enum(["crypto", "us_stock", "a_stock", "commodity"]).describe("Market type"),
-  timeframe: z.enum(["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"]).default("1d").describe("Candlestick timeframe"),
+  market: z.enum(["crypto", "us_stock", "a_stock", "commodity", "local"]).describe("Market type"),
+  timeframe: z.templateLiteral([z.number().int().positive(), z.enum(["m", "h", "d", "w", "M"])])
+    .default("1d")
+    .describe("Timeframe: 1m, 5m, 15m, 1h, 4h, 1d, 1w, 1M, or any multiple such as 2h, 3d, 12h (resampled)"),
+  session: z.enum(["regular", "extended"]).default("regular").describe("Intraday US stocks: regular hours or include pre/after-market"),
+  adjustment: z.enum(["none", "split", "split+dividend", "qfq", "hfq"]).default("split").describe("Stocks: corporate-action adjustment — none (as traded), split, split+dividend, qfq (前复权, same as split+dividend) or hfq (后复权); crypto and commodities are unaffected"),
+  cache: z.enum(["use", "bypass", "refresh"]).default("use").describe("Local kline cache: use (serve cached bars, fetch only newer ones), bypass (fetch everything, leave the cache as is) or refresh (refetch and overwrite the cached entry)"),
   limit: z.number().min(10).max(500).default(100).describe("Number of candlesticks"),
+  start: z.string().optional().describe("Range start, YYYY-MM-DD or ISO datetime (UTC); returns every bar up to end and overrides limit"),
+  end: z.string().optional().describe("Range end, YYYY-MM-DD (inclusive) or ISO datetime (UTC); default now"),
+  events: z.boolean().default(false).describe("Stocks: mark earnings (E), dividends (D) and splits (S) on the chart, including upcoming ones"),
   format: z.enum(["interactive", "image"]).default("interactive").describe("Output format: interactive HTML or PNG image"),
 };
 
+/** How far past today upcoming events are looked up */
+const UPCOMING_EVENT_DAYS = 60;
+
+/** Company events over the chart window; failures become a note instead of failing the chart */
+async function fetchChartEvents(
+  symbol: string,
+  market: "us_stock" | "a_stock",
+  from: number
+): Promise<{ events: CalendarEvent[]; note?: string }> {
+  try {
+    const { events, errors } = await getCalendarEvents({
+      market,
+      from: toIsoDate(from),
+      to: toIsoDate(Date.now() + UPCOMING_EVENT_DAYS * DAY_MS),
+      symbols: [symbol],
+      types: ["earnings", "dividend", "split"],
+    });
+    return { events, note: errors.length > 0 ? `⚠️ Some events unavailable: ${errors.join("; ")}` : undefined };
+  } catch (error: any) {
+    return { events: [], note: `⚠️ Events unavailable: ${error.message}` };
+  }
+}
+
 export function registerKlineTool(server: McpServer) {
   server.tool(
     "gainlab_kline",
-    "Draw a candlestick (K-line) chart with volume. Supports crypto, US stocks, A-shares, and commodities.",
+    "Draw a candlestick (K-line) chart with volume. Supports crypto, US stocks, A-shares, commodities, and local CSV/Parquet files (market=local).",
     KlineSchema,
     async (params) => {
       try {
         // Fetch data
-        const data = await getKlines(params.symbol, params.market, params.timeframe, params.limit);
+        const { result: data, sources } = await trackSources(() =>
+          getKlines(params.symbol, params.market, params.timeframe, params.limit, {
+            session: params.session,
+            adjustment: params.adjustment,
+            cache: params.cache,
+            ...parseDateRange(params.start, params.end),
+          })
+        );
+        const sourceText = `Source: ${formatSources(sources)}`;
+        const notes: string[] = [];
         
         if (data.length === 0) {
           return {
@@ -28,23 +76,37 @@ export function registerKlineTool(server: McpServer) {
           };
         }
 
+        let events: CalendarEvent[] = [];
+        if (params.events) {
+          if (params.market === "us_stock" || params.market === "a_stock") {
+            const fetched = await fetchChartEvents(params.symbol, params.market, data[0].timestamp);
+            events = fetched.events;
+            if (fetched.note) notes.push(fetched.note);
+          } else {
+            notes.push("⚠️ Event markers are only available for us_stock and a_stock");
+          }
+        }
+
         // Build chart option
-        const option = buildKlineOption(data, params.symbol, params.timeframe);
+        const option = buildKlineOption(data, params.symbol, params.timeframe, events);
 
         if (params.format === "image") {
           const pngBuffer = await renderToPNG(option);
           return {
-            content: [{
-              type: "image",
-              data: pngBuffer.toString("base64"),
-              mimeType: "image/png",
-            }],
+            content: [
+              { type: "text", text: [sourceText, ...notes].join("\n") },
+              {
+                type: "image",
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
           };
         } else {
           const html = renderToHTML(option);
           return {
             content: [
-              { type: "text", text: `📊 ${params.symbol} ${params.timeframe} K-Line Chart (${data.length} candles)` },
+              { type: "text", text: `📊 ${params.symbol} ${params.timeframe} K-Line Chart (${data.length} candles)${events.length > 0 ? `, ${events.length} events` : ""}\n${[sourceText, ...notes].join("\n")}` },
               { type: "resource", resource: { uri: `gainlab://chart/kline/${params.symbol}`, mimeType: "text/html", text: html } },
             ],
           };
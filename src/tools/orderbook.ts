@@ -0,0 +1,121 @@
+// Order book MCP tool — cumulative bid/ask depth from a Binance snapshot with
+// imbalance, walls and slippage. Complements volume profile: VP shows where
+// volume traded, depth shows where liquidity sits now
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { canonicalSymbol } from "../data/index.js";
+import { getCryptoOrderBook, DEPTH_MAX_LIMIT } from "../data/crypto.js";
+import { analyzeOrderBook, type OrderBookAnalysis, type OrderBookWall, type SlippageEstimate } from "../utils/orderbook.js";
+import { buildOrderBookOption } from "../render/charts/orderbook.js";
+import { renderToPNG, renderToHTML } from "../render/engine.js";
+
+const OrderBookSchema = {
+  symbol: z.string().describe('Binance spot pair, e.g. "BTCUSDT"'),
+  depth: z.number().int().min(20).max(DEPTH_MAX_LIMIT).default(1000).describe("Levels per side to fetch (more levels cost more request weight)"),
+  notional: z.number().positive().default(100_000).describe("Market order size for slippage estimates, in quote asset (USDT for *USDT pairs)"),
+  range_percent: z.number().min(0.1).max(20).default(1).describe("Chart, imbalance and walls cover mid ± this percent"),
+  wall_multiple: z.number().min(2).max(50).default(5).describe("A level counts as a wall at this many × the side's median level size"),
+  format: z.enum(["interactive", "image"]).default("interactive").describe("Output format"),
+};
+
+const pct = (fraction: number) => `${fraction >= 0 ? "+" : ""}${(fraction * 100).toFixed(2)}%`;
+
+function formatUsd(value: number): string {
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(2)}`;
+}
+
+function formatWall(w: OrderBookWall): string {
+  return `${w.side === "bid" ? "Bid" : "Ask"} wall ${w.price} — ${w.quantity} (${formatUsd(w.notional)}, ${w.multiple.toFixed(1)}× median, ${pct(w.distance)} from mid)`;
+}
+
+function formatSlippage(s: SlippageEstimate): string {
+  const label = `${s.side === "buy" ? "Buy" : "Sell"} ${formatUsd(s.notional)}`;
+  if (s.averagePrice === null || s.slippage === null) return `${label}: no liquidity`;
+  const filled = s.complete ? "" : ` — book exhausted after ${formatUsd(s.filledNotional)}`;
+  return `${label}: avg ${s.averagePrice.toPrecision(8)} (${(s.slippage * 10_000).toFixed(1)} bps over ${s.levels} levels, worst ${s.worstPrice})${filled}`;
+}
+
+function formatSummary(a: OrderBookAnalysis): string[] {
+  const range = `±${(a.range * 100).toFixed(1)}%`;
+  const lean = a.imbalance > 0 ? "bid-heavy" : a.imbalance < 0 ? "ask-heavy" : "balanced";
+  return [
+    `Mid: ${a.mid} | Bid ${a.bestBid} / Ask ${a.bestAsk} | Spread: ${a.spread.toPrecision(4)} (${a.spreadBps.toFixed(2)} bps)`,
+    `Depth ${range}: bids ${formatUsd(a.bidNotional)} vs asks ${formatUsd(a.askNotional)} | Imbalance: ${pct(a.imbalance)} (${lean})`,
+    ...(a.walls.length > 0 ? a.walls.map(formatWall) : [`Walls: none within ${range}`]),
+    formatSlippage(a.buy),
+    formatSlippage(a.sell),
+  ];
+}
+
+export function registerOrderBookTool(server: McpServer) {
+  server.tool(
+    "gainlab_orderbook",
+    "Crypto order book depth for a Binance spot pair: cumulative bid/ask depth chart around the mid price, bid/ask imbalance, " +
+    "outsized resting orders (walls) and spread/slippage estimates for a market order of a given notional. " +
+    "Complements gainlab_volume_profile — volume profile shows where volume traded, depth shows where liquidity sits now.",
+    OrderBookSchema,
+    async (params) => {
+      try {
+        const symbol = canonicalSymbol(params.symbol, "crypto");
+        const book = await getCryptoOrderBook(symbol, params.depth);
+        const analysis = analyzeOrderBook(book, {
+          notional: params.notional,
+          range: params.range_percent / 100,
+          wallMultiple: params.wall_multiple,
+        });
+
+        if (!analysis) {
+          return {
+            content: [{ type: "text", text: `Order book for ${symbol} is empty` }],
+            isError: true,
+          };
+        }
+
+        const option = buildOrderBookOption(analysis);
+        const summaryText = [
+          `📊 ${symbol} Order Book (${book.bids.length} bids / ${book.asks.length} asks, update ${book.lastUpdateId})`,
+          ...formatSummary(analysis),
+          "Source: binance (spot depth snapshot)",
+        ].join("\n");
+
+        if (params.format === "image") {
+          const pngBuffer = await renderToPNG(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "image" as const,
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
+          };
+        } else {
+          const html = renderToHTML(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `gainlab://chart/orderbook/${symbol}`,
+                  mimeType: "text/html",
+                  text: html,
+                },
+              },
+            ],
+          };
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
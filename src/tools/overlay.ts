@@ -1,6 +1,6 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getKlines } from "../data/index.js";
+import { getKlines, getKlineSupportError, parseDateRange, trackSources, formatSources } from "../data/index.js";
 import { buildOverlayOption, type OverlaySeriesData } from "../render/charts/overlay.js";
 import { renderToPNG, renderToHTML } from "../render/engine.js";
 
@@ -10,7 +10,7 @@ const OverlaySchema = {
       z.object({
         symbol: z.string().describe("Asset symbol (e.g., BTC, AAPL, 600519)"),
         market: z
-          .enum(["crypto", "us_stock", "a_stock", "commodity"])
+          .enum(["crypto", "us_stock", "a_stock", "commodity", "local"])
           .describe("Market type"),
       })
     )
@@ -24,7 +24,19 @@ const OverlaySchema = {
   period: z
     .string()
     .default("1Y")
-    .describe("Period: 3M, 6M, 1Y, or 5Y"),
+    .describe("Period: 3M, 6M, 1Y, or 5Y (ignored when start is set)"),
+  start: z
+    .string()
+    .optional()
+    .describe("Range start, YYYY-MM-DD or ISO datetime (UTC); overrides period"),
+  end: z
+    .string()
+    .optional()
+    .describe("Range end, YYYY-MM-DD (inclusive) or ISO datetime (UTC); default now"),
+  adjustment: z
+    .enum(["none", "split", "split+dividend", "qfq", "hfq"])
+    .default("split")
+    .describe("Stocks: corporate-action adjustment — none (as traded), split, split+dividend (total return), qfq or hfq; crypto and commodities are unaffected"),
   normalize: z
     .boolean()
     .default(true)
@@ -53,23 +65,34 @@ export function registerOverlayTool(server: McpServer) {
     async (params) => {
       try {
         const limit = periodToLimit(params.period);
+        const range = parseDateRange(params.start, params.end);
+
+        // Reject unsupported assets up front instead of spending API calls on the rest
+        const unsupported = params.assets
+          .map((asset) => getKlineSupportError(asset.market, params.timeframe))
+          .filter((msg): msg is string => msg !== null);
+        if (unsupported.length > 0) {
+          return {
+            content: [{ type: "text", text: `Error: ${unsupported.join("; ")}` }],
+            isError: true,
+          };
+        }
 
         // Fetch all assets in parallel
         const fetchPromises = params.assets.map(async (asset) => {
-          const klines = await getKlines(
-            asset.symbol,
-            asset.market,
-            params.timeframe,
-            limit
+          const { result: klines, sources } = await trackSources(() =>
+            getKlines(asset.symbol, asset.market, params.timeframe, limit, { ...range, adjustment: params.adjustment })
           );
           return {
             symbol: asset.symbol,
             market: asset.market,
             klines,
+            source: formatSources(sources),
           };
         });
 
         const results = await Promise.all(fetchPromises);
+        const sourceText = `Sources: ${results.map((r) => `${r.symbol} ${r.source}`).join("; ")}`;
 
         // Check if all assets have data
         const emptyAssets = results.filter((r) => r.klines.length === 0);
@@ -103,6 +126,7 @@ export function registerOverlayTool(server: McpServer) {
           const pngBuffer = await renderToPNG(option);
           return {
             content: [
+              { type: "text", text: sourceText },
               {
                 type: "image",
                 data: pngBuffer.toString("base64"),
@@ -115,11 +139,14 @@ export function registerOverlayTool(server: McpServer) {
           const assetList = params.assets
             .map((a) => `${a.symbol} (${a.market})`)
             .join(", ");
+          const window = params.start
+            ? `${params.start} → ${params.end ?? "now"}`
+            : params.period;
           return {
             content: [
               {
                 type: "text",
-                text: `📊 Multi-Asset Overlay: ${assetList} | Period: ${params.period} | ${params.normalize ? "Normalized" : "Raw Values"}`,
+                text: `📊 Multi-Asset Overlay: ${assetList} | Period: ${window} | ${params.normalize ? "Normalized" : "Raw Values"}\n${sourceText}`,
               },
               {
                 type: "resource",
@@ -0,0 +1,120 @@
+// Positioning MCP tool — open interest, top-trader long/short ratio and taker
+// flow plotted with price, to tell leverage-driven moves from spot-driven ones
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getKlines, canonicalSymbol } from "../data/index.js";
+import {
+  getCryptoOpenInterest,
+  getCryptoLongShortRatio,
+  getCryptoTakerVolume,
+  FUTURES_PERIODS,
+} from "../data/crypto.js";
+import { summarizePositioning, REGIME_LABELS, type PositioningSummary } from "../utils/positioning.js";
+import { buildPositioningOption } from "../render/charts/positioning.js";
+import { renderToPNG, renderToHTML } from "../render/engine.js";
+
+const PositioningSchema = {
+  symbol: z.string().describe('Binance USDⓈ-M perpetual, e.g. "BTCUSDT"'),
+  period: z.enum(FUTURES_PERIODS).default("1h").describe("Sampling period: 5m, 15m, 30m, 1h, 2h, 4h, 6h, 12h, 1d"),
+  limit: z.number().min(30).max(500).default(168).describe("Number of periods (Binance keeps only the latest 30 days of positioning data)"),
+  format: z.enum(["interactive", "image"]).default("interactive").describe("Output format"),
+};
+
+const pct = (fraction: number) => `${fraction >= 0 ? "+" : ""}${(fraction * 100).toFixed(2)}%`;
+
+function formatUsd(value: number): string {
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  return `$${value.toFixed(0)}`;
+}
+
+function formatSummary(summary: PositioningSummary): string[] {
+  return [
+    `Price: ${pct(summary.priceChange)} | Open interest: ${pct(summary.openInterestChange)} (now ${formatUsd(summary.openInterestValue)})`,
+    ...(summary.longShortRatio !== null
+      ? [`Top-trader long/short: ${summary.longShortRatio.toFixed(2)}${summary.longShortChange !== null ? ` (${summary.longShortChange >= 0 ? "+" : ""}${summary.longShortChange.toFixed(2)})` : ""}`]
+      : []),
+    ...(summary.takerBuyRatio !== null ? [`Taker buy/sell: ${summary.takerBuyRatio.toFixed(2)}`] : []),
+    `Read: ${REGIME_LABELS[summary.regime]}`,
+  ];
+}
+
+export function registerPositioningTool(server: McpServer) {
+  server.tool(
+    "gainlab_positioning",
+    "Crypto derivatives positioning for a Binance USDⓈ-M perpetual: open interest history, top-trader long/short ratio " +
+    "and taker buy/sell volume plotted under the price. Summarizes whether the move is leverage-driven (OI rising with price) or spot-driven.",
+    PositioningSchema,
+    async (params) => {
+      try {
+        const symbol = canonicalSymbol(params.symbol, "crypto");
+        const { period } = params;
+
+        const [candles, openInterest, longShort, taker] = await Promise.all([
+          getKlines(symbol, "crypto", period, params.limit),
+          getCryptoOpenInterest(symbol, period, params.limit),
+          getCryptoLongShortRatio(symbol, period, params.limit),
+          getCryptoTakerVolume(symbol, period, params.limit),
+        ]);
+
+        if (candles.length === 0 || openInterest.length === 0) {
+          return {
+            content: [{ type: "text", text: `No futures positioning data found for ${symbol}` }],
+            isError: true,
+          };
+        }
+
+        const summary = summarizePositioning({ candles, openInterest, longShort, taker })!;
+        const option = buildPositioningOption({
+          symbol,
+          period,
+          candles,
+          openInterest,
+          longShort,
+          taker,
+          subtitle: REGIME_LABELS[summary.regime],
+        });
+        const summaryText = [
+          `📊 ${symbol} ${period} Derivatives Positioning (${candles.length} periods)`,
+          ...formatSummary(summary),
+          "Source: binance (spot klines, USDⓈ-M futures statistics)",
+        ].join("\n");
+
+        if (params.format === "image") {
+          const pngBuffer = await renderToPNG(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "image" as const,
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
+          };
+        } else {
+          const html = renderToHTML(option);
+          return {
+            content: [
+              { type: "text" as const, text: summaryText },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `gainlab://chart/positioning/${symbol}`,
+                  mimeType: "text/html",
+                  text: html,
+                },
+              },
+            ],
+          };
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
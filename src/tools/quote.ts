@@ -0,0 +1,140 @@
+// Quote MCP tool — batch snapshots across markets as a compact table plus
+// structured data
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  getQuote,
+  resolveSymbol,
+  trackSources,
+  formatSources,
+  type Market,
+  type Quote,
+  type MarketStatus,
+} from "../data/index.js";
+
+const QuoteSchema = {
+  symbols: z
+    .array(z.object({
+      symbol: z.string().min(1).describe('Ticker in any spelling, e.g. "BTC", "AAPL", "600519", "gold"'),
+      market: z.enum(["crypto", "us_stock", "a_stock", "commodity"]).optional().describe("Market; resolved from the symbol when omitted"),
+    }))
+    .min(1, "At least 1 symbol required")
+    .max(20, "Maximum 20 symbols allowed")
+    .describe('Instruments to quote, e.g. [{"symbol": "BTCUSDT", "market": "crypto"}, {"symbol": "AAPL"}]'),
+};
+
+const STATUS_LABELS: Record<MarketStatus, string> = {
+  open: "open",
+  closed: "closed",
+  pre_market: "pre-market",
+  after_hours: "after-hours",
+};
+
+/** Fewer decimals for large prices, more for sub-dollar tokens; changes use their price's precision */
+function formatPrice(value: number | null, reference: number | null = value): string {
+  if (value === null) return "—";
+  const abs = Math.abs(reference ?? value);
+  const digits = abs >= 1 ? 2 : abs >= 0.01 ? 4 : 8;
+  return value.toLocaleString("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+function formatVolume(value: number | null): string {
+  if (value === null) return "—";
+  const units: Array<[number, string]> = [[1e9, "B"], [1e6, "M"], [1e3, "K"]];
+  const [divisor, suffix] = units.find(([d]) => Math.abs(value) >= d) ?? [1, ""];
+  return `${(value / divisor).toFixed(suffix ? 2 : 0)}${suffix}`;
+}
+
+const signed = (text: string, value: number) => (value > 0 ? `+${text}` : text);
+
+const range = (low: number | null, high: number | null) =>
+  low === null || high === null ? "—" : `${formatPrice(low)}–${formatPrice(high)}`;
+
+/** Fixed-width table; numbers right-aligned */
+function formatTable(quotes: Quote[]): string {
+  const header = ["Symbol", "Market", "Last", "Chg", "Chg%", "Volume", "Day range", "52w range", "Status"];
+  const rows = quotes.map((q) => [
+    q.symbol,
+    q.market,
+    formatPrice(q.price),
+    signed(formatPrice(q.change, q.price), q.change),
+    signed(`${q.changePercent.toFixed(2)}%`, q.changePercent),
+    formatVolume(q.volume),
+    range(q.dayLow, q.dayHigh),
+    range(q.yearLow, q.yearHigh),
+    `${STATUS_LABELS[q.status]}${q.delayed ? " (delayed)" : ""}`,
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const numeric = new Set([2, 3, 4, 5]);
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (numeric.has(i) ? c.padStart(widths[i]) : c.padEnd(widths[i]))).join("  ").trimEnd();
+  return [line(header), ...rows.map(line)].join("\n");
+}
+
+/** The market the caller gave, or the resolver's best guess */
+async function resolveMarket(symbol: string, market?: Market): Promise<{ symbol: string; market: Market }> {
+  if (market) return { symbol, market };
+  const { match, ambiguous, candidates } = await resolveSymbol(symbol, { limit: 3 });
+  if (!match) {
+    throw new Error(`No market found for "${symbol}"; pass market`);
+  }
+  if (ambiguous && candidates.some((c) => c.market !== match.market)) {
+    const markets = Array.from(new Set(candidates.map((c) => c.market)));
+    throw new Error(`"${symbol}" fits ${markets.join(", ")}; pass market`);
+  }
+  return { symbol: match.symbol, market: match.market };
+}
+
+export function registerQuoteTool(server: McpServer) {
+  server.tool(
+    "gainlab_quote",
+    "Batch quotes across markets: last price, change, change %, volume, day range, 52-week range and market status " +
+    "(open/closed/pre-market/after-hours). Real-time where available, else the last close marked delayed. " +
+    "Returns a compact text table and structured data.",
+    QuoteSchema,
+    async (params) => {
+      try {
+        const { result: settled, sources } = await trackSources(() =>
+          Promise.allSettled(params.symbols.map(async ({ symbol, market }) => {
+            const target = await resolveMarket(symbol, market);
+            return getQuote(target.symbol, target.market);
+          }))
+        );
+
+        const quotes: Quote[] = [];
+        const errors: Array<{ symbol: string; error: string }> = [];
+        settled.forEach((s, i) => {
+          if (s.status === "fulfilled") quotes.push(s.value);
+          else errors.push({ symbol: params.symbols[i].symbol, error: s.reason instanceof Error ? s.reason.message : String(s.reason) });
+        });
+
+        if (quotes.length === 0) {
+          return {
+            content: [{ type: "text", text: `Error: ${errors.map((e) => `${e.symbol}: ${e.error}`).join("; ")}` }],
+            isError: true,
+          };
+        }
+
+        const summaryText = [
+          `💹 Quotes (${quotes.length} of ${params.symbols.length})`,
+          formatTable(quotes),
+          ...errors.map((e) => `⚠️ ${e.symbol}: ${e.error}`),
+          `Source: ${formatSources(sources)}`,
+        ].join("\n");
+
+        return {
+          content: [
+            { type: "text" as const, text: summaryText },
+            { type: "text" as const, text: JSON.stringify({ quotes, errors }, null, 2) },
+          ],
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,59 @@
+// Symbol Search MCP tool — maps names and tickers in any spelling to the
+// canonical (symbol, market, exchange) the other tools take
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { resolveSymbol, type SymbolMatch, type SymbolResolution } from "../data/index.js";
+
+const SearchSchema = {
+  query: z.string().min(1).describe('Ticker or name in any form, e.g. "BTC", "btc/usdt", "600519", "SH600519", "gold", "XAUUSD.FOREX", "Apple", "BRK.B"'),
+  market: z.enum(["crypto", "us_stock", "a_stock", "commodity"]).optional().describe("Restrict to one market"),
+  limit: z.number().min(1).max(25).default(10).describe("Maximum number of candidates"),
+};
+
+function formatMatch(m: SymbolMatch, index: number): string {
+  const name = m.name ? ` — ${m.name}` : "";
+  const type = m.type ? `, ${m.type}` : "";
+  return `${index + 1}. ${m.symbol} (${m.market}, ${m.exchange}${type})${name} · ${Math.round(m.confidence * 100)}%`;
+}
+
+function verdict(resolution: SymbolResolution): string {
+  const { match, candidates, ambiguous } = resolution;
+  if (!match) return `No match for "${resolution.query}". Try a company name, a full ticker or set market.`;
+  if (!ambiguous) return `Best match: ${match.symbol} on ${match.market}`;
+  const markets = Array.from(new Set(candidates.slice(0, 3).map((c) => c.market)));
+  return markets.length > 1
+    ? `Ambiguous: "${resolution.query}" fits ${markets.join(", ")} — pass market to pick one`
+    : `Low confidence: verify ${match.symbol} before using it`;
+}
+
+export function registerSearchTool(server: McpServer) {
+  server.tool(
+    "gainlab_search",
+    "Resolve a ticker or name to the canonical symbol and market the other gainlab tools take (BTC → BTCUSDT/crypto, 600519 → 600519.SHG/a_stock, " +
+    "gold → XAUUSD/commodity). Returns ranked candidates with confidence, and flags ambiguous queries.",
+    SearchSchema,
+    async (params) => {
+      try {
+        const resolution = await resolveSymbol(params.query, { market: params.market, limit: params.limit });
+        const summaryText = [
+          `🔎 "${params.query}"${params.market ? ` in ${params.market}` : ""}: ${verdict(resolution)}`,
+          ...resolution.candidates.map(formatMatch),
+          `Source: ${resolution.searched.join(" + ")}`,
+        ].join("\n");
+
+        return {
+          content: [
+            { type: "text" as const, text: summaryText },
+            { type: "text" as const, text: JSON.stringify(resolution, null, 2) },
+          ],
+        };
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `Error: ${error.message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -2,16 +2,23 @@
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getKlines } from "../data/index.js";
+import { getKlines, parseDateRange, trackSources, formatSources } from "../data/index.js";
 import { calculateVolumeProfile } from "../utils/volume-profile.js";
 import { buildVolumeProfileOption } from "../render/charts/volume-profile.js";
 import { renderToPNG, renderToHTML } from "../render/engine.js";
 
 const VolumeProfileSchema = {
   symbol: z.string().describe('Trading pair or ticker symbol'),
-  market: z.enum(["crypto", "us_stock", "a_stock", "commodity"]).describe("Market type"),
-  timeframe: z.enum(["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"]).default("1d"),
+  market: z.enum(["crypto", "us_stock", "a_stock", "commodity", "local"]).describe("Market type"),
+  timeframe: z.templateLiteral([z.number().int().positive(), z.enum(["m", "h", "d", "w", "M"])])
+    .default("1d")
+    .describe("Timeframe: 1m, 5m, 15m, 1h, 4h, 1d, 1w, 1M, or any multiple such as 2h, 3d, 12h (resampled)"),
+  session: z.enum(["regular", "extended"]).default("regular").describe("Intraday US stocks: regular hours or include pre/after-market"),
+  adjustment: z.enum(["none", "split", "split+dividend", "qfq", "hfq"]).default("split").describe("Stocks: corporate-action adjustment — none (as traded), split, split+dividend, qfq (前复权, same as split+dividend) or hfq (后复权); crypto and commodities are unaffected"),
+  cache: z.enum(["use", "bypass", "refresh"]).default("use").describe("Local kline cache: use (serve cached bars, fetch only newer ones), bypass (fetch everything, leave the cache as is) or refresh (refetch and overwrite the cached entry)"),
   limit: z.number().min(30).max(500).default(120).describe("Number of candles for VP calculation"),
+  start: z.string().optional().describe("Range start, YYYY-MM-DD or ISO datetime (UTC); returns every bar up to end and overrides limit"),
+  end: z.string().optional().describe("Range end, YYYY-MM-DD (inclusive) or ISO datetime (UTC); default now"),
   rows: z.number().min(10).max(100).default(24).describe("Number of price levels"),
   value_area_percent: z.number().min(0.5).max(0.95).default(0.7).describe("Value Area percentage (0.7 = 70%)"),
   format: z.enum(["interactive", "image"]).default("interactive"),
@@ -24,7 +31,15 @@ export function registerVolumeProfileTool(server: McpServer) {
     VolumeProfileSchema,
     async (params) => {
       try {
-        const data = await getKlines(params.symbol, params.market, params.timeframe, params.limit);
+        const { result: data, sources } = await trackSources(() =>
+          getKlines(params.symbol, params.market, params.timeframe, params.limit, {
+            session: params.session,
+            adjustment: params.adjustment,
+            cache: params.cache,
+            ...parseDateRange(params.start, params.end),
+          })
+        );
+        const sourceText = `Source: ${formatSources(sources)}`;
 
         if (data.length === 0) {
           return {
@@ -46,11 +61,14 @@ export function registerVolumeProfileTool(server: McpServer) {
         if (params.format === "image") {
           const pngBuffer = await renderToPNG(option);
           return {
-            content: [{
-              type: "image",
-              data: pngBuffer.toString("base64"),
-              mimeType: "image/png",
-            }],
+            content: [
+              { type: "text", text: sourceText },
+              {
+                type: "image",
+                data: pngBuffer.toString("base64"),
+                mimeType: "image/png",
+              },
+            ],
           };
         } else {
           const html = renderToHTML(option);
@@ -64,6 +82,7 @@ export function registerVolumeProfileTool(server: McpServer) {
                   `VAH: ${vpResult.vah.toFixed(2)}`,
                   `VAL: ${vpResult.val.toFixed(2)}`,
                   `Value Area: ${(vpResult.valueAreaPercent * 100).toFixed(0)}%`,
+                  sourceText,
                 ].join("\n"),
               },
               {
@@ -1,15 +1,22 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getKlines } from "../data/index.js";
+import { getKlines, parseDateRange, trackSources, formatSources } from "../data/index.js";
 import { analyzeWRB } from "../utils/wrb.js";
 import { buildWRBScoringOption } from "../render/charts/wrb-scoring.js";
 import { renderToPNG, renderToHTML } from "../render/engine.js";
 
 const WRBScoringSchema = {
   symbol: z.string().describe("Asset symbol (e.g., BTCUSDT, AAPL, 600519)"),
-  market: z.enum(["crypto", "us_stock", "a_stock", "commodity"]).describe("Market type"),
-  timeframe: z.enum(["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"]).default("1d").describe("Timeframe"),
+  market: z.enum(["crypto", "us_stock", "a_stock", "commodity", "local"]).describe("Market type"),
+  timeframe: z.templateLiteral([z.number().int().positive(), z.enum(["m", "h", "d", "w", "M"])])
+    .default("1d")
+    .describe("Timeframe: 1m, 5m, 15m, 1h, 4h, 1d, 1w, 1M, or any multiple such as 2h, 3d, 12h (resampled)"),
+  session: z.enum(["regular", "extended"]).default("regular").describe("Intraday US stocks: regular hours or include pre/after-market"),
+  adjustment: z.enum(["none", "split", "split+dividend", "qfq", "hfq"]).default("split").describe("Stocks: corporate-action adjustment — none (as traded), split, split+dividend, qfq (前复权, same as split+dividend) or hfq (后复权); crypto and commodities are unaffected"),
+  cache: z.enum(["use", "bypass", "refresh"]).default("use").describe("Local kline cache: use (serve cached bars, fetch only newer ones), bypass (fetch everything, leave the cache as is) or refresh (refetch and overwrite the cached entry)"),
   limit: z.number().min(50).max(500).default(200).describe("Number of candles to analyze"),
+  start: z.string().optional().describe("Range start, YYYY-MM-DD or ISO datetime (UTC); returns every bar up to end and overrides limit"),
+  end: z.string().optional().describe("Range end, YYYY-MM-DD (inclusive) or ISO datetime (UTC); default now"),
   lookback_period: z.number().min(3).max(20).default(5).describe("WRB lookback period"),
   sensitivity: z.number().min(1.0).max(3.0).default(1.5).describe("WRB sensitivity multiplier"),
   use_body: z.boolean().default(true).describe("Use candle body (true) or full range (false) for WRB detection"),
@@ -27,7 +34,15 @@ export function registerWRBScoringTool(server: McpServer) {
     async (params) => {
       try {
         // 1. Fetch klines
-        const data = await getKlines(params.symbol, params.market, params.timeframe, params.limit);
+        const { result: data, sources } = await trackSources(() =>
+          getKlines(params.symbol, params.market, params.timeframe, params.limit, {
+            session: params.session,
+            adjustment: params.adjustment,
+            cache: params.cache,
+            ...parseDateRange(params.start, params.end),
+          })
+        );
+        const sourceText = `Source: ${formatSources(sources)}`;
         
         if (data.length === 0) {
           return {
@@ -70,6 +85,7 @@ export function registerWRBScoringTool(server: McpServer) {
           const direction = signal.type === "buy" ? "🟢 Bullish" : "🔴 Bearish";
           summaryText += `\n\nLatest signal: ${direction}${signal.pro ? " (PRO)" : ""} at candle #${signal.index}`;
         }
+        summaryText += `\n${sourceText}`;
 
         // 5. Render
         if (params.format === "image") {
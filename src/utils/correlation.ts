@@ -2,7 +2,7 @@
  * Pearson correlation coefficient calculation for financial data.
  */
 
-import { getKlines, type OHLCV, type Market } from "../data/index.js";
+import { getKlines, type OHLCV, type Market, type PriceAdjustment } from "../data/index.js";
 
 /**
  * Calculate Pearson correlation coefficient between two arrays.
@@ -60,10 +60,14 @@ export interface CorrelationMatrix {
  * 3. Find common dates across all assets
  * 4. Compute daily returns on common dates
  * 5. Calculate pairwise Pearson correlation
+ *
+ * Stock prices are split- and dividend-adjusted by default so ex-dates
+ * don't show up as one-day crashes in the returns.
  */
 export async function buildCorrelationMatrix(
   assets: { symbol: string; market: Market }[],
-  days: number = 90
+  days: number = 90,
+  adjustment: PriceAdjustment = "split+dividend"
 ): Promise<CorrelationMatrix> {
   if (assets.length < 2) {
     throw new Error("Need at least 2 assets for correlation matrix");
@@ -76,7 +80,7 @@ export async function buildCorrelationMatrix(
   // Request extra days to account for weekends/holidays
   const fetchLimit = Math.ceil(days * 1.5);
   const allKlines = await Promise.all(
-    assets.map(a => getKlines(a.symbol, a.market, "1d", fetchLimit))
+    assets.map(a => getKlines(a.symbol, a.market, "1d", fetchLimit, { adjustment }))
   );
 
   // Build price map per asset: { "2026-01-15": closePrice }
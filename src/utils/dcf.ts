@@ -0,0 +1,200 @@
+// Discounted cash flow — free cash flow projected through growth stages,
+// discounted at WACC (given or built from CAPM), plus a terminal value from
+// perpetual growth or an exit multiple, bridged to equity value per share
+
+/** Default stage growth never exceeds this when derived from history */
+const MAX_DEFAULT_GROWTH = 0.15;
+/** Used when history can't give a growth rate (too short or negative FCF) */
+const FALLBACK_GROWTH = 0.05;
+/** Years in each of the two default stages */
+const DEFAULT_STAGE_YEARS = 5;
+
+export interface GrowthStage {
+  years: number;
+  growth: number;  // annual FCF growth, fraction
+}
+
+export type TerminalValueMethod =
+  | { method: "growth"; growth: number }       // Gordon growth on the year after the forecast
+  | { method: "multiple"; multiple: number };  // × final forecast year FCF
+
+export interface DCFInputs {
+  baseFcf: number;          // last actual (or average) free cash flow
+  stages: GrowthStage[];
+  discountRate: number;     // WACC, fraction
+  terminal: TerminalValueMethod;
+  netDebt: number;          // debt − cash; negative for net cash
+  sharesOutstanding: number;
+}
+
+export interface ProjectedCashFlow {
+  year: number;             // 1 = first forecast year
+  growth: number;
+  fcf: number;
+  discountFactor: number;
+  presentValue: number;
+}
+
+export interface DCFValuation {
+  projections: ProjectedCashFlow[];
+  pvForecast: number;
+  terminalValue: number;    // at the end of the forecast
+  pvTerminal: number;
+  enterpriseValue: number;
+  equityValue: number;
+  perShare: number;
+  terminalShare: number;    // PV of terminal value / enterprise value
+}
+
+export interface CapitalCostInputs {
+  riskFreeRate: number;
+  beta: number;
+  equityRiskPremium: number;
+  costOfDebt?: number;      // pre-tax; without it debt is left out of the weights
+  taxRate: number;
+  equityValue: number;      // market capitalization
+  debtValue: number;
+}
+
+export interface CapitalCost {
+  costOfEquity: number;
+  afterTaxCostOfDebt: number | null;
+  debtWeight: number;
+  wacc: number;
+}
+
+/** CAPM cost of equity, weighted with after-tax cost of debt by market values */
+export function capitalCost(inputs: CapitalCostInputs): CapitalCost {
+  const costOfEquity = inputs.riskFreeRate + inputs.beta * inputs.equityRiskPremium;
+  const debt = Math.max(inputs.debtValue, 0);
+  if (inputs.costOfDebt === undefined || debt === 0 || inputs.equityValue <= 0) {
+    return { costOfEquity, afterTaxCostOfDebt: null, debtWeight: 0, wacc: costOfEquity };
+  }
+  const afterTaxCostOfDebt = inputs.costOfDebt * (1 - inputs.taxRate);
+  const debtWeight = debt / (debt + inputs.equityValue);
+  return {
+    costOfEquity,
+    afterTaxCostOfDebt,
+    debtWeight,
+    wacc: (1 - debtWeight) * costOfEquity + debtWeight * afterTaxCostOfDebt,
+  };
+}
+
+/** Compound annual growth of free cash flow, oldest first; null unless both ends are positive */
+export function historicalGrowth(fcf: number[]): number | null {
+  if (fcf.length < 2) return null;
+  const first = fcf[0];
+  const last = fcf[fcf.length - 1];
+  if (first <= 0 || last <= 0) return null;
+  return (last / first) ** (1 / (fcf.length - 1)) - 1;
+}
+
+/**
+ * Two stages when none are given: historical growth (clamped to 0–15%) for
+ * five years, then five years halfway between that and terminal growth.
+ */
+export function defaultStages(historical: number | null, terminalGrowth: number): GrowthStage[] {
+  const growth = Math.min(Math.max(historical ?? FALLBACK_GROWTH, 0), MAX_DEFAULT_GROWTH);
+  return [
+    { years: DEFAULT_STAGE_YEARS, growth },
+    { years: DEFAULT_STAGE_YEARS, growth: (growth + terminalGrowth) / 2 },
+  ];
+}
+
+/** Value the cash flows and bridge enterprise value to a per-share figure */
+export function discountCashFlows(inputs: DCFInputs): DCFValuation {
+  const { baseFcf, stages, discountRate, terminal, netDebt, sharesOutstanding } = inputs;
+  if (!(sharesOutstanding > 0)) {
+    throw new Error("Shares outstanding must be positive");
+  }
+  if (terminal.method === "growth" && discountRate <= terminal.growth) {
+    throw new Error(
+      `Discount rate (${(discountRate * 100).toFixed(2)}%) must exceed terminal growth (${(terminal.growth * 100).toFixed(2)}%)`
+    );
+  }
+
+  const projections: ProjectedCashFlow[] = [];
+  let fcf = baseFcf;
+  for (const stage of stages) {
+    for (let i = 0; i < stage.years; i++) {
+      fcf *= 1 + stage.growth;
+      const year = projections.length + 1;
+      const discountFactor = 1 / (1 + discountRate) ** year;
+      projections.push({ year, growth: stage.growth, fcf, discountFactor, presentValue: fcf * discountFactor });
+    }
+  }
+  if (projections.length === 0) {
+    throw new Error("At least one forecast year is needed");
+  }
+
+  const last = projections[projections.length - 1];
+  const terminalValue = terminal.method === "growth"
+    ? (last.fcf * (1 + terminal.growth)) / (discountRate - terminal.growth)
+    : last.fcf * terminal.multiple;
+  const pvTerminal = terminalValue * last.discountFactor;
+  const pvForecast = projections.reduce((sum, p) => sum + p.presentValue, 0);
+  const enterpriseValue = pvForecast + pvTerminal;
+  const equityValue = enterpriseValue - netDebt;
+
+  return {
+    projections,
+    pvForecast,
+    terminalValue,
+    pvTerminal,
+    enterpriseValue,
+    equityValue,
+    perShare: equityValue / sharesOutstanding,
+    terminalShare: enterpriseValue !== 0 ? pvTerminal / enterpriseValue : 0,
+  };
+}
+
+export interface SensitivityGrid {
+  discountRates: number[];
+  terminalValues: number[];        // terminal growth rates or exit multiples, per `terminal.method`
+  perShare: (number | null)[][];   // [discount rate][terminal value]; null where the rate doesn't exceed growth
+}
+
+/** `count` values spaced `step` apart, centered on `center` */
+export function centeredRange(center: number, step: number, count: number): number[] {
+  const half = Math.floor(count / 2);
+  return Array.from({ length: count }, (_, i) => Number((center + (i - half) * step).toFixed(10)));
+}
+
+/** Per-share value across discount rates × terminal growth (or exit multiples) */
+export function sensitivityGrid(inputs: DCFInputs, discountRates: number[], terminalValues: number[]): SensitivityGrid {
+  const perShare = discountRates.map((discountRate) =>
+    terminalValues.map((value) => {
+      const terminal: TerminalValueMethod = inputs.terminal.method === "growth"
+        ? { method: "growth", growth: value }
+        : { method: "multiple", multiple: value };
+      if (terminal.method === "growth" && discountRate <= terminal.growth) return null;
+      return discountCashFlows({ ...inputs, discountRate, terminal }).perShare;
+    })
+  );
+  return { discountRates, terminalValues, perShare };
+}
+
+/** The same model with one growth rate over `years` */
+export function withUniformGrowth(inputs: DCFInputs, growth: number, years: number): DCFInputs {
+  return { ...inputs, stages: [{ years, growth }] };
+}
+
+const IMPLIED_GROWTH_BOUNDS: [number, number] = [-0.5, 1];
+
+/**
+ * Reverse DCF: the single FCF growth rate over `years` at which the model's
+ * per-share value equals `price`. Null when the price is outside what
+ * −50%…+100% growth can produce. Value rises with growth while base FCF is
+ * positive, so bisection converges.
+ */
+export function impliedGrowth(inputs: DCFInputs, price: number, years: number): number | null {
+  const value = (growth: number) => discountCashFlows(withUniformGrowth(inputs, growth, years)).perShare;
+  let [lo, hi] = IMPLIED_GROWTH_BOUNDS;
+  if (price < value(lo) || price > value(hi)) return null;
+  for (let i = 0; i < 100 && hi - lo > 1e-9; i++) {
+    const mid = (lo + hi) / 2;
+    if (value(mid) < price) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
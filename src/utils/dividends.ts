@@ -0,0 +1,145 @@
+// Dividend history — split-adjusted payouts per share, calendar-year totals,
+// growth (CAGR), payout ratio and trailing 12-month yield against daily closes
+
+import type { OHLCV, FundamentalData } from "../data/types.js";
+import type { CorporateAction } from "../data/adjust.js";
+
+const YEAR_MS = 365 * 86_400_000;
+/** Spans the growth summary reports when the history is long enough */
+const GROWTH_SPANS = [1, 3, 5, 10];
+
+export interface DividendPayment {
+  date: number;       // ex-date (UTC midnight ms)
+  amount: number;     // per share today, after later splits
+  rawAmount: number;  // as paid
+}
+
+export interface AnnualDividend {
+  year: number;
+  total: number;      // split-adjusted per share
+  payments: number;
+  payoutRatio: number | null;  // dividends paid / net income for that fiscal year
+  partial: boolean;            // the running year
+}
+
+export interface DividendGrowth {
+  years: number;
+  cagr: number;       // fraction per year
+}
+
+export interface YieldPoint {
+  timestamp: number;
+  ttmDividend: number;
+  yield: number;      // fraction
+}
+
+export interface DividendAnalysis {
+  payments: DividendPayment[];  // oldest first
+  annual: AnnualDividend[];     // oldest first; the current year is partial
+  growth: DividendGrowth[];     // over full calendar years only
+  yields: YieldPoint[];         // one per daily close
+  currentYield: number | null;
+  ttmDividend: number;
+  paymentsPerYear: number;      // ex-dates in the last 12 months
+}
+
+/**
+ * Cash dividends restated per share of today: each is divided by the ratio
+ * of every split after its ex-date, matching split-adjusted prices.
+ */
+export function splitAdjustDividends(actions: CorporateAction[]): DividendPayment[] {
+  const splits = actions.filter((a): a is Extract<CorporateAction, { type: "split" }> => a.type === "split" && a.ratio > 0);
+  return actions
+    .filter((a): a is Extract<CorporateAction, { type: "dividend" }> => a.type === "dividend" && a.amount > 0)
+    .map((d) => {
+      const factor = splits.filter((s) => s.date > d.date).reduce((f, s) => f * s.ratio, 1);
+      return { date: d.date, amount: d.amount / factor, rawAmount: d.amount };
+    })
+    .sort((a, b) => a.date - b.date);
+}
+
+/** Calendar-year totals, with payout ratios joined from annual cash flow statements */
+export function annualDividends(
+  payments: DividendPayment[],
+  cashFlow: FundamentalData[] = [],
+  currentYear: number = new Date().getUTCFullYear()
+): AnnualDividend[] {
+  const payout = new Map<number, number>();
+  for (const row of cashFlow) {
+    const { dividendsPaid, netIncome } = row.metrics;
+    if (dividendsPaid != null && netIncome != null && netIncome > 0) {
+      payout.set(parseInt(row.period), dividendsPaid / netIncome);
+    }
+  }
+
+  const byYear = new Map<number, AnnualDividend>();
+  for (const p of payments) {
+    const year = new Date(p.date).getUTCFullYear();
+    const row = byYear.get(year) ?? { year, total: 0, payments: 0, payoutRatio: payout.get(year) ?? null, partial: year >= currentYear };
+    row.total += p.amount;
+    row.payments++;
+    byYear.set(year, row);
+  }
+  return [...byYear.values()].sort((a, b) => a.year - b.year);
+}
+
+/**
+ * Compound growth of the yearly total over each span ending at the last full
+ * year with payouts. Spans that start before the first payment are skipped.
+ */
+export function dividendGrowth(annual: AnnualDividend[]): DividendGrowth[] {
+  const full = new Map(annual.filter((a) => !a.partial).map((a) => [a.year, a.total]));
+  const last = Math.max(...full.keys());
+  const end = full.get(last);
+  if (!end) return [];
+  return GROWTH_SPANS.flatMap((years) => {
+    const start = full.get(last - years);
+    return start ? [{ years, cagr: (end / start) ** (1 / years) - 1 }] : [];
+  });
+}
+
+/** Sum of ex-dates in the 365 days up to each close, over that close */
+export function trailingYield(candles: OHLCV[], payments: DividendPayment[]): YieldPoint[] {
+  let from = 0;
+  let to = 0;
+  let ttm = 0;
+  return candles.map((c) => {
+    while (to < payments.length && payments[to].date <= c.timestamp) ttm += payments[to++].amount;
+    while (from < to && payments[from].date <= c.timestamp - YEAR_MS) ttm -= payments[from++].amount;
+    // Running sums drift by float error; snap an empty window back to zero
+    if (from === to) ttm = 0;
+    return { timestamp: c.timestamp, ttmDividend: ttm, yield: c.close > 0 ? ttm / c.close : 0 };
+  });
+}
+
+/**
+ * Full dividend picture for one stock.
+ * @param actions Split and dividend history (getCorporateActions)
+ * @param candles Split-adjusted daily closes for the yield history
+ * @param cashFlow Annual cash flow statements for payout ratios
+ * @param now Reference time for the trailing figures
+ */
+export function analyzeDividends(
+  actions: CorporateAction[],
+  candles: OHLCV[],
+  cashFlow: FundamentalData[] = [],
+  now: number = Date.now()
+): DividendAnalysis {
+  // Announced splits and ex-dates still ahead don't apply yet
+  const payments = splitAdjustDividends(actions.filter((a) => a.date <= now));
+  const annual = annualDividends(payments, cashFlow, new Date(now).getUTCFullYear());
+  const yields = trailingYield(candles, payments);
+  const lastYear = payments.filter((p) => p.date > now - YEAR_MS);
+  const ttmDividend = lastYear.reduce((sum, p) => sum + p.amount, 0);
+  const lastClose = candles[candles.length - 1]?.close;
+
+  return {
+    payments,
+    annual,
+    growth: dividendGrowth(annual),
+    yields,
+    currentYield: lastClose ? ttmDividend / lastClose : null,
+    ttmDividend,
+    paymentsPerYear: lastYear.length,
+  };
+}
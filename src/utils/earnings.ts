@@ -0,0 +1,127 @@
+// Earnings surprises — reported EPS/revenue against the consensus going in,
+// the price reaction around each report and the average drift after beats
+// vs misses (post-earnings announcement drift)
+
+import type { OHLCV, EarningsReport } from "../data/types.js";
+
+/** Trading sessions after the report day the reaction is measured at */
+export const DEFAULT_REACTION_HORIZONS = [1, 5, 20];
+
+export type EarningsOutcome = "beat" | "miss" | "inline";
+
+export interface EarningsSurprise {
+  date: string;
+  epsActual: number;
+  epsEstimate: number | null;
+  epsSurprise: number | null;      // fraction of |estimate|
+  revenueActual: number | null;
+  revenueEstimate: number | null;
+  revenueSurprise: number | null;  // fraction of the estimate
+  outcome: EarningsOutcome | null; // on EPS to the cent; null without an estimate
+  returns: (number | null)[];      // per horizon; null until enough sessions have passed
+}
+
+export interface DriftSummary {
+  outcome: EarningsOutcome;
+  count: number;
+  avgReturns: (number | null)[];     // per horizon
+  positiveShare: (number | null)[];  // reports that were up by then
+}
+
+export interface EarningsAnalysis {
+  horizons: number[];
+  reports: EarningsSurprise[];     // oldest first
+  upcoming: EarningsReport | null; // next scheduled report, if announced
+  beatRate: number | null;
+  avgEpsSurprise: number | null;
+  drift: DriftSummary[];           // beat, miss, inline — outcomes that occurred
+}
+
+const DAY_MS = 86_400_000;
+const reportTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+function surprise(actual: number | null, estimate: number | null): number | null {
+  if (actual === null || estimate === null || estimate === 0) return null;
+  return (actual - estimate) / Math.abs(estimate);
+}
+
+/** EPS is reported in cents; compare at that precision so 1.62 vs a 1.6235 consensus is in line */
+function classify(actual: number, estimate: number | null): EarningsOutcome | null {
+  if (estimate === null) return null;
+  const a = Math.round(actual * 100);
+  const e = Math.round(estimate * 100);
+  return a > e ? "beat" : a < e ? "miss" : "inline";
+}
+
+/**
+ * Return from the last close before the report day to the close `horizon`
+ * sessions after it. Starting before the report day and ending after it
+ * catches the reaction whether the company reported before the open or after
+ * the close, which report dates alone don't tell.
+ */
+export function reactionReturns(candles: OHLCV[], date: string, horizons: number[] = DEFAULT_REACTION_HORIZONS): (number | null)[] {
+  const day = reportTime(date);
+  const reportIdx = candles.findIndex((c) => c.timestamp >= day);
+  // A report on a holiday or weekend lands on the next session
+  const onSession = reportIdx >= 0 && candles[reportIdx].timestamp < day + DAY_MS;
+  const base = reportIdx > 0 ? candles[reportIdx - 1].close : null;
+  return horizons.map((h) => {
+    const end = reportIdx < 0 ? -1 : reportIdx + (onSession ? h : h - 1);
+    if (base === null || base <= 0 || end < 0 || end >= candles.length) return null;
+    return candles[end].close / base - 1;
+  });
+}
+
+function summarize(outcome: EarningsOutcome, reports: EarningsSurprise[], horizons: number[]): DriftSummary {
+  const group = reports.filter((r) => r.outcome === outcome);
+  const known = horizons.map((_h, i) => group.map((r) => r.returns[i]).filter((v): v is number => v !== null));
+  return {
+    outcome,
+    count: group.length,
+    avgReturns: known.map((values) => (values.length ? values.reduce((s, v) => s + v, 0) / values.length : null)),
+    positiveShare: known.map((values) => (values.length ? values.filter((v) => v > 0).length / values.length : null)),
+  };
+}
+
+/**
+ * Join each reported quarter with its consensus and price reaction.
+ * @param history Earnings reports in any order; unreported ones become `upcoming`
+ * @param candles Split-adjusted daily closes covering the reports plus the longest horizon
+ * @param horizons Sessions after the report day to measure returns at
+ */
+export function analyzeEarnings(
+  history: EarningsReport[],
+  candles: OHLCV[],
+  horizons: number[] = DEFAULT_REACTION_HORIZONS
+): EarningsAnalysis {
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  const reported = sorted.filter((r): r is EarningsReport & { epsActual: number } => r.epsActual !== null);
+  const upcoming = sorted.find((r) => r.epsActual === null && r.date > (reported[reported.length - 1]?.date ?? "")) ?? null;
+
+  const reports: EarningsSurprise[] = reported.map((r) => ({
+    date: r.date,
+    epsActual: r.epsActual,
+    epsEstimate: r.epsEstimate,
+    epsSurprise: surprise(r.epsActual, r.epsEstimate),
+    revenueActual: r.revenueActual,
+    revenueEstimate: r.revenueEstimate,
+    revenueSurprise: surprise(r.revenueActual, r.revenueEstimate),
+    outcome: classify(r.epsActual, r.epsEstimate),
+    returns: reactionReturns(candles, r.date, horizons),
+  }));
+
+  const classified = reports.filter((r) => r.outcome !== null);
+  const surprises = reports.map((r) => r.epsSurprise).filter((s): s is number => s !== null);
+  const outcomes: EarningsOutcome[] = ["beat", "miss", "inline"];
+
+  return {
+    horizons,
+    reports,
+    upcoming,
+    beatRate: classified.length ? classified.filter((r) => r.outcome === "beat").length / classified.length : null,
+    avgEpsSurprise: surprises.length ? surprises.reduce((s, v) => s + v, 0) / surprises.length : null,
+    drift: outcomes
+      .map((o) => summarize(o, reports, horizons))
+      .filter((d) => d.count > 0),
+  };
+}
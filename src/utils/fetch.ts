@@ -1,10 +1,17 @@
-import { ProxyAgent } from "undici";
+import { ProxyAgent, WebSocket, type Dispatcher } from "undici";
 
 const PROXY_URL = process.env.HTTP_PROXY || process.env.HTTPS_PROXY || "http://127.0.0.1:7897";
 
 const NO_PROXY_HOSTS = ["127.0.0.1", "localhost", "volcengineapi.com", "dashscope.aliyuncs.com"];
 
+/** After the proxy refuses a connection, go direct for this long before trying it again */
+const PROXY_RETRY_MS = 60_000;
+
+/** Give up on a WebSocket handshake after this long */
+const WS_CONNECT_TIMEOUT_MS = 10_000;
+
 let proxyAgent: ProxyAgent | null = null;
+let proxyDownUntil = 0;
 
 function getProxyAgent(): ProxyAgent {
   if (!proxyAgent) {
@@ -13,16 +20,25 @@ function getProxyAgent(): ProxyAgent {
   return proxyAgent;
 }
 
+function errorCode(error: unknown): string | undefined {
+  return (error as { cause?: { code?: string } })?.cause?.code;
+}
+
 /**
  * Fetch with automatic proxy support.
  * Uses Node 18+ global fetch (undici under the hood) + ProxyAgent dispatcher.
  * Skips proxy for local and China services.
+ *
+ * Only a proxy that refuses connections (not running) falls back to a direct
+ * fetch, with a warning on stderr; any other failure is the caller's to
+ * handle, so a slow upstream is never requested twice. Single attempt, no
+ * timeout — providers should use httpFetch (utils/http.ts) instead.
  */
 export async function proxyFetch(url: string, options?: RequestInit): Promise<Response> {
   const urlObj = new URL(url);
   const needsProxy = !NO_PROXY_HOSTS.some(h => urlObj.hostname.includes(h));
 
-  if (needsProxy) {
+  if (needsProxy && Date.now() >= proxyDownUntil) {
     try {
       // Node 18+ global fetch accepts undici dispatcher
       return await fetch(url, {
@@ -30,11 +46,59 @@ export async function proxyFetch(url: string, options?: RequestInit): Promise<Re
         // @ts-expect-error -- Node 18+ fetch accepts dispatcher from undici
         dispatcher: getProxyAgent(),
       });
-    } catch {
-      // Fallback to direct fetch if proxy fails
-      return await fetch(url, options);
+    } catch (error) {
+      if (errorCode(error) !== "ECONNREFUSED") throw error;
+      // stdout carries the MCP protocol, so warn on stderr
+      console.error(`[gainlab] proxy ${PROXY_URL} refused connection, using direct connections for ${PROXY_RETRY_MS / 1000}s`);
+      proxyDownUntil = Date.now() + PROXY_RETRY_MS;
     }
   }
 
   return await fetch(url, options);
 }
+
+/** Resolves with the socket once it's open; the error names host+path only */
+function connectWebSocket(url: string, dispatcher?: Dispatcher): Promise<WebSocket> {
+  const { host, pathname } = new URL(url);
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url, dispatcher ? { dispatcher } : undefined);
+    const fail = (reason: string) => {
+      clearTimeout(timer);
+      ws.close();
+      reject(new Error(`WebSocket ${host}${pathname} ${reason}`));
+    };
+    const onError = () => fail("connection failed");
+    const timer = setTimeout(() => fail(`timed out after ${WS_CONNECT_TIMEOUT_MS}ms`), WS_CONNECT_TIMEOUT_MS);
+    ws.addEventListener("error", onError, { once: true });
+    ws.addEventListener("open", () => {
+      clearTimeout(timer);
+      ws.removeEventListener("error", onError);
+      resolve(ws);
+    }, { once: true });
+  });
+}
+
+/**
+ * Open a WebSocket with the same proxy rules as proxyFetch. WebSocket errors
+ * don't say why, so any failure through the proxy is retried direct, and a
+ * direct success skips the proxy for PROXY_RETRY_MS.
+ */
+export async function proxyWebSocket(url: string): Promise<WebSocket> {
+  const urlObj = new URL(url);
+  const needsProxy = !NO_PROXY_HOSTS.some(h => urlObj.hostname.includes(h));
+
+  if (needsProxy && Date.now() >= proxyDownUntil) {
+    try {
+      return await connectWebSocket(url, getProxyAgent());
+    } catch (error) {
+      const ws = await connectWebSocket(url).catch(() => {
+        throw error;
+      });
+      console.error(`[gainlab] WebSocket via proxy ${PROXY_URL} failed, using direct connections for ${PROXY_RETRY_MS / 1000}s`);
+      proxyDownUntil = Date.now() + PROXY_RETRY_MS;
+      return ws;
+    }
+  }
+
+  return connectWebSocket(url);
+}
@@ -0,0 +1,102 @@
+// Funding rate analysis — annualized carry, cumulative funding and where the
+// current rate sits in its own history
+
+import type { FundingRate } from "../data/crypto.js";
+
+const HOUR_MS = 3_600_000;
+const YEAR_MS = 365 * 24 * HOUR_MS;
+/** Binance's standard settlement interval, used when history is too short to tell */
+const DEFAULT_INTERVAL_MS = 8 * HOUR_MS;
+
+export interface FundingPoint {
+  timestamp: number;
+  rate: number;         // per interval, fraction
+  intervalHours: number;
+  annualized: number;   // rate × intervals per year, fraction
+  cumulative: number;   // running sum of rates since the first event, fraction
+}
+
+export interface FundingExtreme {
+  timestamp: number;
+  rate: number;
+}
+
+export interface FundingStats {
+  count: number;
+  intervalHours: number;      // typical settlement interval
+  mean: number;
+  meanAnnualized: number;
+  min: FundingExtreme;
+  max: FundingExtreme;
+  current: number;
+  currentAnnualized: number;
+  currentPercentile: number;  // % of observations at or below the current rate
+  positiveShare: number;      // fraction of events where longs paid shorts
+  cumulative: number;
+}
+
+export interface FundingAnalysis {
+  points: FundingPoint[];
+  stats: FundingStats | null;  // null without any events
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Annualize and accumulate a funding history.
+ * Each event is annualized by the gap since the previous settlement, so
+ * contracts that switch from 8h to 4h funding keep comparable carry.
+ * Settlement times jitter by a few ms, hence the rounding to whole hours.
+ */
+export function analyzeFunding(rates: FundingRate[]): FundingAnalysis {
+  if (rates.length === 0) {
+    return { points: [], stats: null };
+  }
+  const sorted = [...rates].sort((a, b) => a.timestamp - b.timestamp);
+
+  const gaps = sorted.slice(1).map((r, i) => Math.round((r.timestamp - sorted[i].timestamp) / HOUR_MS) * HOUR_MS);
+  const typicalInterval = gaps.length > 0 ? median(gaps) || DEFAULT_INTERVAL_MS : DEFAULT_INTERVAL_MS;
+
+  let cumulative = 0;
+  const points: FundingPoint[] = sorted.map((r, i) => {
+    const interval = i > 0 && gaps[i - 1] > 0 ? gaps[i - 1] : typicalInterval;
+    cumulative += r.fundingRate;
+    return {
+      timestamp: r.timestamp,
+      rate: r.fundingRate,
+      intervalHours: interval / HOUR_MS,
+      annualized: r.fundingRate * (YEAR_MS / interval),
+      cumulative,
+    };
+  });
+
+  let min = points[0];
+  let max = points[0];
+  for (const p of points) {
+    if (p.rate < min.rate) min = p;
+    if (p.rate > max.rate) max = p;
+  }
+  const last = points[points.length - 1];
+  const mean = cumulative / points.length;
+
+  return {
+    points,
+    stats: {
+      count: points.length,
+      intervalHours: typicalInterval / HOUR_MS,
+      mean,
+      meanAnnualized: points.reduce((sum, p) => sum + p.annualized, 0) / points.length,
+      min: { timestamp: min.timestamp, rate: min.rate },
+      max: { timestamp: max.timestamp, rate: max.rate },
+      current: last.rate,
+      currentAnnualized: last.annualized,
+      currentPercentile: (points.filter((p) => p.rate <= last.rate).length / points.length) * 100,
+      positiveShare: points.filter((p) => p.rate > 0).length / points.length,
+      cumulative,
+    },
+  };
+}
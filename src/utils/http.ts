@@ -0,0 +1,222 @@
+/**
+ * Shared HTTP client for all market data providers.
+ *
+ * Wraps proxyFetch with:
+ *   - per-request timeout
+ *   - retries with exponential backoff + full jitter on network errors,
+ *     timeouts, 429 and 5xx, honoring Retry-After
+ *   - per-host token buckets sized to each vendor plan
+ *   - de-duplication of identical in-flight GETs (parallel tools asking for
+ *     the same bars share one upstream request)
+ *
+ * Env:
+ *   GAINLAB_HTTP_TIMEOUT_MS=15000                    — per-attempt timeout
+ *   GAINLAB_HTTP_RETRIES=3                           — retries after the first attempt
+ *   GAINLAB_RATE_LIMITS=financialmodelingprep.com=750 — requests/minute per host, comma-separated
+ */
+
+import { proxyFetch } from "./fetch.js";
+
+export interface HttpRequestOptions extends RequestInit {
+  timeoutMs?: number;  // per attempt (default GAINLAB_HTTP_TIMEOUT_MS or 15s)
+  retries?: number;    // extra attempts (default GAINLAB_HTTP_RETRIES or 3)
+  backoffMs?: number;  // base delay, doubled each retry (default 500ms)
+}
+
+/** Requests per minute by host suffix; defaults match the entry-level paid plans */
+const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  "financialmodelingprep.com": 300,  // FMP Starter
+  "eodhd.com": 1000,                 // EODHD per-minute cap on all plans
+  "api.binance.com": 1200,           // raw request count; weight is tracked in data/crypto.ts
+  "fapi.binance.com": 1200,
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+/** Longer Retry-After waits are returned to the caller instead of slept through */
+const MAX_RETRY_AFTER_MS = 60_000;
+/** Bucket capacity in seconds of refill, i.e. the allowed burst */
+const BURST_SECONDS = 5;
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+/** Connection failures worth another try; DNS misses and refusals are not */
+const RETRYABLE_CODES = new Set([
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// ── Token buckets ──
+
+interface TokenBucket {
+  perMs: number;
+  capacity: number;
+  tokens: number;
+  updatedAt: number;
+  queue: Promise<void>;  // serializes waiters so they're served in order
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+/** Requests/minute for a host: GAINLAB_RATE_LIMITS overrides, then defaults (suffix match) */
+export function getRateLimit(hostname: string): number | null {
+  const limits: Record<string, number> = { ...DEFAULT_RATE_LIMITS };
+  for (const pair of (process.env.GAINLAB_RATE_LIMITS || "").split(",")) {
+    const [host, value] = pair.split("=").map((s) => s.trim());
+    if (host && Number(value) > 0) limits[host] = Number(value);
+  }
+  const match = Object.keys(limits)
+    .filter((host) => hostname === host || hostname.endsWith(`.${host}`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? limits[match] : null;
+}
+
+function getBucket(hostname: string): TokenBucket | null {
+  let bucket = buckets.get(hostname);
+  if (!bucket) {
+    const perMinute = getRateLimit(hostname);
+    if (perMinute === null) return null;
+    const capacity = Math.max(1, Math.floor((perMinute / 60) * BURST_SECONDS));
+    bucket = { perMs: perMinute / 60_000, capacity, tokens: capacity, updatedAt: Date.now(), queue: Promise.resolve() };
+    buckets.set(hostname, bucket);
+  }
+  return bucket;
+}
+
+/** Wait until the host's bucket has a token, then take it */
+function takeToken(hostname: string): Promise<void> {
+  const bucket = getBucket(hostname);
+  if (!bucket) return Promise.resolve();
+
+  const take = async () => {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.perMs);
+    bucket.updatedAt = now;
+    if (bucket.tokens < 1) {
+      const wait = Math.ceil((1 - bucket.tokens) / bucket.perMs);
+      await sleep(wait);
+      bucket.tokens = Math.min(bucket.capacity, bucket.tokens + wait * bucket.perMs);
+      bucket.updatedAt = Date.now();
+    }
+    bucket.tokens -= 1;
+  };
+  bucket.queue = bucket.queue.then(take);
+  return bucket.queue;
+}
+
+/** Forget bucket state, e.g. after changing GAINLAB_RATE_LIMITS */
+export function resetRateLimits(): void {
+  buckets.clear();
+}
+
+// ── Retries ──
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into ms.
+ * @returns Delay in ms, or null if absent/unparseable
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (value.trim() !== "" && Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Full-jitter exponential backoff: random in [0, min(cap, base · 2^attempt)] */
+function backoffDelay(attempt: number, baseMs: number): number {
+  return Math.random() * Math.min(MAX_BACKOFF_MS, baseMs * 2 ** attempt);
+}
+
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) return true;
+  const code = (error as { cause?: { code?: string } })?.cause?.code;
+  return code !== undefined && RETRYABLE_CODES.has(code);
+}
+
+/** Host + path without the query string, which usually carries the API key */
+function describeUrl(url: URL): string {
+  return `${url.hostname}${url.pathname}`;
+}
+
+async function fetchWithRetry(url: string, options: HttpRequestOptions): Promise<Response> {
+  const { timeoutMs, retries, backoffMs, signal, ...init } = options;
+  const timeout = timeoutMs ?? envNumber("GAINLAB_HTTP_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const maxRetries = retries ?? envNumber("GAINLAB_HTTP_RETRIES", DEFAULT_RETRIES);
+  const baseDelay = backoffMs ?? DEFAULT_BACKOFF_MS;
+  const urlObj = new URL(url);
+
+  for (let attempt = 0; ; attempt++) {
+    await takeToken(urlObj.hostname);
+    const attemptSignal = signal
+      ? AbortSignal.any([signal, AbortSignal.timeout(timeout)])
+      : AbortSignal.timeout(timeout);
+
+    let response: Response;
+    try {
+      response = await proxyFetch(url, { ...init, signal: attemptSignal });
+    } catch (error) {
+      // The caller's own abort is final
+      if (signal?.aborted) throw error;
+      const retryable = isRetryableError(error);
+      if (!retryable || attempt >= maxRetries) {
+        const reason = error instanceof Error && error.name === "TimeoutError"
+          ? `timed out after ${timeout}ms`
+          : error instanceof Error ? error.message : String(error);
+        const tries = attempt + 1;
+        throw new Error(`Request to ${describeUrl(urlObj)} failed after ${tries} attempt${tries > 1 ? "s" : ""}: ${reason}`, { cause: error });
+      }
+      await sleep(backoffDelay(attempt, baseDelay));
+      continue;
+    }
+
+    if (!RETRYABLE_STATUS.has(response.status) || attempt >= maxRetries) {
+      return response;
+    }
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+      return response;
+    }
+    // Discard the body so the connection is released
+    await response.body?.cancel().catch(() => undefined);
+    await sleep(Math.max(retryAfter ?? 0, backoffDelay(attempt, baseDelay)));
+  }
+}
+
+// ── De-duplication ──
+
+const inFlight = new Map<string, Promise<Response>>();
+
+/**
+ * Fetch through the shared client. Identical concurrent GETs share one
+ * upstream request; each caller gets its own readable clone.
+ * @returns The final response (possibly a non-2xx once retries are exhausted)
+ * @throws Error after exhausting retries on network failures/timeouts
+ */
+export async function httpFetch(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+  const method = (options.method ?? "GET").toUpperCase();
+  if (method !== "GET" || options.body || options.signal) {
+    return fetchWithRetry(url, options);
+  }
+
+  let shared = inFlight.get(url);
+  if (!shared) {
+    shared = fetchWithRetry(url, options).finally(() => inFlight.delete(url));
+    inFlight.set(url, shared);
+  }
+  return (await shared).clone();
+}
@@ -0,0 +1,174 @@
+// Order book analysis — cumulative depth, bid/ask imbalance near the mid,
+// outsized resting orders ("walls") and the cost of sweeping a given notional
+
+import type { OrderBook, OrderBookLevel } from "../data/crypto.js";
+
+const DEFAULT_RANGE = 0.01;
+const DEFAULT_WALL_MULTIPLE = 5;
+/** Walls reported per side, largest first */
+const MAX_WALLS_PER_SIDE = 3;
+
+export type BookSide = "bid" | "ask";
+
+export interface DepthPoint {
+  price: number;
+  quantity: number;            // at this level, base asset
+  cumulative: number;          // from the best price out to this level, base asset
+  cumulativeNotional: number;  // same in quote asset
+}
+
+export interface OrderBookWall {
+  side: BookSide;
+  price: number;
+  quantity: number;
+  notional: number;
+  distance: number;   // from the mid, fraction (negative below)
+  multiple: number;   // × the side's median level size
+}
+
+export interface SlippageEstimate {
+  side: "buy" | "sell";
+  notional: number;           // requested, quote asset
+  filledNotional: number;     // less than requested when the book runs out
+  averagePrice: number | null;
+  worstPrice: number | null;  // last level touched
+  slippage: number | null;    // average fill vs mid, fraction (a cost, positive)
+  levels: number;
+  complete: boolean;
+}
+
+export interface OrderBookOptions {
+  notional: number;        // order size for slippage estimates, quote asset
+  range?: number;          // ± fraction of mid for depth, imbalance and walls (default 0.01)
+  wallMultiple?: number;   // level size vs the side's median to count as a wall (default 5)
+}
+
+export interface OrderBookAnalysis {
+  symbol: string;
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  spread: number;
+  spreadBps: number;
+  range: number;
+  bids: DepthPoint[];     // within range, best first
+  asks: DepthPoint[];
+  bidNotional: number;    // resting within range
+  askNotional: number;
+  imbalance: number;      // (bids − asks) / (bids + asks) within range, −1…1
+  walls: OrderBookWall[];
+  buy: SlippageEstimate;
+  sell: SlippageEstimate;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Running totals from the best price outward */
+export function cumulativeDepth(levels: OrderBookLevel[]): DepthPoint[] {
+  let cumulative = 0;
+  let cumulativeNotional = 0;
+  return levels.map(({ price, quantity }) => {
+    cumulative += quantity;
+    cumulativeNotional += price * quantity;
+    return { price, quantity, cumulative, cumulativeNotional };
+  });
+}
+
+/** Levels at least `multiple` × the side's median size, largest first */
+export function findWalls(levels: OrderBookLevel[], side: BookSide, mid: number, multiple: number): OrderBookWall[] {
+  const typical = median(levels.map((l) => l.quantity));
+  if (typical <= 0) return [];
+  return levels
+    .filter((l) => l.quantity >= typical * multiple)
+    .map((l) => ({
+      side,
+      price: l.price,
+      quantity: l.quantity,
+      notional: l.price * l.quantity,
+      distance: (l.price - mid) / mid,
+      multiple: l.quantity / typical,
+    }))
+    .sort((a, b) => b.notional - a.notional)
+    .slice(0, MAX_WALLS_PER_SIDE);
+}
+
+/**
+ * Sweep `levels` (best first) with a market order of `notional` quote asset.
+ * The last level is taken partially.
+ */
+export function estimateSlippage(levels: OrderBookLevel[], side: "buy" | "sell", notional: number, mid: number): SlippageEstimate {
+  let filledNotional = 0;
+  let filledQuantity = 0;
+  let worstPrice: number | null = null;
+  let touched = 0;
+  for (const { price, quantity } of levels) {
+    if (filledNotional >= notional) break;
+    const take = Math.min(quantity, (notional - filledNotional) / price);
+    filledQuantity += take;
+    filledNotional += take * price;
+    worstPrice = price;
+    touched++;
+  }
+  const averagePrice = filledQuantity > 0 ? filledNotional / filledQuantity : null;
+  const slippage = averagePrice === null
+    ? null
+    : side === "buy" ? (averagePrice - mid) / mid : (mid - averagePrice) / mid;
+  return {
+    side,
+    notional,
+    filledNotional,
+    averagePrice,
+    worstPrice,
+    slippage,
+    levels: touched,
+    // Float sums of price × quantity land a hair short of the target
+    complete: filledNotional >= notional * (1 - 1e-9),
+  };
+}
+
+/**
+ * Analyze a depth snapshot around its mid price.
+ * @returns null when either side of the book is empty
+ */
+export function analyzeOrderBook(book: OrderBook, options: OrderBookOptions): OrderBookAnalysis | null {
+  const [bestBid, bestAsk] = [book.bids[0]?.price, book.asks[0]?.price];
+  if (bestBid === undefined || bestAsk === undefined) return null;
+
+  const range = options.range ?? DEFAULT_RANGE;
+  const multiple = options.wallMultiple ?? DEFAULT_WALL_MULTIPLE;
+  const mid = (bestBid + bestAsk) / 2;
+  const bidsInRange = book.bids.filter((l) => l.price >= mid * (1 - range));
+  const asksInRange = book.asks.filter((l) => l.price <= mid * (1 + range));
+  const bids = cumulativeDepth(bidsInRange);
+  const asks = cumulativeDepth(asksInRange);
+  const bidNotional = bids.at(-1)?.cumulativeNotional ?? 0;
+  const askNotional = asks.at(-1)?.cumulativeNotional ?? 0;
+  const total = bidNotional + askNotional;
+
+  return {
+    symbol: book.symbol,
+    bestBid,
+    bestAsk,
+    mid,
+    spread: bestAsk - bestBid,
+    spreadBps: ((bestAsk - bestBid) / mid) * 10_000,
+    range,
+    bids,
+    asks,
+    bidNotional,
+    askNotional,
+    imbalance: total > 0 ? (bidNotional - askNotional) / total : 0,
+    walls: [
+      ...findWalls(bidsInRange, "bid", mid, multiple),
+      ...findWalls(asksInRange, "ask", mid, multiple),
+    ],
+    // Slippage walks the whole snapshot, not just the charted range
+    buy: estimateSlippage(book.asks, "buy", options.notional, mid),
+    sell: estimateSlippage(book.bids, "sell", options.notional, mid),
+  };
+}
@@ -0,0 +1,153 @@
+// Order flow — true aggressor volume from trades instead of the candle-color
+// guess in volume profile: per-bar volume delta, cumulative volume delta (CVD)
+// and footprint bars (volume hitting the bid × lifting the ask per price level)
+
+import type { OHLCV } from "../data/types.js";
+import type { AggTrade, AggTradeWindow } from "../data/crypto.js";
+
+/** Footprint price levels per bar the automatic tick size aims for */
+const DEFAULT_FOOTPRINT_ROWS = 12;
+
+export interface DeltaBar {
+  timestamp: number;
+  buyVolume: number;   // taker buys, base asset
+  sellVolume: number;  // taker sells, base asset
+  delta: number;       // buys − sells
+  cvd: number;         // running delta from the first covered bar
+}
+
+export interface FootprintLevel {
+  price: number;       // level floor (price rounded down to the tick)
+  bidVolume: number;   // sells hitting the bid
+  askVolume: number;   // buys lifting the ask
+  delta: number;
+}
+
+export interface FootprintBar extends OHLCV {
+  levels: FootprintLevel[];  // low → high
+  delta: number;
+  poc: number | null;        // level with the most volume, null for a bar without trades
+}
+
+export interface OrderFlowSummary {
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  priceChange: number;  // fraction, first covered open → last close
+  divergence: "bullish" | "bearish" | null;  // price and CVD moving opposite ways
+}
+
+/**
+ * Index of the bar each trade falls in: bar i spans its open time up to the
+ * next bar's, the last bar is open-ended. Trades before the first bar get -1.
+ */
+function barIndexer(candles: OHLCV[]): (timestamp: number) => number {
+  let i = 0;
+  let lastTimestamp = -Infinity;
+  return (timestamp) => {
+    // Trades arrive oldest first; restart if they don't
+    if (timestamp < lastTimestamp) i = 0;
+    lastTimestamp = timestamp;
+    if (candles.length === 0 || timestamp < candles[0].timestamp) return -1;
+    while (i + 1 < candles.length && candles[i + 1].timestamp <= timestamp) i++;
+    return i;
+  };
+}
+
+/** Earliest time a trade window fully covers: its first trade if the fetch stopped short */
+export function coveredFrom(window: AggTradeWindow): number {
+  return window.complete ? -Infinity : window.trades[0]?.timestamp ?? Infinity;
+}
+
+/**
+ * Per-bar taker buy/sell volume and CVD, aligned with `candles`.
+ * Bars opening before `from` (the first trade when the fetch stopped short
+ * of the window) would be partly counted, so they are null and the CVD
+ * starts at the first whole bar.
+ */
+export function calculateVolumeDelta(candles: OHLCV[], trades: AggTrade[], from: number = -Infinity): (DeltaBar | null)[] {
+  const buys = new Array<number>(candles.length).fill(0);
+  const sells = new Array<number>(candles.length).fill(0);
+  const indexOf = barIndexer(candles);
+  for (const trade of trades) {
+    const i = indexOf(trade.timestamp);
+    if (i < 0) continue;
+    if (trade.side === "buy") buys[i] += trade.quantity;
+    else sells[i] += trade.quantity;
+  }
+
+  let cvd = 0;
+  return candles.map((c, i) => {
+    if (c.timestamp < from) return null;
+    const delta = buys[i] - sells[i];
+    cvd += delta;
+    return { timestamp: c.timestamp, buyVolume: buys[i], sellVolume: sells[i], delta, cvd };
+  });
+}
+
+/** Round to a 1/2/5 × 10^n step so the median bar spans about `rows` levels */
+export function footprintTickSize(candles: OHLCV[], rows: number = DEFAULT_FOOTPRINT_ROWS): number {
+  const ranges = candles.map((c) => c.high - c.low).filter((r) => r > 0).sort((a, b) => a - b);
+  if (ranges.length === 0) return 1;
+  const raw = ranges[Math.floor(ranges.length / 2)] / rows;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= raw)!;
+  return step * magnitude;
+}
+
+/** Avoid 0.30000000000000004-style level keys */
+const roundToTick = (price: number, tick: number) => Number((Math.floor(price / tick + 1e-9) * tick).toPrecision(12));
+
+/**
+ * Bid × ask volume per price level for each candle. Like the delta, bars
+ * opening before `from` are left empty rather than partly filled.
+ */
+export function buildFootprint(candles: OHLCV[], trades: AggTrade[], tickSize: number, from: number = -Infinity): FootprintBar[] {
+  const levels = candles.map(() => new Map<number, FootprintLevel>());
+  const indexOf = barIndexer(candles);
+  for (const trade of trades) {
+    const i = indexOf(trade.timestamp);
+    if (i < 0 || candles[i].timestamp < from) continue;
+    const price = roundToTick(trade.price, tickSize);
+    let level = levels[i].get(price);
+    if (!level) {
+      level = { price, bidVolume: 0, askVolume: 0, delta: 0 };
+      levels[i].set(price, level);
+    }
+    if (trade.side === "buy") level.askVolume += trade.quantity;
+    else level.bidVolume += trade.quantity;
+    level.delta = level.askVolume - level.bidVolume;
+  }
+
+  return candles.map((c, i) => {
+    const rows = [...levels[i].values()].sort((a, b) => a.price - b.price);
+    let poc: FootprintLevel | null = null;
+    for (const row of rows) {
+      if (!poc || row.bidVolume + row.askVolume > poc.bidVolume + poc.askVolume) poc = row;
+    }
+    return {
+      ...c,
+      levels: rows,
+      delta: rows.reduce((sum, row) => sum + row.delta, 0),
+      poc: poc?.price ?? null,
+    };
+  });
+}
+
+/** Totals over the covered bars, and whether CVD disagrees with price */
+export function summarizeOrderFlow(candles: OHLCV[], delta: (DeltaBar | null)[]): OrderFlowSummary | null {
+  const first = delta.findIndex((d) => d !== null);
+  if (first < 0) return null;
+  const covered = delta.slice(first) as DeltaBar[];
+  const buyVolume = covered.reduce((sum, d) => sum + d.buyVolume, 0);
+  const sellVolume = covered.reduce((sum, d) => sum + d.sellVolume, 0);
+  const open = candles[first].open;
+  const priceChange = open > 0 ? (candles[candles.length - 1].close - open) / open : 0;
+  const net = buyVolume - sellVolume;
+
+  let divergence: OrderFlowSummary["divergence"] = null;
+  if (priceChange > 0 && net < 0) divergence = "bearish";
+  else if (priceChange < 0 && net > 0) divergence = "bullish";
+
+  return { buyVolume, sellVolume, delta: net, priceChange, divergence };
+}
@@ -0,0 +1,200 @@
+// Peer comparison — fundamentals per company normalized to percentile scores
+// within the group, peer medians and the subject's premium/discount to them,
+// plus peer picking from screener rows (same industry, nearest market cap)
+
+import type { FundamentalData } from "../data/types.js";
+import type { ScreenerItem } from "../data/screener.js";
+
+export type PeerMetric =
+  | "revenue_growth"
+  | "gross_margin"
+  | "operating_margin"
+  | "net_margin"
+  | "roe"
+  | "debt_to_equity"
+  | "pe_ratio"
+  | "pb_ratio"
+  | "ev_ebitda";
+
+export interface PeerMetricSpec {
+  label: string;
+  higherIsBetter: boolean;   // valuation multiples and leverage score higher when lower
+  unit: "percent" | "multiple";
+}
+
+export const PEER_METRICS: Record<PeerMetric, PeerMetricSpec> = {
+  revenue_growth: { label: "Revenue growth", higherIsBetter: true, unit: "percent" },
+  gross_margin: { label: "Gross margin", higherIsBetter: true, unit: "percent" },
+  operating_margin: { label: "Operating margin", higherIsBetter: true, unit: "percent" },
+  net_margin: { label: "Net margin", higherIsBetter: true, unit: "percent" },
+  roe: { label: "ROE", higherIsBetter: true, unit: "percent" },
+  debt_to_equity: { label: "Debt/Equity", higherIsBetter: false, unit: "multiple" },
+  pe_ratio: { label: "P/E", higherIsBetter: false, unit: "multiple" },
+  pb_ratio: { label: "P/B", higherIsBetter: false, unit: "multiple" },
+  ev_ebitda: { label: "EV/EBITDA", higherIsBetter: false, unit: "multiple" },
+};
+
+export const PEER_METRIC_KEYS = Object.keys(PEER_METRICS) as PeerMetric[];
+
+export type PeerValues = Partial<Record<PeerMetric, number | null>>;
+
+export interface PeerRow {
+  symbol: string;
+  values: PeerValues;
+  scores: PeerValues;        // 0 (worst in group) … 100 (best)
+  score: number | null;      // mean of available scores
+}
+
+export interface PeerComparison {
+  subject: string;
+  metrics: PeerMetric[];
+  rows: PeerRow[];           // subject first, then peers as given
+  median: PeerValues;        // peers only, subject excluded
+  medianScores: PeerValues;  // where the median would rank in the group
+  relative: PeerValues;      // subject − median for percentages, premium (subject / median − 1) for multiples
+}
+
+const ratio = (a: number | null | undefined, b: number | null | undefined) =>
+  a != null && b ? a / b : null;
+const positive = (v: number | null | undefined) => (v != null && v > 0 ? v : null);
+
+/**
+ * Comparison metrics from the latest two annual income statements (newest
+ * first), the latest key metrics row and the latest balance sheet. Statement
+ * figures win over provider ratios; multiples only count when positive.
+ */
+export function peerMetricValues(
+  income: FundamentalData[],
+  keyMetrics: FundamentalData | undefined,
+  balance: FundamentalData | undefined
+): Record<PeerMetric, number | null> {
+  const latest = income[0]?.metrics ?? {};
+  const prior = income[1]?.metrics ?? {};
+  const km = keyMetrics?.metrics ?? {};
+  const sheet = balance?.metrics ?? {};
+  // EODHD names it totalRevenue
+  const revenue = latest.revenue ?? latest.totalRevenue;
+  const priorRevenue = prior.revenue ?? prior.totalRevenue;
+
+  return {
+    revenue_growth: revenue != null && priorRevenue != null && priorRevenue > 0 ? revenue / priorRevenue - 1 : null,
+    gross_margin: ratio(latest.grossProfit, revenue) ?? km.grossProfitMargin ?? null,
+    operating_margin: ratio(latest.operatingIncome, revenue) ?? km.operatingProfitMargin ?? null,
+    net_margin: ratio(latest.netIncome, revenue) ?? km.netProfitMargin ?? null,
+    roe: km.returnOnEquity ?? (sheet.totalEquity != null && sheet.totalEquity > 0 ? ratio(latest.netIncome, sheet.totalEquity) : null),
+    debt_to_equity: sheet.debtToEquity ?? km.debtToEquity ?? null,
+    pe_ratio: positive(km.peRatio ?? km.trailingPE),
+    pb_ratio: positive(km.pbRatio),
+    ev_ebitda: positive(km.evToEbitda),
+  };
+}
+
+/** "12.3%" for percentages, "24.5×" for multiples, "—" when missing */
+export function formatPeerValue(metric: PeerMetric, value: number | null | undefined): string {
+  if (value == null) return "—";
+  return PEER_METRICS[metric].unit === "percent" ? `${(value * 100).toFixed(1)}%` : `${value.toFixed(value < 10 ? 2 : 1)}×`;
+}
+
+/** "+4.4pp" for percentage gaps, "+12%" premium / "-8%" discount for multiples */
+export function formatPeerRelative(metric: PeerMetric, relative: number | null | undefined): string {
+  if (relative == null) return "—";
+  const sign = relative >= 0 ? "+" : "";
+  return PEER_METRICS[metric].unit === "percent"
+    ? `${sign}${(relative * 100).toFixed(1)}pp`
+    : `${sign}${(relative * 100).toFixed(0)}%`;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Share of the group `value` beats (ties count half), 0–100, flipped when lower is better */
+export function percentileScore(value: number, group: number[], higherIsBetter: boolean): number {
+  const others = group.length - 1;
+  if (others <= 0) return 50;
+  const below = group.filter((v) => v < value).length;
+  const ties = group.filter((v) => v === value).length - 1;
+  const rank = ((below + ties / 2) / others) * 100;
+  return higherIsBetter ? rank : 100 - rank;
+}
+
+/** Score each company against the group; `companies[i].symbol === subject` marks the subject */
+export function comparePeers(
+  subject: string,
+  companies: { symbol: string; values: PeerValues }[],
+  metrics: PeerMetric[] = PEER_METRIC_KEYS
+): PeerComparison {
+  const ordered = [
+    ...companies.filter((c) => c.symbol === subject),
+    ...companies.filter((c) => c.symbol !== subject),
+  ];
+  const present = (metric: PeerMetric, list = ordered) =>
+    list.map((c) => c.values[metric]).filter((v): v is number => v != null);
+
+  const rows: PeerRow[] = ordered.map((c) => {
+    const scores: PeerValues = {};
+    for (const metric of metrics) {
+      const value = c.values[metric];
+      scores[metric] = value == null ? null : percentileScore(value, present(metric), PEER_METRICS[metric].higherIsBetter);
+    }
+    const available = metrics.map((m) => scores[m]).filter((s): s is number => s != null);
+    return {
+      symbol: c.symbol,
+      values: Object.fromEntries(metrics.map((m) => [m, c.values[m] ?? null])),
+      scores,
+      score: available.length ? available.reduce((a, b) => a + b, 0) / available.length : null,
+    };
+  });
+
+  const peers = ordered.filter((c) => c.symbol !== subject);
+  const medianValues: PeerValues = {};
+  const medianScores: PeerValues = {};
+  const relative: PeerValues = {};
+  const subjectValues = rows[0]?.symbol === subject ? rows[0].values : {};
+  for (const metric of metrics) {
+    const m = median(present(metric, peers));
+    medianValues[metric] = m;
+    const group = present(metric);
+    medianScores[metric] = m === null || group.length === 0
+      ? null
+      : percentileScore(m, [...group, m], PEER_METRICS[metric].higherIsBetter);
+    const own = subjectValues[metric];
+    relative[metric] = own == null || m === null
+      ? null
+      : PEER_METRICS[metric].unit === "percent"
+        ? own - m
+        : m ? (own - m) / Math.abs(m) : null;
+  }
+
+  return { subject, metrics, rows, median: medianValues, medianScores, relative };
+}
+
+/** Rows best first by overall score or one metric's score; missing values last */
+export function sortPeerRows(rows: PeerRow[], by: PeerMetric | "score"): PeerRow[] {
+  const key = (r: PeerRow) => (by === "score" ? r.score : r.scores[by] ?? null);
+  return [...rows].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    if (ka === null) return kb === null ? 0 : 1;
+    if (kb === null) return -1;
+    return kb - ka;
+  });
+}
+
+/**
+ * Closest screener rows to `company`: same industry first, then same
+ * sector, each ordered by market-cap distance on a log scale.
+ */
+export function pickPeers(company: ScreenerItem, candidates: ScreenerItem[], count: number): ScreenerItem[] {
+  const seen = new Set([company.code]);
+  const unique = candidates.filter((c) => !seen.has(c.code) && seen.add(c.code));
+  const distance = (c: ScreenerItem) =>
+    c.marketCap > 0 && company.marketCap > 0 ? Math.abs(Math.log(c.marketCap / company.marketCap)) : Infinity;
+  const byDistance = (a: ScreenerItem, b: ScreenerItem) => distance(a) - distance(b);
+  const industry = unique.filter((c) => c.industry === company.industry).sort(byDistance);
+  const sector = unique.filter((c) => c.industry !== company.industry && c.sector === company.sector).sort(byDistance);
+  return [...industry, ...sector].slice(0, count);
+}
@@ -0,0 +1,88 @@
+// Derivatives positioning — reads price vs open interest to tell leverage-
+// driven moves from spot-driven ones, plus long/short and taker flow context
+
+import type { OHLCV } from "../data/types.js";
+import type { OpenInterestPoint, LongShortRatioPoint, TakerVolumePoint } from "../data/crypto.js";
+
+/** Moves smaller than this (fraction) count as flat */
+const FLAT_THRESHOLD = 0.005;
+
+export type PositioningRegime =
+  | "long_buildup"      // price ↑, OI ↑ — new longs, leverage-driven rally
+  | "short_covering"    // price ↑, OI ↓ — shorts closing
+  | "short_buildup"     // price ↓, OI ↑ — new shorts, leverage-driven selloff
+  | "long_liquidation"  // price ↓, OI ↓ — longs closing / deleveraging
+  | "spot_driven"       // price moved, OI flat
+  | "neutral";          // price flat
+
+export const REGIME_LABELS: Record<PositioningRegime, string> = {
+  long_buildup: "Long build-up — price and open interest rising together (leverage-driven)",
+  short_covering: "Short covering — price rising while open interest falls",
+  short_buildup: "Short build-up — price falling while open interest rises (leverage-driven)",
+  long_liquidation: "Long liquidation — price and open interest falling together (deleveraging)",
+  spot_driven: "Spot-driven — price moved with little change in open interest",
+  neutral: "Range-bound — price roughly unchanged",
+};
+
+export interface PositioningInput {
+  candles: OHLCV[];
+  openInterest: OpenInterestPoint[];
+  longShort: LongShortRatioPoint[];
+  taker: TakerVolumePoint[];
+}
+
+export interface PositioningSummary {
+  priceChange: number;            // fraction over the window
+  openInterestChange: number;     // fraction, in contracts (price-neutral)
+  openInterestValue: number;      // latest notional
+  longShortRatio: number | null;  // latest top-trader ratio
+  longShortChange: number | null; // latest − first
+  takerBuyRatio: number | null;   // Σ taker buys / Σ taker sells over the window
+  regime: PositioningRegime;
+}
+
+const change = (first: number, last: number) => (first === 0 ? 0 : (last - first) / first);
+
+/**
+ * Classify a window by price change vs open interest change.
+ * OI is measured in contracts so a rally doesn't inflate it by itself.
+ */
+export function classifyRegime(priceChange: number, openInterestChange: number): PositioningRegime {
+  if (Math.abs(priceChange) < FLAT_THRESHOLD) return "neutral";
+  if (Math.abs(openInterestChange) < FLAT_THRESHOLD) return "spot_driven";
+  if (priceChange > 0) return openInterestChange > 0 ? "long_buildup" : "short_covering";
+  return openInterestChange > 0 ? "short_buildup" : "long_liquidation";
+}
+
+/**
+ * Summarize positioning over the overlapping window of the inputs.
+ * @returns null when there are no candles or no open interest samples
+ */
+export function summarizePositioning(input: PositioningInput): PositioningSummary | null {
+  const { candles, openInterest, longShort, taker } = input;
+  if (candles.length === 0 || openInterest.length === 0) return null;
+
+  // Compare price over the same span the OI history covers
+  const from = openInterest[0].timestamp;
+  const window = candles.filter((c) => c.timestamp >= from);
+  const priced = window.length > 0 ? window : candles;
+  const priceChange = change(priced[0].open, priced[priced.length - 1].close);
+  const oiFirst = openInterest[0];
+  const oiLast = openInterest[openInterest.length - 1];
+  const openInterestChange = change(oiFirst.openInterest, oiLast.openInterest);
+
+  const buys = taker.reduce((sum, t) => sum + t.buyVolume, 0);
+  const sells = taker.reduce((sum, t) => sum + t.sellVolume, 0);
+
+  return {
+    priceChange,
+    openInterestChange,
+    openInterestValue: oiLast.openInterestValue,
+    longShortRatio: longShort.length > 0 ? longShort[longShort.length - 1].longShortRatio : null,
+    longShortChange: longShort.length > 1
+      ? longShort[longShort.length - 1].longShortRatio - longShort[0].longShortRatio
+      : null,
+    takerBuyRatio: sells > 0 ? buys / sells : null,
+    regime: classifyRegime(priceChange, openInterestChange),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * IANA timezone helpers built on Intl — no tz database dependency.
+ * Used to turn exchange-local / file-local wall-clock times into Unix ms.
+ */
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export interface WallClock {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Wall-clock fields of a Unix ms timestamp in the given timezone */
+export function toWallClock(timestamp: number, timeZone: string): WallClock {
+  const parts = getFormatter(timeZone).formatToParts(new Date(timestamp));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in ms (e.g. +8h for Asia/Shanghai) */
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const w = toWallClock(timestamp, timeZone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` to Unix ms.
+ * Ambiguous times (DST fall-back) take the first occurrence; nonexistent
+ * times (spring-forward gap) resolve forward, e.g. 02:30 → 03:30.
+ */
+export function zonedTimeToUtc(w: WallClock, timeZone: string): number {
+  const naive = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  const firstOffset = getTimeZoneOffset(naive, timeZone);
+  const first = naive - firstOffset;
+  const secondOffset = getTimeZoneOffset(first, timeZone);
+  if (secondOffset === firstOffset) return first;
+
+  const second = naive - secondOffset;
+  // If the second guess is self-consistent it's the real instant, otherwise we're in a gap
+  return getTimeZoneOffset(second, timeZone) === secondOffset ? second : first;
+}
+
+/**
+ * Parse "YYYY-MM-DD HH:mm[:ss]" (or with "T") as wall-clock time in `timeZone`.
+ * Strings carrying their own offset or "Z" are parsed as absolute instants.
+ * @returns Unix ms, or NaN if unparseable
+ */
+export function parseZonedDateTime(value: string, timeZone: string): number {
+  const trimmed = value.trim();
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+    return new Date(trimmed).getTime();
+  }
+  const m = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/);
+  if (!m) return NaN;
+  return zonedTimeToUtc({
+    year: +m[1],
+    month: +m[2],
+    day: +m[3],
+    hour: m[4] ? +m[4] : 0,
+    minute: m[5] ? +m[5] : 0,
+    second: m[6] ? +m[6] : 0,
+  }, timeZone);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
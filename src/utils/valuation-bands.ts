@@ -0,0 +1,162 @@
+// Valuation bands — a multiple's own history (P/E, P/B, EV/EBITDA) from daily
+// closes and trailing quarterly statements, its mean ± σ levels, and the
+// price each level implies on every day (the "price at band" channel)
+
+import type { OHLCV, FundamentalData } from "../data/types.js";
+import type { CorporateAction } from "../data/adjust.js";
+
+const DAY_MS = 86_400_000;
+/** Statements count as public this long after the period ends (10-Q filing deadline) */
+export const DEFAULT_REPORT_LAG_DAYS = 45;
+/** Four quarters ending within this span make a trailing year; more means one is missing */
+const MAX_TTM_SPAN_DAYS = 300;
+/** Band levels in standard deviations from the mean */
+export const BAND_SIGMAS = [-2, -1, 0, 1, 2];
+
+export type BandMultiple = "pe" | "pb" | "ev_ebitda";
+
+export const BAND_MULTIPLES: Record<BandMultiple, { label: string; denominator: string }> = {
+  pe: { label: "P/E", denominator: "TTM net income" },
+  pb: { label: "P/B", denominator: "book value" },
+  ev_ebitda: { label: "EV/EBITDA", denominator: "TTM EBITDA" },
+};
+
+/** What one quarterly report says about the denominator, from when it is public */
+export interface FundamentalStep {
+  periodEnd: number;           // UTC midnight ms
+  knownFrom: number;           // periodEnd + report lag
+  denominator: number | null;  // TTM earnings/EBITDA or book value; null unless complete and positive
+  netDebt: number | null;      // added to market cap for EV; 0 for P/E and P/B
+  shares: number | null;       // as reported at period end
+}
+
+export interface BandLevel {
+  sigma: number;               // 0 = mean
+  value: number;               // the multiple at that level
+}
+
+export interface BandPoint {
+  timestamp: number;
+  close: number;               // split-adjusted to today's shares
+  multiple: number | null;
+  bandPrices: (number | null)[];  // price at each level, aligned with `levels`
+}
+
+export interface ValuationBands {
+  multiple: BandMultiple;
+  points: BandPoint[];         // one per daily close, oldest first
+  levels: BandLevel[];         // BAND_SIGMAS order; empty without history
+  mean: number | null;
+  std: number | null;
+  current: number | null;
+  zScore: number | null;
+  percentile: number | null;   // share of the history at or below the current multiple, 0–1
+  coverage: number;            // share of closes with a multiple
+}
+
+const time = (date: string | undefined) => (date ? Date.parse(`${date}T00:00:00Z`) : NaN);
+
+/**
+ * Quarterly statements (any order, with period-end dates) → one step per
+ * quarter, oldest first. P/E and EV/EBITDA sum the last four quarters; P/B
+ * takes the quarter's equity. Shares come from the balance sheet, else the
+ * income statement's weighted average.
+ */
+export function fundamentalSteps(
+  income: FundamentalData[],
+  balance: FundamentalData[],
+  multiple: BandMultiple,
+  lagDays = DEFAULT_REPORT_LAG_DAYS
+): FundamentalStep[] {
+  const quarters = income.filter((q) => !isNaN(time(q.date))).sort((a, b) => time(a.date) - time(b.date));
+  const sheets = new Map(balance.filter((b) => b.date).map((b) => [b.date!, b.metrics]));
+  const key = multiple === "pe" ? "netIncome" : "ebitda";
+
+  return quarters.map((q, i) => {
+    const periodEnd = time(q.date);
+    const sheet = sheets.get(q.date!) ?? {};
+    let denominator: number | null = null;
+    if (multiple === "pb") {
+      denominator = sheet.totalEquity ?? null;
+    } else if (i >= 3) {
+      const window = quarters.slice(i - 3, i + 1);
+      const complete = periodEnd - time(window[0].date) <= MAX_TTM_SPAN_DAYS * DAY_MS
+        && window.every((w) => w.metrics[key] != null);
+      denominator = complete ? window.reduce((sum, w) => sum + w.metrics[key]!, 0) : null;
+    }
+    return {
+      periodEnd,
+      knownFrom: periodEnd + lagDays * DAY_MS,
+      denominator: denominator !== null && denominator > 0 ? denominator : null,
+      netDebt: multiple === "ev_ebitda" ? sheet.netDebt ?? null : 0,
+      shares: sheet.sharesOutstanding ?? q.metrics.weightedAverageSharesDiluted ?? q.metrics.weightedAverageShares ?? null,
+    };
+  });
+}
+
+/**
+ * The multiple on each raw (unadjusted) daily close, using the latest step
+ * public by then. Market cap is raw close × reported shares, scaled by any
+ * split since the period end, so splits never break the series; closes and
+ * band prices are restated per share of today to match split-adjusted charts.
+ */
+export function analyzeValuationBands(
+  candles: OHLCV[],
+  steps: FundamentalStep[],
+  actions: CorporateAction[],
+  multiple: BandMultiple
+): ValuationBands {
+  const splits = actions.filter((a): a is Extract<CorporateAction, { type: "split" }> => a.type === "split" && a.ratio > 0);
+  const splitFactor = (after: number, upTo = Infinity) =>
+    splits.filter((s) => s.date > after && s.date <= upTo).reduce((f, s) => f * s.ratio, 1);
+
+  let stepIndex = -1;
+  const raw = candles.map((c) => {
+    while (stepIndex + 1 < steps.length && steps[stepIndex + 1].knownFrom <= c.timestamp) stepIndex++;
+    const step = stepIndex >= 0 ? steps[stepIndex] : null;
+    const toToday = splitFactor(c.timestamp);
+    const shares = step?.shares ? step.shares * splitFactor(step.periodEnd, c.timestamp) : null;
+    const usable = step !== null && step.denominator !== null && step.netDebt !== null && shares !== null;
+    // Market cap, plus net debt for enterprise value; net cash above market cap leaves no multiple
+    const numerator = usable ? c.close * shares! + step!.netDebt! : 0;
+    return {
+      timestamp: c.timestamp,
+      close: c.close / toToday,
+      multiple: numerator > 0 ? numerator / step!.denominator! : null,
+      // Price today-per-share at which the multiple would be `level`
+      priceAt: usable
+        ? (level: number) => (level * step!.denominator! - step!.netDebt!) / shares! / toToday
+        : null,
+    };
+  });
+
+  const history = raw.map((p) => p.multiple).filter((m): m is number => m !== null);
+  const mean = history.length ? history.reduce((a, b) => a + b, 0) / history.length : null;
+  const std = mean !== null ? Math.sqrt(history.reduce((sum, m) => sum + (m - mean) ** 2, 0) / history.length) : null;
+  const levels: BandLevel[] = mean !== null && std !== null
+    ? BAND_SIGMAS.map((sigma) => ({ sigma, value: mean + sigma * std }))
+    : [];
+
+  const points: BandPoint[] = raw.map((p) => ({
+    timestamp: p.timestamp,
+    close: p.close,
+    multiple: p.multiple,
+    bandPrices: levels.map((l) => {
+      const price = p.priceAt?.(l.value) ?? null;
+      return price !== null && price > 0 ? price : null;
+    }),
+  }));
+
+  const current = [...raw].reverse().find((p) => p.multiple !== null)?.multiple ?? null;
+  return {
+    multiple,
+    points,
+    levels,
+    mean,
+    std,
+    current,
+    zScore: current !== null && mean !== null && std ? (current - mean) / std : null,
+    percentile: current !== null && history.length ? history.filter((m) => m <= current).length / history.length : null,
+    coverage: candles.length ? history.length / candles.length : 0,
+  };
+}
@@ -2,6 +2,7 @@ import { describe, it, before, after } from "node:test";
 import assert from "node:assert";
 import {
   getAStockCashFlow,
+  getAStockBalanceSheet,
   getAStockKeyMetrics,
 } from "../../src/data/a-stock.js";
 import { apiTest } from "../helpers/api-guard.js";
@@ -111,6 +112,37 @@ describe("A-Stock Extended Data", () => {
     );
   });
 
+  apiTest("should get balance sheet data with derived ratios", async () => {
+    const data = await getAStockBalanceSheet("600519", "annual", 3);
+    
+    assert.strictEqual(data.length, 3, "Should return the requested periods");
+    assert.strictEqual(data[0].period, "2025", "Most recent year first");
+    assert.strictEqual(data[0].currency, "CNY", "Reporting currency from currency_symbol");
+    
+    const m = data[0].metrics;
+    assert.strictEqual(m.totalAssets, 300e9);
+    assert.strictEqual(m.totalLiabilities, 60e9);
+    assert.strictEqual(m.totalEquity, 240e9);
+    // Cash and equivalents preferred over cash incl. deposits
+    assert.strictEqual(m.cashAndEquivalents, 140e9);
+    // Debt summed from short and long term when no total is reported
+    assert.strictEqual(m.totalDebt, 5e9);
+    assert.strictEqual(m.netDebt, 5e9 - 140e9);
+    assert.strictEqual(m.workingCapital, 200e9);
+    assert.ok(Math.abs(m.debtToEquity! - 5 / 240) < 1e-12);
+    // Period-end share count, the DCF's default ahead of the weighted average
+    assert.strictEqual(m.sharesOutstanding, 1256e6);
+    assert.ok(Math.abs(m.bookValuePerShare! - 240e9 / 1256e6) < 1e-9);
+  });
+
+  apiTest("should prefer reported totals in quarterly balance sheets", async () => {
+    const data = await getAStockBalanceSheet("600519", "quarter", 2);
+    
+    assert.ok(/^\d{4}-Q[1-4]$/.test(data[0].period), "Quarterly period should match format YYYY-Q#");
+    assert.strictEqual(data[0].metrics.netDebt, -130e9);
+    assert.strictEqual(data[0].metrics.workingCapital, 195e9);
+  });
+
   apiTest("should handle symbol with exchange suffix", async () => {
     const data = await getAStockCashFlow("600519.SHG", "annual", 2);
     
@@ -0,0 +1,154 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  adjustCandles,
+  buildAdjustmentEvents,
+  findReferenceClose,
+  parseSplitRatio,
+  relevantActions,
+  type CorporateAction,
+} from "../../src/data/adjust.js";
+import { getAStockCorporateActions } from "../../src/data/a-stock.js";
+import { getKlines, getProvider, registerProvider, type OHLCV } from "../../src/data/index.js";
+import { installEodhdMock, removeEodhdMock } from "../helpers/eodhd-mock.js";
+
+const DAY = 86_400_000;
+const D0 = Date.UTC(2024, 0, 1);
+
+/** Ten daily bars, flat at 100 before day 5 and 50 from day 5 (a 2-for-1 split) */
+function splitSeries(): OHLCV[] {
+  return Array.from({ length: 10 }, (_, i) => {
+    const p = i < 5 ? 100 : 50;
+    return { timestamp: D0 + i * DAY, open: p, high: p + 2, low: p - 2, close: p, volume: 1000 };
+  });
+}
+
+const SPLIT: CorporateAction = { type: "split", date: D0 + 5 * DAY, ratio: 2 };
+const DIVIDEND: CorporateAction = { type: "dividend", date: D0 + 7 * DAY, amount: 5 };
+
+const builtinCommodity = getProvider("commodity");
+
+before(() => {
+  installEodhdMock();
+  if (!process.env.EODHD_API_KEY) {
+    process.env.EODHD_API_KEY = "mock-test-key";
+  }
+});
+after(() => {
+  removeEodhdMock();
+  registerProvider(builtinCommodity);
+});
+
+describe("price adjustment", () => {
+  it("scales bars before a split and leaves the latest bars as traded", () => {
+    const candles = splitSeries();
+    const events = buildAdjustmentEvents([SPLIT], () => undefined);
+    const adjusted = adjustCandles(candles, events, "split");
+
+    assert.deepEqual(adjusted.map((c) => c.close), Array(10).fill(50), "no fake gap at the split");
+    assert.equal(adjusted[0].high, 51);
+    assert.equal(adjusted[0].volume, 2000, "pre-split volume is in post-split shares");
+    assert.equal(adjusted[9].volume, 1000);
+    assert.equal(candles[0].close, 100, "input is not mutated");
+  });
+
+  it("applies the (P - D) / P dividend factor using the close before the ex-date", () => {
+    const candles = splitSeries();
+    const actions = relevantActions([SPLIT, DIVIDEND], "qfq", candles[0].timestamp, candles[9].timestamp);
+    const events = buildAdjustmentEvents(actions, (exDate) => findReferenceClose(candles, exDate));
+    const adjusted = adjustCandles(candles, events, "qfq");
+
+    assert.equal(adjusted[9].close, 50);
+    assert.equal(adjusted[6].close, 45, "50 × (50 - 5) / 50");
+    assert.equal(adjusted[0].close, 45, "split and dividend factors compound");
+  });
+
+  it("anchors hfq at listing: early bars as traded, later bars scaled up", () => {
+    const candles = splitSeries();
+    const events = buildAdjustmentEvents([SPLIT, DIVIDEND], (exDate) => findReferenceClose(candles, exDate));
+    const hfq = adjustCandles(candles, events, "hfq");
+    const qfq = adjustCandles(candles, events, "qfq");
+
+    assert.equal(hfq[0].close, 100);
+    assert.equal(hfq[5].close, 100);
+    assert.ok(Math.abs(hfq[9].close - 100 / 0.9) < 1e-9);
+    // Same shape, different anchor
+    for (let i = 0; i < 10; i++) {
+      assert.ok(Math.abs(hfq[i].close / qfq[i].close - hfq[0].close / qfq[0].close) < 1e-9);
+    }
+  });
+
+  it("selects actions by mode, window and ex-date", () => {
+    const future: CorporateAction = { type: "dividend", date: Date.now() + 30 * DAY, amount: 1 };
+    const before: CorporateAction = { type: "split", date: D0 - DAY, ratio: 3 };
+    const all = [DIVIDEND, SPLIT, future, before];
+
+    assert.deepEqual(relevantActions(all, "split", D0, D0 + 9 * DAY), [SPLIT]);
+    assert.deepEqual(relevantActions(all, "split+dividend", D0, D0 + 9 * DAY), [SPLIT, DIVIDEND]);
+    assert.deepEqual(relevantActions(all, "hfq", D0, D0 + 6 * DAY), [before, SPLIT]);
+    assert.deepEqual(relevantActions(all, "none", D0, D0 + 9 * DAY), []);
+  });
+
+  it("skips dividends without a close before the ex-date", () => {
+    const candles = splitSeries().slice(7);
+    assert.equal(findReferenceClose(candles, DIVIDEND.date), undefined);
+    assert.deepEqual(buildAdjustmentEvents([DIVIDEND], (d) => findReferenceClose(candles, d)), []);
+  });
+
+  it("parses split notation", () => {
+    assert.equal(parseSplitRatio("4.000000/1.000000"), 4);
+    assert.equal(parseSplitRatio("1:10"), 0.1);
+    assert.ok(isNaN(parseSplitRatio("n/a")));
+  });
+});
+
+describe("getKlines adjustment", () => {
+  it("adjusts provider bars after fetching and looks up reference closes outside the window", async () => {
+    const calls: string[] = [];
+    registerProvider({
+      id: "adjust-test",
+      market: "commodity",
+      label: "Commodity",
+      cacheable: false,
+      capabilities: { timeframes: ["1d"], fundamentals: false, dcf: false, estimates: false },
+      getKlines: async (_symbol, timeframe, limit, options = {}) => {
+        calls.push(`${timeframe}:${options.start !== undefined ? "range" : limit}`);
+        return splitSeries().filter((c) =>
+          (options.start === undefined || c.timestamp >= options.start) &&
+          (options.end === undefined || c.timestamp <= options.end)
+        );
+      },
+      getCorporateActions: async () => [SPLIT, DIVIDEND],
+    });
+
+    const raw = await getKlines("ADJ1", "commodity", "1d", 10);
+    assert.equal(raw[0].close, 100);
+
+    const split = await getKlines("ADJ1", "commodity", "1d", 10, { adjustment: "split" });
+    assert.equal(split[0].close, 50);
+
+    // Window ends before the dividend: its reference close needs a daily lookup
+    calls.length = 0;
+    const early = await getKlines("ADJ1", "commodity", "1d", 10, {
+      adjustment: "split+dividend",
+      start: D0,
+      end: D0 + 3 * DAY,
+    });
+    assert.deepEqual(calls, ["1d:range", "1d:range"]);
+    assert.equal(early.length, 4);
+    assert.equal(early[0].close, 45);
+
+    // Resampled timeframes are built from adjusted bars
+    const weekly = await getKlines("ADJ1", "commodity", "1w", 2, { adjustment: "split" });
+    assert.deepEqual(weekly.map((c) => [c.open, c.low, c.close]), [[50, 48, 50], [50, 48, 50]], "no split gap inside the weekly bars");
+    assert.equal(weekly[0].volume, 12_000);
+  });
+
+  it("parses EODHD dividend and split history", async () => {
+    const actions = await getAStockCorporateActions("600519");
+    const split = actions.find((a) => a.type === "split");
+    assert.deepEqual(split, { type: "split", date: Date.UTC(2021, 5, 1), ratio: 1.3 });
+    assert.equal(actions.filter((a) => a.type === "dividend").length, 2);
+    assert.ok(actions.every((a, i) => i === 0 || a.date >= actions[i - 1].date), "sorted by ex-date");
+  });
+});
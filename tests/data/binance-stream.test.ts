@@ -0,0 +1,159 @@
+import { describe, it, before, after, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createLiveStreams, type LiveKlines, type LiveStreams, type LiveTicker } from "../../src/data/binance-stream.js";
+import { installBinanceMock, removeBinanceMock } from "../helpers/binance-mock.js";
+import { startBinanceWsMock, type BinanceWsMock } from "../helpers/binance-ws-mock.js";
+
+const MINUTE = 60_000;
+/** A push that never arrives fails the test instead of hanging the suite */
+const UPDATE_TIMEOUT_MS = 2000;
+
+let ws: BinanceWsMock;
+let streams: LiveStreams;
+
+/** Resolves with the next update a listener receives; rejects if none arrives in time */
+function nextUpdate<T>(): { listener: (update: T) => void; next: () => Promise<T> } {
+  let waiting: ((update: T) => void) | null = null;
+  const queue: T[] = [];
+  return {
+    listener: (update) => {
+      if (waiting) {
+        waiting(update);
+        waiting = null;
+      } else {
+        queue.push(update);
+      }
+    },
+    next: () => {
+      if (queue.length > 0) return Promise.resolve(queue.shift()!);
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          waiting = null;
+          reject(new Error(`No update within ${UPDATE_TIMEOUT_MS}ms`));
+        }, UPDATE_TIMEOUT_MS);
+        waiting = (update) => {
+          clearTimeout(timer);
+          resolve(update);
+        };
+      });
+    },
+  };
+}
+
+before(async () => {
+  installBinanceMock();
+  ws = await startBinanceWsMock();
+});
+after(async () => {
+  await ws.close();
+  removeBinanceMock();
+});
+beforeEach(() => {
+  streams = createLiveStreams({ url: ws.url, maxCandles: 50, reconnectMs: 20 });
+});
+afterEach(() => streams.close());
+
+describe("live kline streams", () => {
+  it("seeds from REST and updates the forming candle in place", async () => {
+    const updates = nextUpdate<LiveKlines>();
+    await streams.subscribeKlines("BTCUSDT", "1m", updates.listener);
+    await ws.waitForSubscription("btcusdt@kline_1m");
+    assert.ok(ws.subscriptions.has("btcusdt@kline_1m"));
+
+    const seeded = streams.getKlines("BTCUSDT", "1m")!;
+    assert.equal(seeded.candles.length, 50);
+    const last = seeded.candles[seeded.candles.length - 1];
+
+    ws.pushKline("BTCUSDT", "1m", { t: last.timestamp, o: last.open, h: 999, l: 1, c: 500, v: 42 });
+    const update = await updates.next();
+    assert.equal(update.candles.length, 50);
+    assert.deepEqual(update.candles[49], { timestamp: last.timestamp, open: last.open, high: 999, low: 1, close: 500, volume: 42 });
+    assert.equal(update.closed, false);
+  });
+
+  it("appends new candles and drops the oldest past the cap", async () => {
+    const updates = nextUpdate<LiveKlines>();
+    await streams.subscribeKlines("ETHUSDT", "1m", updates.listener);
+    await ws.waitForSubscription("ethusdt@kline_1m");
+    const before = streams.getKlines("ETHUSDT", "1m")!.candles;
+    const last = before[before.length - 1].timestamp;
+
+    ws.pushKline("ETHUSDT", "1m", { t: last, c: 10, x: true });
+    assert.equal((await updates.next()).closed, true);
+    ws.pushKline("ETHUSDT", "1m", { t: last + MINUTE, c: 11 });
+    const update = await updates.next();
+    assert.equal(update.candles.length, 50);
+    assert.equal(update.candles[0].timestamp, before[1].timestamp);
+    assert.deepEqual(update.candles.slice(-2).map((c) => c.close), [10, 11]);
+    assert.equal(update.closed, false);
+
+    ws.pushKline("ETHUSDT", "1m", { t: last - 5 * MINUTE, c: 1 });
+    ws.pushKline("ETHUSDT", "1m", { t: last + MINUTE, c: 12 });
+    assert.deepEqual((await updates.next()).candles.slice(-1).map((c) => c.close), [11], "late pushes for old bars are ignored");
+    assert.deepEqual((await updates.next()).candles.slice(-1).map((c) => c.close), [12]);
+  });
+
+  it("ignores frames it can't parse and keeps streaming", async () => {
+    const updates = nextUpdate<LiveKlines>();
+    await streams.subscribeKlines("BNBUSDT", "1m", updates.listener);
+    await ws.waitForSubscription("bnbusdt@kline_1m");
+    const last = streams.getKlines("BNBUSDT", "1m")!.candles.at(-1)!;
+
+    ws.pushRaw("not json");
+    ws.pushRaw("null");
+    ws.pushRaw(JSON.stringify({ stream: "bnbusdt@kline_1m", data: { e: "kline" } }));
+    ws.pushKline("BNBUSDT", "1m", { t: last.timestamp, c: 321 });
+    assert.equal((await updates.next()).candles.at(-1)!.close, 321);
+  });
+
+  it("shares one stream between listeners and unsubscribes with the last", async () => {
+    const a = await streams.subscribeKlines("SOLUSDT", "5m", () => {});
+    const b = await streams.subscribeKlines("SOLUSDT", "5m", () => {});
+    await ws.waitForSubscription("solusdt@kline_5m");
+    assert.equal(ws.requests.filter((r) => r.params.includes("solusdt@kline_5m") && r.method === "SUBSCRIBE").length, 1);
+
+    a();
+    assert.deepEqual(streams.active(), ["solusdt@kline_5m"]);
+    b();
+    assert.deepEqual(streams.active(), []);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(ws.subscriptions.has("solusdt@kline_5m"), false);
+    assert.equal(ws.connections(), 0, "socket closes with the last subscription");
+  });
+
+  it("rejects timeframes Binance doesn't stream", async () => {
+    await assert.rejects(streams.subscribeKlines("BTCUSDT", "2h" as any, () => {}), /No live stream for timeframe 2h/);
+  });
+
+  it("reconnects after a drop and resubscribes every stream", async () => {
+    const updates = nextUpdate<LiveKlines>();
+    await streams.subscribeKlines("BTCUSDT", "1m", updates.listener);
+    await streams.subscribeTicker("BTCUSDT", () => {});
+
+    ws.dropConnections();
+    await ws.waitForSubscription("btcusdt@kline_1m");
+    await ws.waitForSubscription("btcusdt@ticker");
+    // The re-seed after reconnecting is an update too
+    assert.equal((await updates.next()).candles.length, 50);
+
+    const last = streams.getKlines("BTCUSDT", "1m")!.candles.at(-1)!;
+    ws.pushKline("BTCUSDT", "1m", { t: last.timestamp, c: 77 });
+    assert.equal((await updates.next()).candles.at(-1)!.close, 77);
+  });
+});
+
+describe("live ticker streams", () => {
+  it("seeds from the REST ticker and replaces it on every push", async () => {
+    const updates = nextUpdate<LiveTicker>();
+    await streams.subscribeTicker("btcusdt", updates.listener);
+    await ws.waitForSubscription("btcusdt@ticker");
+    assert.equal(streams.getTicker("BTCUSDT")!.quote.price, 102.5);
+
+    ws.pushTicker("BTCUSDT", { c: 110, p: 10, P: 10, o: 100, h: 111, l: 99, v: 5 });
+    const { quote } = await updates.next();
+    assert.equal(quote.price, 110);
+    assert.equal(quote.changePercent, 10);
+    assert.equal(quote.dayHigh, 111);
+    assert.equal(quote.delayed, false);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getCachedKlines,
+  purgeKlineCache,
+  mergeCandles,
+  getCacheTTL,
+} from "../../src/data/cache.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+const HOUR = 3_600_000;
+
+function makeCandles(count: number, endTs: number, step = HOUR): OHLCV[] {
+  return Array.from({ length: count }, (_, i) => {
+    const price = 100 + i;
+    return {
+      timestamp: endTs - (count - 1 - i) * step,
+      open: price,
+      high: price + 1,
+      low: price - 1,
+      close: price + 0.5,
+      volume: 1000 + i,
+    };
+  });
+}
+
+/** Fake upstream: serves the last `limit` bars of a fixed series and records requests */
+function makeFetcher(series: OHLCV[]) {
+  const calls: number[] = [];
+  const fetcher = async (limit: number) => {
+    calls.push(limit);
+    return series.slice(-limit);
+  };
+  return { fetcher, calls };
+}
+
+let dir: string;
+const savedEnv = { ...process.env };
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), "gainlab-cache-"));
+});
+after(async () => {
+  process.env = savedEnv;
+  await rm(dir, { recursive: true, force: true });
+});
+beforeEach(async () => {
+  process.env.GAINLAB_CACHE = "on";
+  process.env.GAINLAB_CACHE_DIR = dir;
+  delete process.env.GAINLAB_CACHE_TTL;
+  await purgeKlineCache();
+});
+
+const key = { symbol: "BTCUSDT", market: "crypto" as const, timeframe: "1h" as const };
+
+describe("getCachedKlines", () => {
+  it("fetches the full window on a cold cache", async () => {
+    const series = makeCandles(50, Date.now());
+    const { fetcher, calls } = makeFetcher(series);
+    const data = await getCachedKlines(key, 20, fetcher);
+    assert.equal(data.length, 20);
+    assert.deepEqual(calls, [20]);
+  });
+
+  it("serves from cache without network inside the TTL", async () => {
+    const series = makeCandles(50, Date.now());
+    const { fetcher, calls } = makeFetcher(series);
+    await getCachedKlines(key, 20, fetcher);
+    const again = await getCachedKlines(key, 10, fetcher);
+    assert.equal(again.length, 10);
+    assert.deepEqual(calls, [20], "second call should not hit upstream");
+    assert.equal(again[9].timestamp, series[49].timestamp);
+  });
+
+  it("tops up only the missing tail once the TTL expires", async () => {
+    const now = Date.now();
+    const old = makeCandles(50, now - 5 * HOUR);
+    await getCachedKlines(key, 30, makeFetcher(old).fetcher);
+
+    process.env.GAINLAB_CACHE_TTL = "0";
+    const newer = makeCandles(60, now);
+    const { fetcher, calls } = makeFetcher(newer);
+    const data = await getCachedKlines(key, 30, fetcher);
+
+    assert.equal(calls.length, 1);
+    assert.ok(calls[0] <= 7, `tail request should be small, got ${calls[0]}`);
+    assert.equal(data.length, 30);
+    assert.equal(data[29].timestamp, newer[59].timestamp);
+    for (let i = 1; i < data.length; i++) {
+      assert.equal(data[i].timestamp - data[i - 1].timestamp, HOUR, "no gaps or duplicates");
+    }
+  });
+
+  it("refetches the full window when the cache is too short", async () => {
+    const series = makeCandles(100, Date.now());
+    const { fetcher, calls } = makeFetcher(series);
+    await getCachedKlines(key, 10, fetcher);
+    const data = await getCachedKlines(key, 40, fetcher);
+    assert.equal(data.length, 40);
+    assert.deepEqual(calls, [10, 40]);
+  });
+
+  it("bypass mode never reads or writes the cache", async () => {
+    const series = makeCandles(20, Date.now());
+    const { fetcher, calls } = makeFetcher(series);
+    await getCachedKlines(key, 10, fetcher, "bypass");
+    await getCachedKlines(key, 10, fetcher, "bypass");
+    assert.deepEqual(calls, [10, 10]);
+    assert.equal(await purgeKlineCache(), 0, "nothing should have been written");
+  });
+
+  it("refresh mode ignores cached candles but rewrites the entry", async () => {
+    const series = makeCandles(20, Date.now());
+    const { fetcher, calls } = makeFetcher(series);
+    await getCachedKlines(key, 10, fetcher);
+    await getCachedKlines(key, 10, fetcher, "refresh");
+    assert.deepEqual(calls, [10, 10]);
+    await getCachedKlines(key, 10, fetcher);
+    assert.equal(calls.length, 2, "refreshed entry should be served from cache");
+  });
+
+  it("keeps session variants in separate entries", async () => {
+    const regular = makeFetcher(makeCandles(20, Date.now()));
+    const extended = makeFetcher(makeCandles(20, Date.now()).map((c) => ({ ...c, close: c.close * 2 })));
+    await getCachedKlines(key, 10, regular.fetcher);
+    const data = await getCachedKlines({ ...key, variant: "extended" }, 10, extended.fetcher);
+    assert.equal(extended.calls.length, 1, "variant must not be served from the regular entry");
+    assert.equal(data[9].close, makeCandles(20, Date.now())[19].close * 2);
+    assert.equal(await purgeKlineCache({ symbol: "BTCUSDT", timeframe: "1h" }), 2);
+  });
+
+  it("is disabled by GAINLAB_CACHE=off", async () => {
+    process.env.GAINLAB_CACHE = "off";
+    const { fetcher, calls } = makeFetcher(makeCandles(20, Date.now()));
+    await getCachedKlines(key, 10, fetcher);
+    await getCachedKlines(key, 10, fetcher);
+    assert.deepEqual(calls, [10, 10]);
+  });
+});
+
+describe("purgeKlineCache", () => {
+  it("removes only matching entries", async () => {
+    const { fetcher } = makeFetcher(makeCandles(20, Date.now()));
+    await getCachedKlines(key, 10, fetcher);
+    await getCachedKlines({ ...key, timeframe: "1M" }, 10, fetcher);
+    await getCachedKlines({ ...key, symbol: "ETHUSDT" }, 10, fetcher);
+
+    assert.equal(await purgeKlineCache({ symbol: "BTCUSDT", timeframe: "1h" }), 1);
+    assert.equal(await purgeKlineCache({ market: "crypto", symbol: "btcusdt" }), 1);
+    assert.equal(await purgeKlineCache(), 1);
+  });
+});
+
+describe("mergeCandles / getCacheTTL", () => {
+  it("incoming candles replace cached ones with the same timestamp", () => {
+    const a = makeCandles(3, 3 * HOUR);
+    const b = [{ ...a[2], close: 999 }, ...makeCandles(1, 4 * HOUR)];
+    const merged = mergeCandles(a, b);
+    assert.equal(merged.length, 4);
+    assert.equal(merged[2].close, 999);
+  });
+
+  it("parses per-timeframe TTL overrides", () => {
+    process.env.GAINLAB_CACHE_TTL = "1m=10,1d=900";
+    assert.equal(getCacheTTL("1m"), 10_000);
+    assert.equal(getCacheTTL("1d"), 900_000);
+    assert.ok(getCacheTTL("1h") > 0, "unlisted timeframes keep their default");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { getCalendarEvents } from "../../src/data/index.js";
+import { rateMacroImportance } from "../../src/data/calendar.js";
+import { installEodhdMock, removeEodhdMock } from "../helpers/eodhd-mock.js";
+
+const FROM = "2026-10-01";
+const TO = "2026-10-31";
+
+before(() => {
+  installEodhdMock();
+  if (!process.env.EODHD_API_KEY) {
+    process.env.EODHD_API_KEY = "mock-test-key";
+  }
+});
+after(() => removeEodhdMock());
+
+describe("rateMacroImportance", () => {
+  it("rates market-moving releases by name", () => {
+    assert.equal(rateMacroImportance("Non Farm Payrolls"), "high");
+    assert.equal(rateMacroImportance("Core CPI (YoY)"), "high");
+    assert.equal(rateMacroImportance("Fed Interest Rate Decision"), "high");
+    assert.equal(rateMacroImportance("ISM Manufacturing PMI"), "medium");
+    assert.equal(rateMacroImportance("Initial Jobless Claims"), "medium");
+    assert.equal(rateMacroImportance("MBA Mortgage Applications"), "low");
+  });
+});
+
+describe("getCalendarEvents", () => {
+  it("merges market-wide US earnings, splits and macro in date order", async () => {
+    const { events, errors } = await getCalendarEvents({ market: "us_stock", from: FROM, to: TO });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(
+      events.map((e) => `${e.date} ${e.type} ${e.symbol ?? ""}`.trim()),
+      [
+        "2026-10-02 macro",
+        "2026-10-03 macro",
+        "2026-10-04 macro",
+        "2026-10-06 earnings AAPL",
+        "2026-10-07 earnings MSFT",
+        "2026-10-11 split NVDA",
+      ],
+      "A-share earnings and foreign splits are left out; US tickers lose .US"
+    );
+    const nfp = events.find((e) => e.title.includes("Non Farm"))!;
+    assert.equal(nfp.time, "12:30");
+    assert.equal(nfp.importance, "high");
+    assert.equal(nfp.estimate, 160);
+    assert.equal(nfp.actual, null);
+    const aapl = events.find((e) => e.symbol === "AAPL")!;
+    assert.equal(aapl.time, "after_market");
+    assert.equal(aapl.estimate, 1.5);
+    assert.equal(events.find((e) => e.type === "split")!.title, "NVDA 10-for-1 split");
+  });
+
+  it("limits company events to the requested symbols and adds their dividends", async () => {
+    const { events } = await getCalendarEvents({
+      market: "us_stock",
+      from: "2024-06-01",
+      to: "2024-06-30",
+      symbols: ["aapl"],
+      types: ["earnings", "dividend", "split"],
+    });
+    assert.deepEqual(events.map((e) => e.type), ["earnings", "dividend"]);
+    assert.ok(events.every((e) => e.symbol === "AAPL"));
+    assert.equal(events[1].date, "2024-06-19");
+    assert.equal(events[1].actual, 30.876);
+  });
+
+  it("filters by minimum importance", async () => {
+    const { events } = await getCalendarEvents({ market: "crypto", from: FROM, to: TO, minImportance: "medium" });
+    assert.deepEqual(events.map((e) => e.importance), ["medium", "high"]);
+    assert.ok(events.every((e) => e.type === "macro"), "crypto only has macro releases");
+  });
+
+  it("uses Chinese releases and exchange-suffixed tickers for A-shares", async () => {
+    const { events } = await getCalendarEvents({ market: "a_stock", from: FROM, to: TO, types: ["earnings", "macro"] });
+    assert.deepEqual(events.map((e) => e.symbol ?? e.title), ["CN Caixin Manufacturing PMI (Sep)", "600519.SHG"]);
+  });
+
+  it("returns the sources that succeeded when one fails", async () => {
+    const original = global.fetch;
+    global.fetch = (async (input: RequestInfo | URL, init?: RequestInit) =>
+      String(input).includes("/calendar/splits")
+        ? new Response("Forbidden", { status: 403 })
+        : original(input, init)) as typeof global.fetch;
+    try {
+      const { events, errors } = await getCalendarEvents({ market: "us_stock", from: FROM, to: TO, types: ["earnings", "split"] });
+      assert.equal(events.length, 2);
+      assert.equal(errors.length, 1);
+      assert.match(errors[0], /^splits: EODHD API error \(403\)/);
+
+      await assert.rejects(
+        getCalendarEvents({ market: "us_stock", from: FROM, to: TO, types: ["split"] }),
+        /Calendar unavailable — splits/
+      );
+    } finally {
+      global.fetch = original;
+    }
+  });
+
+  it("rejects local data", async () => {
+    await assert.rejects(getCalendarEvents({ market: "local", from: FROM, to: TO }), /not supported/);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getCryptoKlines,
+  getCryptoFundingRate,
+  getCryptoOpenInterest,
+  getCryptoLongShortRatio,
+  getCryptoTakerVolume,
+} from "../../src/data/crypto.js";
+import { installBinanceMock, removeBinanceMock } from "../helpers/binance-mock.js";
+
+const HOUR = 3_600_000;
+const NOW = Date.UTC(2024, 5, 1);
+
+function assertContiguous(data: { timestamp: number }[], step: number) {
+  for (let i = 1; i < data.length; i++) {
+    assert.equal(data[i].timestamp - data[i - 1].timestamp, step, `gap or duplicate at index ${i}`);
+  }
+}
+
+describe("getCryptoKlines pagination", () => {
+  afterEach(() => removeBinanceMock());
+
+  it("pages backward with endTime beyond the 1000-candle cap", async () => {
+    const stats = installBinanceMock({ now: NOW });
+    const data = await getCryptoKlines("BTCUSDT", "1h", 2500);
+
+    assert.equal(data.length, 2500);
+    assertContiguous(data, HOUR);
+    assert.equal(data[2499].timestamp, NOW);
+    assert.equal(stats.calls.length, 3);
+    assert.equal(stats.calls[0].searchParams.get("endTime"), null, "first page is the latest");
+    assert.equal(Number(stats.calls[1].searchParams.get("endTime")), data[1500].timestamp - 1);
+    assert.equal(stats.calls[2].searchParams.get("limit"), "500", "last page asks only for what's missing");
+  });
+
+  it("stops at the listing date instead of looping", async () => {
+    const listedAt = NOW - 1200 * HOUR;
+    const stats = installBinanceMock({ now: NOW, listedAt });
+    const data = await getCryptoKlines("NEWUSDT", "1h", 5000);
+
+    assert.equal(data.length, 1201);
+    assert.equal(data[0].timestamp, listedAt);
+    assert.equal(stats.calls.length, 2);
+  });
+
+  it("serves an explicit range with bounded parallel requests", async () => {
+    const stats = installBinanceMock({ now: NOW, latencyMs: 10 });
+    const start = Date.UTC(2023, 0, 1);
+    const end = Date.UTC(2024, 0, 1) - 1;
+    const data = await getCryptoKlines("BTCUSDT", "1h", 100, { start, end });
+
+    assert.equal(data.length, 365 * 24);
+    assertContiguous(data, HOUR);
+    assert.equal(data[0].timestamp, start);
+    assert.equal(stats.calls.length, 9);
+    assert.ok(stats.maxInFlight > 1, "range pages should overlap");
+    assert.ok(stats.maxInFlight <= 3, `at most 3 requests in flight, saw ${stats.maxInFlight}`);
+  });
+
+  it("caps concurrency across parallel callers", async () => {
+    const stats = installBinanceMock({ now: NOW, latencyMs: 10 });
+    await Promise.all(
+      ["BTCUSDT", "ETHUSDT", "SOLUSDT", "BNBUSDT", "XRPUSDT", "ADAUSDT"].map((s) => getCryptoKlines(s, "1d", 10))
+    );
+    assert.equal(stats.calls.length, 6);
+    assert.ok(stats.maxInFlight <= 3, `at most 3 requests in flight, saw ${stats.maxInFlight}`);
+  });
+});
+
+describe("getCryptoFundingRate pagination", () => {
+  afterEach(() => removeBinanceMock());
+
+  it("pages backward past the 1000-event cap without duplicates", async () => {
+    const stats = installBinanceMock({ now: NOW });
+    const data = await getCryptoFundingRate("BTCUSDT", 1500);
+
+    assert.equal(data.length, 1500);
+    assertContiguous(data, 8 * HOUR);
+    assert.equal(data[1499].timestamp, NOW + 3);
+    assert.equal(stats.calls.length, 2);
+    assert.ok(stats.calls.every((u) => u.hostname === "fapi.binance.com"));
+  });
+
+  it("pages forward through an explicit range", async () => {
+    const start = NOW - 500 * 24 * HOUR;
+    const stats = installBinanceMock({ now: NOW });
+    const data = await getCryptoFundingRate("BTCUSDT", 10, { start, end: NOW });
+
+    assert.equal(data.length, 1500, "limit is ignored; the settlement just after end is excluded");
+    assert.equal(data[0].timestamp, start + 3);
+    assertContiguous(data, 8 * HOUR);
+    assert.equal(stats.calls.length, 2);
+  });
+});
+
+describe("futures positioning statistics", () => {
+  afterEach(() => removeBinanceMock());
+
+  it("pages open interest 500 samples at a time", async () => {
+    const stats = installBinanceMock({ now: NOW });
+    const data = await getCryptoOpenInterest("BTCUSDT", "1h", 700);
+
+    assert.equal(data.length, 700);
+    assertContiguous(data, HOUR);
+    assert.equal(data[699].timestamp, NOW);
+    assert.deepEqual(stats.calls.map((u) => u.searchParams.get("limit")), ["500", "200"]);
+    assert.ok(stats.calls.every((u) => u.pathname === "/futures/data/openInterestHist" && u.searchParams.get("period") === "1h"));
+    assert.equal(typeof data[0].openInterestValue, "number");
+  });
+
+  it("parses long/short ratio and taker volume", async () => {
+    installBinanceMock({ now: NOW });
+    const [ratio] = await getCryptoLongShortRatio("BTCUSDT", "4h", 1);
+    const [taker] = await getCryptoTakerVolume("BTCUSDT", "4h", 1);
+
+    assert.deepEqual(ratio, { timestamp: NOW, longShortRatio: 1.5, longShare: 0.6, shortShare: 0.4 });
+    assert.deepEqual(taker, { timestamp: NOW, buyVolume: 12, sellVolume: 10, buySellRatio: 1.2 });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getKlines,
+  getFundamentals,
+  getKeyMetrics,
+  getProvider,
+  getProviderChain,
+  registerProvider,
+  registerFallbackProvider,
+  configureProviderChains,
+  trackSources,
+  formatSources,
+  type DataProvider,
+  type OHLCV,
+} from "../../src/data/index.js";
+import { toEodhdUSSymbol, toFmpAShareSymbol } from "../../src/data/fallbacks.js";
+import { installEodhdMock, removeEodhdMock } from "../helpers/eodhd-mock.js";
+
+const BAR: OHLCV = { timestamp: Date.UTC(2024, 0, 2), open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 };
+
+const builtinCommodity = getProvider("commodity");
+const builtinUSChain = getProviderChain("us_stock");
+const savedFmpKey = process.env.FMP_API_KEY;
+
+before(() => {
+  installEodhdMock();
+  if (!process.env.EODHD_API_KEY) {
+    process.env.EODHD_API_KEY = "mock-test-key";
+  }
+});
+after(() => {
+  removeEodhdMock();
+  registerProvider(builtinCommodity);
+  configureProviderChains(`us_stock=${builtinUSChain.map((p) => p.id).join(",")}`);
+  if (savedFmpKey !== undefined) process.env.FMP_API_KEY = savedFmpKey;
+});
+
+/** Commodity provider that fails or returns one bar, logging each call */
+function fakeProvider(id: string, calls: string[], options: { fail?: string; timeframes?: DataProvider["capabilities"]["timeframes"] } = {}): DataProvider {
+  return {
+    id,
+    market: "commodity",
+    label: "Commodity",
+    cacheable: false,
+    capabilities: { timeframes: options.timeframes ?? ["1h", "1d"], fundamentals: true, dcf: false, estimates: false },
+    getKlines: async () => {
+      calls.push(id);
+      if (options.fail) throw new Error(options.fail);
+      return [BAR];
+    },
+    getFundamentals: async () => {
+      calls.push(`${id}:fundamentals`);
+      if (options.fail) throw new Error(options.fail);
+      return [{ period: "2024", metrics: { revenue: 1 } }];
+    },
+  };
+}
+
+describe("provider failover", () => {
+  it("maps symbols between EODHD and FMP conventions", () => {
+    assert.equal(toEodhdUSSymbol("AAPL"), "AAPL.US");
+    assert.equal(toEodhdUSSymbol("AAPL.US"), "AAPL.US");
+    assert.equal(toFmpAShareSymbol("600519"), "600519.SS");
+    assert.equal(toFmpAShareSymbol("000001.SHE"), "000001.SZ");
+  });
+
+  it("serves from the next provider when the primary fails and reports the source", async () => {
+    const calls: string[] = [];
+    registerProvider(fakeProvider("primary", calls, { fail: "primary API error (503)" }));
+    registerFallbackProvider(fakeProvider("backup", calls));
+
+    const { result, sources } = await trackSources(() => getKlines("XAUUSD", "commodity", "1d", 1));
+    assert.deepEqual(result, [BAR]);
+    assert.deepEqual(calls, ["primary", "backup"]);
+    assert.deepEqual(sources, [{ market: "commodity", provider: "backup", fallbackFrom: ["primary"] }]);
+    assert.equal(formatSources(sources), "backup (fallback after primary failed)");
+  });
+
+  it("throws the primary's error when every provider fails", async () => {
+    const calls: string[] = [];
+    registerProvider(fakeProvider("primary", calls, { fail: "primary API error (503)" }));
+    registerFallbackProvider(fakeProvider("backup", calls, { fail: "backup API error (500)" }));
+
+    await assert.rejects(() => getKlines("XAUUSD", "commodity", "1d", 1), /primary API error \(503\)/);
+    assert.deepEqual(calls, ["primary", "backup"]);
+  });
+
+  it("skips fallbacks that don't serve the timeframe", async () => {
+    const calls: string[] = [];
+    registerProvider(fakeProvider("primary", calls, { fail: "primary API error (503)" }));
+    registerFallbackProvider(fakeProvider("daily-backup", calls, { timeframes: ["1d"] }));
+
+    await assert.rejects(() => getKlines("XAUUSD", "commodity", "1h", 1), /primary API error/);
+    assert.deepEqual(calls, ["primary"]);
+  });
+
+  it("fails over feature methods too", async () => {
+    const calls: string[] = [];
+    registerProvider(fakeProvider("primary", calls, { fail: "primary API error (429)" }));
+    registerFallbackProvider(fakeProvider("backup", calls));
+
+    const { result, sources } = await trackSources(() => getFundamentals("XAUUSD", "commodity"));
+    assert.equal(result[0].metrics.revenue, 1);
+    assert.deepEqual(calls, ["primary:fundamentals", "backup:fundamentals"]);
+    assert.equal(sources[0].provider, "backup");
+  });
+
+  it("reorders and validates chains from config", () => {
+    const calls: string[] = [];
+    registerProvider(fakeProvider("primary", calls));
+    registerFallbackProvider(fakeProvider("backup", calls));
+
+    configureProviderChains("commodity=backup,primary");
+    assert.deepEqual(getProviderChain("commodity").map((p) => p.id), ["backup", "primary"]);
+    assert.equal(getProvider("commodity").id, "backup");
+
+    assert.throws(() => configureProviderChains("forex=primary"), /Unknown market/);
+    assert.throws(() => configureProviderChains("commodity=fmp"), /Unknown provider for commodity: fmp/);
+    assert.throws(() => configureProviderChains("commodity="), /Empty provider chain/);
+  });
+
+  it("falls back from FMP to EODHD for US stocks", async () => {
+    assert.deepEqual(builtinUSChain.map((p) => p.id), ["fmp", "eodhd-us"]);
+    delete process.env.FMP_API_KEY;
+
+    const { result, sources } = await trackSources(() => getKlines("AAPL", "us_stock", "1d", 5));
+    assert.equal(result.length, 5);
+    assert.deepEqual(sources, [{ market: "us_stock", provider: "eodhd-us", fallbackFrom: ["fmp"] }]);
+  });
+
+  it("only falls back to EODHD's key metrics snapshot for the latest annual row", async () => {
+    delete process.env.FMP_API_KEY;
+
+    const { result, sources } = await trackSources(() => getKeyMetrics("AAPL", "us_stock", "annual", 1));
+    assert.equal(result.length, 1);
+    assert.equal(sources[0].provider, "eodhd-us");
+    // A series can't come from one snapshot: FMP's error, not a one-row history
+    await assert.rejects(getKeyMetrics("AAPL", "us_stock", "quarter", 4), /FMP_API_KEY not found/);
+    await assert.rejects(getKeyMetrics("AAPL", "us_stock", "annual", 5), /FMP_API_KEY not found/);
+  });
+});
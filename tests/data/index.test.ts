@@ -30,11 +30,11 @@ describe("getKlines router", () => {
     assert.ok(data[0].close > 1000, "should be gold price");
   });
 
-  it("rejects non-daily timeframes for us_stock", async () => {
+  it("rejects malformed timeframes", async () => {
     await assert.rejects(
-      () => getKlines("AAPL", "us_stock", "1h", 10),
+      () => getKlines("AAPL", "us_stock", "90s" as any, 10),
       (err: any) => {
-        assert.ok(err.message.includes("daily"), "should mention daily limitation");
+        assert.ok(err.message.includes("Invalid timeframe"), "should explain the expected format");
         return true;
       }
     );
@@ -46,15 +46,37 @@ describe("getKlines router", () => {
     assert.ok(data[0].close > 0, "should have valid price");
   });
 
-  it("rejects non-daily timeframes for a_stock", async () => {
+  it("returns every bar of an explicit date range, paging past one request", async () => {
+    const start = Date.UTC(2022, 0, 1);
+    const end = Date.UTC(2024, 0, 1) - 1;
+    const data = await getKlines("600519", "a_stock", "1d", 10, { start, end });
+    // Mock serves weekdays: two full years, limit ignored
+    assert.ok(data.length > 500, `expected ~520 bars, got ${data.length}`);
+    assert.ok(data[0].timestamp >= start && data[data.length - 1].timestamp <= end);
+    assert.equal(new Set(data.map((c) => c.timestamp)).size, data.length, "no duplicate bars");
+  });
+
+  it("returns the last `limit` bars before an end date", async () => {
+    const end = Date.UTC(2023, 5, 30);
+    const data = await getKlines("XAUUSD", "commodity", "1d", 30, { end });
+    assert.equal(data.length, 30);
+    assert.equal(data[29].timestamp, end);
+  });
+
+  it("rejects ranges too large for the timeframe before fetching", async () => {
     await assert.rejects(
-      () => getKlines("600519", "a_stock", "1h", 10),
-      (err: any) => {
-        assert.ok(err.message.includes("daily"), "should mention daily limitation");
-        return true;
-      }
+      () => getKlines("BTCUSDT", "crypto", "1m", 100, { start: Date.UTC(2020, 0, 1) }),
+      /Date range too large/
     );
   });
+
+  it("serves a_stock weekly bars resampled from daily", async () => {
+    const data = await getKlines("600519", "a_stock", "1w", 10);
+    assert.ok(data.length > 0, "should build weekly bars from EODHD daily data");
+    // One bar per Monday-anchored week
+    const weeks = data.map((c) => Math.floor((c.timestamp / 86_400_000 + 3) / 7));
+    assert.equal(new Set(weeks).size, weeks.length, "weeks should be distinct");
+  });
 });
 
 describe("getFundamentals router", () => {
@@ -70,6 +92,12 @@ describe("getFundamentals router", () => {
     assert.ok(data[0].metrics.totalRevenue !== undefined || data[0].metrics.totalRevenue === null, "should have totalRevenue");
   });
 
+  it("keeps the period-end date of quarterly statements", async () => {
+    const data = await getFundamentals("600519", "a_stock", "quarter", 4);
+    assert.deepEqual(data.map((d) => d.date), ["2025-12-31", "2025-09-30", "2025-06-30", "2025-03-31"]);
+    assert.equal(data[0].period, "2025-Q4");
+  });
+
   it("throws for unsupported markets", async () => {
     await assert.rejects(
       () => getFundamentals("BTCUSDT", "crypto"),
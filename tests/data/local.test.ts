@@ -0,0 +1,127 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import { getLocalKlines, parseCsv, parseTimestamp } from "../../src/data/local.js";
+import { getKlines } from "../../src/data/index.js";
+import { calculateVolumeProfile } from "../../src/utils/volume-profile.js";
+
+let dir: string;
+const savedDir = process.env.GAINLAB_LOCAL_DIR;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), "gainlab-local-"));
+  process.env.GAINLAB_LOCAL_DIR = dir;
+
+  // Daily bars by naming convention, date-only timestamps
+  const daily = ["date,open,high,low,close,volume"];
+  for (let i = 1; i <= 30; i++) {
+    const day = String(i).padStart(2, "0");
+    daily.push(`2024-01-${day},${100 + i},${102 + i},${99 + i},${101 + i},${1000 * i}`);
+  }
+  await writeFile(join(dir, "DESK.csv"), daily.join("\n") + "\n");
+
+  // Hourly bars with non-standard headers, semicolons and New York wall-clock times
+  await writeFile(join(dir, "desk_bars.csv"), [
+    "Zeit;Eroeffnung;Hoch;Tief;Schluss;Umsatz",
+    "2024-07-01 09:00;10;11;9;10.5;100",
+    "2024-07-01 10:00;10.5;12;10;11;200",
+    "2024-07-01 11:00;11;13;10.5;12.5;300",
+  ].join("\r\n"));
+
+  await writeFile(join(dir, "gainlab-local.json"), JSON.stringify({
+    symbols: {
+      NYDESK: {
+        file: "desk_bars.csv",
+        timeframe: "1h",
+        delimiter: ";",
+        timezone: "America/New_York",
+        columns: {
+          timestamp: "Zeit", open: "Eroeffnung", high: "Hoch",
+          low: "Tief", close: "Schluss", volume: "Umsatz",
+        },
+      },
+    },
+  }));
+
+  // Parquet file with epoch-millisecond timestamps, out of order
+  const base = Date.UTC(2024, 0, 1);
+  const buffer = parquetWriteBuffer({
+    columnData: [
+      { name: "ts", data: [base + 7_200_000, base, base + 3_600_000].map(BigInt), type: "INT64" },
+      { name: "open", data: [3, 1, 2], type: "DOUBLE" },
+      { name: "high", data: [3.5, 1.5, 2.5], type: "DOUBLE" },
+      { name: "low", data: [2.5, 0.5, 1.5], type: "DOUBLE" },
+      { name: "close", data: [3.2, 1.2, 2.2], type: "DOUBLE" },
+      { name: "volume", data: [30, 10, 20], type: "DOUBLE" },
+    ],
+  });
+  await writeFile(join(dir, "PQ_1h.parquet"), Buffer.from(buffer));
+});
+
+after(async () => {
+  if (savedDir === undefined) delete process.env.GAINLAB_LOCAL_DIR;
+  else process.env.GAINLAB_LOCAL_DIR = savedDir;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("getLocalKlines", () => {
+  it("reads a CSV by naming convention and respects limit", async () => {
+    const data = await getLocalKlines("DESK", "1d", 10);
+    assert.equal(data.length, 10);
+    assert.equal(data[9].timestamp, Date.UTC(2024, 0, 30));
+    assert.equal(data[9].close, 131);
+    assert.equal(data[9].volume, 30000);
+  });
+
+  it("applies column mapping, delimiter and timezone from config", async () => {
+    const data = await getLocalKlines("NYDESK", "1h", 100);
+    assert.equal(data.length, 3);
+    // 09:00 EDT (UTC-4) = 13:00 UTC
+    assert.equal(data[0].timestamp, Date.UTC(2024, 6, 1, 13, 0));
+    assert.equal(data[2].high, 13);
+  });
+
+  it("reads Parquet files and sorts rows ascending", async () => {
+    const data = await getLocalKlines("PQ", "1h", 100);
+    assert.deepEqual(data.map((c) => c.open), [1, 2, 3]);
+    assert.equal(data[0].timestamp, Date.UTC(2024, 0, 1));
+  });
+
+  it("filters by date range", async () => {
+    const data = await getLocalKlines("DESK", "1d", 5, {
+      start: Date.UTC(2024, 0, 10),
+      end: Date.UTC(2024, 0, 19, 23, 59),
+    });
+    assert.equal(data.length, 10, "limit is ignored when start is set");
+    assert.equal(data[0].timestamp, Date.UTC(2024, 0, 10));
+  });
+
+  it("throws a helpful error when no file matches", async () => {
+    await assert.rejects(() => getLocalKlines("DESK", "5m", 10), /No local data file for DESK \(5m\)/);
+  });
+
+  it("serves the local market through getKlines and downstream utils", async () => {
+    const data = await getKlines("DESK", "local", "1d", 20);
+    assert.equal(data.length, 20);
+    const vp = calculateVolumeProfile(data, 10);
+    assert.ok(vp.poc > 0, "volume profile should work on local data");
+  });
+});
+
+describe("local parsing helpers", () => {
+  it("parseCsv handles quoted fields and escaped quotes", () => {
+    const rows = parseCsv('a,b\n"1,5","say ""hi"""\n');
+    assert.deepEqual(rows, [["a", "b"], ["1,5", 'say "hi"']]);
+  });
+
+  it("parseTimestamp detects epoch units and zoned strings", () => {
+    assert.equal(parseTimestamp("1704067200"), 1704067200000);
+    assert.equal(parseTimestamp(1704067200000), 1704067200000);
+    assert.equal(parseTimestamp(1704067200000000n), 1704067200000);
+    assert.equal(parseTimestamp("2024-01-01 08:00", "Asia/Shanghai"), Date.UTC(2024, 0, 1, 0, 0));
+    assert.equal(parseTimestamp("2024-01-01T08:00:00Z", "Asia/Shanghai"), Date.UTC(2024, 0, 1, 8, 0));
+  });
+});
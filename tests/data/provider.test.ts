@@ -0,0 +1,117 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getKlines,
+  getDCF,
+  getKeyMetrics,
+  getProvider,
+  listProviders,
+  registerProvider,
+  marketsSupporting,
+  getKlineSupportError,
+  getFeatureSupportError,
+  type DataProvider,
+} from "../../src/data/index.js";
+
+const builtinCommodity = getProvider("commodity");
+after(() => registerProvider(builtinCommodity));
+
+describe("provider registry", () => {
+  it("registers a built-in provider for every market", () => {
+    const markets = listProviders().map((p) => p.market).sort();
+    assert.deepEqual(markets, ["a_stock", "commodity", "crypto", "local", "us_stock"]);
+  });
+
+  it("derives feature support from capability flags", () => {
+    assert.deepEqual(marketsSupporting("dcf"), ["us_stock"]);
+    assert.deepEqual(marketsSupporting("fundamentals").sort(), ["a_stock", "us_stock"]);
+    assert.equal(getFeatureSupportError("us_stock", "estimates"), null);
+    const msg = getFeatureSupportError("crypto", "fundamentals");
+    assert.ok(msg?.includes("not supported"), msg ?? "");
+    assert.ok(msg?.includes("us_stock"), "should hint at markets that do support it");
+  });
+
+  it("reports unsupported timeframes from metadata", () => {
+    assert.equal(getKlineSupportError("crypto", "5m"), null);
+    assert.equal(getKlineSupportError("commodity", "4h"), null);
+    // Not served natively, but resampled from 1d / 4h
+    assert.equal(getKlineSupportError("commodity", "1w"), null);
+    assert.equal(getKlineSupportError("crypto", "12h"), null);
+    assert.match(getKlineSupportError("crypto", "90s") ?? "", /Invalid timeframe/);
+  });
+
+  it("rejects unsupported features without calling the provider", async () => {
+    await assert.rejects(() => getDCF("600519", "a_stock"), /DCF valuation not supported/);
+    await assert.rejects(() => getKeyMetrics("XAUUSD", "commodity"), /not supported/);
+  });
+
+  it("routes getKlines through a replacement provider", async () => {
+    const calls: string[] = [];
+    const inHouse: DataProvider = {
+      id: "in-house",
+      market: "commodity",
+      label: "Commodity",
+      capabilities: { timeframes: ["1h", "1d"], fundamentals: false, dcf: false, estimates: false },
+      getKlines: async (symbol, timeframe, limit) => {
+        calls.push(`${symbol}:${timeframe}:${limit}`);
+        return [{ timestamp: 1, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }];
+      },
+    };
+    registerProvider(inHouse);
+
+    const data = await getKlines("XAUUSD", "commodity", "1h", 5, { cache: "bypass" });
+    assert.equal(data.length, 1);
+    assert.deepEqual(calls, ["XAUUSD:1h:5"]);
+    assert.equal(getProvider("commodity").id, "in-house");
+  });
+
+  it("resamples timeframes the provider does not serve", async () => {
+    const day = 86_400_000;
+    const monday = Date.UTC(2024, 0, 1);
+    const calls: string[] = [];
+    registerProvider({
+      id: "daily-only",
+      market: "commodity",
+      label: "Commodity",
+      capabilities: { timeframes: ["1d"], fundamentals: false, dcf: false, estimates: false },
+      getKlines: async (symbol, timeframe, limit) => {
+        calls.push(`${timeframe}:${limit}`);
+        // Two weeks of weekday bars
+        return [0, 1, 2, 3, 4, 7, 8, 9, 10, 11].map((d, i) => ({
+          timestamp: monday + d * day, open: 10 + i, high: 20 + i, low: 5 + i, close: 11 + i, volume: 1,
+        }));
+      },
+    });
+
+    const weekly = await getKlines("XAUUSD", "commodity", "1w", 2, { cache: "bypass" });
+    assert.deepEqual(calls, ["1d:21"], "fetches (limit + 1) weeks of daily bars");
+    assert.equal(weekly.length, 2);
+    assert.deepEqual(weekly[1], {
+      timestamp: monday + 7 * day, open: 15, high: 29, low: 10, close: 20, volume: 5,
+    });
+    assert.match(getKlineSupportError("commodity", "1h") ?? "", /only supports daily timeframe/);
+  });
+
+  it("rejects resampled limits the capped base window can't fill", async () => {
+    const step = 300_000;
+    const end = Date.UTC(2024, 0, 1);
+    registerProvider({
+      id: "five-minute-only",
+      market: "commodity",
+      label: "Commodity",
+      capabilities: { timeframes: ["5m"], fundamentals: false, dcf: false, estimates: false },
+      getKlines: async (symbol, timeframe, limit) =>
+        Array.from({ length: limit }, (_, i) => ({
+          timestamp: end - (limit - i) * step, open: 1, high: 2, low: 0.5, close: 1.5, volume: 1,
+        })),
+    });
+
+    // 2h × 500 needs ~12k 5m bars; 5000 cover 209 buckets
+    await assert.rejects(
+      getKlines("XAUUSD", "commodity", "2h", 500, { cache: "bypass" }),
+      /Limit too large for 2h built from 5m: .* make only 209 bars\. Use limit ≤ 209/
+    );
+    const fits = await getKlines("XAUUSD", "commodity", "2h", 100, { cache: "bypass" });
+    assert.equal(fits.length, 100);
+  });
+});
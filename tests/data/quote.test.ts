@@ -0,0 +1,98 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getQuote,
+  getProvider,
+  registerProvider,
+  trackSources,
+  type DataProvider,
+  type OHLCV,
+} from "../../src/data/index.js";
+import { EXCHANGE_CALENDARS } from "../../src/data/sessions.js";
+import { installEodhdMock, removeEodhdMock } from "../helpers/eodhd-mock.js";
+import { installBinanceMock, removeBinanceMock } from "../helpers/binance-mock.js";
+
+const builtinCommodity = getProvider("commodity");
+const savedFmpKey = process.env.FMP_API_KEY;
+
+before(() => {
+  installEodhdMock();
+  installBinanceMock();
+  if (!process.env.EODHD_API_KEY) {
+    process.env.EODHD_API_KEY = "mock-test-key";
+  }
+});
+after(() => {
+  removeBinanceMock();
+  removeEodhdMock();
+  registerProvider(builtinCommodity);
+  if (savedFmpKey !== undefined) process.env.FMP_API_KEY = savedFmpKey;
+});
+
+describe("getQuote", () => {
+  it("quotes crypto from the 24h ticker with a 52-week range from daily bars", async () => {
+    const quote = await getQuote("btc", "crypto");
+    assert.equal(quote.symbol, "BTCUSDT");
+    assert.equal(quote.price, 102.5);
+    assert.equal(quote.change, 2.5);
+    assert.equal(quote.changePercent, 2.5);
+    assert.equal(quote.volume, 12345.6);
+    assert.equal(quote.delayed, false);
+    assert.equal(quote.status, "open", "crypto never closes");
+    assert.ok(quote.yearHigh! >= quote.dayHigh! && quote.yearLow! <= quote.dayLow!);
+  });
+
+  it("quotes A-shares in real time from EODHD", async () => {
+    const quote = await getQuote("SH600519", "a_stock");
+    assert.equal(quote.symbol, "600519.SHG");
+    assert.equal(quote.price, 1818);
+    assert.equal(quote.changePercent, 1);
+    assert.equal(quote.delayed, false);
+    assert.ok(["open", "closed"].includes(quote.status), "no extended hours in Shanghai");
+    assert.notEqual(quote.yearHigh, null);
+  });
+
+  it("falls back to the last two daily closes when the live quote is NA", async () => {
+    const quote = await getQuote("000001", "a_stock");
+    assert.equal(quote.symbol, "000001.SHE");
+    assert.equal(quote.delayed, true);
+    assert.ok(quote.price > 0 && quote.previousClose! > 0);
+    assert.ok(Math.abs(quote.change - (quote.price - quote.previousClose!)) < 1e-9);
+  });
+
+  it("fails over from FMP to EODHD for US stocks and keeps the plain ticker", async () => {
+    delete process.env.FMP_API_KEY;
+    const { result: quote, sources } = await trackSources(() => getQuote("AAPL", "us_stock"));
+    assert.equal(quote.symbol, "AAPL");
+    assert.equal(quote.market, "us_stock");
+    assert.equal(quote.price, 101);
+    assert.deepEqual(sources[0], { market: "us_stock", provider: "eodhd-us", fallbackFrom: ["fmp"] });
+  });
+
+  it("quotes the last daily close when no provider offers live quotes", async () => {
+    const day = 86_400_000;
+    const today = Math.floor(Date.now() / day) * day;
+    const bars: OHLCV[] = [
+      { timestamp: today - 2 * day, open: 10, high: 30, low: 9, close: 10, volume: 1 },
+      { timestamp: today - day, open: 10, high: 12, low: 5, close: 11, volume: 2 },
+    ];
+    const noQuotes: DataProvider = {
+      id: "bars-only",
+      market: "commodity",
+      label: "Commodity",
+      cacheable: false,
+      calendar: EXCHANGE_CALENDARS.fx,
+      capabilities: { timeframes: ["1d"], fundamentals: false, dcf: false, estimates: false },
+      getKlines: async () => bars,
+    };
+    registerProvider(noQuotes);
+
+    const quote = await getQuote("XAUUSD", "commodity");
+    assert.equal(quote.price, 11);
+    assert.equal(quote.previousClose, 10);
+    assert.equal(quote.changePercent, 10);
+    assert.equal(quote.delayed, true);
+    assert.equal(quote.timestamp, today - day);
+    assert.deepEqual([quote.yearLow, quote.yearHigh], [5, 30]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fetchKlineWindows, parseDateRange, DAY_MS } from "../../src/data/range.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+/** Fake upstream with one bar per day from `first` to `last`; records requested windows */
+function dailyUpstream(first: number, last: number) {
+  const windows: Array<[number, number]> = [];
+  const fetchWindow = async (from: number, to: number): Promise<OHLCV[]> => {
+    windows.push([from, to]);
+    const bars: OHLCV[] = [];
+    for (let t = Math.ceil(Math.max(from, first) / DAY_MS) * DAY_MS; t <= Math.min(to, last); t += DAY_MS) {
+      bars.push({ timestamp: t, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 });
+    }
+    return bars;
+  };
+  return { fetchWindow, windows };
+}
+
+const JAN_1 = Date.UTC(2024, 0, 1);
+
+describe("fetchKlineWindows", () => {
+  it("splits an explicit range into upstream-sized chunks", async () => {
+    const { fetchWindow, windows } = dailyUpstream(Date.UTC(2020, 0, 1), Date.UTC(2025, 0, 1));
+    const end = JAN_1 + 99 * DAY_MS;
+    const bars = await fetchKlineWindows(fetchWindow, 5, { start: JAN_1, end }, { maxSpanMs: 30 * DAY_MS });
+    assert.equal(bars.length, 100, "limit is ignored for explicit ranges");
+    assert.equal(windows.length, 4);
+    assert.equal(bars[0].timestamp, JAN_1);
+    assert.equal(bars[99].timestamp, end);
+  });
+
+  it("pages backward with a growing window until it has `limit` bars", async () => {
+    const { fetchWindow, windows } = dailyUpstream(Date.UTC(2020, 0, 1), Date.UTC(2025, 0, 1));
+    const end = JAN_1;
+    const bars = await fetchKlineWindows(fetchWindow, 50, { end }, {
+      initialSpanMs: 10 * DAY_MS,
+      maxSpanMs: 365 * DAY_MS,
+    });
+    assert.equal(bars.length, 50);
+    assert.equal(bars[49].timestamp, end);
+    // 10 + 20 + 40 days
+    assert.equal(windows.length, 3);
+    assert.equal(windows[1][1], windows[0][0] - 1, "windows are contiguous");
+  });
+
+  it("stops at the start of the history", async () => {
+    const listing = JAN_1 - 20 * DAY_MS;
+    const { fetchWindow, windows } = dailyUpstream(listing, JAN_1);
+    const bars = await fetchKlineWindows(fetchWindow, 500, { end: JAN_1 }, {
+      initialSpanMs: 30 * DAY_MS,
+      maxSpanMs: 60 * DAY_MS,
+    });
+    assert.equal(bars.length, 21);
+    assert.equal(windows.length, 2, "one empty month-long window ends the walk");
+  });
+
+  it("keeps walking through a short closure", async () => {
+    const upstream = dailyUpstream(Date.UTC(2020, 0, 1), Date.UTC(2025, 0, 1));
+    // Nine-day holiday right before `end`
+    const fetchWindow = async (from: number, to: number) =>
+      (await upstream.fetchWindow(from, to)).filter((c) => c.timestamp < JAN_1 - 9 * DAY_MS);
+    const bars = await fetchKlineWindows(fetchWindow, 5, { end: JAN_1 }, {
+      initialSpanMs: 7 * DAY_MS,
+      maxSpanMs: 365 * DAY_MS,
+    });
+    assert.equal(bars.length, 5);
+  });
+});
+
+describe("parseDateRange", () => {
+  it("treats a date-only end as the whole day", () => {
+    const range = parseDateRange("2022-01-01", "2022-12-31");
+    assert.equal(range.start, Date.UTC(2022, 0, 1));
+    assert.equal(range.end, Date.UTC(2023, 0, 1) - 1);
+  });
+
+  it("accepts ISO datetimes and open-ended ranges", () => {
+    assert.deepEqual(parseDateRange("2024-03-01T14:30:00Z"), { start: Date.UTC(2024, 2, 1, 14, 30) });
+    assert.deepEqual(parseDateRange(undefined, "2024-03-01 12:00"), { end: Date.UTC(2024, 2, 1, 12) });
+    assert.deepEqual(parseDateRange(), {});
+  });
+
+  it("rejects invalid and inverted ranges", () => {
+    assert.throws(() => parseDateRange("last tuesday"), /Invalid start date/);
+    assert.throws(() => parseDateRange("2024-02-01", "2024-01-01"), /must be before end/);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseTimeframe,
+  pickBaseTimeframe,
+  aggregateIntraday,
+  resample,
+  resampleBaseLimit,
+  MAX_BASE_BARS,
+} from "../../src/data/resample.js";
+import { EXCHANGE_CALENDARS } from "../../src/data/sessions.js";
+import { toWallClock } from "../../src/utils/timezone.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+const MIN = 60_000;
+const DAY = 86_400_000;
+
+function bars(start: number, step: number, count: number): OHLCV[] {
+  return Array.from({ length: count }, (_, i) => ({
+    timestamp: start + i * step,
+    open: 10 + i,
+    high: 11 + i,
+    low: 9 + i,
+    close: 10.5 + i,
+    volume: 1,
+  }));
+}
+
+const localMinute = (ts: number, tz: string) => {
+  const w = toWallClock(ts, tz);
+  return w.hour * 60 + w.minute;
+};
+
+describe("parseTimeframe / pickBaseTimeframe", () => {
+  it("parses counts and units, rejecting malformed input", () => {
+    assert.deepEqual(parseTimeframe("12h"), { count: 12, unit: "h" });
+    assert.deepEqual(parseTimeframe("1M"), { count: 1, unit: "M" });
+    assert.throws(() => parseTimeframe("0d"), /Invalid timeframe/);
+    assert.throws(() => parseTimeframe("1y"), /Invalid timeframe/);
+  });
+
+  it("picks the coarsest base that divides the target", () => {
+    const crypto = ["1m", "5m", "15m", "1h", "4h", "1d", "1w", "1M"] as const;
+    assert.equal(pickBaseTimeframe("12h", [...crypto]), "4h");
+    assert.equal(pickBaseTimeframe("2h", [...crypto]), "1h");
+    assert.equal(pickBaseTimeframe("3d", [...crypto]), "1d");
+    assert.equal(pickBaseTimeframe("2w", [...crypto]), "1w");
+    assert.equal(pickBaseTimeframe("3M", [...crypto]), "1M");
+    assert.equal(pickBaseTimeframe("1M", ["1h", "1d"]), "1d");
+    assert.equal(pickBaseTimeframe("1h", ["1d"]), null);
+  });
+});
+
+describe("aggregateIntraday", () => {
+  it("anchors US 4h bars at the session open", () => {
+    // 09:30–16:00 EDT = 13:30–20:00 UTC
+    const halfHours = bars(Date.UTC(2024, 6, 1, 13, 30), 30 * MIN, 13);
+    const out = aggregateIntraday(halfHours, 240, EXCHANGE_CALENDARS.us, "regular");
+    assert.equal(out.length, 2);
+    assert.equal(localMinute(out[0].timestamp, "America/New_York"), 9 * 60 + 30);
+    assert.equal(localMinute(out[1].timestamp, "America/New_York"), 13 * 60 + 30);
+    assert.deepEqual(out[0], { timestamp: halfHours[0].timestamp, open: 10, high: 18, low: 9, close: 17.5, volume: 8 });
+    assert.equal(out[1].volume, 5);
+  });
+
+  it("skips the A-share lunch break when counting trading minutes", () => {
+    // 30-minute bars: 09:30–11:30 and 13:00–15:00 Shanghai (UTC+8)
+    const morning = bars(Date.UTC(2024, 0, 2, 1, 30), 30 * MIN, 4);
+    const afternoon = bars(Date.UTC(2024, 0, 2, 5, 0), 30 * MIN, 4);
+    const out = aggregateIntraday([...morning, ...afternoon], 60, EXCHANGE_CALENDARS.cn, "regular");
+    const starts = out.map((c) => localMinute(c.timestamp, "Asia/Shanghai"));
+    assert.deepEqual(starts, [570, 630, 780, 840]);  // 09:30, 10:30, 13:00, 14:00
+  });
+
+  it("never merges bars from different trading days", () => {
+    const day1 = bars(Date.UTC(2024, 6, 1, 13, 30), 30 * MIN, 13);
+    const day2 = day1.map((c) => ({ ...c, timestamp: c.timestamp + DAY }));
+    assert.equal(aggregateIntraday([...day1, ...day2], 1440, EXCHANGE_CALENDARS.us, "regular").length, 2);
+  });
+});
+
+describe("resample", () => {
+  it("builds Monday-anchored weeks from daily bars", () => {
+    // Wed 2024-01-03 .. Tue 2024-01-16
+    const daily = bars(Date.UTC(2024, 0, 3), DAY, 14);
+    const weekly = resample(daily, "1d", "1w");
+    assert.deepEqual(weekly.map((c) => new Date(c.timestamp).getUTCDate()), [3, 8, 15]);
+    assert.equal(weekly[1].volume, 7);
+    assert.equal(weekly[1].open, 15);
+    assert.equal(weekly[1].close, 21.5);
+  });
+
+  it("builds calendar months and quarters", () => {
+    const daily = bars(Date.UTC(2024, 0, 1), DAY, 100);  // Jan 1 .. Apr 9
+    const monthly = resample(daily, "1d", "1M");
+    assert.deepEqual(monthly.map((c) => c.volume), [31, 29, 31, 9]);
+    const quarterly = resample(daily, "1d", "3M");
+    assert.deepEqual(quarterly.map((c) => c.volume), [91, 9]);
+  });
+
+  it("anchors multi-day bars to the epoch so they don't shift", () => {
+    const daily = bars(Date.UTC(2024, 0, 1), DAY, 9);
+    const a = resample(daily, "1d", "3d");
+    const b = resample(daily.slice(1), "1d", "3d");
+    assert.equal(a[a.length - 1].timestamp, b[b.length - 1].timestamp);
+  });
+
+  it("uses the exchange-local date for intraday bases", () => {
+    // Extended-hours bars 19:00 ET Mon and 04:00 ET Tue fall on different New York days,
+    // but 19:00 EDT is already Tuesday in UTC
+    const candles = [
+      { timestamp: Date.UTC(2024, 6, 1, 23), open: 1, high: 1, low: 1, close: 1, volume: 1 },
+      { timestamp: Date.UTC(2024, 6, 2, 8), open: 2, high: 2, low: 2, close: 2, volume: 1 },
+    ];
+    const daily = resample(candles, "1h", "1d", { calendar: EXCHANGE_CALENDARS.us, session: "extended" });
+    assert.equal(daily.length, 2);
+  });
+
+  it("builds 12h crypto bars from 4h at 00:00 and 12:00 UTC", () => {
+    const fourHours = bars(Date.UTC(2024, 0, 1), 240 * MIN, 12);
+    const out = resample(fourHours, "4h", "12h");
+    assert.deepEqual(out.map((c) => new Date(c.timestamp).getUTCHours()), [0, 12, 0, 12]);
+  });
+
+  it("rejects bases that can't build the target", () => {
+    assert.throws(() => resample([], "1w", "1M"), /Cannot resample/);
+  });
+});
+
+describe("resampleBaseLimit", () => {
+  it("requests enough base bars for limit + 1 buckets", () => {
+    assert.equal(resampleBaseLimit("1w", "1d", 10), 77);
+    assert.equal(resampleBaseLimit("12h", "4h", 10), 33);
+    // US regular 1h session has 7 bars/day, a 1d target can't use more
+    assert.equal(resampleBaseLimit("1d", "1h", 10, EXCHANGE_CALENDARS.us), 77);
+    assert.equal(resampleBaseLimit("1M", "1d", 500), MAX_BASE_BARS);
+  });
+});
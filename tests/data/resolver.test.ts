@@ -0,0 +1,116 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  resolveSymbol,
+  canonicalSymbol,
+  matchSymbolLocally,
+  getKlines,
+} from "../../src/data/index.js";
+import { installEodhdMock, removeEodhdMock } from "../helpers/eodhd-mock.js";
+
+before(() => {
+  installEodhdMock();
+  if (!process.env.EODHD_API_KEY) {
+    process.env.EODHD_API_KEY = "mock-test-key";
+  }
+});
+after(() => removeEodhdMock());
+
+describe("canonicalSymbol", () => {
+  it("normalizes crypto pairs and bare tokens to USDT pairs", () => {
+    assert.equal(canonicalSymbol("BTC", "crypto"), "BTCUSDT");
+    assert.equal(canonicalSymbol("eth/usdt", "crypto"), "ETHUSDT");
+    assert.equal(canonicalSymbol("SOL-USDT", "crypto"), "SOLUSDT");
+    assert.equal(canonicalSymbol("bitcoin", "crypto"), "BTCUSDT");
+    assert.equal(canonicalSymbol("ETHBTC", "crypto"), "ETHBTC", "unknown shapes pass through");
+  });
+
+  it("adds exchange suffixes to A-share codes", () => {
+    assert.equal(canonicalSymbol("600519", "a_stock"), "600519.SHG");
+    assert.equal(canonicalSymbol("SH600519", "a_stock"), "600519.SHG");
+    assert.equal(canonicalSymbol("000001.SZ", "a_stock"), "000001.SHE");
+    assert.equal(canonicalSymbol("600519.SS", "a_stock"), "600519.SHG");
+  });
+
+  it("maps metal names and EODHD suffixes to the commodity symbol", () => {
+    assert.equal(canonicalSymbol("XAU", "commodity"), "XAUUSD");
+    assert.equal(canonicalSymbol("gold", "commodity"), "XAUUSD");
+    assert.equal(canonicalSymbol("XAUUSD.FOREX", "commodity"), "XAUUSD");
+    assert.equal(canonicalSymbol("白银", "commodity"), "XAGUSD");
+  });
+
+  it("uses dash share classes and drops .US for US stocks", () => {
+    assert.equal(canonicalSymbol("brk.b", "us_stock"), "BRK-B");
+    assert.equal(canonicalSymbol("AAPL.US", "us_stock"), "AAPL");
+  });
+
+  it("leaves local files alone", () => {
+    assert.equal(canonicalSymbol("my-desk.csv", "local"), "my-desk.csv");
+  });
+});
+
+describe("matchSymbolLocally", () => {
+  it("ranks a known token above the same letters as a US ticker", () => {
+    const [first, second] = matchSymbolLocally("SOL");
+    assert.deepEqual([first.symbol, first.market], ["SOLUSDT", "crypto"]);
+    assert.deepEqual([second.symbol, second.market], ["SOL", "us_stock"]);
+    assert.ok(first.confidence > second.confidence);
+  });
+});
+
+describe("resolveSymbol", () => {
+  it("finds companies by name through EODHD search, skipping unsupported exchanges", async () => {
+    const resolution = await resolveSymbol("apple");
+    assert.deepEqual(resolution.searched, ["rules", "eodhd"]);
+    assert.equal(resolution.match?.symbol, "AAPL");
+    assert.equal(resolution.match?.name, "Apple Inc");
+    assert.ok(resolution.candidates.every((c) => c.exchange !== "XETRA"));
+    assert.ok(resolution.candidates.some((c) => c.symbol === "APLE"));
+  });
+
+  it("flags names that fit several markets", async () => {
+    const resolution = await resolveSymbol("GOLD");
+    assert.equal(resolution.ambiguous, true);
+    const markets = resolution.candidates.map((c) => `${c.symbol}/${c.market}`);
+    assert.ok(markets.includes("XAUUSD/commodity"));
+    assert.ok(markets.includes("GOLD/us_stock"));
+
+    const scoped = await resolveSymbol("GOLD", { market: "commodity" });
+    assert.equal(scoped.ambiguous, false);
+    assert.equal(scoped.match?.symbol, "XAUUSD");
+  });
+
+  it("confirms guessed tickers that EODHD lists", async () => {
+    const resolution = await resolveSymbol("600519");
+    assert.equal(resolution.match?.symbol, "600519.SHG");
+    assert.equal(resolution.match?.name, "Kweichow Moutai Co Ltd");
+    assert.ok(resolution.match!.confidence >= 0.95);
+    assert.equal(resolution.candidates.filter((c) => c.symbol === "600519.SHG").length, 1);
+  });
+
+  it("returns no match for gibberish and works offline", async () => {
+    const resolution = await resolveSymbol("%%%", { remote: false });
+    assert.equal(resolution.match, null);
+    assert.deepEqual(resolution.candidates, []);
+    assert.deepEqual(resolution.searched, ["rules"]);
+  });
+
+  it("keeps local answers when search fails", async () => {
+    const original = global.fetch;
+    global.fetch = (async () => new Response("Forbidden", { status: 403 })) as typeof global.fetch;
+    try {
+      const resolution = await resolveSymbol("BTC");
+      assert.deepEqual(resolution.searched, ["rules"]);
+      assert.equal(resolution.match?.symbol, "BTCUSDT");
+    } finally {
+      global.fetch = original;
+    }
+  });
+});
+
+describe("router symbol resolution", () => {
+  it("accepts alternative spellings in getKlines", async () => {
+    const data = await getKlines("SH600519", "a_stock", "1d", 5, { cache: "bypass" });
+    assert.equal(data.length, 5);
+  });
+});
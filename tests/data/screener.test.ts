@@ -1,6 +1,6 @@
 import { describe, it, before, after } from "node:test";
 import assert from "node:assert/strict";
-import { getUSStockScreener, getCryptoScreener } from "../../src/data/screener.js";
+import { getUSStockScreener, getCryptoScreener, getScreenerPeerCandidates } from "../../src/data/screener.js";
 import { installEodhdMock, removeEodhdMock } from "../helpers/eodhd-mock.js";
 
 before(() => installEodhdMock());
@@ -97,3 +97,24 @@ describe("getCryptoScreener", () => {
     assert.ok(items.length <= 15, `Expected ≤15 items, got ${items.length}`);
   });
 });
+
+describe("getScreenerPeerCandidates", () => {
+  it("returns the company with its industry and sector lists", async () => {
+    const { company, candidates } = await getScreenerPeerCandidates("NVDA");
+    assert.equal(company.code, "NVDA");
+    assert.ok(candidates.some((c) => c.code === "AVGO" && c.industry === company.industry));
+    assert.ok(candidates.every((c) => c.sector === company.sector));
+  });
+
+  it("filters by industry and code", async () => {
+    const items = await getUSStockScreener({ industry: "Semiconductors", limit: 10 });
+    assert.ok(items.length > 1);
+    assert.ok(items.every((i) => i.industry === "Semiconductors"));
+    const [one] = await getUSStockScreener({ code: "MSFT", minMarketCap: 0 });
+    assert.equal(one.code, "MSFT");
+  });
+
+  it("throws for unknown tickers", async () => {
+    await assert.rejects(getScreenerPeerCandidates("ZZZZ"), /not found in the EODHD screener/);
+  });
+});
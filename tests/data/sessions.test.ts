@@ -0,0 +1,129 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EXCHANGE_CALENDARS,
+  filterSession,
+  intradayLookbackDays,
+  marketStatus,
+} from "../../src/data/sessions.js";
+import { getEodhdIntradayKlines } from "../../src/data/eodhd-intraday.js";
+import { getKlines } from "../../src/data/index.js";
+import { toWallClock } from "../../src/utils/timezone.js";
+import { installEodhdMock, removeEodhdMock } from "../helpers/eodhd-mock.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+/** Hourly bars covering a full UTC day */
+function hourlyBars(dayStart: number): OHLCV[] {
+  return Array.from({ length: 24 }, (_, i) => ({
+    timestamp: dayStart + i * 3_600_000,
+    open: 100 + i,
+    high: 101 + i,
+    low: 99 + i,
+    close: 100.5 + i,
+    volume: 10,
+  }));
+}
+
+const localMinute = (ts: number, tz: string) => {
+  const w = toWallClock(ts, tz);
+  return w.hour * 60 + w.minute;
+};
+
+describe("filterSession", () => {
+  it("keeps US regular hours in New York time across DST", () => {
+    const summer = filterSession(hourlyBars(Date.UTC(2024, 6, 1)), EXCHANGE_CALENDARS.us, "regular");
+    const winter = filterSession(hourlyBars(Date.UTC(2024, 0, 2)), EXCHANGE_CALENDARS.us, "regular");
+    // 10:00–15:00 ET starts are inside 09:30–16:00
+    assert.equal(summer.length, 6);
+    assert.equal(winter.length, 6);
+    assert.equal(summer[0].timestamp, Date.UTC(2024, 6, 1, 14));  // EDT = UTC-4
+    assert.equal(winter[0].timestamp, Date.UTC(2024, 0, 2, 15));  // EST = UTC-5
+  });
+
+  it("includes pre- and after-market bars for the extended session", () => {
+    const bars = filterSession(hourlyBars(Date.UTC(2024, 6, 1)), EXCHANGE_CALENDARS.us, "extended");
+    assert.equal(bars.length, 16);  // 04:00–19:00 ET
+    assert.equal(localMinute(bars[0].timestamp, "America/New_York"), 4 * 60);
+  });
+
+  it("drops the A-share lunch break", () => {
+    const bars = filterSession(hourlyBars(Date.UTC(2024, 0, 1, -8)), EXCHANGE_CALENDARS.cn, "regular");
+    const hours = bars.map((c) => toWallClock(c.timestamp, "Asia/Shanghai").hour);
+    assert.deepEqual(hours, [10, 11, 13, 14]);
+  });
+
+  it("keeps hour-aligned bars that open before the session but overlap it", () => {
+    // 09:00 Shanghai (01:00 UTC) holds 09:30–10:00; 12:00 sits wholly in the lunch break
+    const cn = filterSession(hourlyBars(Date.UTC(2024, 0, 1, -8)), EXCHANGE_CALENDARS.cn, "regular", 60);
+    assert.deepEqual(cn.map((c) => toWallClock(c.timestamp, "Asia/Shanghai").hour), [9, 10, 11, 13, 14]);
+    // 09:00 ET holds 09:30–10:00; 16:00 starts at the close
+    const us = filterSession(hourlyBars(Date.UTC(2024, 6, 1)), EXCHANGE_CALENDARS.us, "regular", 60);
+    assert.equal(us.length, 7);
+    assert.equal(us[0].timestamp, Date.UTC(2024, 6, 1, 13));  // EDT = UTC-4
+    assert.equal(toWallClock(us[us.length - 1].timestamp, "America/New_York").hour, 15);
+  });
+});
+
+describe("intradayLookbackDays", () => {
+  it("requests more calendar days for shorter sessions", () => {
+    const us = intradayLookbackDays("1h", 100, EXCHANGE_CALENDARS.us, "regular");
+    const fx = intradayLookbackDays("1h", 100, EXCHANGE_CALENDARS.fx, "regular");
+    assert.ok(us > fx, `us=${us} fx=${fx}`);
+    assert.ok(us >= Math.ceil(100 / 7), "at least enough trading days for the bars");
+  });
+});
+
+describe("marketStatus", () => {
+  it("splits the US day into pre-market, regular and after-hours in New York time", () => {
+    // Wednesday 2024-07-10, EDT (UTC-4)
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.us, Date.UTC(2024, 6, 10, 7)), "closed");
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.us, Date.UTC(2024, 6, 10, 12)), "pre_market");
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.us, Date.UTC(2024, 6, 10, 13, 30)), "open");
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.us, Date.UTC(2024, 6, 10, 21)), "after_hours");
+  });
+
+  it("closes A-shares over lunch and every exchange but crypto at weekends", () => {
+    // 12:00 Shanghai is 04:00 UTC
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.cn, Date.UTC(2024, 6, 10, 2)), "open");
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.cn, Date.UTC(2024, 6, 10, 4)), "closed");
+    const saturday = Date.UTC(2024, 6, 13, 15);
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.fx, saturday), "closed");
+    assert.equal(marketStatus(EXCHANGE_CALENDARS.crypto, saturday), "open");
+  });
+});
+
+describe("EODHD intraday", () => {
+  const savedKey = process.env.EODHD_API_KEY;
+
+  before(() => {
+    installEodhdMock();
+    process.env.EODHD_API_KEY = savedKey ?? "mock-test-key";
+  });
+
+  after(() => {
+    removeEodhdMock();
+    if (savedKey === undefined) delete process.env.EODHD_API_KEY;
+  });
+
+  it("returns A-share 15m bars inside Shanghai trading hours", async () => {
+    const bars = await getEodhdIntradayKlines("600519.SHG", "15m", 40, EXCHANGE_CALENDARS.cn);
+    assert.equal(bars.length, 40);
+    for (const c of bars) {
+      const m = localMinute(c.timestamp, "Asia/Shanghai");
+      assert.ok((m >= 570 && m < 690) || (m >= 780 && m < 900), `bar at minute ${m} outside session`);
+      assert.equal((m - 570) % 15, 0, "15m bars aligned to the 09:30 open");
+    }
+  });
+
+  it("keeps the A-share 09:00 hourly bar that holds the opening trades", async () => {
+    const bars = await getEodhdIntradayKlines("600519.SHG", "1h", 20, EXCHANGE_CALENDARS.cn);
+    const hours = new Set(bars.map((c) => toWallClock(c.timestamp, "Asia/Shanghai").hour));
+    assert.deepEqual([...hours].sort((a, b) => a - b), [9, 10, 11, 13, 14]);
+  });
+
+  it("serves intraday commodity bars through getKlines", async () => {
+    const bars = await getKlines("XAUUSD", "commodity", "4h", 12);
+    assert.equal(bars.length, 12);
+    assert.equal(bars[1].timestamp - bars[0].timestamp, 4 * 3_600_000);
+  });
+});
@@ -2,9 +2,11 @@ import { describe, it } from "node:test";
 import assert from "node:assert";
 import {
   getUSStockCashFlow,
+  getUSStockBalanceSheet,
   getUSStockKeyMetrics,
   getUSStockDCF,
   getUSStockAnalystEstimates,
+  getUSStockEarningsHistory,
 } from "../../src/data/us-stock.js";
 import { apiTest } from "../helpers/api-guard.js";
 
@@ -42,6 +44,20 @@ describe("US Stock Extended Data", () => {
     }
   });
 
+  apiTest("should get balance sheet data for AAPL", async () => {
+    const data = await getUSStockBalanceSheet("AAPL", "annual", 3);
+    
+    assert.ok(Array.isArray(data), "Should return an array");
+    assert.ok(data.length > 0, "Should have at least one entry");
+    
+    const item = data[0];
+    assert.ok(/^\d{4}$/.test(item.period), "Annual period should be a year");
+    assert.ok(typeof item.metrics.totalAssets === "number", "Should have totalAssets");
+    assert.ok(typeof item.metrics.totalEquity === "number", "Should have totalEquity");
+    assert.ok(item.metrics.netDebt !== undefined, "Should have netDebt");
+    assert.ok(item.metrics.workingCapital !== undefined, "Should have workingCapital");
+  });
+
   apiTest("should get key metrics data for AAPL", async () => {
     const data = await getUSStockKeyMetrics("AAPL", "annual", 3);
     
@@ -115,4 +131,17 @@ describe("US Stock Extended Data", () => {
       "Quarterly period should match format YYYY-Q#"
     );
   });
+
+  apiTest("should get earnings history for AAPL", async () => {
+    const data = await getUSStockEarningsHistory("AAPL", 8);
+    
+    assert.ok(Array.isArray(data), "Should return an array");
+    assert.ok(data.length > 0, "Should have at least one report");
+    assert.ok(data.every((r, i) => i === 0 || r.date <= data[i - 1].date), "Newest first");
+    
+    const reported = data.find((r) => r.epsActual !== null);
+    assert.ok(reported, "Should include reported quarters");
+    assert.ok(/^\d{4}-\d{2}-\d{2}$/.test(reported.date), "Report date should be YYYY-MM-DD");
+    assert.ok(reported.epsEstimate === null || typeof reported.epsEstimate === "number", "epsEstimate should be a number");
+  });
 });
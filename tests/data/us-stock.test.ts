@@ -1,6 +1,6 @@
 import { test } from "node:test";
 import assert from "node:assert";
-import { getUSStockKlines, getUSStockFundamentals } from "../../src/data/us-stock.js";
+import { getUSStockKlines, getUSStockIntradayKlines, getUSStockFundamentals } from "../../src/data/us-stock.js";
 import { apiTest } from "../helpers/api-guard.js";
 
 apiTest("getUSStockKlines - AAPL", async () => {
@@ -97,3 +97,16 @@ test("getUSStockKlines - error handling (no API key)", async () => {
     }
   }
 });
+
+apiTest("getUSStockIntradayKlines - AAPL 15m regular session", async () => {
+  const result = await getUSStockIntradayKlines("AAPL", "15m", 20);
+
+  assert.ok(result.length > 0, "Should return data");
+  assert.ok(result.length <= 20, "Should respect limit");
+  for (const c of result) {
+    const et = new Date(c.timestamp).toLocaleString("en-US", { timeZone: "America/New_York", hour12: false });
+    const [h, m] = et.split(", ")[1].split(":").map(Number);
+    const minute = h * 60 + m;
+    assert.ok(minute >= 570 && minute < 960, `bar at ${et} should be within 09:30–16:00 ET`);
+  }
+});
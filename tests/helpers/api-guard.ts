@@ -22,6 +22,7 @@ const TRANSIENT_PATTERNS = [
   /502/,
   /ECONNREFUSED/,
   /ETIMEDOUT/,
+  /timed out/i,
   /ENOTFOUND/,
   /fetch failed/i,
 ];
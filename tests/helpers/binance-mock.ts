@@ -0,0 +1,241 @@
+/**
+ * Mock helper for Binance spot klines, 24h tickers, depth, aggregate trades and futures funding/positioning data.
+ * Intercepts global.fetch for api.binance.com/api/v3/klines, /api/v3/ticker/24hr,
+ * /api/v3/depth, /api/v3/aggTrades, fapi.binance.com/fapi/v1/fundingRate and fapi.binance.com/futures/data/*
+ * and serves synthetic, gap-free series (funding every 8h, statistics every
+ * `period`, a trade every 6s) honoring startTime/endTime/fromId/limit like the real endpoints. Records calls and the peak number of concurrent requests.
+ *
+ * Usage:
+ *   const stats = installBinanceMock({ listedAt: Date.UTC(2020, 0, 1) });
+ *   ...
+ *   removeBinanceMock();
+ */
+
+const INTERVAL_MS: Record<string, number> = {
+  "1m": 60_000,
+  "5m": 300_000,
+  "15m": 900_000,
+  "30m": 1_800_000,
+  "1h": 3_600_000,
+  "2h": 7_200_000,
+  "4h": 14_400_000,
+  "6h": 21_600_000,
+  "12h": 43_200_000,
+  "1d": 86_400_000,
+  "1w": 604_800_000,
+};
+
+export interface BinanceMockStats {
+  calls: URL[];
+  maxInFlight: number;
+}
+
+export interface BinanceMockOptions {
+  listedAt?: number;        // first candle open time (default 2017-08-17)
+  now?: number;             // latest candle cut-off (default Date.now())
+  usedWeight?: number;      // value of x-mbx-used-weight-1m on every response
+  latencyMs?: number;
+}
+
+let _originalFetch: typeof global.fetch | null = null;
+
+const FUNDING_INTERVAL_MS = 8 * 3_600_000;
+const FUNDING_JITTER_MS = 3;
+
+/** Funding alternates around +0.01% with the occasional negative print */
+export function mockFundingRate(fundingTime: number): number {
+  const n = Math.floor(fundingTime / FUNDING_INTERVAL_MS);
+  return n % 10 === 0 ? -0.0002 : 0.0001 + (n % 3) * 0.00005;
+}
+
+/** Open interest grows steadily; longs slightly outnumber shorts; taker buys lead */
+function makeStatsRow(url: URL, timestamp: number): Record<string, unknown> {
+  const symbol = url.searchParams.get("symbol");
+  const n = timestamp / 3_600_000;
+  if (url.pathname.endsWith("/openInterestHist")) {
+    return { symbol, timestamp, sumOpenInterest: String(1000 + n % 100), sumOpenInterestValue: String((1000 + n % 100) * 100) };
+  }
+  if (url.pathname.endsWith("/takerlongshortRatio")) {
+    return { timestamp, buySellRatio: "1.2", buyVol: "12", sellVol: "10" };
+  }
+  return { symbol, timestamp, longShortRatio: "1.5", longAccount: "0.6", shortAccount: "0.4" };
+}
+
+function makeKline(openTime: number): unknown[] {
+  const price = 100 + (openTime / 3_600_000) % 50;
+  return [openTime, String(price), String(price + 2), String(price - 2), String(price + 1), "10", openTime + 1, "0", 1, "0", "0", "0"];
+}
+
+/** Rolling 24h ticker: 100 → 102.5, range 99–103 */
+function makeTicker(symbol: string, now: number): Record<string, unknown> {
+  return {
+    symbol,
+    priceChange: "2.50000000",
+    priceChangePercent: "2.500",
+    openPrice: "100.00000000",
+    highPrice: "103.00000000",
+    lowPrice: "99.00000000",
+    lastPrice: "102.50000000",
+    volume: "12345.60000000",
+    openTime: now - 86_400_000,
+    closeTime: now,
+  };
+}
+
+/**
+ * Depth snapshot around a 100.00 mid: 0.01 ticks, 1 unit per level, with a
+ * 20-unit bid wall at 99.50 and a 30-unit ask wall at 100.50
+ */
+function makeDepth(limit: number): Record<string, unknown> {
+  const side = (first: number, step: number, wallAt: number, wallSize: number) =>
+    Array.from({ length: limit }, (_, i) => {
+      const price = Math.round((first + i * step) * 100) / 100;
+      return [price.toFixed(2), (price === wallAt ? wallSize : 1).toFixed(8)];
+    });
+  return {
+    lastUpdateId: 1027024,
+    bids: side(99.99, -0.01, 99.5, 20),
+    asks: side(100.01, 0.01, 100.5, 30),
+  };
+}
+
+/** One aggregate trade every 6s; its id is the timestamp / 6s */
+export const MOCK_TRADE_INTERVAL_MS = 6_000;
+
+/**
+ * Every third trade is a 1-unit sell, the others 2- and 3-unit buys, at
+ * the kline mock's price ± a few cents
+ */
+export function mockAggTrade(id: number): Record<string, unknown> {
+  const timestamp = id * MOCK_TRADE_INTERVAL_MS;
+  const price = 100 + (timestamp / 3_600_000) % 50 + ((id % 5) - 2) * 0.05;
+  return {
+    a: id,
+    p: price.toFixed(2),
+    q: (1 + (id % 3)).toFixed(8),
+    f: id * 2,
+    l: id * 2 + 1,
+    T: timestamp,
+    m: id % 3 === 0,
+  };
+}
+
+function makeAggTrades(url: URL, listedAt: number, now: number): Record<string, unknown>[] {
+  const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "500"), 1000);
+  const firstId = Math.ceil(listedAt / MOCK_TRADE_INTERVAL_MS);
+  const lastId = Math.floor(Math.min(+(url.searchParams.get("endTime") ?? Infinity), now) / MOCK_TRADE_INTERVAL_MS);
+  const fromId = url.searchParams.get("fromId");
+  const startTime = url.searchParams.get("startTime");
+
+  let from: number;
+  if (fromId !== null) from = Math.max(+fromId, firstId);
+  else if (startTime !== null) from = Math.max(Math.ceil(+startTime / MOCK_TRADE_INTERVAL_MS), firstId);
+  else from = Math.max(lastId - limit + 1, firstId);
+
+  const trades: Record<string, unknown>[] = [];
+  for (let id = from; id <= lastId && trades.length < limit; id++) trades.push(mockAggTrade(id));
+  return trades;
+}
+
+export function installBinanceMock(options: BinanceMockOptions = {}): BinanceMockStats {
+  const stats: BinanceMockStats = { calls: [], maxInFlight: 0 };
+  if (_originalFetch) return stats;
+  _originalFetch = global.fetch;
+
+  const listedAt = options.listedAt ?? Date.UTC(2017, 7, 17);
+  let inFlight = 0;
+
+  global.fetch = (async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    const isFunding = url.includes("fapi.binance.com/fapi/v1/fundingRate");
+    const isStats = url.includes("fapi.binance.com/futures/data/");
+    const isTicker = url.includes("api.binance.com/api/v3/ticker/24hr");
+    const isDepth = url.includes("api.binance.com/api/v3/depth");
+    const isAggTrades = url.includes("api.binance.com/api/v3/aggTrades");
+    if (!url.includes("api.binance.com/api/v3/klines") && !isFunding && !isStats && !isTicker && !isDepth && !isAggTrades) {
+      return _originalFetch!(input, init);
+    }
+
+    const urlObj = new URL(url);
+    stats.calls.push(urlObj);
+    inFlight++;
+    stats.maxInFlight = Math.max(stats.maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, options.latencyMs ?? 2));
+    inFlight--;
+
+    if (isTicker) {
+      return new Response(JSON.stringify(makeTicker(urlObj.searchParams.get("symbol") ?? "", options.now ?? Date.now())), {
+        status: 200,
+        headers: { "Content-Type": "application/json", "x-mbx-used-weight-1m": String(options.usedWeight ?? 10) },
+      });
+    }
+
+    if (isDepth) {
+      return new Response(JSON.stringify(makeDepth(parseInt(urlObj.searchParams.get("limit") ?? "100"))), {
+        status: 200,
+        headers: { "Content-Type": "application/json", "x-mbx-used-weight-1m": String(options.usedWeight ?? 10) },
+      });
+    }
+
+    if (isAggTrades) {
+      return new Response(JSON.stringify(makeAggTrades(urlObj, listedAt, options.now ?? Date.now())), {
+        status: 200,
+        headers: { "Content-Type": "application/json", "x-mbx-used-weight-1m": String(options.usedWeight ?? 10) },
+      });
+    }
+
+    const step = isFunding
+      ? FUNDING_INTERVAL_MS
+      : INTERVAL_MS[urlObj.searchParams.get(isStats ? "period" : "interval") ?? "1d"] ?? 86_400_000;
+    const limit = Math.min(
+      parseInt(urlObj.searchParams.get("limit") ?? (isFunding ? "100" : "500")),
+      isStats ? 500 : 1000
+    );
+    const startTime = urlObj.searchParams.get("startTime");
+    const endTime = urlObj.searchParams.get("endTime");
+    // Funding settles a few ms after the hour; bounds apply to that time
+    const jitter = isFunding ? FUNDING_JITTER_MS : 0;
+    const last = Math.floor(Math.min(endTime ? +endTime - jitter : Infinity, options.now ?? Date.now()) / step) * step;
+
+    const klines: unknown[][] = [];
+    if (startTime) {
+      // Oldest first from startTime
+      for (let t = Math.max(Math.ceil((+startTime - jitter) / step) * step, listedAt); t <= last && klines.length < limit; t += step) {
+        klines.push(makeKline(t));
+      }
+    } else {
+      // Most recent `limit` candles ending at endTime
+      for (let t = last; t >= listedAt && klines.length < limit; t -= step) {
+        klines.unshift(makeKline(t));
+      }
+    }
+
+    const body = isFunding
+      ? klines.map((k) => ({
+          symbol: urlObj.searchParams.get("symbol"),
+          fundingTime: (k[0] as number) + FUNDING_JITTER_MS,
+          fundingRate: String(mockFundingRate(k[0] as number)),
+          markPrice: k[4],
+        }))
+      : isStats
+        ? klines.map((k) => makeStatsRow(urlObj, k[0] as number))
+        : klines;
+
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "x-mbx-used-weight-1m": String(options.usedWeight ?? 10),
+      },
+    });
+  }) as typeof global.fetch;
+
+  return stats;
+}
+
+export function removeBinanceMock(): void {
+  if (_originalFetch) {
+    global.fetch = _originalFetch;
+    _originalFetch = null;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Fake Binance combined-stream WebSocket server on 127.0.0.1.
+ * Speaks just enough RFC 6455 for the live stream client: the upgrade
+ * handshake, unmasked text frames out, masked text/close/ping frames in.
+ * Answers SUBSCRIBE/UNSUBSCRIBE like Binance and lets tests push kline and
+ * ticker events or drop every connection to exercise reconnects.
+ *
+ * Usage:
+ *   const ws = await startBinanceWsMock();
+ *   const streams = createLiveStreams({ url: ws.url });
+ *   ...
+ *   ws.pushKline("BTCUSDT", "1m", { t: ..., c: 101, x: false });
+ *   await ws.close();
+ */
+
+import { createServer, type Server } from "node:http";
+import { createHash } from "node:crypto";
+import type { Socket } from "node:net";
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+export interface BinanceWsMock {
+  url: string;
+  /** Streams currently subscribed across connections */
+  subscriptions: Set<string>;
+  /** Every SUBSCRIBE/UNSUBSCRIBE request received, in order */
+  requests: Array<{ method: string; params: string[] }>;
+  connections(): number;
+  pushKline(symbol: string, interval: string, kline: Partial<MockKline> & { t: number }): void;
+  pushTicker(symbol: string, ticker: { c: number; p: number; P: number; o: number; h: number; l: number; v: number; C?: number }): void;
+  /** Send a text frame as-is to every client, e.g. a malformed event */
+  pushRaw(text: string): void;
+  /** Close every client socket without a close handshake, like a network drop */
+  dropConnections(): void;
+  /** Resolves once a SUBSCRIBE naming `stream` has arrived */
+  waitForSubscription(stream: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface MockKline {
+  t: number;
+  T: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  x: boolean;
+}
+
+function encodeFrame(text: string, opcode: number = 0x1): Buffer {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65_536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => {
+          const b = Buffer.alloc(8);
+          b.writeBigUInt64BE(BigInt(length));
+          return b;
+        })()]);
+  return Buffer.concat([header, payload]);
+}
+
+/** Split complete client frames off the buffer; returns the unconsumed rest */
+function decodeFrames(buffer: Buffer, onFrame: (opcode: number, payload: Buffer) => void): Buffer {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let pos = offset + 2;
+    if (length === 126) {
+      if (buffer.length < pos + 2) break;
+      length = buffer.readUInt16BE(pos);
+      pos += 2;
+    } else if (length === 127) {
+      if (buffer.length < pos + 8) break;
+      length = Number(buffer.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    const maskEnd = pos + (masked ? 4 : 0);
+    if (buffer.length < maskEnd + length) break;
+    const payload = Buffer.from(buffer.subarray(maskEnd, maskEnd + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[pos + (i % 4)];
+    }
+    onFrame(opcode, payload);
+    offset = maskEnd + length;
+  }
+  return buffer.subarray(offset);
+}
+
+export async function startBinanceWsMock(): Promise<BinanceWsMock> {
+  const sockets = new Set<Socket>();
+  const subscriptions = new Set<string>();
+  const requests: BinanceWsMock["requests"] = [];
+  const waiters: Array<{ stream: string; resolve: () => void }> = [];
+
+  const server: Server = createServer((_req, res) => {
+    res.writeHead(426).end();
+  });
+
+  server.on("upgrade", (req, socket: Socket) => {
+    const key = req.headers["sec-websocket-key"];
+    const accept = createHash("sha1").update(`${key}${WS_GUID}`).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => sockets.delete(socket));
+
+    let pending = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => {
+      pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame("", 0x8));
+          return;
+        }
+        if (opcode === 0x9) {
+          socket.write(encodeFrame(payload.toString(), 0xa));
+          return;
+        }
+        if (opcode !== 0x1) return;
+        const message = JSON.parse(payload.toString());
+        requests.push({ method: message.method, params: message.params ?? [] });
+        for (const stream of message.params ?? []) {
+          if (message.method === "SUBSCRIBE") subscriptions.add(stream);
+          if (message.method === "UNSUBSCRIBE") subscriptions.delete(stream);
+        }
+        socket.write(encodeFrame(JSON.stringify({ result: null, id: message.id })));
+        for (const w of [...waiters]) {
+          if (subscriptions.has(w.stream)) {
+            waiters.splice(waiters.indexOf(w), 1);
+            w.resolve();
+          }
+        }
+      });
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+
+  const broadcast = (stream: string, data: unknown) => {
+    if (!subscriptions.has(stream)) return;
+    const frame = encodeFrame(JSON.stringify({ stream, data }));
+    for (const s of sockets) s.write(frame);
+  };
+
+  return {
+    url: `ws://127.0.0.1:${port}/stream`,
+    subscriptions,
+    requests,
+    connections: () => sockets.size,
+    pushKline(symbol, interval, k) {
+      const stream = `${symbol.toLowerCase()}@kline_${interval}`;
+      const c = k.c ?? 100;
+      broadcast(stream, {
+        e: "kline",
+        E: Date.now(),
+        s: symbol,
+        k: {
+          t: k.t,
+          T: k.T ?? k.t + 59_999,
+          s: symbol,
+          i: interval,
+          o: String(k.o ?? c),
+          c: String(c),
+          h: String(k.h ?? c),
+          l: String(k.l ?? c),
+          v: String(k.v ?? 1),
+          x: k.x ?? false,
+        },
+      });
+    },
+    pushTicker(symbol, t) {
+      broadcast(`${symbol.toLowerCase()}@ticker`, {
+        e: "24hrTicker",
+        E: Date.now(),
+        s: symbol,
+        p: String(t.p),
+        P: String(t.P),
+        o: String(t.o),
+        h: String(t.h),
+        l: String(t.l),
+        c: String(t.c),
+        v: String(t.v),
+        C: t.C ?? Date.now(),
+      });
+    },
+    pushRaw(text) {
+      const frame = encodeFrame(text);
+      for (const s of sockets) s.write(frame);
+    },
+    dropConnections() {
+      subscriptions.clear();
+      for (const s of sockets) s.destroy();
+    },
+    waitForSubscription(stream) {
+      if (subscriptions.has(stream)) return Promise.resolve();
+      return new Promise((resolve) => waiters.push({ stream, resolve }));
+    },
+    async close() {
+      for (const s of sockets) s.destroy();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
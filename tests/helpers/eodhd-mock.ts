@@ -1,6 +1,8 @@
 /**
  * Mock helper for EODHD API calls.
- * Intercepts global.fetch to return mock data for eodhd.com URLs,
+ * Intercepts global.fetch to return mock data for eodhd.com URLs
+ * (/eod, /intraday, /fundamentals, /screener, /div, /splits,
+ * /calendar/earnings, /calendar/splits, /economic-events, /search),
  * while passing through all other requests to the real fetch.
  *
  * Usage:
@@ -11,11 +13,25 @@
 
 // ── Mock data factories ──
 
-function makeEodData(symbol: string, count: number) {
-  const now = new Date();
-  return Array.from({ length: count }, (_, i) => {
-    const d = new Date(now.getTime() - (count - i) * 86400000);
-    const dateStr = d.toISOString().split("T")[0];
+/** Trading days (weekdays) in [from, to], capped at yesterday; last `count` days without a window */
+function eodDates(count: number, from?: string | null, to?: string | null): string[] {
+  const now = Date.now();
+  if (!from || !to) {
+    return Array.from({ length: count }, (_, i) =>
+      new Date(now - (count - i) * 86400000).toISOString().split("T")[0]
+    );
+  }
+  const dates: string[] = [];
+  const last = Math.min(Date.parse(`${to}T00:00:00Z`), now - 86400000);
+  for (let t = Date.parse(`${from}T00:00:00Z`); t <= last; t += 86400000) {
+    const day = new Date(t).getUTCDay();
+    if (day !== 0 && day !== 6) dates.push(new Date(t).toISOString().split("T")[0]);
+  }
+  return dates;
+}
+
+function makeEodData(symbol: string, count: number, from?: string | null, to?: string | null) {
+  return eodDates(count, from, to).map((dateStr) => {
     // Use different price ranges for different symbols
     let basePrice = 100;
     if (symbol.includes("XAUUSD") || symbol.includes("XAUUSD.FOREX")) basePrice = 2650;
@@ -38,8 +54,48 @@ function makeEodData(symbol: string, count: number) {
   });
 }
 
-function makeScreenerData(params: { sector?: string; minMarketCap?: number; limit?: number }) {
-  const { sector, minMarketCap = 1_000_000_000, limit = 50 } = params;
+function makeRealtimeQuote(symbol: string) {
+  if (symbol.endsWith(".SHE")) {
+    return { code: symbol, timestamp: "NA", gmtoffset: 0, open: "NA", high: "NA", low: "NA", close: "NA", volume: "NA", previousClose: "NA", change: "NA", change_p: "NA" };
+  }
+  const base = symbol.includes("XAUUSD") ? 2650 : symbol.startsWith("6") ? 1800 : 100;
+  return {
+    code: symbol,
+    timestamp: Math.floor(Date.now() / 1000) - 60,
+    gmtoffset: 0,
+    open: base,
+    high: base * 1.02,
+    low: base * 0.99,
+    close: base * 1.01,
+    volume: 1234567,
+    previousClose: base,
+    change: base * 0.01,
+    change_p: 1,
+  };
+}
+
+function makeIntradayData(interval: string, from: number, to: number) {
+  // Round-the-clock bars on the interval grid; session filtering is the caller's job
+  const step = interval === "1h" ? 3600 : interval === "5m" ? 300 : 60;
+  const bars = [];
+  for (let t = Math.ceil(from / step) * step; t <= to; t += step) {
+    const open = 100 + (t / step) % 10;
+    bars.push({
+      timestamp: t,
+      gmtoffset: 0,
+      datetime: new Date(t * 1000).toISOString().replace("T", " ").slice(0, 19),
+      open,
+      high: open + 1,
+      low: open - 1,
+      close: open + 0.5,
+      volume: 1000,
+    });
+  }
+  return bars;
+}
+
+function makeScreenerData(params: { sector?: string; industry?: string; code?: string; minMarketCap?: number; limit?: number }) {
+  const { sector, industry, code, minMarketCap = 1_000_000_000, limit = 50 } = params;
 
   const stocks = [
     { code: "AAPL", name: "Apple Inc", sector: "Technology", industry: "Consumer Electronics", mcap: 3_500_000_000_000 },
@@ -68,6 +124,12 @@ function makeScreenerData(params: { sector?: string; minMarketCap?: number; limi
   if (sector) {
     filtered = filtered.filter(s => s.sector === sector);
   }
+  if (industry) {
+    filtered = filtered.filter(s => s.industry === industry);
+  }
+  if (code) {
+    filtered = filtered.filter(s => s.code === code);
+  }
 
   return filtered.slice(0, limit).map(s => ({
     code: s.code,
@@ -88,6 +150,8 @@ function makeFundamentalsData(symbol: string) {
   const quarterlyIncome: Record<string, any> = {};
   const annualCashFlow: Record<string, any> = {};
   const quarterlyCashFlow: Record<string, any> = {};
+  const annualBalanceSheet: Record<string, any> = {};
+  const quarterlyBalanceSheet: Record<string, any> = {};
 
   for (let y = 2025; y >= 2020; y--) {
     const dateKey = `${y}-12-31`;
@@ -98,6 +162,7 @@ function makeFundamentalsData(symbol: string) {
       netIncome: 20000000000 + Math.random() * 2000000000,
       ebitda: 30000000000 + Math.random() * 4000000000,
       eps: 10 + Math.random() * 5,
+      interestExpense: "-500000000",
     };
     annualCashFlow[dateKey] = {
       totalCashFromOperatingActivities: "25000000000",
@@ -106,12 +171,27 @@ function makeFundamentalsData(symbol: string) {
       dividendsPaid: "-5000000000",
       netIncome: "20000000000",
     };
+    annualBalanceSheet[dateKey] = {
+      totalAssets: "300000000000",
+      totalLiab: "60000000000",
+      totalStockholderEquity: "240000000000",
+      cash: "150000000000",
+      cashAndEquivalents: "140000000000",
+      shortLongTermDebt: "1000000000",
+      longTermDebt: "4000000000",
+      shortLongTermDebtTotal: null,
+      netDebt: null,
+      totalCurrentAssets: "250000000000",
+      totalCurrentLiabilities: "50000000000",
+      netWorkingCapital: null,
+      commonStockSharesOutstanding: "1256000000",
+    };
   }
 
-  for (let y = 2025; y >= 2024; y--) {
+  for (let y = 2025; y >= 2020; y--) {
     for (let q = 4; q >= 1; q--) {
       const month = q * 3;
-      const day = [0, 31, 30, 31, 30][q] || 31;
+      const day = [0, 31, 30, 30, 31][q];
       const dateKey = `${y}-${String(month).padStart(2, "0")}-${day}`;
       quarterlyIncome[dateKey] = {
         totalRevenue: 15000000000 + Math.random() * 3000000000,
@@ -128,9 +208,25 @@ function makeFundamentalsData(symbol: string) {
         dividendsPaid: "-1200000000",
         netIncome: "5000000000",
       };
+      quarterlyBalanceSheet[dateKey] = {
+        totalAssets: "290000000000",
+        totalLiab: "58000000000",
+        totalStockholderEquity: "232000000000",
+        cashAndEquivalents: "135000000000",
+        shortLongTermDebtTotal: "5000000000",
+        netDebt: "-130000000000",
+        netWorkingCapital: "195000000000",
+        commonStockSharesOutstanding: "1256000000",
+      };
     }
   }
 
+  // EODHD tags every statement with its reporting currency
+  const currency = /\.US$/i.test(symbol) ? "USD" : "CNY";
+  for (const statements of [annualIncome, quarterlyIncome, annualCashFlow, quarterlyCashFlow, annualBalanceSheet, quarterlyBalanceSheet]) {
+    for (const entry of Object.values(statements)) entry.currency_symbol = currency;
+  }
+
   return {
     Highlights: {
       PERatio: "35.20",
@@ -161,20 +257,89 @@ function makeFundamentalsData(symbol: string) {
         yearly: annualCashFlow,
         quarterly: quarterlyCashFlow,
       },
+      Balance_Sheet: {
+        yearly: annualBalanceSheet,
+        quarterly: quarterlyBalanceSheet,
+      },
     },
   };
 }
 
+/** Day `offset` days after `from` (YYYY-MM-DD) */
+function shiftDate(from: string, offset: number): string {
+  return new Date(Date.parse(`${from}T00:00:00Z`) + offset * 86400000).toISOString().split("T")[0];
+}
+
+/** One report per requested symbol (AAPL.US and 600519.SHG market-wide), 5 days into the window */
+function makeEarningsCalendar(from: string, symbols: string | null) {
+  const codes = symbols ? symbols.split(",") : ["AAPL.US", "MSFT.US", "600519.SHG"];
+  return {
+    type: "Earnings",
+    earnings: codes.map((code, i) => ({
+      code,
+      report_date: shiftDate(from, 5 + i),
+      date: "2026-09-30",
+      before_after_market: i % 2 === 0 ? "AfterMarket" : "BeforeMarket",
+      currency: "USD",
+      actual: null,
+      estimate: 1.5 + i,
+      difference: null,
+      percent: null,
+    })),
+  };
+}
+
+function makeSplitsCalendar(from: string) {
+  return {
+    type: "Splits",
+    splits: [
+      { code: "NVDA.US", split_date: shiftDate(from, 10), optionable: "Y", old_shares: 1, new_shares: 10 },
+      { code: "7203.TSE", split_date: shiftDate(from, 12), optionable: "N", old_shares: 1, new_shares: 5 },
+    ],
+  };
+}
+
+/** Three US releases of different weight; the CN set gets one */
+function makeEconomicEvents(from: string, country: string) {
+  const events = [
+    { type: "Non Farm Payrolls", period: "Sep", date: `${shiftDate(from, 3)} 12:30:00`, actual: null, previous: 142, estimate: 160 },
+    { type: "ISM Manufacturing PMI", period: "Sep", date: `${shiftDate(from, 1)} 14:00:00`, actual: 49.2, previous: 47.2, estimate: 47.5 },
+    { type: "MBA Mortgage Applications", period: null, date: `${shiftDate(from, 2)} 11:00:00`, actual: 0.5, previous: -1.2, estimate: null },
+  ];
+  return country === "US"
+    ? events.map((e) => ({ ...e, country, comparison: "mom", change: null, change_percentage: null }))
+    : [{ type: "Caixin Manufacturing PMI", period: "Sep", date: `${shiftDate(from, 1)} 01:45:00`, country, actual: null, previous: 50.4, estimate: 50.2 }];
+}
+
+/** Small listing matched on code prefix or name substring, like /search */
+const SEARCH_LISTINGS = [
+  { Code: "AAPL", Exchange: "US", Name: "Apple Inc", Type: "Common Stock", Country: "USA", Currency: "USD" },
+  { Code: "APLE", Exchange: "US", Name: "Apple Hospitality REIT Inc", Type: "Common Stock", Country: "USA", Currency: "USD" },
+  { Code: "APC", Exchange: "XETRA", Name: "Apple Inc", Type: "Common Stock", Country: "Germany", Currency: "EUR" },
+  { Code: "GOLD", Exchange: "US", Name: "Barrick Gold Corp", Type: "Common Stock", Country: "USA", Currency: "USD" },
+  { Code: "GLD", Exchange: "US", Name: "SPDR Gold Shares", Type: "ETF", Country: "USA", Currency: "USD" },
+  { Code: "XAUUSD", Exchange: "FOREX", Name: "Gold Spot", Type: "Currency", Country: "Unknown", Currency: "USD" },
+  { Code: "600519", Exchange: "SHG", Name: "Kweichow Moutai Co Ltd", Type: "Common Stock", Country: "China", Currency: "CNY" },
+  { Code: "BRK-B", Exchange: "US", Name: "Berkshire Hathaway Inc", Type: "Common Stock", Country: "USA", Currency: "USD" },
+];
+
+function makeSearchResults(query: string) {
+  const q = query.toUpperCase();
+  return SEARCH_LISTINGS.filter((l) => l.Code.startsWith(q) || l.Name.toUpperCase().includes(q));
+}
+
 // ── Fetch interceptor ──
 
 let _originalFetch: typeof global.fetch | null = null;
 
-function parseScreenerParams(url: string): { sector?: string; minMarketCap?: number; limit?: number } {
+function parseScreenerParams(url: string): { sector?: string; industry?: string; code?: string; minMarketCap?: number; limit?: number } {
   const urlObj = new URL(url);
   const filtersRaw = urlObj.searchParams.get("filters");
   const limitStr = urlObj.searchParams.get("limit");
   
   let sector: string | undefined;
+  let industry: string | undefined;
+  let code: string | undefined;
   let minMarketCap: number | undefined;
   const limit = limitStr ? parseInt(limitStr) : undefined;
 
@@ -183,12 +348,14 @@ function parseScreenerParams(url: string): { sector?: string; minMarketCap?: num
       const filters = JSON.parse(filtersRaw);
       for (const f of filters) {
         if (f[0] === "sector") sector = f[2];
+        if (f[0] === "industry") industry = f[2];
+        if (f[0] === "code") code = f[2];
         if (f[0] === "market_capitalization") minMarketCap = f[2];
       }
     } catch { /* ignore parse errors */ }
   }
 
-  return { sector, minMarketCap, limit };
+  return { sector, industry, code, minMarketCap, limit };
 }
 
 function extractSymbolFromPath(pathname: string): string {
@@ -226,6 +393,28 @@ export function installEodhdMock(): void {
       return makeMockResponse({ data });
     }
 
+    // Symbol search: /api/search/QUERY
+    if (pathname.includes("/search/")) {
+      return makeMockResponse(makeSearchResults(decodeURIComponent(extractSymbolFromPath(pathname))));
+    }
+
+    // Calendars: /api/calendar/earnings, /api/calendar/splits, /api/economic-events
+    const from = urlObj.searchParams.get("from") ?? new Date().toISOString().split("T")[0];
+    if (pathname.endsWith("/calendar/earnings")) {
+      return makeMockResponse(makeEarningsCalendar(from, urlObj.searchParams.get("symbols")));
+    }
+    if (pathname.endsWith("/calendar/splits")) {
+      return makeMockResponse(makeSplitsCalendar(from));
+    }
+    if (pathname.endsWith("/economic-events")) {
+      return makeMockResponse(makeEconomicEvents(from, urlObj.searchParams.get("country") ?? "US"));
+    }
+
+    // Live quote: /api/real-time/SYMBOL — Shenzhen listings answer "NA" like an unquoted ticker
+    if (pathname.includes("/real-time/")) {
+      return makeMockResponse(makeRealtimeQuote(extractSymbolFromPath(pathname)));
+    }
+
     // EOD endpoint: /api/eod/SYMBOL
     if (pathname.includes("/eod/")) {
       const symbol = extractSymbolFromPath(pathname);
@@ -233,10 +422,29 @@ export function installEodhdMock(): void {
       if (symbol.includes("INVALID")) {
         return new Response("Unauthorized", { status: 401 });
       }
-      const data = makeEodData(symbol, 20);
+      const data = makeEodData(symbol, 20, urlObj.searchParams.get("from"), urlObj.searchParams.get("to"));
       return makeMockResponse(data);
     }
 
+    // Intraday endpoint: /api/intraday/SYMBOL?interval=5m&from=&to=
+    if (pathname.includes("/intraday/")) {
+      const interval = urlObj.searchParams.get("interval") ?? "5m";
+      const from = parseInt(urlObj.searchParams.get("from") ?? "0");
+      const to = parseInt(urlObj.searchParams.get("to") ?? String(Math.floor(Date.now() / 1000)));
+      return makeMockResponse(makeIntradayData(interval, from, to));
+    }
+
+    // Corporate actions: /api/div/SYMBOL, /api/splits/SYMBOL (fixed history)
+    if (pathname.includes("/div/")) {
+      return makeMockResponse([
+        { date: "2023-06-30", value: 25.911, unadjustedValue: 25.911 },
+        { date: "2024-06-19", value: 30.876, unadjustedValue: 30.876 },
+      ]);
+    }
+    if (pathname.includes("/splits/")) {
+      return makeMockResponse([{ date: "2021-06-01", split: "1.300000/1.000000" }]);
+    }
+
     // Fundamentals endpoint: /api/fundamentals/SYMBOL
     if (pathname.includes("/fundamentals/")) {
       const symbol = extractSymbolFromPath(pathname);
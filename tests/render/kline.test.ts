@@ -64,4 +64,26 @@ describe("buildKlineOption", () => {
     const dz = option.dataZoom as any[];
     assert.ok(dz.length > 0, "should have at least one dataZoom");
   });
+
+  it("pins calendar events to candles and appends upcoming dates", () => {
+    const data = makeFakeCandles(10);
+    const day = (i: number) => new Date(data[0].timestamp + i * 86400000).toISOString().slice(0, 10);
+    const option = buildKlineOption(data, "AAPL", "1d", [
+      { date: day(3), type: "dividend", title: "AAPL ex-dividend 0.25", market: "us_stock", symbol: "AAPL" },
+      { date: day(15), type: "earnings", title: "AAPL earnings", market: "us_stock", symbol: "AAPL" },
+    ]);
+    const series = option.series as any[];
+    const marks = series[0].markPoint.data;
+    assert.deepEqual(marks.map((m: any) => m.value), ["D", "E"]);
+    assert.deepEqual(marks[0].coord, [3, data[3].high]);
+    assert.deepEqual(marks[1].coord, [10, data[9].close], "upcoming event sits after the last candle");
+    assert.equal((option.xAxis as any[])[0].data.length, 11);
+    assert.equal(series[0].data.length, 11);
+    assert.equal(series[1].data.length, 11);
+  });
+
+  it("has no markers without events", () => {
+    const option = buildKlineOption(makeFakeCandles(10), "AAPL", "1d");
+    assert.equal((option.series as any[])[0].markPoint, undefined);
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { registerLiveResources } from "../../src/resources/live.js";
+import { createLiveStreams, type LiveStreams } from "../../src/data/binance-stream.js";
+import { buildKlineOption } from "../../src/render/charts/kline.js";
+import { installBinanceMock, removeBinanceMock } from "../helpers/binance-mock.js";
+import { startBinanceWsMock, type BinanceWsMock } from "../helpers/binance-ws-mock.js";
+
+const URI = "gainlab://live/kline/BTCUSDT/1m";
+
+let ws: BinanceWsMock;
+let streams: LiveStreams;
+let client: Client;
+let server: McpServer;
+const updated: string[] = [];
+let onUpdated: (() => void) | null = null;
+
+const nextNotification = () => new Promise<void>((resolve) => (onUpdated = resolve));
+
+before(async () => {
+  installBinanceMock();
+  ws = await startBinanceWsMock();
+  streams = createLiveStreams({ url: ws.url, maxCandles: 100 });
+
+  server = new McpServer({ name: "gainlab-test", version: "0.0.0" });
+  registerLiveResources(server, streams);
+  client = new Client({ name: "test-client", version: "0.0.0" });
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updated.push(notification.params.uri);
+    onUpdated?.();
+    onUpdated = null;
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+after(async () => {
+  await client.close();
+  streams.close();
+  await ws.close();
+  removeBinanceMock();
+});
+
+describe("live MCP resources", () => {
+  it("advertises subscribable resource templates", async () => {
+    assert.equal(client.getServerCapabilities()?.resources?.subscribe, true);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.deepEqual(
+      resourceTemplates.map((t) => t.uriTemplate).sort(),
+      ["gainlab://live/kline/{symbol}/{timeframe}", "gainlab://live/ticker/{symbol}"]
+    );
+  });
+
+  it("serves a REST snapshot when nothing is subscribed", async () => {
+    const { contents } = await client.readResource({ uri: "gainlab://live/kline/eth/1h" });
+    const body = JSON.parse(contents[0].text as string);
+    assert.equal(body.symbol, "ETHUSDT");
+    assert.equal(body.live, false);
+    assert.equal(body.candles.length, 500);
+    assert.deepEqual(streams.active(), []);
+  });
+
+  it("notifies subscribers on every push and serves the rolling candles", async () => {
+    await client.subscribeResource({ uri: URI });
+    assert.deepEqual((await client.listResources()).resources.map((r) => r.uri), [URI]);
+
+    const { candles } = JSON.parse((await client.readResource({ uri: URI })).contents[0].text as string);
+    const last = candles[candles.length - 1];
+    const notified = nextNotification();
+    ws.pushKline("BTCUSDT", "1m", { t: last.timestamp + 60_000, c: 123, x: false });
+    await notified;
+    assert.deepEqual(updated, [URI]);
+
+    const body = JSON.parse((await client.readResource({ uri: URI })).contents[0].text as string);
+    assert.equal(body.live, true);
+    assert.equal(body.candles.length, 100);
+    assert.equal(body.candles.at(-1).close, 123);
+    // Ready to re-render as-is
+    const option = buildKlineOption(body.candles, body.symbol, body.timeframe);
+    assert.equal((option.xAxis as any[])[0].data.length, 100);
+  });
+
+  it("stops the stream on unsubscribe", async () => {
+    await client.unsubscribeResource({ uri: URI });
+    assert.deepEqual(streams.active(), []);
+    assert.deepEqual((await client.listResources()).resources, []);
+  });
+
+  it("shares one stream between concurrent subscribes to a URI", async () => {
+    await Promise.all([client.subscribeResource({ uri: URI }), client.subscribeResource({ uri: URI })]);
+    assert.deepEqual((await client.listResources()).resources.map((r) => r.uri), [URI]);
+    await client.unsubscribeResource({ uri: URI });
+    assert.deepEqual(streams.active(), []);
+  });
+
+  it("stops a stream unsubscribed while its subscribe is in flight", async () => {
+    const uri = "gainlab://live/ticker/ETHUSDT";
+    await Promise.all([client.subscribeResource({ uri }), client.unsubscribeResource({ uri })]);
+    assert.deepEqual(streams.active(), []);
+    assert.deepEqual((await client.listResources()).resources, []);
+  });
+
+  it("rejects unknown URIs and timeframes", async () => {
+    await assert.rejects(client.subscribeResource({ uri: "gainlab://live/kline/BTCUSDT/2h" }), /No live stream for timeframe 2h/);
+    await assert.rejects(client.subscribeResource({ uri: "gainlab://live/orderbook/BTCUSDT" }), /Not a live resource/);
+  });
+});
@@ -0,0 +1,37 @@
+// Integration tests for the calendar tool (timeline chart builder)
+
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { buildCalendarOption } from "../../src/render/charts/calendar.js";
+import type { CalendarEvent } from "../../src/data/types.js";
+
+const events: CalendarEvent[] = [
+  { date: "2026-10-02", time: "12:30", type: "macro", title: "US Non Farm Payrolls (Sep)", market: "us_stock", importance: "high", estimate: 160, previous: 142 },
+  { date: "2026-10-03", type: "macro", title: "US MBA Mortgage Applications", market: "us_stock", importance: "low" },
+  { date: "2026-10-06", type: "earnings", title: "AAPL earnings", market: "us_stock", symbol: "AAPL", importance: "high" },
+  { date: "2026-10-11", type: "split", title: "NVDA 10-for-1 split", market: "us_stock", symbol: "NVDA", importance: "medium" },
+];
+
+describe("Calendar Tool Integration", () => {
+  test("places events on type rows, one series per importance", () => {
+    const option = buildCalendarOption(events, "us_stock — Event Calendar");
+    assert.deepStrictEqual((option.yAxis as any).data, ["Macro", "Split", "Earnings"], "only types present get a row");
+    const series = option.series as any[];
+    assert.deepStrictEqual(series.map((s) => s.name), ["High importance", "Medium importance", "Low importance"]);
+    assert.deepStrictEqual(series.map((s) => s.data.length), [2, 1, 1]);
+    assert.ok(series[0].symbolSize > series[1].symbolSize && series[1].symbolSize > series[2].symbolSize);
+    assert.deepStrictEqual(series[0].data[1].value, [Date.parse("2026-10-06T12:00:00Z"), "Earnings"]);
+  });
+
+  test("describes each event for the tooltip", () => {
+    const series = buildCalendarOption(events, "Calendar").series as any[];
+    assert.strictEqual(series[0].data[0].name, "2026-10-02 12:30 — US Non Farm Payrolls (Sep) (est. 160, prev. 142)");
+    assert.strictEqual(typeof (buildCalendarOption(events, "Calendar").tooltip as any).formatter, "string");
+  });
+
+  test("marks today", () => {
+    const series = buildCalendarOption(events, "Calendar").series as any[];
+    assert.strictEqual(series[0].markLine.data.length, 1);
+    assert.ok(Math.abs(series[0].markLine.data[0].xAxis - Date.now()) < 60_000);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildEarningsOption } from "../../src/render/charts/earnings.js";
+import type { EarningsAnalysis } from "../../src/utils/earnings.js";
+import { getFeatureSupportError } from "../../src/data/index.js";
+import { UP_COLOR, DOWN_COLOR } from "../../src/render/themes.js";
+
+function sample(): EarningsAnalysis {
+  const base = { revenueActual: null, revenueEstimate: null, revenueSurprise: null };
+  return {
+    horizons: [1, 5, 20],
+    reports: [
+      { ...base, date: "2025-04-30", epsActual: 1.65, epsEstimate: 1.62, epsSurprise: 0.0185, outcome: "beat", returns: [0.02, 0.03, 0.05] },
+      { ...base, date: "2025-07-31", epsActual: 1.4, epsEstimate: 1.43, epsSurprise: -0.021, outcome: "miss", returns: [-0.04, -0.05, -0.06] },
+      { ...base, date: "2025-10-30", epsActual: 1.85, epsEstimate: 1.77, epsSurprise: 0.045, outcome: "beat", returns: [0.01, null, null],
+        revenueActual: 102.5e9, revenueEstimate: 102e9, revenueSurprise: 0.0049 },
+    ],
+    upcoming: null,
+    beatRate: 2 / 3,
+    avgEpsSurprise: 0.014,
+    drift: [
+      { outcome: "beat", count: 2, avgReturns: [0.015, 0.03, 0.05], positiveShare: [1, 1, 1] },
+      { outcome: "miss", count: 1, avgReturns: [-0.04, -0.05, -0.06], positiveShare: [0, 0, 0] },
+    ],
+  };
+}
+
+describe("Earnings Chart", () => {
+  it("should color EPS surprise bars by outcome and plot them in percent", () => {
+    const option = buildEarningsOption({ symbol: "AAPL", analysis: sample() });
+    const series = option.series as any[];
+    assert.deepEqual(series.map((s) => s.name), ["EPS surprise", "Revenue surprise", "1d reaction", "5d reaction", "20d reaction"]);
+    assert.deepEqual(series[0].data.map((p: any) => p.itemStyle.color), [UP_COLOR, DOWN_COLOR, UP_COLOR]);
+    assert.equal(series[0].data[2].value, 4.5);
+    assert.deepEqual(series[1].data, [null, null, 0.49]);
+  });
+
+  it("should leave reactions blank until the horizon has passed", () => {
+    const option = buildEarningsOption({ symbol: "AAPL", analysis: sample() });
+    const series = option.series as any[];
+    assert.deepEqual(series[3].data, [3, -5, null]);
+    assert.deepEqual((option.xAxis as any[])[1].data, ["2025-04-30", "2025-07-31", "2025-10-30"]);
+  });
+
+  it("should summarize beat rate and drift after beats vs misses", () => {
+    const option = buildEarningsOption({ symbol: "AAPL", analysis: sample() });
+    const subtext = (option.title as any).subtext as string;
+    assert.ok(subtext.includes("Beat rate 67%"));
+    assert.ok(subtext.includes("after beats 5d +3.0%"));
+    assert.ok(subtext.includes("after misses 5d -5.0%"));
+  });
+});
+
+describe("Earnings Tool capability gate", () => {
+  it("should reject markets without an estimates provider before fetching", () => {
+    assert.equal(getFeatureSupportError("us_stock", "estimates"), null);
+    assert.match(getFeatureSupportError("a_stock", "estimates")!, /Analyst estimates/);
+  });
+});
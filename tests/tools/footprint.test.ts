@@ -0,0 +1,112 @@
+// Integration tests for order flow: aggregate trades → footprint and CVD charts
+
+import { describe, test, before, after } from "node:test";
+import assert from "node:assert";
+import { getCryptoAggTrades, getCryptoKlines } from "../../src/data/crypto.js";
+import { buildFootprint, calculateVolumeDelta, coveredFrom, footprintTickSize } from "../../src/utils/orderflow.js";
+import { buildFootprintOption } from "../../src/render/charts/footprint.js";
+import { buildIndicatorsOption } from "../../src/render/charts/indicators.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerFootprintTool } from "../../src/tools/footprint.js";
+import { installBinanceMock, removeBinanceMock, MOCK_TRADE_INTERVAL_MS, type BinanceMockStats } from "../helpers/binance-mock.js";
+
+const NOW = Date.UTC(2024, 5, 3, 12);
+const MIN = 60_000;
+
+let stats: BinanceMockStats;
+
+before(() => {
+  stats = installBinanceMock({ now: NOW });
+});
+after(() => removeBinanceMock());
+
+describe("Footprint Tool Integration", () => {
+  test("fetches every trade in a short window with its aggressor side", async () => {
+    const { trades, complete } = await getCryptoAggTrades("btcusdt", { start: NOW - 30 * MIN });
+    assert.strictEqual(complete, true);
+    assert.strictEqual(trades.length, 30 * MIN / MOCK_TRADE_INTERVAL_MS + 1);
+    assert.strictEqual(trades[0].timestamp, NOW - 30 * MIN);
+    assert.strictEqual(trades.at(-1)!.timestamp, NOW);
+    assert.ok(trades.every((t, i) => i === 0 || t.id === trades[i - 1].id + 1), "consecutive ids");
+    assert.deepStrictEqual(trades.slice(0, 3).map((t) => t.side), ["sell", "buy", "buy"]);
+  });
+
+  test("pages backward by id and stops at the trade cap, keeping the newest", async () => {
+    stats.calls.length = 0;
+    const { trades, complete } = await getCryptoAggTrades("BTCUSDT", { start: NOW - 6 * 3_600_000 }, 1500);
+    assert.strictEqual(complete, false);
+    assert.strictEqual(trades.length, 1500);
+    assert.strictEqual(trades.at(-1)!.timestamp, NOW);
+    assert.strictEqual(stats.calls.length, 2);
+    assert.strictEqual(stats.calls[1].searchParams.get("fromId"), String(trades.at(-1)!.id - 1999));
+  });
+
+  test("anchors on the last trade at or before end", async () => {
+    const end = NOW - 3_600_000 - 1;
+    const { trades, complete } = await getCryptoAggTrades("BTCUSDT", { start: end - 10 * MIN, end });
+    assert.strictEqual(complete, true);
+    assert.ok(trades.at(-1)!.timestamp <= end);
+    assert.ok(end - trades.at(-1)!.timestamp < MOCK_TRADE_INTERVAL_MS);
+    assert.ok(trades[0].timestamp >= end - 10 * MIN);
+  });
+
+  test("builds footprint cells and delta/CVD panels for each bar", async () => {
+    const candles = await getCryptoKlines("BTCUSDT", "5m", 6);
+    const window = await getCryptoAggTrades("BTCUSDT", { start: candles[0].timestamp }, 40);
+    const from = coveredFrom(window);
+    const tick = footprintTickSize(candles);
+    const bars = buildFootprint(candles, window.trades, tick, from);
+    const delta = calculateVolumeDelta(candles, window.trades, from);
+
+    // 40 trades cover the last bar whole (50 trades per 5m) only partly
+    assert.deepStrictEqual(delta.map((d) => d === null), [true, true, true, true, true, false]);
+    assert.strictEqual(bars[4].levels.length, 0);
+
+    const option = buildFootprintOption({ symbol: "BTCUSDT", timeframe: "5m", bars, delta, tickSize: tick });
+    const series = option.series as any[];
+    assert.deepStrictEqual(series.map((s) => s.name), ["Footprint", "Delta", "CVD"]);
+    const cells = series[0].data;
+    assert.strictEqual(cells.length, bars[5].levels.length);
+    assert.ok(cells.every((c: any) => c.value[0] === 5));
+    assert.match(cells[0].label.formatter, /^[\d.K]+ × [\d.K]+$/);
+    assert.strictEqual(cells.filter((c: any) => c.itemStyle).length, 1, "one POC per bar");
+    assert.strictEqual(series[2].data.at(-1), delta[5]!.cvd);
+  });
+
+  test("adds a CVD panel to the indicators chart", async () => {
+    const candles = await getCryptoKlines("BTCUSDT", "1m", 40);
+    const window = await getCryptoAggTrades("BTCUSDT", { start: candles[0].timestamp });
+    const delta = calculateVolumeDelta(candles, window.trades, coveredFrom(window));
+    const option = buildIndicatorsOption({ data: candles, symbol: "BTCUSDT", timeframe: "1m", indicators: ["RSI", "CVD"], delta });
+
+    assert.strictEqual((option.grid as any[]).length, 4);
+    const cvd = (option.series as any[]).find((s) => s.name === "CVD");
+    assert.strictEqual(cvd.xAxisIndex, 3);
+    // 10 trades a minute, one in every three a 1-unit sell against 2- and 3-unit buys;
+    // the last bar holds only the trade at NOW
+    const whole = cvd.data.slice(0, -1);
+    assert.ok(whole.every((v: number, i: number) => i === 0 || v > whole[i - 1]), "mock buyers dominate");
+  });
+
+  test("rejects ranges wider than the bar cap before fetching trades", async () => {
+    const server = new McpServer({ name: "gainlab-test", version: "0.0.0" });
+    registerFootprintTool(server);
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const before = stats.calls.length;
+    const result = await client.callTool({
+      name: "gainlab_footprint",
+      arguments: { symbol: "BTCUSDT", timeframe: "1m", start: "2024-06-01", end: "2024-06-02" },
+    });
+    await client.close();
+
+    assert.strictEqual(result.isError, true);
+    const text = (result.content as Array<{ type: string; text?: string }>)[0].text!;
+    assert.match(text, /Date range too large for a 1m footprint: ~2880 bars \(max 60\)/);
+    assert.strictEqual(stats.calls.length, before, "no upstream requests");
+  });
+});
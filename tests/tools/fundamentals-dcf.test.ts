@@ -2,6 +2,9 @@ import { describe, it } from "node:test";
 import assert from "node:assert/strict";
 import { buildDCFGaugeOption } from "../../src/render/charts/dcf-gauge.js";
 import { buildEstimatesOption } from "../../src/render/charts/analyst-estimates.js";
+import { buildDCFSensitivityOption } from "../../src/render/charts/dcf-sensitivity.js";
+import { buildReverseDCFOption } from "../../src/render/charts/reverse-dcf.js";
+import { discountCashFlows } from "../../src/utils/dcf.js";
 
 describe("DCF Gauge Chart", () => {
   it("should build gauge for overvalued stock", () => {
@@ -37,6 +40,101 @@ describe("DCF Gauge Chart", () => {
     const hasTarget = graphic.some(g => g.style?.text?.includes("Analyst Target"));
     assert.ok(hasTarget);
   });
+
+  it("should label values in the given currency", () => {
+    const option = buildDCFGaugeOption({ symbol: "600519", dcfValue: 1800, stockPrice: 1500, currency: "¥" });
+    const title = option.title as any;
+    assert.ok(title.subtext.startsWith("Intrinsic: ¥1800.00"));
+    const graphic = option.graphic as any[];
+    assert.ok(graphic.some(g => g.style?.text === "DCF Intrinsic: ¥1800.00"));
+  });
+
+  it("should add discounted cash flow and EV bridge panels with a breakdown", () => {
+    const breakdown = discountCashFlows({
+      baseFcf: 10e9,
+      stages: [{ years: 5, growth: 0.08 }],
+      discountRate: 0.09,
+      terminal: { method: "growth", growth: 0.025 },
+      netDebt: 20e9,
+      sharesOutstanding: 15e9,
+    });
+    const option = buildDCFGaugeOption({ symbol: "AAPL", dcfValue: breakdown.perShare, stockPrice: 200, breakdown });
+    const series = option.series as any[];
+    assert.deepEqual(series.map(s => s.type), ["gauge", "bar", "bar", "bar"]);
+    assert.deepEqual((option.xAxis as any[])[0].data, ["Y1", "Y2", "Y3", "Y4", "Y5"]);
+    assert.equal(series[1].data[0], 10.8);
+    const bridge = series[3].data.map((d: any) => d.value);
+    assert.equal(bridge[2], -20);
+    assert.equal(bridge[3], Number((breakdown.equityValue / 1e9).toFixed(2)));
+    assert.equal((option.yAxis as any[])[0].name, "$B");
+    assert.deepEqual(series[0].center, ["50%", "36%"]);
+  });
+});
+
+describe("DCF Sensitivity Heatmap", () => {
+  const grid = {
+    discountRates: [0.08, 0.09, 0.1],
+    terminalValues: [0.02, 0.025, 0.03],
+    perShare: [
+      [150, 165, 185],
+      [125, 135, 148],
+      [105, 112, 120],
+    ],
+  };
+
+  it("should place the first rate on top and color cells by upside", () => {
+    const option = buildDCFSensitivityOption({ symbol: "AAPL", grid, terminalMethod: "growth", price: 135 });
+    const data = (option.series as any[])[0].data;
+    assert.equal(data.length, 9);
+    assert.deepEqual(data[0].value, [0, 2, 11.1]);
+    assert.equal(data[4].label.formatter, "$135");
+    assert.deepEqual((option.yAxis as any).data, ["10.0%", "9.0%", "8.0%"]);
+    assert.deepEqual((option.xAxis as any).data, ["2.0%", "2.5%", "3.0%"]);
+    assert.equal((option.visualMap as any).dimension, 2);
+  });
+
+  it("should outline the base case and skip blank cells", () => {
+    const option = buildDCFSensitivityOption({
+      symbol: "AAPL",
+      grid: { ...grid, perShare: [[150, 165, null], ...grid.perShare.slice(1)] },
+      terminalMethod: "multiple",
+      price: 135,
+      baseDiscountRate: 0.09,
+      baseTerminalValue: 0.025,
+    });
+    const data = (option.series as any[])[0].data;
+    assert.equal(data.length, 8);
+    const outlined = data.filter((d: any) => d.itemStyle?.borderWidth === 3);
+    assert.deepEqual(outlined.map((d: any) => d.value.slice(0, 2)), [[1, 1]]);
+    assert.equal((option.xAxis as any).data[0], "0.02×");
+  });
+});
+
+describe("Reverse DCF Chart", () => {
+  const curve = [-0.1, 0, 0.1, 0.2, 0.3].map((growth) => ({ growth, perShare: 100 * (1 + growth) ** 5 }));
+
+  it("should mark price, implied growth and historical growth", () => {
+    const option = buildReverseDCFOption({
+      symbol: "AAPL", curve, price: 161, impliedGrowth: 0.1, historicalGrowth: 0.06, years: 10,
+    });
+    const series = (option.series as any[])[0];
+    assert.deepEqual(series.data[2], [10, 161.05]);
+    const marks = series.markLine.data;
+    assert.equal(marks[0].yAxis, 161);
+    assert.deepEqual(marks.slice(1).map((m: any) => m.xAxis), [10, 6]);
+    assert.deepEqual(series.markPoint.data[0].coord, [10, 161]);
+    assert.ok((option.title as any).subtext.includes("10.0% FCF growth a year for 10 years"));
+  });
+
+  it("should leave out markers outside the curve", () => {
+    const option = buildReverseDCFOption({
+      symbol: "AAPL", curve, price: 5000, impliedGrowth: null, historicalGrowth: 0.45, years: 10, currency: "¥",
+    });
+    const series = (option.series as any[])[0];
+    assert.equal(series.markLine.data.length, 1);
+    assert.deepEqual(series.markPoint.data, []);
+    assert.ok((option.title as any).subtext.startsWith("Price ¥5000.00 is outside"));
+  });
 });
 
 describe("Analyst Estimates Chart", () => {
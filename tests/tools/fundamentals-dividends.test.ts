@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildDividendsOption } from "../../src/render/charts/dividends.js";
+import { analyzeDividends } from "../../src/utils/dividends.js";
+import type { CorporateAction } from "../../src/data/adjust.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+const DAY = 86_400_000;
+const T0 = Date.UTC(2022, 0, 3);
+const NOW = Date.UTC(2024, 5, 30);
+
+function sample() {
+  const actions: CorporateAction[] = [];
+  for (let q = 0; q < 10; q++) {
+    actions.push({ type: "dividend", date: T0 + q * 91 * DAY, amount: 0.5 + q * 0.01 });
+  }
+  const candles: OHLCV[] = Array.from({ length: 900 }, (_, i) => ({
+    timestamp: T0 + i * DAY, open: 40, high: 41, low: 39, close: 40, volume: 1,
+  }));
+  return analyzeDividends(actions, candles, [
+    { period: "2022", metrics: { dividendsPaid: 60, netIncome: 100 } },
+    { period: "2023", metrics: { dividendsPaid: 70, netIncome: 100 } },
+  ], NOW);
+}
+
+describe("Dividends Chart", () => {
+  it("should plot payouts and yield on top, annual totals and payout below", () => {
+    const option = buildDividendsOption({ symbol: "KO", analysis: sample() });
+    const series = option.series as any[];
+    assert.deepEqual(series.map((s) => s.name), ["Dividend / share", "TTM yield", "Annual total", "Payout ratio"]);
+    assert.equal(series[0].data.length, 10);
+    // Yield is plotted in percent
+    const lastYield = series[1].data[series[1].data.length - 1][1];
+    assert.ok(lastYield > 4 && lastYield < 6);
+    assert.deepEqual(series[3].data, [60, 70, null]);
+  });
+
+  it("should mark the running year as year-to-date", () => {
+    const option = buildDividendsOption({ symbol: "KO", analysis: sample() });
+    const categories = (option.xAxis as any[])[1].data;
+    assert.deepEqual(categories, ["2022", "2023", "2024 (YTD)"]);
+  });
+
+  it("should summarize yield, growth and payout in the subtitle", () => {
+    const option = buildDividendsOption({ symbol: "600519", analysis: sample(), currency: "¥" });
+    const subtext = (option.title as any).subtext as string;
+    assert.ok(subtext.includes("TTM yield"));
+    assert.ok(subtext.includes("¥"));
+    assert.ok(subtext.includes("1y CAGR"));
+    assert.ok(subtext.includes("Payout 70%"));
+  });
+});
@@ -62,4 +62,21 @@ describe("Fundamentals Extended Chart", () => {
     });
     assert.ok(option);
   });
+
+  it("should handle balance sheet metrics", () => {
+    const data = new Map<string, FundamentalData[]>();
+    data.set("AAPL", [
+      { period: "2025", metrics: { totalAssets: 359e9, totalDebt: 98e9, netDebt: 62e9, debtToEquity: 1.44, bookValuePerShare: 4.6 } },
+      { period: "2024", metrics: { totalAssets: 365e9, totalDebt: 106e9, netDebt: 76e9, debtToEquity: 1.87, bookValuePerShare: 3.8 } },
+    ]);
+    const option = buildFundamentalsOption({
+      data,
+      symbols: ["AAPL"],
+      metrics: ["total_assets", "net_debt", "debt_to_equity", "book_value_per_share"],
+      period: "annual"
+    });
+    const series = option.series as any[];
+    assert.deepEqual(series.map(s => s.name), ["Total Assets", "Net Debt", "Debt/Equity", "Book Value/Share"]);
+    assert.deepEqual(series[1].data, [62e9, 76e9]);
+  });
 });
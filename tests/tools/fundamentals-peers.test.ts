@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildPeersOption } from "../../src/render/charts/peers.js";
+import { comparePeers, sortPeerRows } from "../../src/utils/peers.js";
+import { UP_COLOR, DOWN_COLOR } from "../../src/render/themes.js";
+
+const comparison = comparePeers("AAPL", [
+  { symbol: "AAPL", values: { gross_margin: 0.46, roe: 1.5, pe_ratio: 34 } },
+  { symbol: "MSFT", values: { gross_margin: 0.69, roe: 0.35, pe_ratio: 36 } },
+  { symbol: "GOOGL", values: { gross_margin: 0.58, roe: 0.3, pe_ratio: 24 } },
+], ["gross_margin", "roe", "pe_ratio"]);
+
+describe("Peers Chart", () => {
+  it("should draw the subject filled and the peer median dashed on the radar", () => {
+    const option = buildPeersOption({ comparison });
+    const radar = (option.series as any[])[0];
+    assert.deepEqual(radar.data.map((d: any) => d.name), ["AAPL", "MSFT", "GOOGL", "Peer median"]);
+    assert.ok(radar.data[0].areaStyle);
+    assert.equal(radar.data[3].lineStyle.type, "dashed");
+    assert.deepEqual(radar.data[0].value, [0, 100, 50]);
+  });
+
+  it("should lay out the table in the given order with raw values as labels", () => {
+    const rows = sortPeerRows(comparison.rows, "gross_margin");
+    const option = buildPeersOption({ comparison, rows });
+    const labels = (option.yAxis as any).data.map((d: any) => d.value);
+    // Category axes run bottom-up
+    assert.deepEqual(labels, ["AAPL vs median", "Peer median", "AAPL", "GOOGL", "MSFT"]);
+    const cells = (option.series as any[])[1].data;
+    const msftMargin = cells.find((c: any) => c.value[0] === 0 && c.value[1] === 4);
+    assert.equal(msftMargin.label.formatter, "69.0%");
+    assert.equal(msftMargin.value[2], 100);
+  });
+
+  it("should color premium/discount by whether it is better", () => {
+    const option = buildPeersOption({ comparison });
+    const relative = (option.series as any[])[2].data.filter((c: any) => c.value[1] === 0);
+    assert.deepEqual(relative.map((c: any) => c.label.formatter), ["-17.5pp", "+117.5pp", "+13%"]);
+    assert.deepEqual(relative.map((c: any) => c.label.color), [DOWN_COLOR, UP_COLOR, DOWN_COLOR]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildValuationBandsOption } from "../../src/render/charts/valuation-bands.js";
+import type { ValuationBands } from "../../src/utils/valuation-bands.js";
+import { UP_COLOR, DOWN_COLOR } from "../../src/render/themes.js";
+
+const DAY = 86_400_000;
+const t0 = Date.parse("2025-01-02T00:00:00Z");
+
+function sample(): ValuationBands {
+  const multiples = [20, 22, null, 30];
+  return {
+    multiple: "pe",
+    points: multiples.map((multiple, i) => ({
+      timestamp: t0 + i * DAY,
+      close: 100 + i,
+      multiple,
+      bandPrices: multiple === null ? [null, null, null, null, null] : [60, 80, 100, 120, 140],
+    })),
+    levels: [-2, -1, 0, 1, 2].map((sigma) => ({ sigma, value: 24 + sigma * 4 })),
+    mean: 24,
+    std: 4,
+    current: 30,
+    zScore: 1.5,
+    percentile: 1,
+    coverage: 0.75,
+  };
+}
+
+describe("Valuation Bands Chart", () => {
+  it("should plot the multiple with mean and σ lines, ±1σ shaded", () => {
+    const option = buildValuationBandsOption({ symbol: "AAPL", bands: sample(), years: 5 });
+    const multiple = (option.series as any[])[0];
+    assert.deepEqual(multiple.data.map((p: any) => p[1]), [20, 22, null, 30]);
+    assert.deepEqual(multiple.markLine.data.map((l: any) => l.label.formatter), ["-2σ 16.0×", "-1σ 20.0×", "Mean 24.0×", "+1σ 28.0×", "+2σ 32.0×"]);
+    assert.deepEqual(multiple.markArea.data[0].map((e: any) => e.yAxis), [20, 28]);
+  });
+
+  it("should draw the price channel with cheap levels up-colored and rich ones down-colored", () => {
+    const option = buildValuationBandsOption({ symbol: "AAPL", bands: sample(), years: 5 });
+    const series = option.series as any[];
+    assert.deepEqual(series.slice(1).map((s) => s.name), ["Close", "P/E -2σ", "P/E -1σ", "P/E Mean", "P/E +1σ", "P/E +2σ"]);
+    assert.ok(series.slice(1).every((s) => s.xAxisIndex === 1));
+    assert.equal(series[2].lineStyle.color, UP_COLOR);
+    assert.equal(series[6].lineStyle.color, DOWN_COLOR);
+    assert.deepEqual(series[4].data.map((p: any) => p[1]), [100, 100, null, 100]);
+  });
+
+  it("should summarize where the current multiple sits", () => {
+    const option = buildValuationBandsOption({ symbol: "AAPL", bands: sample(), years: 5, currency: "$" });
+    const subtext = (option.title as any).subtext as string;
+    assert.ok(subtext.includes("P/E 30.0× vs 5y mean 24.0× (+1.5σ, percentile 100)"));
+    assert.ok(subtext.includes("±1σ 20.0–28.0×"));
+  });
+});
@@ -0,0 +1,66 @@
+// Integration tests for the funding rate tool (chart builder + funding analysis)
+
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { buildFundingRateOption } from "../../src/render/charts/funding-rate.js";
+import { analyzeFunding } from "../../src/utils/funding.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+function funding(shift: number) {
+  return analyzeFunding(Array.from({ length: 90 }, (_, i) => ({
+    timestamp: T0 + i * 8 * HOUR,
+    fundingRate: 0.0001 * Math.sin(i / 5 + shift),
+  })));
+}
+
+function prices(base: number): OHLCV[] {
+  return Array.from({ length: 120 }, (_, i) => {
+    const close = base * (1 + 0.01 * Math.sin(i / 10));
+    return { timestamp: T0 + i * 6 * HOUR, open: close, high: close, low: close, close, volume: 1 };
+  });
+}
+
+describe("Funding Rate Tool Integration", () => {
+  test("single perpetual: price, sign-colored funding bars and cumulative panels", () => {
+    const option = buildFundingRateOption({
+      series: [{ symbol: "BTCUSDT", analysis: funding(0), prices: prices(60_000) }],
+    });
+
+    assert.strictEqual((option.grid as any[]).length, 3);
+    const series = option.series as any[];
+    assert.deepStrictEqual(series.map((s) => s.type), ["line", "bar", "line"]);
+    assert.strictEqual(series[0].data[0][1], 60_000, "raw price for a single symbol");
+    const colors = new Set(series[1].data.map((d: any) => d.itemStyle.color));
+    assert.strictEqual(colors.size, 2, "positive and negative funding colored differently");
+    assert.ok(series[1].markLine, "mean annualized carry marked");
+    assert.match(String((option.title as any).subtext), /BTCUSDT: now .* ann\. \(p\d+\)/);
+  });
+
+  test("multiple perpetuals: normalized prices and one funding line each", () => {
+    const option = buildFundingRateOption({
+      series: [
+        { symbol: "BTCUSDT", analysis: funding(0), prices: prices(60_000) },
+        { symbol: "ETHUSDT", analysis: funding(1), prices: [] },
+      ],
+    });
+
+    const series = option.series as any[];
+    assert.strictEqual(series[0].data[0][1], 0, "price starts at 0% change");
+    assert.strictEqual(series.filter((s) => s.xAxisIndex === 0).length, 1, "no price line without prices");
+    assert.strictEqual(series.filter((s) => s.xAxisIndex === 1 && s.type === "line").length, 2);
+    assert.deepStrictEqual((option.legend as any).data, ["BTCUSDT", "ETHUSDT"]);
+  });
+
+  test("annualized and cumulative values are plotted in percent", () => {
+    const analysis = funding(0);
+    const option = buildFundingRateOption({ series: [{ symbol: "BTCUSDT", analysis, prices: [] }] });
+    const series = option.series as any[];
+    const cumulative = series.find((s) => s.xAxisIndex === 2);
+    const lastPoint = analysis.points[analysis.points.length - 1];
+    assert.strictEqual(cumulative.data.at(-1)[1], lastPoint.cumulative * 100);
+    assert.strictEqual(series[0].data[0].value[1], analysis.points[0].annualized * 100);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerKlineTool } from "../../src/tools/kline.js";
+import { installBinanceMock, removeBinanceMock, type BinanceMockStats } from "../helpers/binance-mock.js";
+
+let dir: string;
+let client: Client;
+let stats: BinanceMockStats;
+const savedEnv = { ...process.env };
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), "gainlab-kline-cache-"));
+  process.env.GAINLAB_CACHE = "on";
+  process.env.GAINLAB_CACHE_DIR = dir;
+  stats = installBinanceMock();
+
+  const server = new McpServer({ name: "gainlab-test", version: "0.0.0" });
+  registerKlineTool(server);
+  client = new Client({ name: "test-client", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+after(async () => {
+  await client.close();
+  removeBinanceMock();
+  process.env = savedEnv;
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** Calls gainlab_kline and returns its text and how many upstream requests it made */
+async function drawKline(cache?: "use" | "bypass" | "refresh") {
+  const before = stats.calls.length;
+  const result = await client.callTool({
+    name: "gainlab_kline",
+    arguments: { symbol: "BTCUSDT", market: "crypto", timeframe: "1d", limit: 30, ...(cache && { cache }) },
+  });
+  const text = (result.content as Array<{ type: string; text?: string }>)[0].text!;
+  return { text, requests: stats.calls.length - before };
+}
+
+describe("gainlab_kline cache option", () => {
+  it("serves a repeat request from the cache by default", async () => {
+    const cold = await drawKline();
+    assert.ok(cold.requests > 0);
+    const warm = await drawKline();
+    assert.equal(warm.requests, 0);
+    assert.match(warm.text, /Source: cache/);
+  });
+
+  it("goes upstream for bypass and refresh", async () => {
+    for (const mode of ["bypass", "refresh"] as const) {
+      const { text, requests } = await drawKline(mode);
+      assert.ok(requests > 0, `${mode} fetched`);
+      assert.doesNotMatch(text, /Source: cache/);
+    }
+    // Refresh rewrote the entry, so the cache still serves the next call
+    assert.equal((await drawKline("use")).requests, 0);
+  });
+});
@@ -0,0 +1,62 @@
+// Integration tests for the order book tool (depth snapshot + chart builder)
+
+import { describe, test, before, after } from "node:test";
+import assert from "node:assert";
+import { getCryptoOrderBook } from "../../src/data/crypto.js";
+import { analyzeOrderBook } from "../../src/utils/orderbook.js";
+import { buildOrderBookOption } from "../../src/render/charts/orderbook.js";
+import { installBinanceMock, removeBinanceMock, type BinanceMockStats } from "../helpers/binance-mock.js";
+
+let stats: BinanceMockStats;
+
+before(() => {
+  stats = installBinanceMock();
+});
+after(() => removeBinanceMock());
+
+async function analyze(notional = 10_000) {
+  const book = await getCryptoOrderBook("btcusdt", 500);
+  return analyzeOrderBook(book, { notional, range: 0.01, wallMultiple: 5 })!;
+}
+
+describe("Order Book Tool Integration", () => {
+  test("fetches a depth snapshot, best price first", async () => {
+    const book = await getCryptoOrderBook("btcusdt", 9999);
+    assert.strictEqual(stats.calls.at(-1)!.searchParams.get("limit"), "5000");
+    assert.strictEqual(stats.calls.at(-1)!.searchParams.get("symbol"), "BTCUSDT");
+    assert.strictEqual(book.symbol, "BTCUSDT");
+    assert.deepStrictEqual(book.bids[0], { price: 99.99, quantity: 1 });
+    assert.deepStrictEqual(book.asks[0], { price: 100.01, quantity: 1 });
+  });
+
+  test("finds the mock's walls and a balanced-ish imbalance", async () => {
+    const a = await analyze();
+    assert.strictEqual(a.mid, 100);
+    assert.deepStrictEqual(a.walls.map((w) => [w.side, w.price, w.multiple]), [["bid", 99.5, 20], ["ask", 100.5, 30]]);
+    assert.ok(a.imbalance < 0, "the larger ask wall tilts the book ask-heavy");
+  });
+
+  test("plots bids ascending and asks outward with mid and wall marks", async () => {
+    const a = await analyze();
+    const option = buildOrderBookOption(a);
+    const series = option.series as any[];
+    assert.deepStrictEqual(series.map((s) => s.name), ["Bids", "Asks"]);
+
+    const bidPrices = series[0].data.map((d: number[]) => d[0]);
+    assert.deepStrictEqual(bidPrices, [...bidPrices].sort((x: number, y: number) => x - y));
+    assert.strictEqual(series[0].data.at(-1)[1], a.bids[0].cumulativeNotional);
+    assert.strictEqual(series[1].data[0][0], a.bestAsk);
+
+    assert.strictEqual(series[0].markLine.data[0].xAxis, 100);
+    assert.strictEqual(series[0].markPoint.data.length, 1);
+    assert.deepStrictEqual(series[1].markPoint.data[0].coord[0], 100.5);
+    assert.match((option.title as any).subtext, /Spread 2\.00 bps/);
+  });
+
+  test("marks the sweep price of the slippage order when it lands in range", async () => {
+    const option = buildOrderBookOption(await analyze(6_000));
+    const marks = (option.series as any[])[0].markLine.data;
+    assert.strictEqual(marks.length, 3);
+    assert.match(marks[1].name, /^buy/);
+  });
+});
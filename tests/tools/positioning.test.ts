@@ -0,0 +1,52 @@
+// Integration tests for the positioning tool (chart builder + data alignment)
+
+import { describe, test } from "node:test";
+import assert from "node:assert";
+import { buildPositioningOption } from "../../src/render/charts/positioning.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+const candles: OHLCV[] = Array.from({ length: 48 }, (_, i) => ({
+  timestamp: T0 + i * HOUR, open: 100 + i, high: 102 + i, low: 99 + i, close: 101 + i, volume: 10,
+}));
+// Positioning history starts later than price and skips one sample
+const times = candles.slice(8).map((c) => c.timestamp).filter((_, i) => i !== 5);
+
+function build() {
+  return buildPositioningOption({
+    symbol: "BTCUSDT",
+    period: "1h",
+    candles,
+    openInterest: times.map((timestamp, i) => ({ timestamp, openInterest: 1000 + i, openInterestValue: 1e8 + i })),
+    longShort: times.map((timestamp) => ({ timestamp, longShortRatio: 1.3, longShare: 0.565, shortShare: 0.435 })),
+    taker: times.map((timestamp) => ({ timestamp, buyVolume: 12, sellVolume: 9, buySellRatio: 12 / 9 })),
+  });
+}
+
+describe("Positioning Tool Integration", () => {
+  test("stacks price, open interest, long/short and taker panels", () => {
+    const option = build();
+    assert.strictEqual((option.grid as any[]).length, 4);
+    assert.strictEqual((option.xAxis as any[]).length, 4);
+    const names = (option.series as any[]).map((s) => s.name);
+    assert.deepStrictEqual(names, ["K Line", "Open Interest (USD)", "Top Trader L/S", "Taker Buy", "Taker Sell"]);
+  });
+
+  test("aligns positioning samples to candles, leaving gaps null", () => {
+    const series = build().series as any[];
+    const oi = series[1].data as (number | null)[];
+    assert.strictEqual(oi.length, candles.length);
+    assert.strictEqual(oi[7], null, "before the positioning history");
+    assert.strictEqual(oi[8], 1e8);
+    assert.strictEqual(oi[13], null, "missing sample");
+  });
+
+  test("plots taker sells below zero and marks the 1.0 long/short line", () => {
+    const series = build().series as any[];
+    assert.strictEqual(series[4].data[8], -9);
+    assert.strictEqual(series[3].stack, series[4].stack);
+    assert.deepStrictEqual(series[2].markLine.data, [{ yAxis: 1 }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  capitalCost,
+  centeredRange,
+  defaultStages,
+  discountCashFlows,
+  historicalGrowth,
+  impliedGrowth,
+  sensitivityGrid,
+  withUniformGrowth,
+  type DCFInputs,
+} from "../../src/utils/dcf.js";
+
+const close = (a: number, b: number, eps = 1e-9) => assert.ok(Math.abs(a - b) < eps, `${a} ≉ ${b}`);
+
+const base: DCFInputs = {
+  baseFcf: 100,
+  stages: [{ years: 2, growth: 0.1 }],
+  discountRate: 0.1,
+  terminal: { method: "growth", growth: 0.02 },
+  netDebt: 50,
+  sharesOutstanding: 10,
+};
+
+describe("discountCashFlows", () => {
+  it("projects and discounts each forecast year", () => {
+    const v = discountCashFlows(base);
+    assert.deepEqual(v.projections.map((p) => p.year), [1, 2]);
+    close(v.projections[0].fcf, 110);
+    close(v.projections[1].fcf, 121);
+    close(v.projections[0].presentValue, 100);
+    close(v.projections[1].presentValue, 100);
+    close(v.pvForecast, 200);
+  });
+
+  it("values the terminal with Gordon growth and bridges to per-share", () => {
+    const v = discountCashFlows(base);
+    close(v.terminalValue, (121 * 1.02) / 0.08);
+    close(v.pvTerminal, v.terminalValue / 1.21);
+    close(v.enterpriseValue, 200 + v.pvTerminal);
+    close(v.equityValue, v.enterpriseValue - 50);
+    close(v.perShare, v.equityValue / 10);
+    close(v.terminalShare, v.pvTerminal / v.enterpriseValue);
+  });
+
+  it("supports an exit multiple and chained stages", () => {
+    const v = discountCashFlows({
+      ...base,
+      stages: [{ years: 1, growth: 0.2 }, { years: 1, growth: -0.5 }],
+      terminal: { method: "multiple", multiple: 12 },
+    });
+    assert.deepEqual(v.projections.map((p) => p.growth), [0.2, -0.5]);
+    close(v.projections[1].fcf, 60);
+    close(v.terminalValue, 720);
+  });
+
+  it("rejects a discount rate at or below terminal growth", () => {
+    assert.throws(() => discountCashFlows({ ...base, discountRate: 0.02 }), /must exceed terminal growth/);
+    assert.throws(() => discountCashFlows({ ...base, sharesOutstanding: 0 }), /Shares outstanding/);
+    assert.throws(() => discountCashFlows({ ...base, stages: [] }), /forecast year/);
+  });
+});
+
+describe("capitalCost", () => {
+  it("uses CAPM alone without a cost of debt", () => {
+    const c = capitalCost({ riskFreeRate: 0.04, beta: 1.2, equityRiskPremium: 0.05, taxRate: 0.21, equityValue: 900, debtValue: 100 });
+    close(c.costOfEquity, 0.1);
+    assert.equal(c.afterTaxCostOfDebt, null);
+    assert.equal(c.wacc, c.costOfEquity);
+  });
+
+  it("weights after-tax debt by market values", () => {
+    const c = capitalCost({
+      riskFreeRate: 0.04, beta: 1.2, equityRiskPremium: 0.05, costOfDebt: 0.05, taxRate: 0.2, equityValue: 900, debtValue: 100,
+    });
+    close(c.afterTaxCostOfDebt!, 0.04);
+    close(c.debtWeight, 0.1);
+    close(c.wacc, 0.9 * 0.1 + 0.1 * 0.04);
+  });
+});
+
+describe("growth defaults", () => {
+  it("computes FCF CAGR only between positive ends", () => {
+    close(historicalGrowth([100, 110, 121])!, 0.1);
+    assert.equal(historicalGrowth([-5, 10]), null);
+    assert.equal(historicalGrowth([10]), null);
+  });
+
+  it("clamps history into two fading stages", () => {
+    assert.deepEqual(defaultStages(0.3, 0.03), [{ years: 5, growth: 0.15 }, { years: 5, growth: 0.09 }]);
+    assert.deepEqual(defaultStages(-0.1, 0.02), [{ years: 5, growth: 0 }, { years: 5, growth: 0.01 }]);
+    assert.equal(defaultStages(null, 0.02)[0].growth, 0.05);
+  });
+});
+
+describe("sensitivityGrid", () => {
+  it("centers axes on the base case", () => {
+    assert.deepEqual(centeredRange(0.09, 0.01, 5), [0.07, 0.08, 0.09, 0.1, 0.11]);
+    assert.deepEqual(centeredRange(15, 2, 3), [13, 15, 17]);
+  });
+
+  it("revalues per cell and leaves rates at or below growth blank", () => {
+    const grid = sensitivityGrid(base, [0.02, 0.1], [0.01, 0.02]);
+    assert.deepEqual(grid.perShare[0].map((v) => v === null), [false, true]);
+    close(grid.perShare[1][1]!, discountCashFlows(base).perShare);
+    assert.ok(grid.perShare[1][0]! < grid.perShare[1][1]!);
+  });
+
+  it("varies exit multiples when the terminal uses one", () => {
+    const grid = sensitivityGrid({ ...base, terminal: { method: "multiple", multiple: 10 } }, [0.1], [10, 12]);
+    const diff = grid.perShare[0][1]! - grid.perShare[0][0]!;
+    close(diff, (2 * 121) / 1.21 / 10);
+  });
+});
+
+describe("impliedGrowth", () => {
+  it("recovers the growth rate behind a price", () => {
+    const price = discountCashFlows(withUniformGrowth(base, 0.12, 10)).perShare;
+    close(impliedGrowth(base, price, 10)!, 0.12, 1e-6);
+  });
+
+  it("is null when no growth in range reaches the price", () => {
+    assert.equal(impliedGrowth(base, 1e9, 10), null);
+    assert.equal(impliedGrowth(base, -1e9, 10), null);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  splitAdjustDividends,
+  annualDividends,
+  dividendGrowth,
+  trailingYield,
+  analyzeDividends,
+} from "../../src/utils/dividends.js";
+import type { CorporateAction } from "../../src/data/adjust.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+const DAY = 86_400_000;
+const d = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+function closes(from: string, days: number, close = 100): OHLCV[] {
+  return Array.from({ length: days }, (_, i) => ({
+    timestamp: d(from) + i * DAY, open: close, high: close, low: close, close, volume: 1,
+  }));
+}
+
+/** $0.20 a quarter through 2021, $0.25 from 2022, with a 2:1 split mid-2022 */
+function quarterly(): CorporateAction[] {
+  const actions: CorporateAction[] = [];
+  for (let year = 2019; year <= 2024; year++) {
+    for (const month of ["02", "05", "08", "11"]) {
+      actions.push({ type: "dividend", date: d(`${year}-${month}-10`), amount: year < 2022 ? 0.4 : 0.25 });
+    }
+  }
+  actions.push({ type: "split", date: d("2022-01-15"), ratio: 2 });
+  return actions;
+}
+
+describe("splitAdjustDividends", () => {
+  it("divides payouts before a split by its ratio", () => {
+    const payments = splitAdjustDividends([
+      { type: "dividend", date: d("2020-05-01"), amount: 1 },
+      { type: "split", date: d("2020-08-31"), ratio: 4 },
+      { type: "dividend", date: d("2020-11-01"), amount: 0.3 },
+    ]);
+    assert.deepEqual(payments.map((p) => p.amount), [0.25, 0.3]);
+    assert.deepEqual(payments.map((p) => p.rawAmount), [1, 0.3]);
+  });
+
+  it("sorts by ex-date and drops zero payouts", () => {
+    const payments = splitAdjustDividends([
+      { type: "dividend", date: d("2021-01-01"), amount: 0.5 },
+      { type: "dividend", date: d("2020-01-01"), amount: 0 },
+      { type: "dividend", date: d("2019-01-01"), amount: 0.4 },
+    ]);
+    assert.deepEqual(payments.map((p) => p.date), [d("2019-01-01"), d("2021-01-01")]);
+  });
+});
+
+describe("annualDividends", () => {
+  it("totals calendar years and joins payout ratios by fiscal year", () => {
+    const payments = splitAdjustDividends(quarterly());
+    const annual = annualDividends(payments, [
+      { period: "2023", metrics: { dividendsPaid: 400, netIncome: 1000 } },
+      { period: "2022", metrics: { dividendsPaid: 500, netIncome: -10 } },
+    ], 2024);
+    assert.equal(annual.length, 6);
+    assert.ok(Math.abs(annual[0].total - 0.8) < 1e-9);
+    assert.equal(annual[0].payments, 4);
+    assert.equal(annual.find((a) => a.year === 2023)!.payoutRatio, 0.4);
+    // A loss year has no meaningful payout ratio
+    assert.equal(annual.find((a) => a.year === 2022)!.payoutRatio, null);
+    assert.equal(annual[annual.length - 1].partial, true);
+    assert.equal(annual[0].partial, false);
+  });
+});
+
+describe("dividendGrowth", () => {
+  it("computes CAGR over spans ending at the last full year", () => {
+    const annual = annualDividends(splitAdjustDividends(quarterly()), [], 2024);
+    const growth = dividendGrowth(annual);
+    assert.deepEqual(growth.map((g) => g.years), [1, 3]);
+    assert.ok(Math.abs(growth[0].cagr) < 1e-9);  // 2022 → 2023 flat at $1.00
+    assert.ok(Math.abs(growth[1].cagr - (1 / 0.8) ** (1 / 3) + 1) < 1e-9);
+  });
+
+  it("is empty without a full year", () => {
+    assert.deepEqual(dividendGrowth([{ year: 2024, total: 1, payments: 1, payoutRatio: null, partial: true }]), []);
+  });
+});
+
+describe("trailingYield", () => {
+  it("sums the payouts of the last 365 days against each close", () => {
+    const payments = [
+      { date: d("2023-01-10"), amount: 1, rawAmount: 1 },
+      { date: d("2023-07-10"), amount: 1, rawAmount: 1 },
+    ];
+    const yields = trailingYield(closes("2023-01-01", 400, 50), payments);
+    assert.equal(yields[0].ttmDividend, 0);
+    assert.equal(yields.find((y) => y.timestamp === d("2023-01-10"))!.ttmDividend, 1);
+    assert.equal(yields.find((y) => y.timestamp === d("2023-08-01"))!.yield, 0.04);
+    // The January payout has rolled out a year later
+    assert.equal(yields.find((y) => y.timestamp === d("2024-01-10"))!.ttmDividend, 1);
+  });
+});
+
+describe("analyzeDividends", () => {
+  it("reports trailing figures as of now and ignores future ex-dates", () => {
+    const actions: CorporateAction[] = [
+      ...quarterly(),
+      { type: "dividend", date: d("2025-02-10"), amount: 0.3 },
+    ];
+    const now = d("2024-12-31");
+    const analysis = analyzeDividends(actions, closes("2024-01-01", 366, 50), [], now);
+    assert.equal(analysis.payments.length, 24);
+    assert.equal(analysis.paymentsPerYear, 4);
+    assert.equal(analysis.ttmDividend, 1);
+    assert.equal(analysis.currentYield, 0.02);
+    assert.equal(analysis.yields.length, 366);
+  });
+
+  it("handles a stock that never paid", () => {
+    const analysis = analyzeDividends([{ type: "split", date: d("2020-01-01"), ratio: 2 }], closes("2024-01-01", 10));
+    assert.equal(analysis.payments.length, 0);
+    assert.deepEqual(analysis.growth, []);
+    assert.equal(analysis.currentYield, 0);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeEarnings, reactionReturns } from "../../src/utils/earnings.js";
+import type { EarningsReport, OHLCV } from "../../src/data/types.js";
+
+const DAY = 86_400_000;
+const d = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+/** Weekday closes from `from`, close = 100 + session index */
+function sessions(from: string, count: number): OHLCV[] {
+  const candles: OHLCV[] = [];
+  for (let t = d(from); candles.length < count; t += DAY) {
+    const weekday = new Date(t).getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    const close = 100 + candles.length;
+    candles.push({ timestamp: t, open: close, high: close, low: close, close, volume: 1 });
+  }
+  return candles;
+}
+
+const report = (date: string, epsActual: number | null, epsEstimate: number | null, extra: Partial<EarningsReport> = {}): EarningsReport => ({
+  date, epsActual, epsEstimate, revenueActual: null, revenueEstimate: null, ...extra,
+});
+
+describe("reactionReturns", () => {
+  // 2024-01-01 is a Monday: session i closes at 100 + i
+  const candles = sessions("2024-01-01", 40);
+
+  it("measures from the close before the report day to N sessions after it", () => {
+    // Wednesday 2024-01-10 is session 7; base is session 6 (106)
+    const [r1, r5, r20] = reactionReturns(candles, "2024-01-10");
+    assert.equal(r1, 108 / 106 - 1);
+    assert.equal(r5, 112 / 106 - 1);
+    assert.equal(r20, 127 / 106 - 1);
+  });
+
+  it("treats the next session as the report day for weekend reports", () => {
+    // Saturday 2024-01-13: Monday (session 10) is the first reaction session
+    const [r1] = reactionReturns(candles, "2024-01-13", [1]);
+    assert.equal(r1, 110 / 109 - 1);
+  });
+
+  it("is null when the horizon hasn't passed or there's no prior close", () => {
+    assert.deepEqual(reactionReturns(candles, "2024-02-20", [1, 5, 20]).map((r) => r === null), [false, true, true]);
+    assert.deepEqual(reactionReturns(candles, "2024-01-01", [1]), [null]);
+  });
+});
+
+describe("analyzeEarnings", () => {
+  const candles = sessions("2023-01-02", 300);
+  const history: EarningsReport[] = [
+    report("2024-01-25", null, 1.5, { revenueEstimate: 2e9 }),
+    report("2023-10-26", 1.4, 1.3, { revenueActual: 2.1e9, revenueEstimate: 2e9 }),
+    report("2023-07-27", 1.2, 1.25),
+    report("2023-04-27", 1.1, 1.1),
+    report("2023-02-02", 1.0, 0.9),
+  ];
+
+  it("joins surprises, outcomes and reactions oldest first", () => {
+    const analysis = analyzeEarnings(history, candles);
+    assert.deepEqual(analysis.reports.map((r) => r.date), ["2023-02-02", "2023-04-27", "2023-07-27", "2023-10-26"]);
+    assert.deepEqual(analysis.reports.map((r) => r.outcome), ["beat", "inline", "miss", "beat"]);
+    const last = analysis.reports[3];
+    assert.ok(Math.abs(last.epsSurprise! - 0.1 / 1.3) < 1e-12);
+    assert.ok(Math.abs(last.revenueSurprise! - 0.05) < 1e-12);
+    assert.equal(analysis.reports[0].revenueSurprise, null);
+    assert.ok(analysis.reports.every((r) => r.returns.every((v) => v !== null && v > 0)));
+  });
+
+  it("keeps the next unreported quarter as upcoming", () => {
+    const analysis = analyzeEarnings(history, candles);
+    assert.equal(analysis.upcoming?.date, "2024-01-25");
+  });
+
+  it("summarizes beat rate and drift by outcome", () => {
+    const analysis = analyzeEarnings(history, candles);
+    assert.equal(analysis.beatRate, 0.5);
+    assert.deepEqual(analysis.drift.map((g) => [g.outcome, g.count]), [["beat", 2], ["miss", 1], ["inline", 1]]);
+    const beats = analysis.drift[0];
+    const expected = (analysis.reports[0].returns[1]! + analysis.reports[3].returns[1]!) / 2;
+    assert.equal(beats.avgReturns[1], expected);
+    assert.deepEqual(beats.positiveShare, [1, 1, 1]);
+  });
+
+  it("compares EPS to the cent", () => {
+    const analysis = analyzeEarnings([report("2023-04-27", 1.62, 1.6235), report("2023-07-27", 1.62, 1.6149)], candles);
+    assert.deepEqual(analysis.reports.map((r) => r.outcome), ["inline", "beat"]);
+  });
+
+  it("leaves outcome empty without a consensus", () => {
+    const analysis = analyzeEarnings([report("2023-04-27", 1.1, null)], candles);
+    assert.equal(analysis.reports[0].outcome, null);
+    assert.equal(analysis.beatRate, null);
+    assert.deepEqual(analysis.drift, []);
+  });
+});
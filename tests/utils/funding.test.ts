@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeFunding } from "../../src/utils/funding.js";
+
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+/** Funding events `hours` apart with ±3ms settlement jitter */
+function events(rates: number[], hours: number = 8) {
+  return rates.map((fundingRate, i) => ({ timestamp: T0 + i * hours * HOUR + (i % 2 ? 3 : -2), fundingRate }));
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+describe("analyzeFunding", () => {
+  it("annualizes by the settlement interval and accumulates rates", () => {
+    const { points, stats } = analyzeFunding(events([0.0001, 0.0002, -0.0001, 0.0001]));
+
+    assert.equal(stats!.intervalHours, 8);
+    assert.ok(close(points[0].annualized, 0.0001 * 3 * 365), "3 settlements a day");
+    assert.deepEqual(points.map((p) => Math.round(p.cumulative * 1e6)), [100, 300, 200, 300]);
+    assert.ok(close(stats!.cumulative, 0.0003));
+    assert.ok(close(stats!.mean, 0.000075));
+  });
+
+  it("finds extremes and ranks the current rate in its history", () => {
+    const { stats } = analyzeFunding(events([0.0001, 0.0005, -0.0003, 0.0002, 0.0001]));
+
+    assert.equal(stats!.max.rate, 0.0005);
+    assert.equal(stats!.min.rate, -0.0003);
+    assert.equal(stats!.current, 0.0001);
+    assert.equal(stats!.currentPercentile, 60, "3 of 5 events at or below 0.01%");
+    assert.equal(stats!.positiveShare, 0.8);
+  });
+
+  it("annualizes each event by its own gap when the interval changes", () => {
+    const rates = [
+      ...events([0.0001, 0.0001, 0.0001]),
+      // Switched to 4h funding after the third settlement
+      { timestamp: T0 + 20 * HOUR, fundingRate: 0.0001 },
+      { timestamp: T0 + 24 * HOUR, fundingRate: 0.0001 },
+    ];
+    const { points } = analyzeFunding(rates);
+
+    assert.equal(points[3].intervalHours, 4);
+    assert.ok(close(points[4].annualized, 2 * points[1].annualized), "twice the settlements, twice the carry");
+  });
+
+  it("handles empty and single-event histories", () => {
+    assert.deepEqual(analyzeFunding([]), { points: [], stats: null });
+    const { stats } = analyzeFunding(events([0.0001]));
+    assert.equal(stats!.intervalHours, 8, "defaults to 8h");
+    assert.equal(stats!.currentPercentile, 100);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { httpFetch, parseRetryAfter, getRateLimit, resetRateLimits } from "../../src/utils/http.js";
+
+/** Path → handler returning [status, body, headers?, delayMs?] for the nth request (0-based) */
+type Script = (n: number) => [number, string, Record<string, string>?, number?];
+
+let server: Server;
+let base: string;
+const scripts = new Map<string, Script>();
+const hits = new Map<string, number[]>();
+
+before(async () => {
+  server = createServer((req, res) => {
+    const path = req.url!.split("?")[0];
+    const times = hits.get(path) ?? [];
+    times.push(Date.now());
+    hits.set(path, times);
+    const [status, body, headers = {}, delay = 0] = (scripts.get(path) ?? (() => [404, "no script"]))(times.length - 1);
+    setTimeout(() => {
+      res.writeHead(status, { "Content-Type": "text/plain", ...headers });
+      res.end(body);
+    }, delay);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  delete process.env.GAINLAB_RATE_LIMITS;
+  resetRateLimits();
+});
+
+beforeEach(() => {
+  scripts.clear();
+  hits.clear();
+});
+
+describe("httpFetch", () => {
+  it("retries 5xx with backoff and returns the eventual success", async () => {
+    scripts.set("/flaky", (n) => (n < 2 ? [503, "busy"] : [200, "ok"]));
+    const response = await httpFetch(`${base}/flaky`, { backoffMs: 10 });
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), "ok");
+    assert.equal(hits.get("/flaky")!.length, 3);
+  });
+
+  it("returns the last response once retries are exhausted, without retrying 4xx", async () => {
+    scripts.set("/down", () => [502, "bad gateway"]);
+    scripts.set("/missing", () => [401, "Unauthorized"]);
+    assert.equal((await httpFetch(`${base}/down`, { retries: 2, backoffMs: 1 })).status, 502);
+    assert.equal(hits.get("/down")!.length, 3);
+    assert.equal((await httpFetch(`${base}/missing`, { backoffMs: 1 })).status, 401);
+    assert.equal(hits.get("/missing")!.length, 1);
+  });
+
+  it("waits for Retry-After on 429", async () => {
+    scripts.set("/limited", (n) => (n === 0 ? [429, "slow down", { "Retry-After": "1" }] : [200, "ok"]));
+    const response = await httpFetch(`${base}/limited`, { backoffMs: 1 });
+    assert.equal(response.status, 200);
+    const [first, second] = hits.get("/limited")!;
+    assert.ok(second - first >= 950, `retried after ${second - first}ms`);
+  });
+
+  it("gives up on Retry-After waits longer than a minute", async () => {
+    scripts.set("/banned", () => [429, "banned", { "Retry-After": "3600" }]);
+    const response = await httpFetch(`${base}/banned`, { backoffMs: 1 });
+    assert.equal(response.status, 429);
+    assert.equal(hits.get("/banned")!.length, 1);
+  });
+
+  it("times out slow attempts and reports the host without the query string", async () => {
+    scripts.set("/slow", () => [200, "late", {}, 300]);
+    await assert.rejects(
+      () => httpFetch(`${base}/slow?apikey=secret`, { timeoutMs: 50, retries: 1, backoffMs: 1 }),
+      (err: Error) => {
+        assert.match(err.message, /127\.0\.0\.1\/slow failed after 2 attempts: timed out after 50ms/);
+        assert.ok(!err.message.includes("secret"));
+        return true;
+      }
+    );
+    assert.equal(hits.get("/slow")!.length, 2);
+  });
+
+  it("shares one upstream request between identical in-flight GETs", async () => {
+    scripts.set("/bars", () => [200, "[1,2,3]", {}, 50]);
+    const responses = await Promise.all([1, 2, 3].map(() => httpFetch(`${base}/bars?symbol=X`)));
+    assert.equal(hits.get("/bars")!.length, 1);
+    for (const r of responses) assert.equal(await r.text(), "[1,2,3]", "each caller can read the body");
+
+    await httpFetch(`${base}/bars?symbol=X`);
+    assert.equal(hits.get("/bars")!.length, 2, "finished requests are not reused");
+  });
+
+  it("paces requests with the host's token bucket", async () => {
+    // 120/min = 2/s with a 10-request burst
+    process.env.GAINLAB_RATE_LIMITS = "127.0.0.1=120";
+    resetRateLimits();
+    scripts.set("/paced", () => [200, "ok"]);
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 11 }, (_, i) => httpFetch(`${base}/paced?i=${i}`)));
+    assert.ok(Date.now() - started >= 450, "the 11th request waits for a refill");
+    delete process.env.GAINLAB_RATE_LIMITS;
+    resetRateLimits();
+  });
+});
+
+describe("http helpers", () => {
+  it("parses Retry-After seconds and HTTP dates", () => {
+    assert.equal(parseRetryAfter("2"), 2000);
+    assert.equal(parseRetryAfter("Wed, 21 Oct 2015 07:28:10 GMT", Date.UTC(2015, 9, 21, 7, 28, 0)), 10_000);
+    assert.equal(parseRetryAfter(null), null);
+    assert.equal(parseRetryAfter("soon"), null);
+  });
+
+  it("resolves per-host limits by suffix with env overrides", () => {
+    assert.equal(getRateLimit("financialmodelingprep.com"), 300);
+    assert.equal(getRateLimit("eodhd.com"), 1000);
+    assert.equal(getRateLimit("example.org"), null);
+    process.env.GAINLAB_RATE_LIMITS = "financialmodelingprep.com=750, example.org=60";
+    assert.equal(getRateLimit("financialmodelingprep.com"), 750);
+    assert.equal(getRateLimit("api.example.org"), 60);
+    delete process.env.GAINLAB_RATE_LIMITS;
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { cumulativeDepth, findWalls, estimateSlippage, analyzeOrderBook } from "../../src/utils/orderbook.js";
+import type { OrderBook, OrderBookLevel } from "../../src/data/crypto.js";
+
+const levels = (pairs: [number, number][]): OrderBookLevel[] => pairs.map(([price, quantity]) => ({ price, quantity }));
+
+function book(bids: [number, number][], asks: [number, number][]): OrderBook {
+  return { symbol: "BTCUSDT", bids: levels(bids), asks: levels(asks), lastUpdateId: 1, timestamp: 0 };
+}
+
+describe("cumulativeDepth", () => {
+  it("accumulates quantity and notional from the best price out", () => {
+    const depth = cumulativeDepth(levels([[100, 1], [99, 2], [98, 3]]));
+    assert.deepEqual(depth.map((p) => p.cumulative), [1, 3, 6]);
+    assert.deepEqual(depth.map((p) => p.cumulativeNotional), [100, 298, 592]);
+  });
+});
+
+describe("findWalls", () => {
+  it("flags levels far above the median size, largest notional first", () => {
+    const walls = findWalls(levels([[99, 1], [98, 1], [97, 10], [96, 1], [95, 6], [94, 1]]), "bid", 100, 5);
+    assert.deepEqual(walls.map((w) => w.price), [97, 95]);
+    assert.equal(walls[0].multiple, 10);
+    assert.equal(walls[0].distance, -0.03);
+    assert.equal(walls[0].side, "bid");
+  });
+
+  it("keeps at most three walls per side", () => {
+    const side = levels([[101, 1], [102, 1], [103, 1], [104, 1], [105, 1], [106, 9], [107, 8], [108, 7], [109, 6]]);
+    assert.deepEqual(findWalls(side, "ask", 100, 5).map((w) => w.price), [106, 107, 108]);
+  });
+
+  it("finds nothing on a uniform book", () => {
+    assert.deepEqual(findWalls(levels([[99, 2], [98, 2], [97, 2]]), "bid", 100, 2), []);
+  });
+});
+
+describe("estimateSlippage", () => {
+  it("takes the last level partially", () => {
+    const s = estimateSlippage(levels([[101, 1], [102, 1], [103, 10]]), "buy", 408, 100);
+    assert.equal(s.levels, 3);
+    assert.equal(s.worstPrice, 103);
+    assert.equal(s.filledNotional, 408);
+    assert.equal(s.averagePrice, 408 / (1 + 1 + 205 / 103));
+    assert.ok(s.slippage! > 0.01 && s.slippage! < 0.03);
+    assert.equal(s.complete, true);
+  });
+
+  it("measures sell slippage below the mid as a positive cost", () => {
+    const s = estimateSlippage(levels([[99, 10]]), "sell", 495, 100);
+    assert.equal(s.averagePrice, 99);
+    assert.equal(s.slippage, 0.01);
+  });
+
+  it("reports an incomplete fill when the book runs out", () => {
+    const s = estimateSlippage(levels([[101, 1]]), "buy", 1000, 100);
+    assert.equal(s.complete, false);
+    assert.equal(s.filledNotional, 101);
+  });
+});
+
+describe("analyzeOrderBook", () => {
+  it("computes spread and imbalance within the range only", () => {
+    const a = analyzeOrderBook(
+      book([[99.9, 3], [99.5, 3], [90, 100]], [[100.1, 1], [100.5, 1], [110, 100]]),
+      { notional: 50, range: 0.01 }
+    )!;
+    assert.equal(a.mid, 100);
+    assert.ok(Math.abs(a.spreadBps - 20) < 1e-9);
+    assert.equal(a.bids.length, 2);
+    assert.equal(a.asks.length, 2);
+    assert.ok(a.imbalance > 0.49 && a.imbalance < 0.51);
+    assert.deepEqual(a.walls, []);
+  });
+
+  it("walks the whole book for slippage", () => {
+    const a = analyzeOrderBook(book([[99, 1]], [[102, 1], [150, 10]]), { notional: 1000, range: 0.01 })!;
+    assert.equal(a.asks.length, 0);
+    assert.equal(a.buy.worstPrice, 150);
+    assert.equal(a.buy.complete, true);
+    assert.equal(a.sell.complete, false);
+  });
+
+  it("returns null when a side is empty", () => {
+    assert.equal(analyzeOrderBook(book([[99, 1]], []), { notional: 100 }), null);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateVolumeDelta,
+  buildFootprint,
+  footprintTickSize,
+  summarizeOrderFlow,
+  coveredFrom,
+} from "../../src/utils/orderflow.js";
+import type { OHLCV } from "../../src/data/types.js";
+import type { AggTrade } from "../../src/data/crypto.js";
+
+const MIN = 60_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+function candles(closes: number[]): OHLCV[] {
+  return closes.map((close, i) => ({
+    timestamp: T0 + i * MIN, open: i === 0 ? close : closes[i - 1], high: close + 1, low: close - 1, close, volume: 1,
+  }));
+}
+
+let nextId = 0;
+function trade(minute: number, price: number, quantity: number, side: "buy" | "sell"): AggTrade {
+  return { id: nextId++, timestamp: T0 + minute * MIN, price, quantity, side };
+}
+
+describe("calculateVolumeDelta", () => {
+  it("splits volume by aggressor per bar and accumulates CVD", () => {
+    const trades = [
+      trade(0, 100, 3, "buy"), trade(0.5, 100, 1, "sell"),
+      trade(1.2, 101, 2, "sell"),
+      trade(2, 102, 4, "buy"), trade(5, 102, 1, "buy"),  // last bar is open-ended
+    ];
+    const delta = calculateVolumeDelta(candles([100, 101, 102]), trades);
+    assert.deepEqual(delta.map((d) => d!.delta), [2, -2, 5]);
+    assert.deepEqual(delta.map((d) => d!.cvd), [2, 0, 5]);
+    assert.equal(delta[0]!.buyVolume, 3);
+    assert.equal(delta[1]!.sellVolume, 2);
+  });
+
+  it("ignores trades before the first bar and blanks bars opening before `from`", () => {
+    const trades = [trade(-1, 99, 5, "sell"), trade(1.5, 100, 1, "sell"), trade(2.1, 100, 2, "buy")];
+    const delta = calculateVolumeDelta(candles([100, 100, 100]), trades, T0 + 1.5 * MIN);
+    assert.deepEqual(delta.map((d) => d?.cvd ?? null), [null, null, 2]);
+  });
+});
+
+describe("coveredFrom", () => {
+  it("is the first trade only when the window was cut short", () => {
+    const trades = [trade(3, 100, 1, "buy")];
+    assert.equal(coveredFrom({ trades, complete: true }), -Infinity);
+    assert.equal(coveredFrom({ trades, complete: false }), T0 + 3 * MIN);
+  });
+});
+
+describe("footprintTickSize", () => {
+  it("rounds the median range / rows to a 1-2-5 step", () => {
+    assert.equal(footprintTickSize(candles([100, 101, 102])), 0.2, "2 / 12 ≈ 0.167 → 0.2");
+    assert.equal(footprintTickSize(candles([100]), 4), 0.5);
+  });
+});
+
+describe("buildFootprint", () => {
+  it("buckets bid × ask volume per tick with the POC and bar delta", () => {
+    const trades = [
+      trade(0, 100.04, 1, "sell"), trade(0.1, 100.06, 2, "buy"), trade(0.2, 100.1, 3, "buy"),
+      trade(0.3, 100.12, 1, "sell"), trade(0.4, 100.19, 4, "buy"),
+    ];
+    const [bar] = buildFootprint(candles([100]), trades, 0.1);
+    assert.deepEqual(bar.levels, [
+      { price: 100, bidVolume: 1, askVolume: 2, delta: 1 },
+      { price: 100.1, bidVolume: 1, askVolume: 7, delta: 6 },
+    ]);
+    assert.equal(bar.poc, 100.1);
+    assert.equal(bar.delta, 7);
+  });
+
+  it("leaves bars without trades, or before `from`, empty", () => {
+    const bars = buildFootprint(candles([100, 100, 100]), [trade(0, 100, 1, "buy"), trade(2, 100, 1, "buy")], 1, T0 + MIN);
+    assert.deepEqual(bars.map((b) => b.levels.length), [0, 0, 1]);
+    assert.equal(bars[1].poc, null);
+  });
+});
+
+describe("summarizeOrderFlow", () => {
+  it("flags price rising on net selling as a bearish divergence", () => {
+    const data = candles([100, 101, 103]);
+    const summary = summarizeOrderFlow(data, calculateVolumeDelta(data, [trade(0, 100, 1, "buy"), trade(1, 101, 4, "sell")]))!;
+    assert.equal(summary.delta, -3);
+    assert.equal(summary.priceChange, 0.03);
+    assert.equal(summary.divergence, "bearish");
+  });
+
+  it("measures price from the first covered bar and is null without coverage", () => {
+    const data = candles([100, 90, 99]);
+    const summary = summarizeOrderFlow(data, calculateVolumeDelta(data, [trade(1, 90, 2, "buy")], T0 + MIN))!;
+    assert.equal(summary.priceChange, (99 - 100) / 100, "bar 1 opens at the previous close");
+    assert.equal(summary.divergence, "bullish");
+    assert.equal(summarizeOrderFlow(data, [null, null, null]), null);
+  });
+});
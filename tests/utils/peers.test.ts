@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  comparePeers,
+  formatPeerRelative,
+  median,
+  peerMetricValues,
+  percentileScore,
+  pickPeers,
+  sortPeerRows,
+} from "../../src/utils/peers.js";
+import type { FundamentalData } from "../../src/data/types.js";
+import type { ScreenerItem } from "../../src/data/screener.js";
+
+const statement = (period: string, metrics: Record<string, number>): FundamentalData => ({ period, metrics });
+
+const company = (code: string, industry: string, sector: string, marketCap: number): ScreenerItem => ({
+  code, name: code, price: 100, change1d: 0, marketCap, sector, industry,
+});
+
+describe("percentileScore", () => {
+  it("ranks within the group, ties counting half", () => {
+    assert.equal(percentileScore(4, [1, 2, 3, 4], true), 100);
+    assert.equal(percentileScore(1, [1, 2, 3, 4], true), 0);
+    assert.equal(percentileScore(2, [1, 2, 2, 4], true), 50);
+  });
+
+  it("flips when lower is better and is neutral alone", () => {
+    assert.equal(percentileScore(1, [1, 2, 3], false), 100);
+    assert.equal(percentileScore(7, [7], true), 50);
+  });
+});
+
+describe("peerMetricValues", () => {
+  it("computes growth and margins from statements, ratios from key metrics", () => {
+    const values = peerMetricValues(
+      [
+        statement("2025", { totalRevenue: 110, grossProfit: 44, operatingIncome: 22, netIncome: 11 }),
+        statement("2024", { totalRevenue: 100 }),
+      ],
+      statement("latest", { peRatio: 25, pbRatio: -3, evToEbitda: 15, returnOnEquity: 0.2 }),
+      statement("2025", { debtToEquity: 0.5 })
+    );
+    assert.ok(Math.abs(values.revenue_growth! - 0.1) < 1e-12);
+    assert.equal(values.gross_margin, 0.4);
+    assert.equal(values.net_margin, 0.1);
+    assert.equal(values.roe, 0.2);
+    assert.equal(values.debt_to_equity, 0.5);
+    assert.equal(values.pe_ratio, 25);
+    assert.equal(values.pb_ratio, null, "negative multiples don't count");
+  });
+
+  it("leaves growth empty with a single year", () => {
+    const values = peerMetricValues([statement("2025", { revenue: 100, netIncome: 5 })], undefined, undefined);
+    assert.equal(values.revenue_growth, null);
+    assert.equal(values.net_margin, 0.05);
+  });
+});
+
+describe("comparePeers", () => {
+  const companies = [
+    { symbol: "B", values: { net_margin: 0.1, pe_ratio: 20 } },
+    { symbol: "A", values: { net_margin: 0.3, pe_ratio: 30 } },
+    { symbol: "C", values: { net_margin: 0.2, pe_ratio: null } },
+  ];
+
+  it("puts the subject first and averages its scores", () => {
+    const result = comparePeers("A", companies, ["net_margin", "pe_ratio"]);
+    assert.deepEqual(result.rows.map((r) => r.symbol), ["A", "B", "C"]);
+    assert.deepEqual(result.rows[0].scores, { net_margin: 100, pe_ratio: 0 });
+    assert.equal(result.rows[0].score, 50);
+    assert.equal(result.rows[2].score, 50, "missing metrics are skipped, not zero");
+  });
+
+  it("takes the median over peers only", () => {
+    const result = comparePeers("A", companies, ["net_margin", "pe_ratio"]);
+    assert.ok(Math.abs(result.median.net_margin! - 0.15) < 1e-12);
+    assert.equal(result.median.pe_ratio, 20);
+    assert.ok(Math.abs(result.relative.net_margin! - 0.15) < 1e-12, "percentages compare in points");
+    assert.equal(result.relative.pe_ratio, 0.5, "multiples compare as a premium");
+  });
+});
+
+describe("sortPeerRows", () => {
+  it("orders best first with missing scores last", () => {
+    const result = comparePeers("A", [
+      { symbol: "A", values: { roe: 0.1 } },
+      { symbol: "B", values: { roe: null } },
+      { symbol: "C", values: { roe: 0.3 } },
+    ], ["roe"]);
+    assert.deepEqual(sortPeerRows(result.rows, "roe").map((r) => r.symbol), ["C", "A", "B"]);
+    assert.deepEqual(sortPeerRows(result.rows, "score").map((r) => r.symbol), ["C", "A", "B"]);
+  });
+});
+
+describe("pickPeers", () => {
+  it("prefers the same industry, then sector, nearest market cap first", () => {
+    const subject = company("AAPL", "Consumer Electronics", "Technology", 3e12);
+    const candidates = [
+      company("AAPL", "Consumer Electronics", "Technology", 3e12),
+      company("SONY", "Consumer Electronics", "Technology", 1e11),
+      company("MSFT", "Software", "Technology", 3.2e12),
+      company("ORCL", "Software", "Technology", 4e11),
+      company("MSFT", "Software", "Technology", 3.2e12),
+      company("JPM", "Banks", "Financial Services", 3e12),
+    ];
+    assert.deepEqual(pickPeers(subject, candidates, 3).map((c) => c.code), ["SONY", "MSFT", "ORCL"]);
+    assert.deepEqual(pickPeers(subject, candidates, 1).map((c) => c.code), ["SONY"]);
+  });
+});
+
+describe("median and formatPeerRelative", () => {
+  it("handles even groups and formats by unit", () => {
+    assert.equal(median([3, 1, 4, 2]), 2.5);
+    assert.equal(median([]), null);
+    assert.equal(formatPeerRelative("gross_margin", -0.084), "-8.4pp");
+    assert.equal(formatPeerRelative("pe_ratio", 0.12), "+12%");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { classifyRegime, summarizePositioning } from "../../src/utils/positioning.js";
+import type { OHLCV } from "../../src/data/types.js";
+
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+function candles(closes: number[]): OHLCV[] {
+  return closes.map((close, i) => ({
+    timestamp: T0 + i * HOUR, open: i === 0 ? close : closes[i - 1], high: close, low: close, close, volume: 1,
+  }));
+}
+
+function openInterest(contracts: number[]) {
+  return contracts.map((openInterest, i) => ({ timestamp: T0 + i * HOUR, openInterest, openInterestValue: openInterest * 100 }));
+}
+
+describe("classifyRegime", () => {
+  it("reads price vs open interest quadrants", () => {
+    assert.equal(classifyRegime(0.05, 0.1), "long_buildup");
+    assert.equal(classifyRegime(0.05, -0.1), "short_covering");
+    assert.equal(classifyRegime(-0.05, 0.1), "short_buildup");
+    assert.equal(classifyRegime(-0.05, -0.1), "long_liquidation");
+  });
+
+  it("treats small moves as flat", () => {
+    assert.equal(classifyRegime(0.001, 0.2), "neutral");
+    assert.equal(classifyRegime(0.05, 0.002), "spot_driven");
+  });
+});
+
+describe("summarizePositioning", () => {
+  it("summarizes changes, latest ratio and taker imbalance", () => {
+    const summary = summarizePositioning({
+      candles: candles([100, 102, 105, 110]),
+      openInterest: openInterest([1000, 1050, 1100, 1200]),
+      longShort: [1.2, 1.4].map((longShortRatio, i) => ({ timestamp: T0 + i * HOUR, longShortRatio, longShare: 0, shortShare: 0 })),
+      taker: [{ timestamp: T0, buyVolume: 30, sellVolume: 20, buySellRatio: 1.5 }, { timestamp: T0 + HOUR, buyVolume: 10, sellVolume: 20, buySellRatio: 0.5 }],
+    })!;
+
+    assert.ok(Math.abs(summary.priceChange - 0.1) < 1e-12);
+    assert.ok(Math.abs(summary.openInterestChange - 0.2) < 1e-12);
+    assert.equal(summary.openInterestValue, 120_000);
+    assert.equal(summary.longShortRatio, 1.4);
+    assert.ok(Math.abs(summary.longShortChange! - 0.2) < 1e-12);
+    assert.equal(summary.takerBuyRatio, 1, "40 bought vs 40 sold over the window");
+    assert.equal(summary.regime, "long_buildup");
+  });
+
+  it("measures price over the span open interest covers", () => {
+    // OI history starts two candles in; the earlier rally is ignored
+    const summary = summarizePositioning({
+      candles: candles([50, 100, 100, 90]),
+      openInterest: openInterest([1000, 900]).map((r) => ({ ...r, timestamp: r.timestamp + 2 * HOUR })),
+      longShort: [],
+      taker: [],
+    })!;
+
+    assert.ok(Math.abs(summary.priceChange - -0.1) < 1e-12, "from the open of the first covered candle");
+    assert.equal(summary.longShortRatio, null);
+    assert.equal(summary.takerBuyRatio, null);
+    assert.equal(summary.regime, "long_liquidation");
+  });
+
+  it("returns null without price or open interest", () => {
+    assert.equal(summarizePositioning({ candles: [], openInterest: openInterest([1]), longShort: [], taker: [] }), null);
+  });
+});
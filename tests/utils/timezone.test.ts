@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+  toWallClock,
+  parseZonedDateTime,
+  isValidTimeZone,
+} from "../../src/utils/timezone.js";
+
+describe("timezone helpers", () => {
+  it("computes fixed and DST-aware offsets", () => {
+    const jan = Date.UTC(2024, 0, 15, 12);
+    const jul = Date.UTC(2024, 6, 15, 12);
+    assert.equal(getTimeZoneOffset(jan, "Asia/Shanghai"), 8 * 3_600_000);
+    assert.equal(getTimeZoneOffset(jan, "America/New_York"), -5 * 3_600_000);
+    assert.equal(getTimeZoneOffset(jul, "America/New_York"), -4 * 3_600_000);
+  });
+
+  it("round-trips wall-clock time through UTC", () => {
+    const w = { year: 2024, month: 3, day: 15, hour: 9, minute: 30, second: 0 };
+    const ts = zonedTimeToUtc(w, "America/New_York");
+    assert.equal(ts, Date.UTC(2024, 2, 15, 13, 30));
+    assert.deepEqual(toWallClock(ts, "America/New_York"), w);
+  });
+
+  it("resolves the spring-forward gap forward", () => {
+    // 02:30 doesn't exist in New York on 2024-03-10
+    const ts = zonedTimeToUtc({ year: 2024, month: 3, day: 10, hour: 2, minute: 30, second: 0 }, "America/New_York");
+    const w = toWallClock(ts, "America/New_York");
+    assert.equal(w.hour, 3);
+  });
+
+  it("parses naive and offset datetime strings", () => {
+    assert.equal(parseZonedDateTime("2024-01-02 09:30", "Asia/Shanghai"), Date.UTC(2024, 0, 2, 1, 30));
+    assert.equal(parseZonedDateTime("2024-01-02T09:30:00+08:00", "UTC"), Date.UTC(2024, 0, 2, 1, 30));
+    assert.ok(Number.isNaN(parseZonedDateTime("yesterday", "UTC")));
+  });
+
+  it("validates timezone names", () => {
+    assert.equal(isValidTimeZone("Europe/London"), true);
+    assert.equal(isValidTimeZone("Mars/Olympus"), false);
+  });
+});
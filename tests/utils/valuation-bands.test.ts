@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeValuationBands, fundamentalSteps } from "../../src/utils/valuation-bands.js";
+import type { FundamentalData, OHLCV } from "../../src/data/types.js";
+
+const DAY = 86_400_000;
+const d = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+const QUARTER_ENDS = ["2023-03-31", "2023-06-30", "2023-09-30", "2023-12-31", "2024-03-31", "2024-06-30"];
+
+const quarter = (date: string, metrics: Record<string, number | null>): FundamentalData => ({ period: date.slice(0, 7), date, metrics });
+const income = QUARTER_ENDS.map((date) => quarter(date, { netIncome: 25, ebitda: 50, weightedAverageShares: 10 }));
+const balance = QUARTER_ENDS.map((date) => quarter(date, { totalEquity: 200, netDebt: 100, sharesOutstanding: 10 }));
+
+/** One close a day from `from`, constant price */
+function closes(from: string, days: number, close: number): OHLCV[] {
+  return Array.from({ length: days }, (_, i) => {
+    const timestamp = d(from) + i * DAY;
+    return { timestamp, open: close, high: close, low: close, close, volume: 1 };
+  });
+}
+
+describe("fundamentalSteps", () => {
+  it("sums four quarters for TTM and starts after the report lag", () => {
+    const steps = fundamentalSteps(income, balance, "pe");
+    assert.deepEqual(steps.map((s) => s.denominator), [null, null, null, 100, 100, 100]);
+    assert.equal(steps[3].knownFrom, d("2023-12-31") + 45 * DAY);
+    assert.equal(steps[3].shares, 10);
+  });
+
+  it("leaves TTM empty when a quarter is missing", () => {
+    const gappy = income.filter((q) => q.date !== "2023-09-30");
+    assert.deepEqual(fundamentalSteps(gappy, balance, "pe").map((s) => s.denominator), [null, null, null, null, null]);
+  });
+
+  it("uses book value for P/B and net debt only for EV", () => {
+    const pb = fundamentalSteps(income, balance, "pb");
+    assert.equal(pb[0].denominator, 200);
+    assert.equal(pb[0].netDebt, 0);
+    assert.equal(fundamentalSteps(income, balance, "ev_ebitda")[5].netDebt, 100);
+  });
+
+  it("drops non-positive denominators", () => {
+    const losses = income.map((q) => quarter(q.date!, { ...q.metrics, netIncome: -5 }));
+    assert.ok(fundamentalSteps(losses, balance, "pe").every((s) => s.denominator === null));
+  });
+});
+
+describe("analyzeValuationBands", () => {
+  it("prices the multiple and the channel from market cap", () => {
+    const steps = fundamentalSteps(income, balance, "ev_ebitda");
+    // Q4 2023 TTM is public from mid-February
+    const bands = analyzeValuationBands(closes("2024-02-20", 30, 50), steps, [], "ev_ebitda");
+    // EV = 50 × 10 + 100 = 600 over TTM EBITDA 200
+    assert.equal(bands.current, 3);
+    assert.equal(bands.std, 0);
+    const meanIndex = bands.levels.findIndex((l) => l.sigma === 0);
+    assert.equal(bands.points[0].bandPrices[meanIndex], 50);
+    assert.equal(bands.coverage, 1);
+  });
+
+  it("has no multiple before the first complete trailing year is public", () => {
+    const steps = fundamentalSteps(income, balance, "pe");
+    const bands = analyzeValuationBands(closes("2024-01-20", 40, 20), steps, [], "pe");
+    assert.equal(bands.points[0].multiple, null);
+    assert.equal(bands.points[39].multiple, 2);
+    assert.ok(bands.coverage < 1);
+  });
+
+  it("sets the bands at mean ± σ with the current percentile", () => {
+    const steps = fundamentalSteps(income, balance, "pe");
+    const candles = [...closes("2024-03-01", 10, 20), ...closes("2024-03-11", 10, 30)];
+    const bands = analyzeValuationBands(candles, steps, [], "pe");
+    assert.equal(bands.mean, 2.5);
+    assert.equal(bands.std, 0.5);
+    assert.deepEqual(bands.levels.map((l) => l.value), [1.5, 2, 2.5, 3, 3.5]);
+    assert.equal(bands.zScore, 1);
+    assert.equal(bands.percentile, 1);
+    // +1σ (3×) is a price of 30 on TTM earnings of 100 over 10 shares
+    assert.equal(bands.points[0].bandPrices[3], 30);
+  });
+
+  it("keeps the multiple continuous across a split", () => {
+    const steps = fundamentalSteps(income, balance, "pe");
+    const split = d("2024-03-11");
+    // 2-for-1: the raw close halves, reported shares haven't caught up yet
+    const candles = [...closes("2024-03-01", 10, 40), ...closes("2024-03-11", 10, 20)];
+    const bands = analyzeValuationBands(candles, steps, [{ type: "split", date: split, ratio: 2 }], "pe");
+    assert.ok(bands.points.every((p) => p.multiple === 4));
+    assert.ok(bands.points.every((p) => p.close === 20), "closes restated per share of today");
+    assert.equal(bands.points[0].bandPrices[2], 20);
+  });
+});